@@ -3,14 +3,18 @@
 const fs = require('fs');
 const path = require('path');
 
-// Copy template file directly to dist/ to avoid directory issues with sha256sum
-const srcTemplate = path.join(__dirname, '..', 'src', 'templates', 'report-template.html');
-const destTemplate = path.join(__dirname, '..', 'dist', 'report-template.html');
+// Copy template files directly to dist/ to avoid directory issues with sha256sum
+const templates = ['report-template.html', 'retro-template.html'];
 
-if (fs.existsSync(srcTemplate)) {
-  fs.copyFileSync(srcTemplate, destTemplate);
-  console.log('✅ Template copied to dist/');
-} else {
-  console.error('❌ Template file not found:', srcTemplate);
-  process.exit(1);
-}
\ No newline at end of file
+for (const template of templates) {
+  const srcTemplate = path.join(__dirname, '..', 'src', 'templates', template);
+  const destTemplate = path.join(__dirname, '..', 'dist', template);
+
+  if (fs.existsSync(srcTemplate)) {
+    fs.copyFileSync(srcTemplate, destTemplate);
+    console.log(`✅ Template copied to dist/: ${template}`);
+  } else {
+    console.error('❌ Template file not found:', srcTemplate);
+    process.exit(1);
+  }
+}
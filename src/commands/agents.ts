@@ -0,0 +1,101 @@
+import { Command } from 'commander';
+import {
+  installSubAgents,
+  removeSelectedSubAgents,
+  checkInstalledSubAgents,
+  getSubAgentStatus
+} from '../lib/sub-agents/manager';
+import { SubAgentName } from '../lib/sub-agents/constants';
+import { colors } from '../lib/ui/styles';
+import { DevArkError } from '../utils/errors';
+import { ScriptedOptions, runScripted, confirmAction } from './shared/scripted';
+
+export interface AgentsInstallOptions extends ScriptedOptions {
+  force?: boolean;  // Overwrite sub-agents that are already installed
+}
+
+/**
+ * Install missing sub-agents (all of them with --force)
+ */
+export async function installAgentsCommand(options: AgentsInstallOptions): Promise<{
+  installed: SubAgentName[];
+  skipped: SubAgentName[];
+  failed: SubAgentName[];
+}> {
+  if (options.force) {
+    const { installed } = await checkInstalledSubAgents();
+    if (installed.length > 0) {
+      await confirmAction(`Overwrite ${installed.length} installed sub-agents?`, options);
+    }
+  }
+
+  const result = await installSubAgents({ force: options.force });
+  if (result.failed.length > 0) {
+    throw new DevArkError(`Failed to install ${result.failed.join(', ')}`, 'AGENTS_INSTALL_FAILED');
+  }
+  return result;
+}
+
+/**
+ * Remove every installed DevArk sub-agent
+ */
+export async function uninstallAgentsCommand(options: ScriptedOptions): Promise<{ removed: SubAgentName[] }> {
+  const { installed } = await checkInstalledSubAgents();
+  if (installed.length === 0) {
+    return { removed: [] };
+  }
+
+  await confirmAction(`Remove ${installed.length} DevArk sub-agents from ~/.claude/agents?`, options);
+  const result = await removeSelectedSubAgents(installed);
+  if (result.failed.length > 0) {
+    throw new DevArkError(`Failed to remove ${result.failed.join(', ')}`, 'AGENTS_REMOVE_FAILED');
+  }
+  return { removed: result.removed };
+}
+
+/**
+ * Create the agents command
+ */
+export function createAgentsCommand(): Command {
+  const command = new Command('agents')
+    .description('Install or remove the Claude Code sub-agents used for local reports');
+
+  command
+    .command('install')
+    .description('Install missing sub-agents into ~/.claude/agents')
+    .option('-f, --force', 'Reinstall sub-agents that are already present')
+    .option('-y, --yes', 'Do not ask before overwriting with --force')
+    .option('--json', 'Print the result as JSON')
+    .action(async (options: AgentsInstallOptions) => {
+      await runScripted('agents install', options, () => installAgentsCommand(options), result => {
+        console.log(colors.success(`✓ Installed ${result.installed.length} sub-agent${result.installed.length === 1 ? '' : 's'}`));
+        if (result.skipped.length > 0) {
+          console.log(colors.subdued(`  ${result.skipped.length} already installed (use --force to reinstall)`));
+        }
+      });
+    });
+
+  command
+    .command('uninstall')
+    .description('Remove all DevArk sub-agents')
+    .option('-y, --yes', 'Do not ask for confirmation')
+    .option('--json', 'Print the result as JSON')
+    .action(async (options: ScriptedOptions) => {
+      await runScripted('agents uninstall', options, () => uninstallAgentsCommand(options), result => {
+        console.log(colors.success(`✓ Removed ${result.removed.length} sub-agent${result.removed.length === 1 ? '' : 's'}`));
+      });
+    });
+
+  command
+    .command('status')
+    .description('Show which sub-agents are installed')
+    .option('--json', 'Print the result as JSON')
+    .action(async (options: ScriptedOptions) => {
+      await runScripted('agents status', options, getSubAgentStatus, result => {
+        console.log(colors.info(`${result.installed.length}/${result.total} sub-agents installed in ${result.directory}`));
+        result.missing.forEach(agent => console.log(colors.muted(`  ✗ ${agent}`)));
+      });
+    });
+
+  return command;
+}
@@ -8,6 +8,8 @@ import { extractConversationContext, extractSessionMetadata, DEFAULT_CONVERSATIO
 import { getStatusLinePersonality } from '../lib/personality-manager';
 import { getLoadingMessage } from '../types/loading-state';
 import { SessionMetadata } from '../lib/prompt-analyzer';
+import { getAnalysisBackendSettings } from '../lib/config';
+import { scorePromptHeuristically } from '../lib/heuristic-scorer';
 
 /**
  * Read stdin with a timeout
@@ -57,8 +59,11 @@ export function createAnalyzePromptCommand(): Command {
     .option('--stdin', 'Read input from stdin (auto-detected for hooks)', false)
     .option('--background-mode', 'Background processing mode (internal use)', false)
     .option('--context <text>', 'Conversation context for analysis')
+    .option('--project-path <path>', 'Project directory the prompt was written in')
+    .option('--hook-trigger <type>', 'Hook that triggered this command (userpromptsubmit)')
+    .option('--hook-version <version>', 'Hook version (for tracking hook updates)')
     .action(async (options) => {
-      let { sessionId, prompt } = options;
+      let { sessionId, prompt, projectPath } = options;
       const { context: providedContext } = options;
       const { timeout, verbose, silent, backgroundMode } = options;
       let transcriptPath: string | undefined;
@@ -86,6 +91,7 @@ export function createAnalyzePromptCommand(): Command {
               prompt = hookData.prompt || prompt;
               sessionId = hookData.session_id || sessionId;
               transcriptPath = hookData.transcript_path;
+              projectPath = hookData.cwd || projectPath;
               
               logger.debug('Received hook input via stdin:', {
                 sessionId: hookData.session_id,
@@ -185,8 +191,11 @@ export function createAnalyzePromptCommand(): Command {
           console.log(colors.muted('Analyzing prompt quality...'));
         }
 
-        // In silent mode (hook), spawn background process and exit immediately
-        if (silent && sessionId) {
+        const analysisMode = getAnalysisBackendSettings().mode || 'llm';
+
+        // In silent mode (hook), spawn background process and exit immediately.
+        // Heuristic scoring takes milliseconds, so it runs inline instead.
+        if (silent && sessionId && analysisMode !== 'heuristic') {
           logger.debug('Hook mode detected - spawning background analysis');
           
           // Import spawn for background processing
@@ -201,13 +210,16 @@ export function createAnalyzePromptCommand(): Command {
           const pendingPath = path.join(homeDir, '.devark', 'analyzed-prompts', `${sessionId}.json`);
           const personality = getStatusLinePersonality();
           const customName = personality.personality === 'custom' ? personality.customPersonality?.name : undefined;
-          const pendingState = {
-            status: 'loading',  // Must be 'loading' for statusline to recognize it
-            timestamp: new Date().toISOString(),
-            sessionId,
-            personality: personality.personality,
-            message: getLoadingMessage(personality.personality, customName)
-          };
+          // Hybrid mode shows the rule-based score until the LLM result replaces it
+          const pendingState = analysisMode === 'hybrid'
+            ? scorePromptHeuristically(prompt, sessionMetadata, sessionId)
+            : {
+              status: 'loading',  // Must be 'loading' for statusline to recognize it
+              timestamp: new Date().toISOString(),
+              sessionId,
+              personality: personality.personality,
+              message: getLoadingMessage(personality.personality, customName)
+            };
           
           await fs.writeFile(pendingPath, JSON.stringify(pendingState, null, 2)).catch(() => {});
           logger.debug('Written loading state, spawning background process');
@@ -228,6 +240,9 @@ export function createAnalyzePromptCommand(): Command {
           if (conversationContext) {
             backgroundArgs.push('--context', conversationContext);
           }
+          if (projectPath) {
+            backgroundArgs.push('--project-path', projectPath);
+          }
           
           // Spawn detached background process
           const child = spawn('node', backgroundArgs, {
@@ -249,7 +264,8 @@ export function createAnalyzePromptCommand(): Command {
           timeout: parseInt(timeout),
           verbose,
           conversationContext,
-          sessionMetadata
+          sessionMetadata,
+          projectPath
         });
 
         const duration = Date.now() - startTime;
@@ -0,0 +1,160 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { promises as fs, existsSync } from 'fs';
+import path from 'path';
+import {
+  createBackupPayload,
+  encryptBackup,
+  decryptBackup,
+  restoreBackup,
+  validatePassphrase,
+  BackupImportResult
+} from '../lib/backup';
+import { colors } from '../lib/ui/styles';
+import { DevArkError } from '../utils/errors';
+import { ScriptedOptions, runScripted, confirmAction } from './shared/scripted';
+
+// Read instead of prompting, for scripts and CI
+const PASSPHRASE_ENV = 'DEVARK_BACKUP_PASSPHRASE';
+
+export interface BackupImportOptions extends ScriptedOptions {
+  hooks?: boolean;  // false with --no-hooks
+}
+
+export interface BackupExportResult {
+  file: string;
+  createdAt: string;
+  projects: number;         // Projects with sync data
+  includesToken: boolean;
+}
+
+/**
+ * Passphrase from DEVARK_BACKUP_PASSPHRASE, or asked for (twice on export)
+ */
+async function getPassphrase(options: ScriptedOptions, confirm: boolean): Promise<string> {
+  const fromEnv = process.env[PASSPHRASE_ENV];
+  if (fromEnv) {
+    validatePassphrase(fromEnv);
+    return fromEnv;
+  }
+
+  if (options.json || !process.stdin.isTTY) {
+    throw new DevArkError(`No passphrase. Set ${PASSPHRASE_ENV} when running without a terminal`, 'INVALID_INPUT');
+  }
+
+  const { passphrase } = await inquirer.prompt([{
+    type: 'password',
+    name: 'passphrase',
+    message: 'Backup passphrase:',
+    mask: '*',
+    validate: (input: string) => {
+      try {
+        validatePassphrase(input);
+        return true;
+      } catch (error) {
+        return (error as Error).message;
+      }
+    }
+  }]);
+
+  if (confirm) {
+    const { repeated } = await inquirer.prompt([
+      { type: 'password', name: 'repeated', message: 'Repeat the passphrase:', mask: '*' }
+    ]);
+    if (repeated !== passphrase) {
+      throw new DevArkError('The passphrases do not match', 'INVALID_INPUT');
+    }
+  }
+  return passphrase;
+}
+
+function defaultBackupFile(): string {
+  return `devark-backup-${new Date().toISOString().slice(0, 10)}.devark`;
+}
+
+export async function exportBackupCommand(file: string | undefined, options: ScriptedOptions): Promise<BackupExportResult> {
+  const target = path.resolve(file || defaultBackupFile());
+  if (existsSync(target)) {
+    await confirmAction(`${target} exists. Overwrite it?`, options);
+  }
+
+  const passphrase = await getPassphrase(options, true);
+  const payload = await createBackupPayload();
+  // Owner-only, like the rest of ~/.devark
+  await fs.writeFile(target, await encryptBackup(payload, passphrase), { mode: 0o600 });
+
+  return {
+    file: target,
+    createdAt: payload.createdAt,
+    projects: Object.keys(payload.config.projectSyncData || {}).length,
+    includesToken: !!payload.token
+  };
+}
+
+export async function importBackupCommand(file: string, options: BackupImportOptions): Promise<BackupImportResult> {
+  const source = path.resolve(file);
+  let content: string;
+  try {
+    content = await fs.readFile(source, 'utf-8');
+  } catch {
+    throw new DevArkError(`Backup file not found: ${source}`, 'FILE_NOT_FOUND');
+  }
+
+  const passphrase = await getPassphrase(options, false);
+  const payload = await decryptBackup(content, passphrase);
+
+  await confirmAction(
+    `Replace DevArk settings on this machine with the backup from ${payload.createdAt}${options.hooks === false ? '' : ' and reinstall its Claude hooks'}?`,
+    options
+  );
+  return restoreBackup(payload, { hooks: options.hooks });
+}
+
+function printImportResult(result: BackupImportResult): void {
+  console.log(colors.success(`✓ Restored ${result.restored.join(', ')}`));
+  if (result.hookMode === 'all') {
+    console.log(colors.success('✓ Reinstalled hooks for all projects'));
+  } else if (result.hookMode === 'selected') {
+    console.log(colors.success(`✓ Reinstalled hooks in ${result.projects.length} project${result.projects.length === 1 ? '' : 's'}`));
+  }
+  if (result.statusLine) {
+    console.log(colors.success('✓ Reinstalled the status line'));
+  }
+  if (result.skippedProjects.length > 0) {
+    console.log(colors.warning(`⚠ Not on this machine, hooks skipped: ${result.skippedProjects.join(', ')}`));
+  }
+  result.warnings.forEach(warning => console.log(colors.warning(`⚠ ${warning}`)));
+}
+
+/**
+ * Create the backup command
+ */
+export function createBackupCommand(): Command {
+  const command = new Command('backup')
+    .description('Move DevArk settings, sync state and hooks to another machine');
+
+  command
+    .command('export [file]')
+    .description('Write an encrypted backup (default devark-backup-<date>.devark)')
+    .option('-y, --yes', 'Overwrite an existing file without asking')
+    .option('--json', 'Print the result as JSON')
+    .action(async (file: string | undefined, options: ScriptedOptions) => {
+      await runScripted('backup export', options, () => exportBackupCommand(file, options), result => {
+        console.log(colors.success(`✓ Backup written to ${result.file}`));
+        console.log(colors.subdued(`  Sync data for ${result.projects} project${result.projects === 1 ? '' : 's'}${result.includesToken ? ', sign-in included' : ''}`));
+        console.log(colors.subdued('  Keep the passphrase: the backup can\'t be opened without it'));
+      });
+    });
+
+  command
+    .command('import <file>')
+    .description('Restore a backup and reinstall its Claude hooks')
+    .option('--no-hooks', 'Restore settings only, leave Claude hooks and the status line alone')
+    .option('-y, --yes', 'Do not ask for confirmation')
+    .option('--json', 'Print the result as JSON')
+    .action(async (file: string, options: BackupImportOptions) => {
+      await runScripted('backup import', options, () => importBackupCommand(file, options), printImportResult);
+    });
+
+  return command;
+}
@@ -7,10 +7,37 @@ import {
   getConfigPath,
   getCliPath,
   setCliPath,
+  setSessionSourceEnabled,
+  getAnalysisBackendSettings,
+  setAnalysisBackendSetting,
+  getModelPriceOverrides,
+  setModelPriceOverride,
+  getUsageBudgets,
+  setUsageBudget,
+  getWorkingCalendarSettings,
+  setWorkingCalendarSetting,
+  getMaxLineBytes,
+  setMaxLineBytes,
 } from '../lib/config';
+import { ANALYSIS_BACKEND_TYPES, ANALYSIS_MODES } from '../lib/analysis-backends/analysis-backend';
+import { AnalysisBackendType, AnalysisMode } from '../lib/analysis-backends/types';
+import { getSessionSource, getSessionSourceStatuses } from '../lib/readers/session-sources';
+import { SessionTool } from '../lib/readers/types';
+import { DEFAULT_MAX_LINE_BYTES } from '../lib/readers/jsonl-line-reader';
 import { showSuccess, showInfo } from '../lib/ui';
 import { DevArkError } from '../utils/errors';
 import { validateUrl } from '../lib/input-validator';
+import { ModelPrice, formatCost, formatTokenCount } from '../lib/token-usage';
+import { BUDGET_PERIODS, BudgetLimits, BudgetPeriod, BudgetSettings } from '../lib/usage-budget';
+import {
+  DEFAULT_WORKWEEK,
+  parseWorkweek,
+  formatWorkweek,
+  parseDateList,
+  readHolidayFile,
+} from '../lib/working-calendar';
+import path from 'path';
+import { homedir } from 'os';
 
 interface ConfigOptions {
   list?: boolean;
@@ -31,6 +58,8 @@ export async function config(options: ConfigOptions): Promise<void> {
     console.log(chalk.cyan('CLI Path:'), getCliPath());
     console.log(chalk.cyan('Token:'), allConfig.token ? '<redacted>' : chalk.gray('Not set'));
     console.log(chalk.cyan('Last Sync:'), allConfig.lastSync || chalk.gray('Never'));
+    console.log(chalk.cyan('Redaction Rules:'), allConfig.redactionRules?.length || chalk.gray('None'));
+    console.log(chalk.cyan('Max Line Bytes:'), getMaxLineBytes() ?? chalk.gray(`${DEFAULT_MAX_LINE_BYTES} (default)`));
     
     if (allConfig.preferences) {
       console.log(chalk.cyan('\nPreferences:'));
@@ -38,13 +67,63 @@ export async function config(options: ConfigOptions): Promise<void> {
         console.log(`  ${chalk.gray(key)}:`, value);
       });
     }
+
+    console.log(chalk.cyan('\nSession Sources:'));
+    getSessionSourceStatuses().forEach(source => {
+      const state = source.enabled ? chalk.green('enabled') : chalk.gray('disabled');
+      const detected = source.available ? '' : chalk.gray(' (not detected)');
+      console.log(`  ${chalk.gray(`sources.${source.tool}`)}:`, `${state}${detected}`);
+    });
+
+    const analysis = getAnalysisBackendSettings();
+    console.log(chalk.cyan('\nPrompt Analysis:'));
+    console.log(`  ${chalk.gray('analysis.mode')}:`, analysis.mode || 'llm');
+    console.log(`  ${chalk.gray('analysis.backend')}:`, analysis.backend || 'claude-sdk');
+    console.log(`  ${chalk.gray('analysis.model')}:`, analysis.model || chalk.gray('default'));
+    if (analysis.endpoint) {
+      console.log(`  ${chalk.gray('analysis.endpoint')}:`, analysis.endpoint);
+    }
+    if (analysis.timeoutMs) {
+      console.log(`  ${chalk.gray('analysis.timeoutMs')}:`, analysis.timeoutMs);
+    }
+    if (analysis.fallbackToClaude !== undefined) {
+      console.log(`  ${chalk.gray('analysis.fallbackToClaude')}:`, analysis.fallbackToClaude);
+    }
+
+    const prices = Object.entries(getModelPriceOverrides());
+    if (prices.length > 0) {
+      console.log(chalk.cyan('\nModel Prices (USD per million tokens):'));
+      prices.forEach(([model, price]) => {
+        console.log(
+          `  ${chalk.gray(`prices.${model}`)}:`,
+          `input ${price.input}, output ${price.output}, cache read ${price.cacheRead}, cache write ${price.cacheWrite}`
+        );
+      });
+    }
+
+    const budgets = getUsageBudgets();
+    const budgetLines = [
+      ...formatBudgetSettings('budget', budgets.global),
+      ...Object.entries(budgets.projects || {}).flatMap(([project, settings]) =>
+        formatBudgetSettings(`budget.${project}`, settings)),
+    ];
+    if (budgetLines.length > 0) {
+      console.log(chalk.cyan('\nUsage Budgets:'));
+      budgetLines.forEach(line => console.log(line));
+    }
+
+    const calendar = getWorkingCalendarSettings();
+    console.log(chalk.cyan('\nWorking Calendar:'));
+    console.log(`  ${chalk.gray('calendar.workweek')}:`, formatWorkweek(calendar.workweek || DEFAULT_WORKWEEK));
+    console.log(`  ${chalk.gray('calendar.holidays')}:`, calendar.holidaysFile || chalk.gray('None'));
+    console.log(`  ${chalk.gray('calendar.pto')}:`, calendar.pto?.length ? calendar.pto.join(', ') : chalk.gray('None'));
     
     return;
   }
   
   if (options.get) {
     // Get specific configuration value
-    const validKeys = ['apiUrl', 'token', 'lastSync', 'preferences'];
+    const validKeys = ['apiUrl', 'token', 'lastSync', 'preferences', 'sessionSources', 'maxLineBytes', 'redactionRules', 'analysisBackend', 'modelPrices', 'usageBudgets', 'workingCalendar'];
     
     if (!validKeys.includes(options.get)) {
       throw new DevArkError(
@@ -110,12 +189,191 @@ export async function config(options: ConfigOptions): Promise<void> {
         showSuccess(`CLI path set to: ${value}`);
         showInfo('Remember to reinstall hooks after changing the CLI path');
         break;
+
+      case 'maxLineBytes': {
+        if (value.toLowerCase() === 'default') {
+          setMaxLineBytes(undefined);
+          showSuccess(`Max line size reset to ${DEFAULT_MAX_LINE_BYTES} bytes`);
+          break;
+        }
+        const bytes = parseInt(value, 10);
+        if (isNaN(bytes) || bytes < 1024) {
+          throw new DevArkError(
+            'Invalid size. Use a number of bytes (at least 1024) or default',
+            'INVALID_VALUE'
+          );
+        }
+        setMaxLineBytes(bytes);
+        showSuccess(`Session lines above ${bytes} bytes will be skipped`);
+        break;
+      }
+
+      case 'analysis.mode':
+        if (!ANALYSIS_MODES.includes(value as AnalysisMode)) {
+          throw new DevArkError(
+            `Invalid analysis mode. Use: ${ANALYSIS_MODES.join(', ')}`,
+            'INVALID_VALUE'
+          );
+        }
+        setAnalysisBackendSetting('mode', value as AnalysisMode);
+        showSuccess(`Prompt analysis mode set to: ${value}`);
+        break;
+
+      case 'analysis.backend':
+        if (!ANALYSIS_BACKEND_TYPES.includes(value as AnalysisBackendType)) {
+          throw new DevArkError(
+            `Invalid analysis backend. Use: ${ANALYSIS_BACKEND_TYPES.join(' or ')}`,
+            'INVALID_VALUE'
+          );
+        }
+        setAnalysisBackendSetting('backend', value as AnalysisBackendType);
+        showSuccess(`Prompt analysis backend set to: ${value}`);
+        if (value !== 'claude-sdk' && !getAnalysisBackendSettings().endpoint) {
+          showInfo('Set the server URL with: devark config --set analysis.endpoint=<url>');
+        }
+        break;
+
+      case 'analysis.model':
+        setAnalysisBackendSetting('model', value);
+        showSuccess(`Prompt analysis model set to: ${value}`);
+        break;
+
+      case 'analysis.endpoint': {
+        const validatedUrl = validateUrl(value);
+        setAnalysisBackendSetting('endpoint', validatedUrl);
+        showSuccess(`Prompt analysis endpoint set to: ${validatedUrl}`);
+        break;
+      }
+
+      case 'analysis.timeoutMs': {
+        const timeoutMs = parseInt(value, 10);
+        if (isNaN(timeoutMs) || timeoutMs < 1000) {
+          throw new DevArkError(
+            'Invalid timeout. Use a number of milliseconds (at least 1000)',
+            'INVALID_VALUE'
+          );
+        }
+        setAnalysisBackendSetting('timeoutMs', timeoutMs);
+        showSuccess(`Prompt analysis timeout set to: ${timeoutMs}ms`);
+        break;
+      }
+
+      case 'analysis.fallbackToClaude':
+        if (!['true', 'false'].includes(value.toLowerCase())) {
+          throw new DevArkError(
+            'Invalid value. Use: true or false',
+            'INVALID_VALUE'
+          );
+        }
+        setAnalysisBackendSetting('fallbackToClaude', value.toLowerCase() === 'true');
+        showSuccess(`Fallback to Claude SDK ${value.toLowerCase() === 'true' ? 'enabled' : 'disabled'}`);
+        break;
         
-      default:
+      case 'calendar.workweek': {
+        if (value.toLowerCase() === 'default') {
+          setWorkingCalendarSetting('workweek', undefined);
+          showSuccess(`Workweek reset to ${formatWorkweek(DEFAULT_WORKWEEK)}`);
+          break;
+        }
+        const workweek = parseWorkweek(value);
+        setWorkingCalendarSetting('workweek', workweek);
+        showSuccess(`Workweek set to ${formatWorkweek(workweek)}`);
+        break;
+      }
+
+      case 'calendar.holidays': {
+        if (value.toLowerCase() === 'off') {
+          setWorkingCalendarSetting('holidaysFile', undefined);
+          showSuccess('Holiday list removed');
+          break;
+        }
+        const holidaysFile = path.resolve(value.replace(/^~(?=$|[\\/])/, homedir()));
+        const holidays = await readHolidayFile(holidaysFile);
+        setWorkingCalendarSetting('holidaysFile', holidaysFile);
+        showSuccess(`Holiday list set to ${holidaysFile} (${holidays.length} day${holidays.length === 1 ? '' : 's'})`);
+        break;
+      }
+
+      case 'calendar.pto': {
+        if (value.toLowerCase() === 'off') {
+          setWorkingCalendarSetting('pto', undefined);
+          showSuccess('Days off cleared');
+          break;
+        }
+        const pto = parseDateList(value);
+        setWorkingCalendarSetting('pto', pto);
+        showSuccess(`Days off set to ${pto.join(', ')}`);
+        break;
+      }
+
+      default: {
+        if (key.startsWith('sources.')) {
+          const source = getSessionSource(key.slice('sources.'.length) as SessionTool);
+          if (!source) {
+            const tools = getSessionSourceStatuses().map(s => s.tool).join(', ');
+            throw new DevArkError(
+              `Unknown session source. Available sources: ${tools}`,
+              'INVALID_CONFIG_KEY'
+            );
+          }
+          if (!['true', 'false'].includes(value.toLowerCase())) {
+            throw new DevArkError(
+              'Invalid value. Use: true or false',
+              'INVALID_VALUE'
+            );
+          }
+          const enabled = value.toLowerCase() === 'true';
+          setSessionSourceEnabled(source.tool, enabled);
+          showSuccess(`${source.displayName} sessions ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
+        if (key.startsWith('prices.')) {
+          const model = key.slice('prices.'.length);
+          if (!model) {
+            throw new DevArkError('Missing model name. Use: --set prices.<model>=<input>,<output>', 'INVALID_CONFIG_KEY');
+          }
+          if (value.toLowerCase() === 'default') {
+            setModelPriceOverride(model, null);
+            showSuccess(`Price for ${model} reset to the built-in table`);
+            break;
+          }
+          const price = parseModelPrice(value);
+          setModelPriceOverride(model, price);
+          showSuccess(
+            `Price for ${model} set to $${price.input} input, $${price.output} output, ` +
+            `$${price.cacheRead} cache read, $${price.cacheWrite} cache write per million tokens`
+          );
+          break;
+        }
+
+        if (key.startsWith('budget.')) {
+          const parts = key.slice('budget.'.length).split('.');
+          const period = parts.pop() as BudgetPeriod;
+          const project = parts.join('.') || null;
+          if (!BUDGET_PERIODS.includes(period)) {
+            throw new DevArkError(
+              'Invalid budget key. Use: budget.<daily|weekly> or budget.<project>.<daily|weekly>',
+              'INVALID_CONFIG_KEY'
+            );
+          }
+          const scope = project ? ` for ${project}` : '';
+          if (value.toLowerCase() === 'off') {
+            setUsageBudget(project, period, null);
+            showSuccess(`${period === 'daily' ? 'Daily' : 'Weekly'} budget${scope} removed`);
+            break;
+          }
+          const limits = parseBudgetLimit(value);
+          setUsageBudget(project, period, limits);
+          showSuccess(`${period === 'daily' ? 'Daily' : 'Weekly'} budget${scope} set to ${formatBudgetLimits(limits)}`);
+          break;
+        }
+
         throw new DevArkError(
-          `Cannot set '${key}'. Configurable keys: apiUrl, cliPath, preferences.colorScheme, preferences.verboseOutput`,
+          `Cannot set '${key}'. Configurable keys: apiUrl, cliPath, preferences.colorScheme, preferences.verboseOutput, sources.<tool>, analysis.<mode|backend|model|endpoint|timeoutMs|fallbackToClaude>, prices.<model>, budget.[<project>.]<daily|weekly>, calendar.<workweek|holidays|pto>`,
           'INVALID_CONFIG_KEY'
         );
+      }
     }
     
     return;
@@ -133,4 +391,64 @@ export async function config(options: ConfigOptions): Promise<void> {
   console.log('  devark config --set apiUrl=https://api.devark.ai');
   console.log('  devark config --set cliPath="/path/to/devark.js"');
   console.log('  devark config --set preferences.colorScheme=minimal');
-}
\ No newline at end of file
+  console.log('  devark config --set sources.cursor=false');
+  console.log('  devark config --set analysis.mode=hybrid');
+  console.log('  devark config --set analysis.backend=openai-compatible');
+  console.log('  devark config --set analysis.endpoint=http://localhost:11434/v1');
+  console.log('  devark config --set analysis.model=llama3.1');
+  console.log('  devark config --set prices.claude-sonnet-4=3,15,0.3,3.75');
+  console.log('  devark config --set budget.daily=5');
+  console.log('  devark config --set "budget.devark.weekly=20M tokens"');
+  console.log('  devark config --set calendar.workweek=sun-thu');
+  console.log('  devark config --set calendar.holidays=~/holidays.ics');
+  console.log('  devark config --set calendar.pto=2026-12-24..2026-12-31');
+}
+
+/**
+ * Parse "input,output[,cacheRead,cacheWrite]" in USD per million tokens.
+ * Cache prices default to the usual 0.1x (read) and 1.25x (write) of input.
+ */
+function parseModelPrice(value: string): ModelPrice {
+  const parts = value.split(',').map(part => Number(part.trim()));
+  if ((parts.length !== 2 && parts.length !== 4) || parts.some(part => isNaN(part) || part < 0)) {
+    throw new DevArkError(
+      'Invalid price. Use: <input>,<output>[,<cacheRead>,<cacheWrite>] in USD per million tokens, or "default"',
+      'INVALID_VALUE'
+    );
+  }
+
+  const [input, output, cacheRead = input * 0.1, cacheWrite = input * 1.25] = parts;
+  return { input, output, cacheRead, cacheWrite };
+}
+/**
+ * Parse a budget amount: "5" or "$5" is dollars, "2M tokens" or "500k tokens" is tokens
+ */
+function parseBudgetLimit(value: string): BudgetLimits {
+  const match = value.trim().toLowerCase().match(/^(\$)?\s*(\d+(?:\.\d+)?)\s*([km])?\s*(tokens?)?$/);
+  const amount = match ? Number(match[2]) * (match[3] === 'm' ? 1_000_000 : match[3] === 'k' ? 1_000 : 1) : NaN;
+  const isTokens = !!match?.[4];
+
+  if (!match || amount <= 0 || (match[1] && isTokens) || (match[3] && !isTokens)) {
+    throw new DevArkError(
+      'Invalid budget. Use a dollar amount (5 or $5), a token count (2M tokens), or "off"',
+      'INVALID_VALUE'
+    );
+  }
+
+  return isTokens ? { tokens: Math.round(amount) } : { usd: amount };
+}
+
+function formatBudgetLimits(limits: BudgetLimits): string {
+  return [
+    limits.usd !== undefined ? formatCost(limits.usd) : null,
+    limits.tokens !== undefined ? `${formatTokenCount(limits.tokens)} tokens` : null,
+  ].filter(Boolean).join(' and ');
+}
+
+function formatBudgetSettings(prefix: string, settings?: BudgetSettings): string[] {
+  return BUDGET_PERIODS.flatMap(period => {
+    const limits = settings?.[period];
+    const text = limits ? formatBudgetLimits(limits) : '';
+    return text ? [`  ${chalk.gray(`${prefix}.${period}`)}: ${text}`] : [];
+  });
+}
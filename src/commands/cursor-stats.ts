@@ -1,9 +1,27 @@
 import chalk from 'chalk';
-import { countCursorMessages } from '../lib/readers/cursor';
+import { countCursorMessages, CursorMessageCount } from '../lib/readers/cursor';
 import { createSpinner } from '../lib/ui';
 import { DevArkError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
+/**
+ * Cursor message counts for `cursor-stats --json`
+ */
+export interface CursorStatsData extends CursorMessageCount {
+  installed: boolean;  // false (with zero counts) when Cursor isn't on this machine
+}
+
+export async function getCursorStatsData(): Promise<CursorStatsData> {
+  try {
+    return { installed: true, ...(await countCursorMessages()) };
+  } catch (error) {
+    if (error instanceof DevArkError && error.code === 'CURSOR_NOT_FOUND') {
+      return { installed: false, conversationCount: 0, totalMessages: 0, userMessages: 0, assistantMessages: 0 };
+    }
+    throw error;
+  }
+}
+
 export async function cursorStats(): Promise<void> {
   const spinner = createSpinner('Fetching Cursor IDE stats...').start();
 
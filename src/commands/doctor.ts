@@ -0,0 +1,59 @@
+import { Command } from 'commander';
+import { runDoctor, DoctorReport, DoctorCheckResult } from '../lib/doctor';
+import { colors } from '../lib/ui/styles';
+import { ScriptedOptions, runScripted } from './shared/scripted';
+
+export interface DoctorOptions extends ScriptedOptions {
+  fix?: boolean;  // Apply the safe repairs
+}
+
+function printCheck(check: DoctorCheckResult): void {
+  const label = `${check.title}: ${check.message}`;
+  if (check.status === 'pass') {
+    console.log(colors.success(`  ✓ ${label}`));
+  } else if (check.status === 'warn') {
+    console.log(colors.warning(`  ⚠ ${label}`));
+  } else {
+    console.log(colors.error(`  ✗ ${label}`));
+  }
+
+  if (check.fixed) {
+    console.log(colors.success(`    Fixed: ${check.fixed}`));
+  } else if (check.fixError) {
+    console.log(colors.error(`    Fix failed: ${check.fixError}`));
+  } else if (check.fixable && check.status !== 'pass') {
+    console.log(colors.subdued('    Run "devark doctor --fix" to repair'));
+  } else if (check.hint && check.status !== 'pass') {
+    console.log(colors.subdued(`    ${check.hint}`));
+  }
+}
+
+function printReport(report: DoctorReport): void {
+  console.log(colors.info('\n🩺 DevArk Doctor\n'));
+  report.checks.forEach(printCheck);
+  console.log('');
+  console.log(colors.info(`${report.passed} passed, ${report.warnings} warnings, ${report.failures} failed`));
+}
+
+/**
+ * Create the doctor command
+ */
+export function createDoctorCommand(): Command {
+  return new Command('doctor')
+    .description('Check hooks, lock files, token and status line, and repair what is safe to repair')
+    .option('--fix', 'Apply safe repairs (stale locks, old hook CLI paths, unreadable token)')
+    .option('--json', 'Print every check as JSON')
+    .action(async (options: DoctorOptions) => {
+      let failed = false;
+      await runScripted('doctor', options, async () => {
+        const report = await runDoctor({ fix: options.fix });
+        failed = report.failures > 0;
+        return report;
+      }, printReport);
+
+      // Scripts can check the exit code; failed checks are not command errors
+      if (failed) {
+        process.exitCode = 1;
+      }
+    });
+}
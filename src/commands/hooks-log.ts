@@ -1,12 +1,36 @@
 import chalk from 'chalk';
-import { readHooksLog, getHooksLogPath, clearHooksLog } from '../lib/hook-utils';
+import { readHooksLog, readHooksLogLines, getHooksLogPath, clearHooksLog } from '../lib/hook-utils';
 import { showWarning, showSuccess, showInfo } from '../lib/ui';
 import { logger } from '../utils/logger';
+import { DevArkError } from '../utils/errors';
 import inquirer from 'inquirer';
 
-interface HooksLogOptions {
+export interface HooksLogOptions {
   clear?: boolean;
   lines?: string;
+  json?: boolean;
+}
+
+/**
+ * Hook log lines for `hooks-log --json`
+ */
+export interface HooksLogData {
+  logPath: string;
+  lines: number;      // Lines requested
+  entries: string[];  // Oldest first, [] when nothing was logged
+}
+
+export async function getHooksLogData(options: HooksLogOptions): Promise<HooksLogData> {
+  const lines = options.lines ? parseInt(options.lines, 10) : 50;
+  if (isNaN(lines) || lines < 1) {
+    throw new DevArkError('--lines must be a positive number', 'INVALID_INPUT');
+  }
+
+  return {
+    logPath: getHooksLogPath(),
+    lines,
+    entries: await readHooksLogLines(lines)
+  };
 }
 
 /**
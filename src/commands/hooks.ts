@@ -0,0 +1,248 @@
+import { Command } from 'commander';
+import { requireAuth } from '../lib/auth/token';
+import { getGlobalSettingsPath, getProjectLocalSettingsPath } from '../lib/claude-core';
+import { getHookMode, HookMode } from '../lib/claude-settings-reader';
+import {
+  getHooksStatus,
+  installSelectedHooks,
+  installSelectiveProjectHooks,
+  removeProjectHooks,
+  uninstallAllHooks,
+  HookEventType,
+  HookSelection,
+  HOOK_EVENTS,
+  HOOK_EVENT_TYPES
+} from '../lib/hooks/hooks-controller';
+import { loadTeamPolicy, isSyncModeAllowed } from '../lib/team-policy';
+import { colors } from '../lib/ui/styles';
+import { DevArkError } from '../utils/errors';
+import { ScriptedOptions, runScripted, confirmAction, findProjects, collectValues } from './shared/scripted';
+
+// Same defaults as the hooks menu: the per-prompt events are opt-in
+const DEFAULT_HOOKS: HookEventType[] = ['SessionStart', 'PreCompact', 'SessionEnd'];
+
+export interface HooksInstallOptions extends ScriptedOptions {
+  mode?: string;       // all | selected
+  project?: string[];  // Projects for --mode selected
+  hooks?: string;      // Comma-separated events or triggers
+}
+
+export interface HooksUninstallOptions extends ScriptedOptions {
+  project?: string[];  // Only these projects; all hooks everywhere when missing
+}
+
+export interface HooksInstallResult {
+  mode: 'all' | 'selected';
+  hooks: HookEventType[];
+  projects: string[];
+  settingsPaths: string[];
+}
+
+export interface HooksUninstallResult {
+  projects: string[];
+  removedCount?: number;
+}
+
+export interface HooksStatusResult {
+  mode: HookMode;
+  settingsPath: string;
+  hooks: Array<{ event: HookEventType; installed: boolean; version: string; timeout?: number; matcher?: string }>;
+  trackedProjects: string[];
+}
+
+/**
+ * Parse --hooks. Accepts event names (PreCompact) or triggers (precompact).
+ */
+export function parseHookList(value?: string): HookEventType[] {
+  if (!value) return DEFAULT_HOOKS;
+
+  const hooks: HookEventType[] = [];
+  for (const name of value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean)) {
+    const hook = HOOK_EVENT_TYPES.find(type => type.toLowerCase() === name || HOOK_EVENTS[type].trigger === name);
+    if (!hook) {
+      throw new DevArkError(`Unknown hook "${name}". Use: ${HOOK_EVENT_TYPES.join(', ')}`, 'INVALID_INPUT');
+    }
+    if (!hooks.includes(hook)) hooks.push(hook);
+  }
+
+  if (hooks.length === 0) {
+    throw new DevArkError('--hooks needs at least one hook', 'INVALID_INPUT');
+  }
+  return hooks;
+}
+
+function assertPolicyAllows(mode: HookMode): void {
+  const policy = loadTeamPolicy(process.cwd());
+  if (!isSyncModeAllowed(policy, mode)) {
+    throw new DevArkError(`${policy!.name || 'Team policy'} does not allow tracking mode "${mode}"`, 'POLICY_VIOLATION');
+  }
+}
+
+/**
+ * The controller carries on past a failing project and only logs it, which
+ * --json hides; fail the command so the exit code shows it
+ */
+function assertNoProjectFailures(failedCount: number, total: number, action: string): void {
+  if (failedCount > 0) {
+    throw new DevArkError(
+      `Could not ${action} ${failedCount} of ${total} project${total === 1 ? '' : 's'}`,
+      'HOOKS_UPDATE_FAILED'
+    );
+  }
+}
+
+/**
+ * Install hooks globally (--mode all) or into the local settings of the
+ * given projects (--mode selected). Hooks required by the team policy are
+ * always added.
+ */
+export async function installHooksCommand(options: HooksInstallOptions): Promise<HooksInstallResult> {
+  const projectNames = options.project || [];
+  const mode = options.mode || (projectNames.length > 0 ? 'selected' : 'all');
+  if (mode !== 'all' && mode !== 'selected') {
+    throw new DevArkError('--mode must be "all" or "selected"', 'INVALID_INPUT');
+  }
+  if (mode === 'selected' && projectNames.length === 0) {
+    throw new DevArkError('--mode selected needs at least one --project', 'INVALID_INPUT');
+  }
+  if (mode === 'all' && projectNames.length > 0) {
+    throw new DevArkError('--project only applies to --mode selected', 'INVALID_INPUT');
+  }
+
+  const requested = parseHookList(options.hooks);
+  assertPolicyAllows(mode);
+  await requireAuth();
+
+  const requiredHooks = loadTeamPolicy(process.cwd())?.requiredHooks || [];
+  const hooks = HOOK_EVENT_TYPES.filter(type => requested.includes(type) || requiredHooks.includes(type));
+  const selection = {} as HookSelection;
+  for (const type of HOOK_EVENT_TYPES) {
+    selection[HOOK_EVENTS[type].key] = hooks.includes(type);
+  }
+
+  if (mode === 'all') {
+    const settingsPath = getGlobalSettingsPath();
+    await confirmAction(`Install ${hooks.join(', ')} hooks for all projects in ${settingsPath}?`, options);
+    await installSelectedHooks(selection);
+    return { mode, hooks, projects: [], settingsPaths: [settingsPath] };
+  }
+
+  const projects = await findProjects(projectNames);
+  await confirmAction(`Install ${hooks.join(', ')} hooks for ${projects.map(p => p.name).join(', ')}?`, options);
+  const { failedCount } = await installSelectiveProjectHooks(projects.map(project => ({
+    path: project.claudePath,
+    name: project.name,
+    actualPath: project.actualPath,
+    sessionStart: selection.sessionStartHook,
+    preCompact: selection.preCompactHook,
+    sessionEnd: selection.sessionEndHook,
+    userPromptSubmit: selection.userPromptSubmitHook,
+    stop: selection.stopHook,
+    subagentStop: selection.subagentStopHook
+  })));
+  assertNoProjectFailures(failedCount, projects.length, 'install hooks in');
+
+  return {
+    mode,
+    hooks,
+    projects: projects.map(project => project.actualPath),
+    settingsPaths: projects.map(project => getProjectLocalSettingsPath(project.actualPath))
+  };
+}
+
+/**
+ * Remove DevArk hooks from the given projects, or from everywhere
+ */
+export async function uninstallHooksCommand(options: HooksUninstallOptions): Promise<HooksUninstallResult> {
+  const projectNames = options.project || [];
+
+  if (projectNames.length > 0) {
+    const projects = await findProjects(projectNames);
+    await confirmAction(`Remove DevArk hooks from ${projects.map(p => p.name).join(', ')}?`, options);
+    const { failedCount } = await removeProjectHooks(projects.map(project => ({
+      path: project.claudePath,
+      name: project.name,
+      actualPath: project.actualPath
+    })));
+    assertNoProjectFailures(failedCount, projects.length, 'remove hooks from');
+    return { projects: projects.map(project => project.actualPath) };
+  }
+
+  assertPolicyAllows('none');
+  await confirmAction('Remove all DevArk hooks from global and project settings?', options);
+  const { removedCount } = await uninstallAllHooks();
+  return { projects: [], removedCount };
+}
+
+/**
+ * Installed hooks and tracking mode
+ */
+export async function hooksStatusCommand(): Promise<HooksStatusResult> {
+  const status = await getHooksStatus();
+  return {
+    mode: await getHookMode(),
+    settingsPath: status.settingsPath,
+    hooks: HOOK_EVENT_TYPES.map(event => {
+      const info = status[HOOK_EVENTS[event].key];
+      return { event, installed: info.installed, version: info.version, timeout: info.timeout, matcher: info.matcher };
+    }),
+    trackedProjects: status.trackedProjects || []
+  };
+}
+
+/**
+ * Create the hooks command
+ */
+export function createHooksCommand(): Command {
+  const command = new Command('hooks')
+    .description('Install, remove or inspect the Claude Code hooks used for auto-sync');
+
+  command
+    .command('install')
+    .description('Install auto-sync hooks for all projects or for selected projects')
+    .option('-m, --mode <mode>', 'all (global settings) or selected (per-project settings)')
+    .option('-p, --project <name>', 'Project name or path for --mode selected (repeatable)', collectValues)
+    .option('--hooks <list>', `Comma-separated hooks (default ${DEFAULT_HOOKS.join(',')})`)
+    .option('-y, --yes', 'Do not ask for confirmation')
+    .option('--json', 'Print the result as JSON')
+    .action(async (options: HooksInstallOptions) => {
+      await runScripted('hooks install', options, () => installHooksCommand(options), result => {
+        console.log(colors.success(`✓ Installed ${result.hooks.join(', ')}`));
+        result.settingsPaths.forEach(settingsPath => console.log(colors.subdued(`  ${settingsPath}`)));
+      });
+    });
+
+  command
+    .command('uninstall')
+    .description('Remove DevArk hooks from every project, or only from --project')
+    .option('-p, --project <name>', 'Project name or path (repeatable)', collectValues)
+    .option('-y, --yes', 'Do not ask for confirmation')
+    .option('--json', 'Print the result as JSON')
+    .action(async (options: HooksUninstallOptions) => {
+      await runScripted('hooks uninstall', options, () => uninstallHooksCommand(options), result => {
+        console.log(colors.success(result.projects.length > 0
+          ? `✓ Hooks removed from ${result.projects.length} project${result.projects.length === 1 ? '' : 's'}`
+          : `✓ Removed ${result.removedCount} hook${result.removedCount === 1 ? '' : 's'}`));
+      });
+    });
+
+  command
+    .command('status')
+    .description('Show installed hooks and the tracking mode')
+    .option('--json', 'Print the result as JSON')
+    .action(async (options: ScriptedOptions) => {
+      await runScripted('hooks status', options, hooksStatusCommand, result => {
+        console.log(colors.info(`Tracking mode: ${result.mode}`));
+        for (const hook of result.hooks) {
+          console.log(hook.installed
+            ? colors.success(`  ✓ ${hook.event} (v${hook.version})`)
+            : colors.muted(`  ✗ ${hook.event}`));
+        }
+        if (result.trackedProjects.length > 0) {
+          console.log(colors.subdued(`Tracked projects: ${result.trackedProjects.join(', ')}`));
+        }
+      });
+    });
+
+  return command;
+}
@@ -1,15 +1,25 @@
 import chalk from 'chalk';
+import path from 'path';
 import { requireAuth } from '../lib/auth/token';
 import { DevArkError } from '../utils/errors';
 import { logger } from '../utils/logger';
-import { showSuccess, showInfo } from '../lib/ui';
+import { showSuccess, showInfo, showWarning } from '../lib/ui';
 import { getCliPath } from '../lib/config';
 import {
   getHookStatus,
   uninstallDevArkHooks
 } from '../lib/hooks-manager';
-import { installSelectedHooks } from '../lib/hooks/hooks-controller';
-import { getGlobalSettingsPath } from '../lib/claude-core';
+import {
+  installSelectedHooks,
+  installSelectiveProjectHooks,
+  HookEventType,
+  HookSelection,
+  HOOK_EVENTS,
+  HOOK_EVENT_TYPES
+} from '../lib/hooks/hooks-controller';
+import { getGlobalSettingsPath, getProjectLocalSettingsPath } from '../lib/claude-core';
+import { loadTeamPolicy, isSyncModeAllowed, resolveSyncMode, getCliVersion } from '../lib/team-policy';
+import { compareVersions } from '../utils/version-check';
 
 interface InstallHooksOptions {
   uninstall?: boolean;
@@ -55,18 +65,51 @@ export async function installHooks(options: InstallHooksOptions = {}): Promise<v
       showInfo('Hooks already installed - will update if needed');
     }
 
+    // The team policy can require extra hooks and restrict where they go
+    const policy = loadTeamPolicy(process.cwd());
+    const policyName = policy?.name || 'Team policy';
+    if (policy && !isSyncModeAllowed(policy, 'all') && !isSyncModeAllowed(policy, 'selected')) {
+      throw new DevArkError(`${policyName} does not allow automatic sync`, 'POLICY_VIOLATION');
+    }
+    if (policy?.minimumVersion && compareVersions(getCliVersion(), policy.minimumVersion) < 0) {
+      showWarning(`${policyName} requires DevArk ${policy.minimumVersion} or newer (you have ${getCliVersion()}). Run: npx devark-cli@latest`);
+    }
+
+    // PreCompact only (legacy behavior) plus whatever the policy requires
+    const hookTypes: HookEventType[] = [...new Set<HookEventType>(['PreCompact', ...(policy?.requiredHooks || [])])];
+    const selection = {} as HookSelection;
+    for (const type of HOOK_EVENT_TYPES) {
+      selection[HOOK_EVENTS[type].key] = hookTypes.includes(type);
+    }
+
+    const syncMode = resolveSyncMode(policy, 'all');
+    const projectPath = process.cwd();
+    const targetPath = syncMode === 'all' ? settingsPath : getProjectLocalSettingsPath(projectPath);
+
     // Install hooks using the modern implementation (idempotent)
-    // This installs PreCompact hook only (legacy behavior)
-    await installSelectedHooks({
-      sessionStartHook: false,
-      preCompactHook: true,
-      sessionEndHook: false
-    });
+    if (syncMode === 'all') {
+      await installSelectedHooks(selection);
+    } else {
+      const { failedCount } = await installSelectiveProjectHooks([{
+        path: projectPath,
+        name: path.basename(projectPath),
+        actualPath: projectPath,
+        sessionStart: selection.sessionStartHook,
+        preCompact: selection.preCompactHook,
+        sessionEnd: selection.sessionEndHook,
+        userPromptSubmit: selection.userPromptSubmitHook,
+        stop: selection.stopHook,
+        subagentStop: selection.subagentStopHook
+      }]);
+      if (failedCount > 0) {
+        throw new DevArkError(`Could not install hooks in ${projectPath}`, 'HOOKS_UPDATE_FAILED');
+      }
+    }
     
     // Log the file being modified
     console.log('');
     console.log(chalk.gray('📝 Hooks written to:'));
-    console.log(chalk.yellow(`   ${settingsPath}`));
+    console.log(chalk.yellow(`   ${targetPath}`));
     console.log('');
     
     // Confirm file was written
@@ -77,12 +120,26 @@ export async function installHooks(options: InstallHooksOptions = {}): Promise<v
     // Show CLI command being used
     const cliCommand = getCliPath();
     console.log(chalk.gray(`\nUsing CLI command: ${cliCommand}`));
+
+    if (syncMode === 'selected') {
+      showSuccess(`Hooks installed for ${path.basename(projectPath)}!`);
+      console.log('');
+      console.log(chalk.cyan(`📋 ${policyName} only allows per-project tracking. Installed hooks:`));
+      hookTypes.forEach(type => console.log(chalk.gray(`  • ${type}`)));
+      console.log('');
+      console.log(chalk.gray('Run this command from each project you want to track.'));
+      console.log('');
+      return;
+    }
     
     // Success!
     showSuccess('Global hooks installed successfully!');
     console.log('');
     console.log(chalk.cyan('📋 Installed hooks (globally):'));
     console.log(chalk.gray('  • PreCompact - Syncs sessions before context compression'));
+    hookTypes.filter(type => type !== 'PreCompact').forEach(type => {
+      console.log(chalk.gray(`  • ${type} - Required by ${policyName}`));
+    });
     console.log('');
     
     // Show that global hooks are installed
@@ -104,6 +161,10 @@ export async function installHooks(options: InstallHooksOptions = {}): Promise<v
     console.log(chalk.gray('  devark config set cliPath "/path/to/devark.js"'));
     
   } catch (error) {
+    if (error instanceof DevArkError) {
+      throw error;
+    }
+
     logger.error('Failed to install hooks', error);
 
     if (error instanceof Error) {
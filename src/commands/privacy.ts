@@ -2,9 +2,17 @@ import chalk from 'chalk';
 import inquirer from 'inquirer';
 import path from 'path';
 import fs from 'fs/promises';
-import { readClaudeSessions } from '../lib/readers/claude';
+import { readAllSessions } from '../lib/readers/session-sources';
 import { MessageSanitizer } from '../lib/message-sanitizer';
-import { getLastSync } from '../lib/config';
+import {
+  RedactionRule,
+  getRedactionRules,
+  compileRedactionRule,
+  testRedactionRule,
+  saveProjectRedactionRule,
+  PROJECT_REDACTION_FILE,
+} from '../lib/redaction-rules';
+import { getLastSync, getRedactionRules as getGlobalRedactionRules, setRedactionRules } from '../lib/config';
 import { getHookMode, getTrackedProjects } from '../lib/claude-settings-reader';
 import { formatDuration, showInfo, showWarning, showSuccess } from '../lib/ui';
 import { logger } from '../utils/logger';
@@ -35,6 +43,7 @@ export async function privacy(options: PrivacyOptions): Promise<void> {
         { name: '🔍 View sample redaction (before/after examples)', value: 'sample' },
         { name: '📈 Show redaction statistics', value: 'stats' },
         { name: '💾 Export sanitized data to file', value: 'export' },
+        { name: '🧪 Test a custom redaction rule', value: 'test-rule' },
         { name: '📚 Learn about privacy protection', value: 'learn' },
         { name: '← Back to main menu', value: 'back' },
       ],
@@ -54,6 +63,9 @@ export async function privacy(options: PrivacyOptions): Promise<void> {
     case 'export':
       await exportSanitizedData(options.export);
       break;
+    case 'test-rule':
+      await testCustomRule();
+      break;
     case 'learn':
       await showPrivacyInfo();
       break;
@@ -82,7 +94,7 @@ async function previewNextUpload(): Promise<void> {
 
   // Get sessions that would be sent
   const sinceDate = getLastSync() || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-  const sessions = await readClaudeSessions({ since: sinceDate });
+  const sessions = await readAllSessions({ since: sinceDate, useIndex: false });
 
   // Filter by tracked projects
   const trackingMode = await getHookMode();
@@ -101,7 +113,7 @@ async function previewNextUpload(): Promise<void> {
 
   if (filteredSessions.length === 0) {
     showWarning('No sessions found to upload');
-    showInfo('Use Claude Code to create some sessions first');
+    showInfo('Use Claude Code or Cursor to create some sessions first');
     return;
   }
 
@@ -119,10 +131,11 @@ async function previewNextUpload(): Promise<void> {
     paths: 0,
     urls: 0,
     emails: 0,
+    custom: 0,
   };
 
   filteredSessions.forEach(session => {
-    const sanitized = sanitizer.sanitizeMessages(session.messages);
+    const sanitized = sanitizer.sanitizeMessages(session.messages, getRedactionRules(session.projectPath));
     sanitized.forEach(msg => {
       if (msg.metadata?.redactedItems) {
         Object.entries(msg.metadata.redactedItems).forEach(([key, value]) => {
@@ -143,6 +156,7 @@ async function previewNextUpload(): Promise<void> {
     { label: 'URLs redacted', count: totalRedactions.urls, icon: '🌐' },
     { label: 'Env variables removed', count: totalRedactions.envVars, icon: '🔧' },
     { label: 'Emails hidden', count: totalRedactions.emails, icon: '📧' },
+    { label: 'Custom rule matches', count: totalRedactions.custom, icon: '🏷️ ' },
   ];
 
   redactionLines.forEach(line => {
@@ -158,7 +172,10 @@ async function previewNextUpload(): Promise<void> {
 
   // Show sample sanitized message
   const sampleSession = filteredSessions[0];
-  const sanitizedSample = sanitizer.sanitizeMessages(sampleSession.messages.slice(0, 1));
+  const sanitizedSample = sanitizer.sanitizeMessages(
+    sampleSession.messages.slice(0, 1),
+    getRedactionRules(sampleSession.projectPath)
+  );
   
   if (sanitizedSample.length > 0) {
     console.log(chalk.yellow('📝 Sample Sanitized Message:'));
@@ -223,7 +240,7 @@ async function showRedactionStats(): Promise<void> {
 
   // Get all sessions from last 30 days
   const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-  const sessions = await readClaudeSessions({ since: thirtyDaysAgo });
+  const sessions = await readAllSessions({ since: thirtyDaysAgo, useIndex: false });
 
   if (sessions.length === 0) {
     showWarning('No sessions found in the last 30 days');
@@ -243,11 +260,12 @@ async function showRedactionStats(): Promise<void> {
       paths: 0,
       urls: 0,
       emails: 0,
+      custom: 0,
     },
   };
 
   sessions.forEach(session => {
-    const sanitized = sanitizer.sanitizeMessages(session.messages);
+    const sanitized = sanitizer.sanitizeMessages(session.messages, getRedactionRules(session.projectPath));
     stats.totalMessages += sanitized.length;
     
     sanitized.forEach(msg => {
@@ -283,7 +301,7 @@ async function exportSanitizedData(exportPath?: string): Promise<void> {
 
   // Get sessions
   const sinceDate = getLastSync() || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-  const sessions = await readClaudeSessions({ since: sinceDate });
+  const sessions = await readAllSessions({ since: sinceDate, useIndex: false });
 
   if (sessions.length === 0) {
     showWarning('No sessions found to export');
@@ -293,10 +311,11 @@ async function exportSanitizedData(exportPath?: string): Promise<void> {
   // Sanitize all sessions
   const sanitizer = new MessageSanitizer();
   const sanitizedData = sessions.map(session => ({
+    tool: session.tool,
     projectPath: '[REDACTED]',
     timestamp: session.timestamp,
     duration: session.duration,
-    messages: sanitizer.sanitizeMessages(session.messages),
+    messages: sanitizer.sanitizeMessages(session.messages, getRedactionRules(session.projectPath)),
   }));
 
   // Determine export path
@@ -314,6 +333,108 @@ async function exportSanitizedData(exportPath?: string): Promise<void> {
   }
 }
 
+/**
+ * Try a custom redaction rule against real local sessions before enabling it.
+ * Matching happens locally; nothing is uploaded.
+ */
+async function testCustomRule(): Promise<void> {
+  console.log(chalk.cyan('\n🧪 Test a Custom Redaction Rule\n'));
+  console.log(chalk.gray('Matches are replaced with [ENTITY_n] before anything is uploaded.'));
+  console.log('');
+
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'pattern',
+      message: 'Regex pattern (e.g. acme-[a-z0-9]{12}):',
+      validate: (input: string) => input.trim().length > 0 || 'Please enter a pattern',
+    },
+    {
+      type: 'input',
+      name: 'entity',
+      message: 'Entity type used in the replacement:',
+      default: 'CUSTOM',
+    },
+    {
+      type: 'confirm',
+      name: 'ignoreCase',
+      message: 'Ignore case?',
+      default: false,
+    },
+    {
+      type: 'input',
+      name: 'allowlist',
+      message: 'Allowlist (comma-separated values to keep, optional):',
+    },
+  ]);
+
+  const rule: RedactionRule = {
+    name: answers.entity.trim().toLowerCase(),
+    pattern: answers.pattern.trim(),
+    flags: answers.ignoreCase ? 'i' : undefined,
+    entity: answers.entity.trim().toUpperCase(),
+    allowlist: answers.allowlist
+      .split(',')
+      .map((item: string) => item.trim())
+      .filter(Boolean),
+  };
+
+  try {
+    compileRedactionRule(rule);
+  } catch (error) {
+    showWarning(error instanceof Error ? error.message : 'Invalid rule');
+    return;
+  }
+
+  const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+  const sessions = await readAllSessions({ since: sevenDaysAgo, useIndex: false });
+  if (sessions.length === 0) {
+    showWarning('No sessions found in the last 7 days to test against');
+    return;
+  }
+
+  const result = testRedactionRule(rule, sessions);
+
+  console.log('');
+  console.log(chalk.green(`Scanned ${result.sessionsScanned} sessions from the last 7 days:`));
+  console.log(`  🏷️  ${result.matches} matches in ${result.messagesMatched} messages (${result.sessionsMatched} sessions)`);
+  if (result.allowlisted > 0) {
+    console.log(`  ✅ ${result.allowlisted} allowlisted matches kept`);
+  }
+
+  if (result.samples.length > 0) {
+    console.log('');
+    console.log(chalk.yellow('Sample matches:'));
+    result.samples.forEach(sample => {
+      console.log(chalk.red(`  Before: ${sample.before.replace(/\s+/g, ' ')}`));
+      console.log(chalk.green(`  After:  ${sample.after.replace(/\s+/g, ' ')}`));
+      console.log('');
+    });
+  }
+
+  const { save } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'save',
+      message: 'Enable this rule?',
+      choices: [
+        { name: 'For all projects (devark config)', value: 'global' },
+        { name: `For this project only (${PROJECT_REDACTION_FILE})`, value: 'project' },
+        { name: 'No, discard it', value: 'discard' },
+      ],
+    },
+  ]);
+
+  if (save === 'global') {
+    const rules = getGlobalRedactionRules().filter(existing => existing.name !== rule.name);
+    setRedactionRules([...rules, rule]);
+    showSuccess(`Rule "${rule.name}" enabled for all projects`);
+  } else if (save === 'project') {
+    const filePath = await saveProjectRedactionRule(process.cwd(), rule);
+    showSuccess(`Rule "${rule.name}" saved to ${filePath}`);
+  }
+}
+
 async function showPrivacyInfo(): Promise<void> {
   console.log(chalk.cyan('\n📚 Privacy Protection Information\n'));
   
@@ -332,6 +453,7 @@ async function showPrivacyInfo(): Promise<void> {
   console.log('  • File paths and URLs');
   console.log('  • Email addresses');
   console.log('  • Environment variables');
+  console.log(`  • Anything matched by your own rules (config or ${PROJECT_REDACTION_FILE})`);
   console.log('');
   
   console.log(chalk.green('✓ What We Track'));
@@ -0,0 +1,99 @@
+import { Command } from 'commander';
+import { colors } from '../lib/ui/styles';
+import { readPromptHistory, computePromptTrend, PromptTrend, getPromptHistoryPath } from '../lib/prompt-history';
+import { DevArkError, handleError } from '../utils/errors';
+
+const DEFAULT_TREND_DAYS = 30;
+const BAR_WIDTH = 20;
+
+function scoreColor(score: number): (text: string) => string {
+  if (score >= 80) return colors.success;
+  if (score >= 60) return colors.primary;
+  if (score >= 40) return colors.warning;
+  return colors.error;
+}
+
+function scoreBar(score: number): string {
+  const filled = Math.round((Math.max(0, Math.min(100, score)) / 100) * BAR_WIDTH);
+  return scoreColor(score)('█'.repeat(filled)) + colors.dim('░'.repeat(BAR_WIDTH - filled));
+}
+
+function displayTrend(trend: PromptTrend, days: number, project?: string): void {
+  const scope = project ? ` for ${project}` : '';
+  console.log(colors.accent(`\n📈 Prompt Quality Trend${scope} (last ${days} days)\n`));
+  console.log(`  Prompts analyzed: ${colors.highlight(String(trend.total))}`);
+  console.log(`  Average score:    ${scoreColor(trend.averageScore)(`${trend.averageScore}/100`)}`);
+
+  if (trend.improvement) {
+    const { change, firstHalfAverage, secondHalfAverage } = trend.improvement;
+    const arrow = change > 0 ? colors.success(`▲ +${change}`) : change < 0 ? colors.error(`▼ ${change}`) : colors.muted('■ 0');
+    console.log(`  Change:           ${arrow} ${colors.dim(`(${firstHalfAverage} → ${secondHalfAverage})`)}`);
+  }
+
+  console.log(colors.info('\nBy day:'));
+  for (const day of trend.days) {
+    console.log(`  ${day.key}  ${scoreBar(day.averageScore)} ${String(day.averageScore).padStart(3)}  ${colors.dim(`${day.count} prompts`)}`);
+  }
+
+  if (!project && trend.projects.length > 0) {
+    console.log(colors.info('\nBy project:'));
+    for (const item of trend.projects) {
+      console.log(`  ${item.key.padEnd(24)} ${scoreBar(item.averageScore)} ${String(item.averageScore).padStart(3)}  ${colors.dim(`${item.count} prompts`)}`);
+    }
+  }
+
+  if (trend.topMissing.length > 0) {
+    console.log(colors.info('\nMost often missing:'));
+    for (const item of trend.topMissing) {
+      console.log(`  ${colors.warning('•')} ${item.category} ${colors.dim(`(${item.count})`)}`);
+    }
+  }
+
+  console.log();
+}
+
+/**
+ * Show prompt-quality trends from the local history (no network needed)
+ */
+export async function showPromptTrend(options: { days?: string; project?: string } = {}): Promise<void> {
+  const days = options.days ? parseInt(options.days, 10) : DEFAULT_TREND_DAYS;
+  if (isNaN(days) || days < 1) {
+    throw new DevArkError('--days must be a positive number', 'INVALID_INPUT');
+  }
+
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+  since.setHours(0, 0, 0, 0);
+
+  const entries = await readPromptHistory({ since, project: options.project });
+  if (entries.length === 0) {
+    console.log(colors.muted('\nNo prompt analyses recorded for this period.'));
+    console.log(colors.hint(`Scores are saved to ${getPromptHistoryPath()} when the prompt analysis hook runs.\n`));
+    return;
+  }
+
+  displayTrend(computePromptTrend(entries), days, options.project);
+}
+
+/**
+ * Create the prompts command with its subcommands
+ */
+export function createPromptsCommand(): Command {
+  const command = new Command('prompts')
+    .description('Prompt quality history');
+
+  command
+    .command('trend')
+    .description('Show average prompt scores per day and project, and what is most often missing')
+    .option('-d, --days <n>', `Number of days to include (default ${DEFAULT_TREND_DAYS})`)
+    .option('-p, --project <name>', 'Only include prompts from this project')
+    .action(async (options) => {
+      try {
+        await showPromptTrend(options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return command;
+}
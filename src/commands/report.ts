@@ -0,0 +1,194 @@
+import { Command } from 'commander';
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { colors } from '../lib/ui/styles';
+import { createSpinner } from '../lib/ui';
+import { generateOfflineReport } from '../lib/reports/offline-report';
+import { ReportGenerator } from '../lib/report-generator';
+import { REPORT_FORMATS, getReportRenderer } from '../lib/report-renderers/report-renderer';
+import { ReportFormat } from '../lib/report-renderers/types';
+import { DevArkError, handleError } from '../utils/errors';
+import { ScriptedOptions, runScripted, confirmAction, parseDays } from './shared/scripted';
+
+const DEFAULT_REPORT_DAYS = 7;
+
+export interface ReportOptions {
+  llm?: boolean;     // False with --no-llm
+  resume?: boolean;  // Continue the last interrupted Claude report
+  days?: string;
+  project?: string;
+  format?: string;   // Comma-separated formats, html by default
+  out?: string;      // Write the offline report to this file, no prompts
+}
+
+export interface ReportFileResult {
+  days: number;
+  sessions: number;
+  files: string[];
+}
+
+export interface OfflineReportFileOptions {
+  days: number;
+  projectPaths?: string[];
+  project?: string;
+  formats: ReportFormat[];
+}
+
+function formatElapsed(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Build the report from local data only and save it in every format in the
+ * current directory
+ */
+export async function saveOfflineReport(options: OfflineReportFileOptions): Promise<void> {
+  const started = Date.now();
+  const spinner = createSpinner('Building the report from your local sessions...').start();
+
+  let data;
+  try {
+    data = await generateOfflineReport({ days: options.days, projectPaths: options.projectPaths, project: options.project });
+  } catch (error) {
+    spinner.fail('Failed to build the report');
+    throw error;
+  }
+
+  if (data.metadata.totalSessions === 0) {
+    spinner.warn(`No sessions from your enabled tools in the last ${options.days} days${options.project ? ` for ${options.project}` : ''}`);
+    return;
+  }
+  data.reportGeneration.duration = formatElapsed(Date.now() - started);
+  spinner.succeed(`Analyzed ${data.metadata.totalSessions} session${data.metadata.totalSessions === 1 ? '' : 's'} without Claude`);
+
+  const generator = new ReportGenerator();
+  generator.setFormats(options.formats);
+  generator.setReportData(data);
+  const result = await generator.saveReport();
+  if (!result.success) {
+    throw new DevArkError(result.error || 'Failed to save the report', 'REPORT_ERROR');
+  }
+
+  console.log();
+  generator.displayCompletionMessage();
+}
+
+export function parseReportFormats(value?: string): ReportFormat[] {
+  if (!value) return ['html'];
+
+  const formats = value.split(',').map(format => format.trim().toLowerCase()).filter(Boolean);
+  const unknown = formats.filter(format => !REPORT_FORMATS.includes(format as ReportFormat));
+  if (formats.length === 0 || unknown.length > 0) {
+    throw new DevArkError(`--format must be a list of: ${REPORT_FORMATS.join(', ')}`, 'INVALID_INPUT');
+  }
+  return Array.from(new Set(formats)) as ReportFormat[];
+}
+
+/**
+ * Format for an --out file from its extension, html when there is none
+ */
+export function getFormatForFile(filePath: string): ReportFormat {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  if (!extension) return 'html';
+
+  const format = REPORT_FORMATS.find(candidate => getReportRenderer(candidate).extension === extension || candidate === extension);
+  if (!format) {
+    throw new DevArkError(`Can't tell the report format from "${filePath}". Use --format or one of: ${REPORT_FORMATS.join(', ')}`, 'INVALID_INPUT');
+  }
+  return format;
+}
+
+/**
+ * Build the offline report and write it to `options.out`. With several
+ * formats each file gets the format's extension.
+ */
+export async function writeReportFile(options: ReportOptions & ScriptedOptions): Promise<ReportFileResult> {
+  const out = path.resolve(options.out!);
+  const days = parseDays(options.days, DEFAULT_REPORT_DAYS)!;
+  const formats = options.format ? parseReportFormats(options.format) : [getFormatForFile(out)];
+  const files = formats.map((format, index) => index === 0 && !options.format
+    ? out
+    : out.replace(/(\.[^./\\]+)?$/, `.${getReportRenderer(format).extension}`));
+
+  const existing = files.filter(file => existsSync(file));
+  if (existing.length > 0) {
+    await confirmAction(`Overwrite ${existing.join(', ')}?`, options);
+  }
+
+  const spinner = options.json ? null : createSpinner('Building the report from your local sessions...').start();
+  let data;
+  try {
+    data = await generateOfflineReport({ days, project: options.project });
+  } catch (error) {
+    spinner?.fail('Failed to build the report');
+    throw error;
+  }
+  spinner?.succeed(`Analyzed ${data.metadata.totalSessions} session${data.metadata.totalSessions === 1 ? '' : 's'}`);
+
+  await fs.mkdir(path.dirname(out), { recursive: true });
+  for (let i = 0; i < formats.length; i++) {
+    await fs.writeFile(files[i], await getReportRenderer(formats[i]).render(data));
+  }
+
+  return { days, sessions: data.metadata.totalSessions, files };
+}
+
+/**
+ * Local report: statistics only with --no-llm, otherwise the interactive
+ * flow with Claude narration (or the interrupted run with --resume)
+ */
+export async function report(options: ReportOptions = {}): Promise<void> {
+  if (options.resume) {
+    if (options.llm === false) {
+      throw new DevArkError('--resume continues a Claude report and cannot be combined with --no-llm', 'INVALID_INPUT');
+    }
+    const { resumeLocalReport } = await import('../lib/ui/local-report-generator');
+    await resumeLocalReport();
+    return;
+  }
+
+  if (options.llm !== false) {
+    const { generateLocalReportInteractive } = await import('../lib/ui/local-report-generator');
+    await generateLocalReportInteractive();
+    return;
+  }
+
+  const days = parseDays(options.days, DEFAULT_REPORT_DAYS)!;
+
+  console.log(colors.muted(`Offline report for the last ${days} days - no Claude CLI or sub-agents needed`));
+  await saveOfflineReport({ days, project: options.project, formats: parseReportFormats(options.format) });
+}
+
+/**
+ * Create the report command
+ */
+export function createReportCommand(): Command {
+  return new Command('report')
+    .description('Generate a local report of your sessions (interactive with Claude, or --no-llm)')
+    .option('--no-llm', 'Build the report from local data only: reproducible, takes seconds, no Claude needed')
+    .option('--resume', 'Continue the last interrupted Claude report; cached session analyses are reused')
+    .option('-d, --days <n>', `Number of days to include with --no-llm or --out (default ${DEFAULT_REPORT_DAYS})`)
+    .option('-p, --project <name>', 'Only include sessions from this project (with --no-llm or --out)')
+    .option('--format <list>', `Comma-separated formats with --no-llm: ${REPORT_FORMATS.join(', ')} (default html)`)
+    .option('-o, --out <file>', 'Write the offline report to this file without prompts (format from the extension)')
+    .option('-y, --yes', 'Overwrite an existing --out file')
+    .option('--json', 'Print the result as JSON (with --out)')
+    .action(async (options) => {
+      if (options.out) {
+        await runScripted('report', options, () => writeReportFile(options), result => {
+          console.log(colors.success(`✓ Report for the last ${result.days} days saved:`));
+          result.files.forEach(file => console.log(colors.subdued(`  ${file}`)));
+        });
+        return;
+      }
+
+      try {
+        if (options.json) {
+          throw new DevArkError('--json needs --out <file>', 'INVALID_INPUT');
+        }
+        await report(options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
@@ -0,0 +1,90 @@
+import { Command } from 'commander';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { colors } from '../lib/ui/styles';
+import { createSpinner } from '../lib/ui';
+import { generateRetroData, formatRetroMarkdown } from '../lib/retro';
+import { ReportTemplateEngine, RETRO_TEMPLATE } from '../lib/report-template-engine';
+import { RetroPeriod } from '../types/retro-data';
+import { DevArkError, handleError } from '../utils/errors';
+import { getLocalDateString } from '../lib/utils/date-utils';
+
+type RetroFormat = 'html' | 'markdown';
+
+const RETRO_FORMATS: RetroFormat[] = ['html', 'markdown'];
+
+export interface RetroOptions {
+  week?: boolean;
+  month?: boolean;
+  project?: string;
+  format?: string;   // html (default) or markdown
+  output?: string;   // HTML defaults to a file in the current directory, Markdown to stdout
+}
+
+/**
+ * Compare this week (or month) with the previous one from local data only
+ */
+export async function retro(options: RetroOptions = {}): Promise<void> {
+  if (options.week && options.month) {
+    throw new DevArkError('Use either --week or --month, not both', 'INVALID_INPUT');
+  }
+  const period: RetroPeriod = options.month ? 'month' : 'week';
+
+  const format = (options.format || 'html').toLowerCase() as RetroFormat;
+  if (!RETRO_FORMATS.includes(format)) {
+    throw new DevArkError(`--format must be one of: ${RETRO_FORMATS.join(', ')}`, 'INVALID_INPUT');
+  }
+
+  // Markdown without a file goes to stdout, so keep the progress off it
+  const toStdout = format === 'markdown' && !options.output;
+  const spinner = toStdout ? null : createSpinner(`Building your ${period === 'week' ? 'weekly' : 'monthly'} retro...`).start();
+
+  try {
+    const data = await generateRetroData(period, options.project);
+
+    if (toStdout) {
+      process.stdout.write(formatRetroMarkdown(data));
+      return;
+    }
+
+    let content: string;
+    if (format === 'html') {
+      const engine = new ReportTemplateEngine();
+      await engine.loadTemplate(RETRO_TEMPLATE);
+      content = engine.generateRetroReport(data);
+    } else {
+      content = formatRetroMarkdown(data);
+    }
+
+    const outputPath = path.resolve(
+      options.output || `devark-retro-${period}-${getLocalDateString(new Date())}.${format === 'html' ? 'html' : 'md'}`
+    );
+    await fs.writeFile(outputPath, content, 'utf8');
+
+    spinner?.succeed(`Retro saved to ${outputPath}`);
+    console.log(colors.muted(`   ${data.current.label}: ${data.current.metrics.sessions} sessions, ${data.current.metrics.activeHours} active hours`));
+  } catch (error) {
+    spinner?.fail('Failed to build the retro');
+    throw error;
+  }
+}
+
+/**
+ * Create the retro command
+ */
+export function createRetroCommand(): Command {
+  return new Command('retro')
+    .description('Compare this week or month with the previous one (sessions, hours, projects, models, prompt scores)')
+    .option('--week', 'This week against last week (default)')
+    .option('--month', 'This month against last month')
+    .option('-p, --project <name>', 'Only include sessions from this project')
+    .option('--format <type>', `Output format: ${RETRO_FORMATS.join(', ')} (default html)`)
+    .option('-o, --output <file>', 'Write the retro to this file')
+    .action(async (options) => {
+      try {
+        await retro(options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
@@ -12,6 +12,9 @@ import { DevArkError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { isNetworkError, createNetworkError } from '../lib/errors/network-errors';
 import { checkForUpdate, shouldSpawnLatestForHook, spawnLatestVersion } from '../utils/version-check';
+import { getBudgetStatus, getBudgetExceededMessage } from '../lib/usage-budget';
+import { recordBudgetBreaches } from '../lib/hooks/hooks-stats';
+import { getQueuedBatchCount } from '../lib/upload-queue';
 import chalk from 'chalk';
 
 /**
@@ -25,6 +28,7 @@ import chalk from 'chalk';
  * 3. **Background Mode** (--background): Spawns detached process
  * 4. **Test Mode** (--test): Validates hook configuration
  * 5. **Dry Run** (--dry): Preview without uploading
+ * 6. **Flush Queue** (--flush-queue): Retry batches saved after failed uploads
  * 
  * The command delegates to specialized orchestrators based on the mode:
  * - BackgroundSendOrchestrator: Manages background process spawning
@@ -35,6 +39,12 @@ export async function send(options: SendOptions): Promise<void> {
   logger.debug('Send options received:', options);
 
   try {
+    // Warn in Claude Code when the project is already over budget
+    // The @latest spawn below inherits stdout, so only the first process warns
+    if (options.hookTrigger === 'sessionstart' && !process.env.DEVARK_SPAWNED_LATEST) {
+      await warnIfOverBudget(options);
+    }
+
     // Check for version updates when triggered by hooks
     // Skip if we're already running from @latest spawn to prevent infinite loops
     if (options.hookTrigger && !process.env.DEVARK_SPAWNED_LATEST) {
@@ -87,6 +97,11 @@ export async function send(options: SendOptions): Promise<void> {
     }
 
     // Route to appropriate orchestrator based on mode
+    if (options.flushQueue) {
+      await executeFlushQueue(options);
+      return;
+    }
+
     if (options.background && options.hookTrigger) {
       const orchestrator = new BackgroundSendOrchestrator();
       await orchestrator.execute(options);
@@ -107,6 +122,26 @@ export async function send(options: SendOptions): Promise<void> {
   }
 }
 
+/**
+ * Print a SessionStart hook systemMessage when a budget is used up.
+ * Never throws - a budget check must not block the sync.
+ */
+async function warnIfOverBudget(options: SendOptions): Promise<void> {
+  try {
+    const status = await getBudgetStatus(options.claudeProjectDir || process.cwd());
+    if (!status) return;
+
+    await recordBudgetBreaches(status);
+
+    const message = getBudgetExceededMessage(status);
+    if (message) {
+      console.log(JSON.stringify({ systemMessage: message }));
+    }
+  } catch (error) {
+    logger.debug('Budget check failed:', error);
+  }
+}
+
 /**
  * Execute send in interactive mode with full UI
  */
@@ -187,7 +222,7 @@ async function executeInteractiveSend(options: SendOptions): Promise<void> {
         displayName: parseProjectName(s.projectPath),
         duration: s.duration,
         timestamp: s.timestamp,
-        messageCount: s.messages.length
+        messageCount: s.messageCount ?? s.messages.length
       }));
       
       const proceed = await showPrivacyPreview(apiSessions, sessionInfo, []);
@@ -224,7 +259,12 @@ async function executeInteractiveSend(options: SendOptions): Promise<void> {
       // Clear progress bar and show success
       progressUI.completeUploadProgress();
       const uploadSpinner = progressUI.createSpinner('');
-      uploadSpinner.succeed('Sessions uploaded!');
+      if (results.queuedBatches) {
+        uploadSpinner.warn(`Upload interrupted - ${results.queuedBatches} batch(es) saved for retry`);
+        console.log(chalk.dim('They will be retried automatically, or run: devark send --flush-queue'));
+      } else {
+        uploadSpinner.succeed('Sessions uploaded!');
+      }
     } catch (uploadError) {
       // Clear progress bar on error
       if (process.env.DEVARK_DEBUG === 'true') {
@@ -251,6 +291,53 @@ async function executeInteractiveSend(options: SendOptions): Promise<void> {
   }
 }
 
+/**
+ * Retry every queued upload batch now, ignoring backoff
+ */
+async function executeFlushQueue(options: SendOptions): Promise<void> {
+  const orchestrator = new SendOrchestrator();
+  const progressUI = new SendProgressUI(options.silent);
+
+  await orchestrator.authenticate(options);
+
+  const spinner = progressUI.createSpinner('Retrying queued uploads...');
+  spinner.start();
+
+  if (options.dry) {
+    spinner.succeed(`Dry run: ${await getQueuedBatchCount()} queued batch(es) would be retried`);
+    return;
+  }
+
+  const result = await orchestrator.flushQueue(true);
+  if (!result) {
+    spinner.fail('Failed to read the upload queue');
+    return;
+  }
+
+  if (result.uploaded === 0 && result.remaining === 0 && result.dropped === 0) {
+    spinner.succeed('Upload queue is empty');
+    return;
+  }
+
+  if (result.remaining > 0) {
+    spinner.warn(`${result.uploaded} batch(es) uploaded, ${result.remaining} still queued`);
+  } else {
+    spinner.succeed(`${result.uploaded} queued batch(es) uploaded`);
+  }
+
+  if (!options.silent) {
+    showUploadResults({
+      success: result.remaining === 0,
+      sessionsProcessed: result.created + result.duplicates,
+      created: result.created,
+      duplicates: result.duplicates,
+    });
+    if (result.dropped > 0) {
+      console.log(chalk.yellow(`⚠️  ${result.dropped} batch(es) were rejected by the server and removed from the queue`));
+    }
+  }
+}
+
 /**
  * Determine the source description for sessions
  */
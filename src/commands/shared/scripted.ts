@@ -0,0 +1,144 @@
+/**
+ * Shared helpers for non-interactive subcommands (hooks, agents, statusline,
+ * sync, status). Every scripted command accepts --yes to skip confirmations
+ * and --json to print a single result object; failures map to the documented
+ * exit codes.
+ */
+import inquirer from 'inquirer';
+import path from 'path';
+import { discoverProjects } from '../../lib/claude-core';
+import { ClaudeProject } from '../../lib/claude-project-parser';
+import { DevArkError, handleError, getExitCode } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+/**
+ * Version of the --json envelope and result shapes. Bump it when a field is
+ * renamed or removed; adding fields keeps the version.
+ */
+export const JSON_SCHEMA_VERSION = 1;
+
+export interface ScriptedOptions {
+  yes?: boolean;   // Skip confirmation prompts
+  json?: boolean;  // Print a JSON result instead of text
+}
+
+/**
+ * Serialize a --json envelope. Dates become ISO strings and Maps (hook stats
+ * per project) become plain objects.
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => item instanceof Map ? Object.fromEntries(item) : item, 2);
+}
+
+/**
+ * Run a scripted command. With --json the result (or the error) is printed as
+ * one JSON object on stdout; otherwise `printResult` reports it. Errors exit
+ * with the code from getExitCode.
+ */
+export async function runScripted<T>(
+  command: string,
+  options: ScriptedOptions,
+  action: () => Promise<T>,
+  printResult: (result: T) => void
+): Promise<void> {
+  if (options.json) {
+    // Keep stdout for the JSON result; warnings and errors go to stderr
+    logger.setLevel('error');
+  }
+
+  let result: T;
+  try {
+    result = await action();
+  } catch (error) {
+    if (!options.json) {
+      handleError(error);
+      return;
+    }
+
+    const exitCode = getExitCode(error);
+    console.log(toJson({
+      schemaVersion: JSON_SCHEMA_VERSION,
+      ok: false,
+      command,
+      error: {
+        code: error instanceof DevArkError ? error.code : 'ERROR',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      exitCode,
+    }));
+    process.exit(exitCode);
+  }
+
+  if (options.json) {
+    console.log(toJson({ schemaVersion: JSON_SCHEMA_VERSION, ok: true, command, result }));
+  } else {
+    printResult(result);
+  }
+}
+
+/**
+ * Ask before changing something. --yes skips the question; without a terminal
+ * (or with --json) the command fails instead of waiting for input.
+ */
+export async function confirmAction(message: string, options: ScriptedOptions): Promise<void> {
+  if (options.yes) return;
+
+  if (options.json || !process.stdin.isTTY) {
+    throw new DevArkError(`${message} Re-run with --yes to confirm.`, 'CONFIRMATION_REQUIRED');
+  }
+
+  const { confirm } = await inquirer.prompt([
+    { type: 'confirm', name: 'confirm', message, default: true }
+  ]);
+  if (!confirm) {
+    throw new DevArkError('Cancelled', 'CANCELLED');
+  }
+}
+
+/**
+ * Claude projects matching each name. A name can be the project's display
+ * name, its path, or its folder under ~/.claude/projects.
+ */
+export async function findProjects(names: string[]): Promise<ClaudeProject[]> {
+  const projects = await discoverProjects();
+  const found: ClaudeProject[] = [];
+
+  for (const name of names) {
+    const resolved = path.resolve(name);
+    const project = projects.find(p =>
+      p.name === name ||
+      p.actualPath === resolved ||
+      path.basename(p.claudePath) === name
+    );
+    if (!project) {
+      throw new DevArkError(
+        `Project "${name}" not found. Use a name or path of a project you've opened in Claude Code`,
+        'PROJECT_NOT_FOUND'
+      );
+    }
+    if (!found.includes(project)) {
+      found.push(project);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Commander collector for repeatable options (--project a --project b)
+ */
+export function collectValues(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Parse --days, shared by sync and report
+ */
+export function parseDays(value: string | undefined, fallback?: number): number | undefined {
+  if (value === undefined) return fallback;
+  const days = parseInt(value, 10);
+  if (isNaN(days) || days < 1 || days > 365) {
+    throw new DevArkError('--days must be a number between 1 and 365', 'INVALID_INPUT');
+  }
+  return days;
+}
@@ -1,8 +1,12 @@
 import chalk from 'chalk';
 import { createSpinner } from '../lib/ui';
 import { logger } from '../utils/logger';
-import { readClaudeSessions } from '../lib/readers/claude';
-import { discoverProjects } from '../lib/claude-core';
+import { readAllSessions } from '../lib/readers/session-sources';
+import { parseProjectName } from '../lib/ui/project-display';
+import { getYesterdayWorkingDay, selectStandupDay, STANDUP_LOOKBACK_DAYS } from '../lib/standup-utils';
+import { loadWorkingCalendar } from '../lib/working-calendar';
+import { getWorkingCalendarSettings } from '../lib/config';
+import { SessionData } from '../lib/readers/types';
 import path from 'path';
 
 interface Accomplishment {
@@ -26,39 +30,49 @@ interface ProjectWork {
 }
 
 export async function standupLocal(): Promise<void> {
-  const spinner = createSpinner('Analyzing your local Claude sessions...').start();
+  const spinner = createSpinner('Analyzing your local sessions...').start();
 
   try {
-    // Get all Claude projects
-    const projects = await discoverProjects();
-    if (projects.length === 0) {
-      spinner.fail('No Claude projects found');
-      console.log(chalk.yellow('\nNo Claude Code projects found. Start working on some projects first!'));
+    // Determine the last working day by the working calendar
+    const calendar = await loadWorkingCalendar(getWorkingCalendarSettings());
+    const workingDay = getYesterdayWorkingDay(calendar);
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+
+    // Read a week before the working day from every enabled source, so an
+    // empty day can roll back to the last day with sessions
+    const since = new Date(workingDay);
+    since.setDate(since.getDate() - STANDUP_LOOKBACK_DAYS);
+    const pastSessions = (await readAllSessions({ since, useIndex: false }))
+      .filter(session => session.timestamp < startOfToday);
+    if (pastSessions.length === 0) {
+      spinner.fail('No sessions found');
+      console.log(chalk.yellow('\nNo coding sessions found. Start working on some projects first!'));
       return;
     }
 
-    // Determine yesterday (or last working day)
-    const yesterday = getYesterdayWorkingDay();
+    const projectSessions = new Map<string, SessionData[]>();
+    for (const session of pastSessions) {
+      const projectName = parseProjectName(session.projectPath);
+      projectSessions.set(projectName, [...(projectSessions.get(projectName) || []), session]);
+    }
+
+    // An empty working day rolls back to the last day with sessions
+    const yesterday = selectStandupDay(pastSessions, workingDay) || workingDay;
 
     logger.debug(`Analyzing sessions for ${yesterday.toDateString()}`);
 
-    // Read sessions from all projects for yesterday
+    // Set date range for the reported day
+    const startOfDay = new Date(yesterday);
+    startOfDay.setHours(0, 0, 0, 0);
+    const endOfDay = new Date(yesterday);
+    endOfDay.setHours(23, 59, 59, 999);
+
     const projectWork = new Map<string, ProjectWork>();
 
-    for (const project of projects) {
+    for (const [projectName, allSessions] of projectSessions) {
       try {
-        // Set date range for yesterday
-        const startOfDay = new Date(yesterday);
-        startOfDay.setHours(0, 0, 0, 0);
-        const endOfDay = new Date(yesterday);
-        endOfDay.setHours(23, 59, 59, 999);
-
-        // Read all sessions for this project (we'll filter by date manually)
-        const allSessions = await readClaudeSessions({
-          projectPath: project.claudePath
-        });
-
-        // Filter sessions for yesterday
+        // Filter sessions for the reported day
         const sessions = allSessions.filter(session => {
           const sessionDate = new Date(session.timestamp);
           return sessionDate >= startOfDay && sessionDate <= endOfDay;
@@ -67,7 +81,7 @@ export async function standupLocal(): Promise<void> {
         if (sessions.length === 0) continue;
 
         const work: ProjectWork = {
-          project: project.name,
+          project: projectName,
           sessions: [],
           accomplishments: [],
           totalDuration: 0,
@@ -81,17 +95,18 @@ export async function standupLocal(): Promise<void> {
               ? []
               : Array.from(session.metadata.files_edited as string[]))
             : [];
+          const messageCount = session.messageCount ?? session.messages.length;
 
           work.sessions.push({
             duration: session.duration,
-            messageCount: session.messages.length,
+            messageCount,
             filesEdited: filesEditedArray,
             languages: session.metadata?.languages || [],
             timestamp: session.timestamp
           });
 
           work.totalDuration += session.duration;
-          work.totalMessages += session.messages.length;
+          work.totalMessages += messageCount;
 
           // Extract accomplishments from messages
           const sessionAccomplishments = extractAccomplishmentsFromSession(session);
@@ -102,10 +117,10 @@ export async function standupLocal(): Promise<void> {
         work.accomplishments = consolidateAccomplishments(work.accomplishments);
 
         if (work.sessions.length > 0) {
-          projectWork.set(project.name, work);
+          projectWork.set(projectName, work);
         }
       } catch (error) {
-        logger.debug(`Failed to read sessions for ${project.name}:`, error);
+        logger.debug(`Failed to analyze sessions for ${projectName}:`, error);
       }
     }
 
@@ -206,15 +221,16 @@ function extractAccomplishmentsFromSession(session: any): Accomplishment[] {
   }
 
   // Add general accomplishments based on patterns
-  if (session.messages.length > 50) {
+  const messageCount = session.messageCount ?? session.messages.length;
+  if (messageCount > 50) {
     accomplishments.push({
       type: 'general',
-      description: `Intensive development session (${session.messages.length} interactions)`
+      description: `Intensive development session (${messageCount} interactions)`
     });
-  } else if (session.messages.length > 20) {
+  } else if (messageCount > 20) {
     accomplishments.push({
       type: 'general',
-      description: `Active development (${session.messages.length} interactions)`
+      description: `Active development (${messageCount} interactions)`
     });
   }
 
@@ -261,22 +277,6 @@ function consolidateAccomplishments(accomplishments: Accomplishment[]): Accompli
   return Array.from(consolidated.values());
 }
 
-function getYesterdayWorkingDay(): Date {
-  const today = new Date();
-  const dayOfWeek = today.getDay();
-  const yesterday = new Date(today);
-
-  if (dayOfWeek === 1) { // Monday
-    yesterday.setDate(today.getDate() - 3); // Get Friday
-  } else if (dayOfWeek === 0) { // Sunday
-    yesterday.setDate(today.getDate() - 2); // Get Friday
-  } else {
-    yesterday.setDate(today.getDate() - 1);
-  }
-
-  return yesterday;
-}
-
 function formatDuration(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
@@ -348,7 +348,7 @@ function displayLocalStandupSummary(
   }
 
   console.log(chalk.gray('\n═══════════════════════════════'));
-  console.log(chalk.dim('\n💡 Tip: This analysis is based on your local Claude Code sessions'));
+  console.log(chalk.dim('\n💡 Tip: This analysis is based on your local coding sessions'));
 }
 
 function generateSmartSuggestions(projectWork: Map<string, ProjectWork>): string[] {
@@ -1,9 +1,10 @@
 import chalk from 'chalk';
+import { Command } from 'commander';
 import { requireAuth } from '../lib/auth/token';
 import { createSpinner } from '../lib/ui';
-import { DevArkError } from '../utils/errors';
+import { DevArkError, handleError } from '../utils/errors';
 import { logger } from '../utils/logger';
-import { readClaudeSessions } from '../lib/readers/claude';
+import { readAllSessions } from '../lib/readers/session-sources';
 import { SessionData } from '../lib/readers/types';
 import { executeClaude, checkClaudeInstalled } from '../utils/claude-executor';
 import { extractProjectName } from '../lib/claude-project-parser';
@@ -12,104 +13,136 @@ import {
   formatDuration,
   buildStandupPrompt,
   getClaudeSystemPrompt,
-  groupSessionsByProject
+  groupSessionsByProject,
+  formatStandupDate,
+  resolveStandupPeriod,
+  filterSessionsByProject,
+  selectStandupDay,
+  StandupData,
+  StandupPeriod,
+  STANDUP_LOOKBACK_DAYS
 } from '../lib/standup-utils';
+import { formatStandup, StandupOutputFormat, STANDUP_OUTPUT_FORMATS } from '../lib/standup-formatters';
 import { StandupTempManager } from '../lib/standup-temp-manager';
+import { enrichSessionsWithGit, summarizeGitActivity } from '../lib/git-enrichment';
+import { loadWorkingCalendar } from '../lib/working-calendar';
+import { getWorkingCalendarSettings } from '../lib/config';
 import { RotatingTipsWithHeader } from '../lib/ui/rotating-tips';
 import path from 'path';
 import fs from 'fs/promises';
-
-interface StandupData {
-  yesterday: {
-    date: string;
-    projects: Array<{
-      name: string;
-      accomplishments: string[];
-      duration: string;
-    }>;
-  };
-  todayFocus: string[];
-  blockers?: string[];
+import { getLocalDateString } from '../lib/utils/date-utils';
+
+export interface StandupOptions {
+  skipAuth?: boolean;
+  date?: string;     // Single day: YYYY-MM-DD, today, yesterday or a weekday
+  since?: string;    // First day of a range, same formats as --date
+  until?: string;    // Last day of a range (default: today)
+  project?: string;  // Only sessions of this project
+  format?: string;   // console (default), markdown, slack, text or json
+  output?: string;   // Write to this file instead of stdout
 }
 
-export async function standup(options?: { skipAuth?: boolean }): Promise<void> {
+export async function standup(options: StandupOptions = {}): Promise<void> {
+  const period = resolveStandupPeriod(options);
+  const format = (options.format || (options.output ? 'markdown' : 'console')).toLowerCase() as StandupOutputFormat;
+  if (!STANDUP_OUTPUT_FORMATS.includes(format)) {
+    throw new DevArkError(`--format must be one of: ${STANDUP_OUTPUT_FORMATS.join(', ')}`, 'INVALID_INPUT');
+  }
+  if (format === 'console' && options.output) {
+    throw new DevArkError('--output needs a text format: markdown, slack, text or json', 'INVALID_INPUT');
+  }
+
+  // Keep stdout clean when the standup itself is printed there for piping
+  const quiet = format !== 'console' && !options.output;
+  const log = quiet ? () => undefined : (...args: unknown[]) => console.log(...args);
+
   // Skip auth check if explicitly requested (for first-time onboarding)
-  if (!options?.skipAuth) {
+  if (!options.skipAuth) {
     await requireAuth();
   }
 
-  const spinner = createSpinner('Reading your local Claude Code sessions...').start();
+  const spinner = createSpinner('Reading your local coding sessions...').start();
 
   try {
     logger.debug('Starting Claude-powered standup generation...');
 
-    // Read local Claude sessions for the last 3 days (relevant for standup)
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - 3);
+    // Without an explicit period, report the previous working day by the
+    // working calendar, reading a week before it for the roll back
+    const calendar = await loadWorkingCalendar(getWorkingCalendarSettings());
+    const yesterday = getYesterdayWorkingDay(calendar);
+    const endDate = period ? period.end : new Date();
+    const startDate = new Date(period ? period.start : yesterday);
+    if (!period) {
+      startDate.setDate(startDate.getDate() - STANDUP_LOOKBACK_DAYS);
+    }
+    const periodDescription = period ? `for ${period.label}` : `since ${formatStandupDate(startDate)}`;
 
     logger.debug(`Reading sessions from ${startDate.toISOString()} to ${endDate.toISOString()}`);
-    const claudeSessions = await readClaudeSessions({ since: startDate });
+    let localSessions = (await readAllSessions({ since: startDate }))
+      .filter(s => s.timestamp <= endDate);
+    if (options.project) {
+      localSessions = filterSessionsByProject(localSessions, options.project);
+    }
 
-    if (!claudeSessions || claudeSessions.length === 0) {
+    if (!localSessions || localSessions.length === 0) {
       spinner.fail('No sessions found');
-      console.log(chalk.yellow('\nNo Claude Code sessions found in the last 3 days.'));
-      console.log(chalk.gray('Start coding with Claude Code and then run this command again!'));
+      const projectNote = options.project ? ` for ${options.project}` : '';
+      log(chalk.yellow(`\nNo coding sessions found${projectNote} ${periodDescription}.`));
+      log(chalk.gray('Start coding with Claude Code and then run this command again!'));
+      if (format !== 'console') {
+        await emitStandup(emptyStandup(period ? period.label : formatStandupDate(yesterday)), format, options.output);
+      }
       return;
     }
 
-    spinner.succeed(`Found ${claudeSessions.length} sessions from the last 3 days`);
-    logger.debug(`Found ${claudeSessions.length} Claude sessions`);
+    spinner.succeed(`Found ${localSessions.length} sessions ${periodDescription}`);
+    logger.debug(`Found ${localSessions.length} local sessions`);
 
     // Prepare temp directory with session data
     const tempManager = new StandupTempManager();
-    const yesterday = getYesterdayWorkingDay();
 
     // CRITICAL: Filter out today's sessions - only show PAST work
+    // An explicit period is reported as asked, today included
     // Use local date string to avoid timezone issues
     const today = new Date();
     const todayStr = getLocalDateString(today);
-    const pastSessions = claudeSessions.filter(s =>
+    const pastSessions = period ? localSessions : localSessions.filter(s =>
       getLocalDateString(s.timestamp) !== todayStr
     );
 
     // If no past sessions, show "nothing" message
     if (pastSessions.length === 0) {
       spinner.succeed('All sessions are from today - no past work to report');
-      console.log(chalk.yellow('\nNo completed work to report yet.'));
-      console.log(chalk.gray('Come back tomorrow to see today\'s standup summary!'));
+      log(chalk.yellow('\nNo completed work to report yet.'));
+      log(chalk.gray('Come back tomorrow to see today\'s standup summary!'));
+      if (format !== 'console') {
+        await emitStandup(emptyStandup(formatStandupDate(yesterday)), format, options.output);
+      }
       return;
     }
 
-    // Find actual date with sessions (might not be yesterday)
-    const yesterdayStr = getLocalDateString(yesterday);
-    const yesterdaySessions = pastSessions.filter(s =>
-      getLocalDateString(s.timestamp) === yesterdayStr
-    );
-
-    let actualTargetDate = yesterday;
-    if (yesterdaySessions.length === 0) {
-      // No sessions yesterday, find most recent PAST day with sessions
-      const sortedSessions = pastSessions.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-      if (sortedSessions.length > 0) {
-        actualTargetDate = new Date(sortedSessions[0].timestamp);
-        // Set to start of day to match date comparison
-        actualTargetDate.setHours(0, 0, 0, 0);
-      }
-    }
+    // Find actual date with sessions: an empty working day rolls back to
+    // the last day that has sessions
+    const actualTargetDate = period ? period.start : selectStandupDay(pastSessions, yesterday) || yesterday;
 
     const tempDir = await tempManager.prepareTempDirectory(pastSessions, actualTargetDate);
 
+    // Sessions being reported, with the commits made during them
+    const actualDateStr = getLocalDateString(actualTargetDate);
+    const actualSessions = await enrichSessionsWithGit(period ? pastSessions : pastSessions.filter(s =>
+      getLocalDateString(s.timestamp) === actualDateStr
+    ));
+
     // Create the standup analysis prompt with actual date
-    const standupPrompt = buildStandupPrompt(tempDir, actualTargetDate);
+    const standupPrompt = buildStandupPrompt(tempDir, actualTargetDate, summarizeGitActivity(actualSessions), period || undefined);
 
     // Check for Claude Code installation
     const claudeCheck = await checkClaudeInstalled();
     if (!claudeCheck.installed) {
-      console.log(chalk.yellow('\n⚠️  Claude Code is not installed'));
-      console.log(chalk.gray('Using basic analysis instead...'));
-      const standupData = await fallbackAnalysis(pastSessions, actualTargetDate);
-      displayStandupSummary(standupData);
+      log(chalk.yellow('\n⚠️  Claude Code is not installed'));
+      log(chalk.gray('Using basic analysis instead...'));
+      const standupData = await fallbackAnalysis(pastSessions, actualTargetDate, period);
+      await emitStandup(standupData, format, options.output);
 
       // Clean up temp directory
       await tempManager.cleanup();
@@ -117,24 +150,24 @@ export async function standup(options?: { skipAuth?: boolean }): Promise<void> {
     }
 
     // Show analysis is starting
-    console.log();
-    console.log(chalk.cyan('🤖 Analyzing your work with Claude Code...'));
-
-    // Show accurate count for actual target date
-    const actualDateStr = getLocalDateString(actualTargetDate);
-    const actualSessions = pastSessions.filter(s =>
-      getLocalDateString(s.timestamp) === actualDateStr
-    );
+    log();
+    log(chalk.cyan('🤖 Analyzing your work with Claude Code...'));
 
+    // Show accurate count for the reported sessions
     const actualSessionsByProject = groupSessionsByProject(actualSessions);
-    console.log(chalk.gray(`📁 Analyzing ${actualSessions.length} sessions from ${Object.keys(actualSessionsByProject).length} projects (${actualTargetDate.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })})`));
-    console.log();
+    const analyzedPeriod = period
+      ? period.label
+      : actualTargetDate.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+    log(chalk.gray(`📁 Analyzing ${actualSessions.length} sessions from ${Object.keys(actualSessionsByProject).length} projects (${analyzedPeriod})`));
+    log();
 
     // Start rotating productivity tips during analysis
     const tipsDisplay = new RotatingTipsWithHeader(
       'While we analyze your sessions, here are some productivity tips:',
     );
-    tipsDisplay.start(6000); // Rotate tips every 6 seconds for better readability
+    if (!quiet) {
+      tipsDisplay.start(6000); // Rotate tips every 6 seconds for better readability
+    }
 
     // Execute Claude to analyze the sessions
     let standupData: StandupData | null = null;
@@ -192,7 +225,7 @@ export async function standup(options?: { skipAuth?: boolean }): Promise<void> {
 
                 // Stop tips and show completion
                 tipsDisplay.stop();
-                console.log(chalk.green('\n✓ Claude Code analysis complete!'));
+                log(chalk.green('\n✓ Claude Code analysis complete!'));
                 logger.debug('Successfully parsed standup data from Claude response');
               } else {
                 tipsDisplay.stop();
@@ -206,13 +239,13 @@ export async function standup(options?: { skipAuth?: boolean }): Promise<void> {
                   logger.debug(`Invalid delimiter positions: start=${startIndex}, end=${endIndex}`);
                 }
                 logger.debug(`Full Claude response for debugging: ${fullOutput}`);
-                console.log(chalk.yellow('\n⚠️  Claude did not return JSON with expected delimiters'));
-                console.log(chalk.gray('Try running with --debug flag to see Claude\'s full response'));
+                log(chalk.yellow('\n⚠️  Claude did not return JSON with expected delimiters'));
+                log(chalk.gray('Try running with --debug flag to see Claude\'s full response'));
               }
             } catch (err) {
               tipsDisplay.stop();
               logger.debug(`Could not parse Claude output as JSON: ${err}`);
-              console.log(chalk.yellow('\n⚠️  Claude response was not valid JSON'));
+              log(chalk.yellow('\n⚠️  Claude response was not valid JSON'));
 
               // Check if we at least found the delimiters
               const hasStartDelimiter = fullOutput.includes('----JSON START----');
@@ -220,7 +253,7 @@ export async function standup(options?: { skipAuth?: boolean }): Promise<void> {
 
               if (hasStartDelimiter && hasEndDelimiter) {
                 logger.debug('Delimiters found but JSON parsing failed');
-                console.log(chalk.gray('JSON delimiters found but content was malformed'));
+                log(chalk.gray('JSON delimiters found but content was malformed'));
               } else {
                 logger.debug(`Missing delimiters - Start: ${hasStartDelimiter}, End: ${hasEndDelimiter}`);
               }
@@ -234,23 +267,23 @@ export async function standup(options?: { skipAuth?: boolean }): Promise<void> {
             }
           } else if (code !== 0) {
             tipsDisplay.stop();
-            console.log(chalk.yellow('\n⚠️  Claude analysis had an issue'));
+            log(chalk.yellow('\n⚠️  Claude analysis had an issue'));
           }
         }
       });
     } catch (error) {
       tipsDisplay.stop();
       logger.error('Failed to execute Claude:', error);
-      console.log(chalk.yellow(`\n⚠️  Could not run Claude: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      log(chalk.yellow(`\n⚠️  Could not run Claude: ${error instanceof Error ? error.message : 'Unknown error'}`));
     }
 
     // If no standup data was generated, use fallback
     if (!standupData) {
       logger.debug('No standup data generated, using fallback');
-      standupData = await fallbackAnalysis(pastSessions, actualTargetDate);
+      standupData = await fallbackAnalysis(pastSessions, actualTargetDate, period);
     } else {
       // Calculate durations locally for consistency
-      standupData = enrichWithLocalDurations(standupData, pastSessions, actualTargetDate);
+      standupData = enrichWithLocalDurations(standupData, actualSessions);
     }
 
     // Clean up temp directory
@@ -258,10 +291,10 @@ export async function standup(options?: { skipAuth?: boolean }): Promise<void> {
 
     // Display the standup summary
     if (standupData) {
-      displayStandupSummary(standupData);
+      await emitStandup(standupData, format, options.output);
     } else {
-      console.log(chalk.yellow('\n⚠️  Could not generate standup summary'));
-      console.log(chalk.gray('Please try again or check your Claude Code installation'));
+      log(chalk.yellow('\n⚠️  Could not generate standup summary'));
+      log(chalk.gray('Please try again or check your Claude Code installation'));
     }
 
   } catch (error) {
@@ -282,18 +315,19 @@ export async function standup(options?: { skipAuth?: boolean }): Promise<void> {
 // Helper functions moved to ../lib/standup-utils.ts
 // buildStandupPrompt also moved to standup-utils.ts
 
-async function fallbackAnalysis(sessions: SessionData[], targetDate: Date): Promise<StandupData> {
+async function fallbackAnalysis(sessions: SessionData[], targetDate: Date, period?: StandupPeriod | null): Promise<StandupData> {
   // Enhanced fallback analysis when Claude isn't available
   const yesterdayStr = getLocalDateString(targetDate);
   const todayStr = getLocalDateString(new Date());
 
   // CRITICAL: Filter out today's sessions to avoid showing current work
-  const pastSessions = sessions.filter(s => {
+  // (an explicit period was already filtered by the caller)
+  const pastSessions = period ? sessions : sessions.filter(s => {
     const sessionDate = getLocalDateString(s.timestamp);
     return sessionDate !== todayStr;  // Exclude today's sessions
   });
 
-  const yesterdaySessions = pastSessions.filter(s =>
+  const yesterdaySessions = period ? pastSessions : pastSessions.filter(s =>
     getLocalDateString(s.timestamp) === yesterdayStr
   );
 
@@ -301,7 +335,7 @@ async function fallbackAnalysis(sessions: SessionData[], targetDate: Date): Prom
   let recentSessions = yesterdaySessions;
   let actualDate = targetDate;
 
-  if (yesterdaySessions.length === 0) {
+  if (!period && yesterdaySessions.length === 0) {
     // Find the most recent day with work (excluding today)
     const sortedSessions = pastSessions.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
     if (sortedSessions.length > 0) {
@@ -323,7 +357,7 @@ async function fallbackAnalysis(sessions: SessionData[], targetDate: Date): Prom
     const work = projectWork.get(projectName)!;
     work.sessions.push(session);
     // Use actual duration if available, otherwise estimate
-    work.duration += session.duration || (session.messages.length * 120); // 2 minutes per message average
+    work.duration += session.duration || ((session.messageCount ?? session.messages.length) * 120); // 2 minutes per message average
   }
 
   const projects = Array.from(projectWork.entries()).map(([name, work]) => {
@@ -409,17 +443,35 @@ async function fallbackAnalysis(sessions: SessionData[], targetDate: Date): Prom
 
   return {
     yesterday: {
-      date: actualDate.toLocaleDateString('en-US', {
-        weekday: 'long',
-        month: 'short',
-        day: 'numeric'
-      }),
+      date: period ? period.label : formatStandupDate(actualDate),
       projects
     },
     todayFocus: todayFocus.slice(0, 3) // Limit to 3 focus items
   };
 }
 
+function emptyStandup(date: string): StandupData {
+  return { yesterday: { date, projects: [] }, todayFocus: [], blockers: [] };
+}
+
+/**
+ * Show the standup in the console, or render it as text to stdout or a file
+ */
+async function emitStandup(data: StandupData, format: StandupOutputFormat, outputPath?: string): Promise<void> {
+  if (format === 'console') {
+    displayStandupSummary(data);
+    return;
+  }
+
+  const text = formatStandup(data, format);
+  if (outputPath) {
+    await fs.writeFile(outputPath, text, 'utf8');
+    console.log(chalk.green(`\n✓ Standup written to ${outputPath}`));
+  } else {
+    process.stdout.write(text);
+  }
+}
+
 function displayStandupSummary(data: StandupData): void {
   console.log(chalk.cyan('\n📋 Daily Standup Summary'));
   console.log(chalk.gray('═══════════════════════════════\n'));
@@ -470,17 +522,6 @@ function displayStandupSummary(data: StandupData): void {
   console.log();
 }
 
-/**
- * Get local date string (YYYY-MM-DD) from a Date object
- * Uses local timezone to avoid UTC conversion issues
- */
-function getLocalDateString(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-}
-
 /**
  * Normalize project name for comparison (lowercase, trim)
  */
@@ -503,15 +544,8 @@ function projectNamesMatch(name1: string, name2: string): boolean {
  */
 function enrichWithLocalDurations(
   standupData: StandupData,
-  sessions: SessionData[],
-  targetDate: Date
+  targetSessions: SessionData[]
 ): StandupData {
-  // Filter sessions for the target date using LOCAL timezone
-  const targetDateStr = getLocalDateString(targetDate);
-  const targetSessions = sessions.filter(s =>
-    getLocalDateString(s.timestamp) === targetDateStr
-  );
-
   // Group sessions by project and handle parallel sessions
   const projectSessions = new Map<string, SessionData[]>();
 
@@ -615,4 +649,26 @@ function enrichWithLocalDurations(
   }
 
   return standupData;
-}
\ No newline at end of file
+}
+
+/**
+ * Create the standup command
+ */
+export function createStandupCommand(): Command {
+  return new Command('standup')
+    .description('Summarize your recent work for a standup')
+    .option('--date <day>', 'Standup for one day: YYYY-MM-DD, today, yesterday or a weekday')
+    .option('--since <day>', 'Start of a range, e.g. friday for "since last Friday"')
+    .option('--until <day>', 'End of the range (default today)')
+    .option('-p, --project <name>', 'Only include sessions from this project')
+    .option('--format <type>', `Output format: ${STANDUP_OUTPUT_FORMATS.join(', ')}`)
+    .option('-o, --output <file>', 'Write the standup to a file (default format markdown)')
+    .action(async (options) => {
+      try {
+        // Standups are generated locally, no cloud account needed
+        await standup({ ...options, skipAuth: true });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
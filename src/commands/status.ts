@@ -5,6 +5,39 @@ import { createSpinner, formatDuration, formatDate } from '../lib/ui';
 import { DevArkError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { countCursorMessages } from '../lib/readers/cursor';
+import { loadTeamPolicy, getTeamPolicyViolations } from '../lib/team-policy';
+import { detectSetupState, StateDetails } from '../lib/detector';
+import { getHooksStatus, HooksStatus } from '../lib/hooks/hooks-controller';
+import { loadHookStats, HooksStatsData } from '../lib/hooks/hooks-stats';
+import { getAllProjectSyncData, getLastSyncSummary, ProjectSyncData } from '../lib/config';
+
+/**
+ * Local setup, hooks and sync state for `status --json`. Nothing here needs
+ * the network or a login.
+ */
+export interface StatusData {
+  setup: StateDetails;
+  hooks: HooksStatus;
+  hookStats: HooksStatsData;
+  projects: Record<string, ProjectSyncData>;  // Keyed by ~/.claude/projects folder
+  lastSync: { timestamp: string; description: string } | null;
+}
+
+export async function getStatusData(): Promise<StatusData> {
+  const [setup, hooks, hookStats] = await Promise.all([
+    detectSetupState(),
+    getHooksStatus(),
+    loadHookStats()
+  ]);
+
+  return {
+    setup,
+    hooks,
+    hookStats,
+    projects: getAllProjectSyncData(),
+    lastSync: getLastSyncSummary() || null
+  };
+}
 
 export async function status(): Promise<void> {
   await requireAuth();
@@ -99,6 +132,24 @@ export async function status(): Promise<void> {
       // Don't fail the whole command if Cursor stats fail
     }
 
+    // Team policy compliance
+    try {
+      const policy = loadTeamPolicy(process.cwd());
+      if (policy) {
+        const violations = await getTeamPolicyViolations(process.cwd(), policy);
+        console.log(chalk.gray('\n═══════════════════════════════\n'));
+        console.log(chalk.cyan(`🏢 ${policy.name || 'Team policy'}:`));
+        console.log(chalk.gray(`   • Source: ${policy.sources.join(', ')}`));
+        if (violations.length === 0) {
+          console.log(chalk.green('   ✓ Your setup follows the team policy'));
+        } else {
+          violations.forEach(violation => console.log(chalk.yellow(`   ⚠ ${violation.message}`)));
+        }
+      }
+    } catch (error) {
+      logger.debug('Failed to check team policy', error);
+    }
+
     // Motivational messages based on streak (only show for valid data)
     console.log('');
     if (streak.current === 0) {
@@ -0,0 +1,110 @@
+import { Command } from 'commander';
+import {
+  installStatusLine,
+  uninstallStatusLine,
+  hasStatusLineBackup,
+  detectExistingStatusLine
+} from '../lib/status-line-manager';
+import {
+  getStatusLinePersonality,
+  setStatusLinePersonality,
+  getPersonalityDisplayName,
+  PersonalityType
+} from '../lib/personality-manager';
+import { sendTelemetryUpdate } from '../lib/telemetry';
+import { colors } from '../lib/ui/styles';
+import { DevArkError } from '../utils/errors';
+import { ScriptedOptions, runScripted, confirmAction } from './shared/scripted';
+
+const PERSONALITIES: PersonalityType[] = ['gordon', 'devark', 'custom'];
+
+export interface StatuslineInstallOptions extends ScriptedOptions {
+  personality?: string;
+}
+
+export interface StatuslineUninstallOptions extends ScriptedOptions {
+  restore?: boolean;  // Put back the status line that was there before
+}
+
+/**
+ * Install the status line (prompt hook and display), optionally switching
+ * the personality. An existing status line is backed up first.
+ */
+export async function installStatuslineCommand(options: StatuslineInstallOptions): Promise<{
+  personality: PersonalityType;
+  replacedCommand?: string;
+}> {
+  let personality: PersonalityType | undefined;
+  if (options.personality) {
+    personality = options.personality.toLowerCase() as PersonalityType;
+    if (!PERSONALITIES.includes(personality)) {
+      throw new DevArkError(`--personality must be one of: ${PERSONALITIES.join(', ')}`, 'INVALID_INPUT');
+    }
+    if (personality === 'custom' && !getStatusLinePersonality().customPersonality) {
+      throw new DevArkError('No custom personality yet. Create one from the status line menu first', 'INVALID_INPUT');
+    }
+  }
+
+  const existing = await detectExistingStatusLine();
+  if (existing?.command) {
+    await confirmAction(`Replace the existing status line (${existing.command})? It is backed up and can be restored.`, options);
+  }
+
+  await installStatusLine();
+  if (personality) {
+    setStatusLinePersonality(personality);
+  }
+  await sendTelemetryUpdate();
+
+  return {
+    personality: getStatusLinePersonality().personality,
+    replacedCommand: existing?.command
+  };
+}
+
+/**
+ * Remove the status line, restoring the previous one with --restore
+ */
+export async function uninstallStatuslineCommand(options: StatuslineUninstallOptions): Promise<{ restored: boolean }> {
+  const restore = !!options.restore && hasStatusLineBackup();
+  await confirmAction(restore
+    ? 'Remove the DevArk status line and restore the previous one?'
+    : 'Remove the DevArk status line and its prompt hook?', options);
+
+  await uninstallStatusLine(restore);
+  await sendTelemetryUpdate();
+  return { restored: restore };
+}
+
+/**
+ * `statusline install` and `statusline uninstall`, added to the statusline
+ * command that Claude Code runs for the display
+ */
+export function createStatuslineSetupCommands(): Command[] {
+  const install = new Command('install')
+    .description('Install the status line co-pilot into Claude Code')
+    .option('--personality <name>', `Co-pilot personality: ${PERSONALITIES.join(', ')}`)
+    .option('-y, --yes', 'Replace an existing status line without asking')
+    .option('--json', 'Print the result as JSON')
+    .action(async (options: StatuslineInstallOptions) => {
+      await runScripted('statusline install', options, () => installStatuslineCommand(options), result => {
+        console.log(colors.success(`✓ Status line installed with ${getPersonalityDisplayName(result.personality)}`));
+        if (result.replacedCommand) {
+          console.log(colors.subdued(`  Previous status line saved: ${result.replacedCommand}`));
+        }
+      });
+    });
+
+  const uninstall = new Command('uninstall')
+    .description('Remove the status line co-pilot from Claude Code')
+    .option('--restore', 'Restore the status line you had before')
+    .option('-y, --yes', 'Do not ask for confirmation')
+    .option('--json', 'Print the result as JSON')
+    .action(async (options: StatuslineUninstallOptions) => {
+      await runScripted('statusline uninstall', options, () => uninstallStatuslineCommand(options), result => {
+        console.log(colors.success(result.restored ? '✓ Previous status line restored' : '✓ Status line removed'));
+      });
+    });
+
+  return [install, uninstall];
+}
@@ -6,13 +6,31 @@ import { PromptAnalysis } from '../lib/prompt-analyzer';
 import { logger } from '../utils/logger';
 import { transformSuggestion, getStatusLinePersonality, getPersonalityDisplayName } from '../lib/personality-manager';
 import { isLoadingState, isStaleLoadingState, LoadingState, getLoadingMessage } from '../types/loading-state';
-import { getCCUsageMetrics } from '../lib/ccusage-integration';
+import { getTranscriptUsage, getSessionCost, formatTokenCount, formatCost } from '../lib/token-usage';
+import { TokenUsage } from '../lib/readers/types';
+import {
+  BudgetStatus,
+  getCachedBudgetStatus,
+  getTightestCheck,
+  describeBudget,
+  formatBudgetUsage,
+  formatBudgetRemaining,
+} from '../lib/usage-budget';
+import { recordBudgetBreaches } from '../lib/hooks/hooks-stats';
+import { createStatuslineSetupCommands } from './statusline-setup';
 
 /**
  * Output format types for the statusline
  */
 type OutputFormat = 'compact' | 'detailed' | 'emoji' | 'minimal' | 'json';
 
+/**
+ * Token totals and cost of the current session (--with-usage)
+ */
+interface SessionUsage extends TokenUsage {
+  costUsd: number;
+}
+
 /**
  * Debug logging function - writes directly to file
  */
@@ -37,13 +55,63 @@ function getScoreEmoji(score: number): string {
   return '🟢';                       // Excellent (81-100)
 }
 
+/**
+ * Format session usage for the status line
+ * Example: 💰 $1.23 session | 45.2k in • 3.1k out • 1.2M cache read • 80.0k cache write
+ */
+function formatUsageLine(usage: SessionUsage): string {
+  return `💰 ${formatCost(usage.costUsd)} session | ` +
+    `${formatTokenCount(usage.inputTokens)} in • ${formatTokenCount(usage.outputTokens)} out • ` +
+    `${formatTokenCount(usage.cacheReadTokens)} cache read • ${formatTokenCount(usage.cacheWriteTokens)} cache write`;
+}
+
+/**
+ * Format the tightest budget for the status line
+ * Example: 💳 $1.25 left | Daily budget for devark
+ * From 80% on it turns into a warning, over the limit into an alert
+ */
+function formatBudgetLine(status: BudgetStatus): string | null {
+  const check = getTightestCheck(status);
+  if (!check) return null;
+
+  switch (check.level) {
+    case 'exceeded':
+      return `🛑 Over budget | ${describeBudget(check)}: ${formatBudgetUsage(check)}`;
+    case 'warning':
+      return `⚠️ ${describeBudget(check)}: ${formatBudgetUsage(check)}`;
+    default:
+      return `💳 ${formatBudgetRemaining(check)} | ${describeBudget(check)}`;
+  }
+}
+
+/**
+ * Add the budget to any status line output. An exceeded budget goes on the
+ * first line so it is never cut off.
+ */
+function withBudget(output: string, format: OutputFormat, budget: BudgetStatus | null): string {
+  if (!budget) return output;
+
+  if (format === 'json') {
+    try {
+      return JSON.stringify({ ...JSON.parse(output), budget });
+    } catch {
+      return output;
+    }
+  }
+
+  const line = formatBudgetLine(budget);
+  if (!line) return output;
+  if (!output) return line;
+  return budget.level === 'exceeded' ? `${line}\n${output}` : `${output}\n${line}`;
+}
+
 /**
  * Format the analysis for compact output (default)
  * Example: 🟢 85/100 | ✨ Great context! Consider adding expected output format
  * With actionableSteps: Adds second line with "✅ TRY THIS:" prefix
- * With ccusage: Adds usage metrics on additional line
+ * With usage: Adds token usage and cost on additional line
  */
-function formatCompact(analysis: PromptAnalysis, ccusageOutput?: string | null): string {
+function formatCompact(analysis: PromptAnalysis, usage?: SessionUsage | null): string {
   const score = analysis.score;
   let suggestion = analysis.suggestion;
   const actionableSteps = analysis.actionableSteps;
@@ -78,9 +146,9 @@ function formatCompact(analysis: PromptAnalysis, ccusageOutput?: string | null):
     output += analysis.promotionalTip;
   }
 
-  // Add ccusage metrics if available
-  if (ccusageOutput) {
-    output += '\n' + ccusageOutput;
+  // Add token usage if available
+  if (usage) {
+    output += '\n' + formatUsageLine(usage);
   }
 
   return output;
@@ -188,13 +256,13 @@ function formatLoadingState(state: LoadingState, format: OutputFormat): string {
 /**
  * Format the analysis based on the selected format
  */
-function formatAnalysis(analysis: PromptAnalysis, format: OutputFormat, ccusageOutput?: string | null): string {
+function formatAnalysis(analysis: PromptAnalysis, format: OutputFormat, usage?: SessionUsage | null): string {
   switch (format) {
     case 'json': {
-      // For JSON, include ccusage as separate field
+      // For JSON, include usage as separate field
       const jsonOutput: Record<string, unknown> = { ...analysis };
-      if (ccusageOutput) {
-        jsonOutput.ccusage = ccusageOutput;
+      if (usage) {
+        jsonOutput.tokenUsage = usage;
       }
       return JSON.stringify(jsonOutput);
     }
@@ -206,7 +274,39 @@ function formatAnalysis(analysis: PromptAnalysis, format: OutputFormat, ccusageO
       return formatMinimal(analysis);
     case 'compact':
     default:
-      return formatCompact(analysis, ccusageOutput);
+      return formatCompact(analysis, usage);
+  }
+}
+
+/**
+ * Usage of the current session from the transcript Claude Code points to.
+ * Parsed in-process and incrementally, so it is never stale or blank.
+ */
+async function getSessionUsage(claudeContext: { transcript_path?: unknown }): Promise<SessionUsage | null> {
+  const transcriptPath = claudeContext.transcript_path;
+  if (typeof transcriptPath !== 'string' || !transcriptPath) {
+    debugLog('No transcript_path in Claude context, skipping usage');
+    return null;
+  }
+
+  const tokenUsage = await getTranscriptUsage(transcriptPath);
+  if (!tokenUsage || Object.keys(tokenUsage).length === 0) return null;
+
+  const { usage, cost } = getSessionCost(tokenUsage);
+  return { ...usage, costUsd: cost };
+}
+
+/**
+ * Budget status for the project Claude Code runs in, null when no budgets
+ * are configured. Breaches are recorded for the hooks status view.
+ */
+async function getStatuslineBudget(claudeContext: { cwd?: unknown; workspace?: { project_dir?: unknown } } | null): Promise<BudgetStatus | null> {
+  const projectDir = claudeContext?.workspace?.project_dir || claudeContext?.cwd;
+  try {
+    return await getCachedBudgetStatus(typeof projectDir === 'string' ? projectDir : undefined, recordBudgetBreaches);
+  } catch (error) {
+    debugLog(`Budget check failed: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
   }
 }
 
@@ -296,7 +396,7 @@ export function createStatuslineCommand(): Command {
   const command = new Command('statusline')
     .description('Display prompt analysis in Claude Code status line (hidden command)')
     .option('-f, --format <type>', 'Output format: compact, detailed, emoji, minimal, json', 'compact')
-    .option('--with-usage', 'Include ccusage metrics in output')
+    .option('--with-usage', 'Include session token usage and cost in output')
     .option('--stdin', 'Explicitly wait for stdin input from Claude Code', false)
     .action(async (options) => {
       const startTime = Date.now();
@@ -339,11 +439,13 @@ export function createStatuslineCommand(): Command {
           options.format = 'compact';
         }
 
+        const budget = await getStatuslineBudget(claudeContext);
+
         // If no session ID from stdin, show default message
         if (!currentSessionId) {
           debugLog('DECISION: No session ID, showing default message');
           logger.debug('No session ID provided, showing default message');
-          const output = formatDefault(format);
+          const output = withBudget(formatDefault(format), format, budget);
           debugLog(`DEFAULT OUTPUT: ${output.substring(0, 100)}`);
           process.stdout.write(output);
           process.exitCode = 0;
@@ -361,7 +463,7 @@ export function createStatuslineCommand(): Command {
           // No analysis for this session yet - show default message
           debugLog(`DECISION: File NOT found, showing default for session ${currentSessionId}`);
           logger.debug(`Analysis file NOT found for session ${currentSessionId}, showing default message`);
-          const output = formatDefault(format);
+          const output = withBudget(formatDefault(format), format, budget);
           process.stdout.write(output);
           process.exitCode = 0;
           return;
@@ -394,7 +496,7 @@ export function createStatuslineCommand(): Command {
         // Check if this is a loading state
         if (isLoadingState(parsedContent)) {
           logger.debug('Detected loading state');
-          const output = formatLoadingState(parsedContent as LoadingState, format);
+          const output = withBudget(formatLoadingState(parsedContent as LoadingState, format), format, budget);
           process.stdout.write(output);
           process.exitCode = 0;
           return;
@@ -413,31 +515,21 @@ export function createStatuslineCommand(): Command {
 
         // No need to check session ID - we're reading the session-specific file
 
-        // Get ccusage metrics if requested
-        let ccusageOutput: string | null = null;
+        // Get token usage if requested
+        let usage: SessionUsage | null = null;
         if (options.withUsage && claudeContext) {
-          // Wait for ccusage to complete (typically takes ~1s)
-          const usageTimeout = 2000;  // Give ccusage enough time to complete
-          logger.debug(`Fetching ccusage metrics with ${usageTimeout}ms timeout`);
-
           try {
-            ccusageOutput = await getCCUsageMetrics(claudeContext, usageTimeout);
-            if (ccusageOutput) {
-              logger.debug('Got ccusage metrics successfully');
-            } else {
-              logger.debug('No ccusage metrics returned');
-            }
+            usage = await getSessionUsage(claudeContext);
           } catch (err) {
-            logger.debug('ccusage error:', err);
-            ccusageOutput = null;
+            logger.debug('Token usage error:', err);
+            usage = null;
           }
         } else {
-          // Debug why we're not calling ccusage
-          debugLog(`Not calling ccusage - withUsage: ${options.withUsage}, hasContext: ${!!claudeContext}`);
+          debugLog(`Not reading usage - withUsage: ${options.withUsage}, hasContext: ${!!claudeContext}`);
         }
 
         // Format and output the analysis
-        const output = formatAnalysis(analysis, format, ccusageOutput);
+        const output = withBudget(formatAnalysis(analysis, format, usage), format, budget);
         debugLog(`SUCCESS: Outputting analysis (${output.length} bytes): ${output.substring(0, 150)}`);
         logger.debug(`Statusline about to output (${output.length} bytes): ${output.substring(0, 200)}`);
         process.stdout.write(output);
@@ -463,5 +555,8 @@ export function createStatuslineCommand(): Command {
   // Note: Command.hidden might not be directly settable in some versions
   // The command is registered as hidden via the parent program instead
 
+  // Scripted setup: `statusline install` / `statusline uninstall`
+  createStatuslineSetupCommands().forEach(subcommand => command.addCommand(subcommand));
+
   return command;
 }
\ No newline at end of file
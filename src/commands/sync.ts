@@ -0,0 +1,123 @@
+import { Command } from 'commander';
+import path from 'path';
+import { SendOrchestrator } from '../lib/orchestrators/send-orchestrator';
+import { readAllSessions } from '../lib/readers/session-sources';
+import { UploadResult } from '../lib/api-client';
+import { colors } from '../lib/ui/styles';
+import { createSpinner } from '../lib/ui';
+import { DevArkError } from '../utils/errors';
+import { ScriptedOptions, runScripted, confirmAction, findProjects, collectValues, parseDays } from './shared/scripted';
+
+export interface SyncOptions extends ScriptedOptions {
+  days?: string;
+  project?: string[];  // Project names or paths (repeatable)
+  all?: boolean;       // Every project instead of the current directory
+  dry?: boolean;       // Only count what would be uploaded
+}
+
+export interface SyncResult {
+  since?: string;            // ISO date of the --days cut-off
+  projects: string[];        // Project paths, [] with --all
+  sessionsFound: number;
+  sessionsReady: number;     // Left after the 4-minute minimum
+  sessionsCreated: number;
+  duplicates: number;
+  queuedBatches: number;     // Saved for retry after a failed upload
+  dryRun: boolean;
+}
+
+function isInside(sessionPath: string, projectPaths: string[]): boolean {
+  const normalized = path.normalize(sessionPath).toLowerCase();
+  return projectPaths.some(projectPath => {
+    const base = path.normalize(projectPath).toLowerCase();
+    return normalized === base || normalized.startsWith(base + path.sep);
+  });
+}
+
+/**
+ * Upload sessions by time range and project without the sync menu. Uses the
+ * same loading, sanitizing and upload steps as `send`.
+ */
+export async function syncCommand(options: SyncOptions): Promise<SyncResult> {
+  const projectNames = options.project || [];
+  if (options.all && projectNames.length > 0) {
+    throw new DevArkError('Use either --all or --project, not both', 'INVALID_INPUT');
+  }
+  const days = parseDays(options.days);
+  const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+
+  const orchestrator = new SendOrchestrator();
+  await orchestrator.authenticate({});
+
+  const projectPaths = options.all
+    ? []
+    : projectNames.length > 0
+      ? (await findProjects(projectNames)).map(project => project.actualPath)
+      : [process.cwd()];
+
+  const spinner = options.json ? null : createSpinner('Finding sessions...').start();
+  let sessions;
+  let apiSessions;
+  try {
+    sessions = (await readAllSessions({ since, useIndex: false }))
+      .filter(session => projectPaths.length === 0 || isInside(session.projectPath, projectPaths));
+    apiSessions = sessions.length > 0 ? await orchestrator.sanitizeSessions(sessions, { all: options.all }) : [];
+    spinner?.succeed(`Found ${sessions.length} sessions, ${apiSessions.length} ready to upload`);
+  } catch (error) {
+    spinner?.fail('Failed to load sessions');
+    throw error;
+  }
+
+  const result: SyncResult = {
+    since: since?.toISOString(),
+    projects: projectPaths,
+    sessionsFound: sessions.length,
+    sessionsReady: apiSessions.length,
+    sessionsCreated: 0,
+    duplicates: 0,
+    queuedBatches: 0,
+    dryRun: !!options.dry
+  };
+
+  if (options.dry || apiSessions.length === 0) {
+    return result;
+  }
+
+  await confirmAction(`Upload ${apiSessions.length} sanitized session${apiSessions.length === 1 ? '' : 's'}?`, options);
+  const upload: UploadResult = await orchestrator.uploadSessions(apiSessions, { all: options.all });
+  await orchestrator.updateSyncState(sessions, { all: options.all });
+
+  result.sessionsCreated = upload.created ?? upload.sessionsProcessed ?? apiSessions.length;
+  result.duplicates = upload.duplicates ?? 0;
+  result.queuedBatches = upload.queuedBatches ?? 0;
+  return result;
+}
+
+/**
+ * Create the sync command
+ */
+export function createSyncCommand(): Command {
+  return new Command('sync')
+    .description('Upload sessions to the cloud by time range or project, without prompts')
+    .option('-d, --days <n>', 'Only sessions from the last n days')
+    .option('-p, --project <name>', 'Project name or path (repeatable; default: current directory)', collectValues)
+    .option('-a, --all', 'Sessions from every project')
+    .option('--dry', 'Show how many sessions would be uploaded')
+    .option('-y, --yes', 'Upload without asking')
+    .option('--json', 'Print the result as JSON')
+    .action(async (options: SyncOptions) => {
+      await runScripted('sync', options, () => syncCommand(options), result => {
+        if (result.dryRun || result.sessionsReady === 0) {
+          console.log(colors.info(`${result.sessionsReady} session${result.sessionsReady === 1 ? '' : 's'} would be uploaded`));
+          return;
+        }
+        console.log(colors.success(`✓ ${result.sessionsCreated} new session${result.sessionsCreated === 1 ? '' : 's'} uploaded`));
+        if (result.duplicates > 0) {
+          console.log(colors.subdued(`  ${result.duplicates} already synced`));
+        }
+        if (result.queuedBatches > 0) {
+          console.log(colors.warning(`  ${result.queuedBatches} batch(es) saved for retry: devark send --flush-queue`));
+        }
+      });
+    });
+}
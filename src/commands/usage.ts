@@ -0,0 +1,114 @@
+import { Command } from 'commander';
+import { colors } from '../lib/ui/styles';
+import {
+  readUsageSessions,
+  summarizeTokenUsage,
+  formatTokenCount,
+  formatCost,
+  UsageGroupBy,
+  UsageRow,
+  UsageSummary,
+} from '../lib/token-usage';
+import { DevArkError, handleError } from '../utils/errors';
+
+const DEFAULT_USAGE_DAYS = 30;
+const GROUP_BY_OPTIONS: UsageGroupBy[] = ['project', 'model', 'session'];
+const KEY_WIDTH = 28;
+const NUMBER_WIDTH = 10;
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? text.slice(0, width - 1) + '…' : text;
+}
+
+function formatRow(row: UsageRow): string {
+  return [
+    truncate(row.key, KEY_WIDTH).padEnd(KEY_WIDTH),
+    String(row.sessions).padStart(8),
+    formatTokenCount(row.usage.inputTokens).padStart(NUMBER_WIDTH),
+    formatTokenCount(row.usage.outputTokens).padStart(NUMBER_WIDTH),
+    formatTokenCount(row.usage.cacheReadTokens).padStart(NUMBER_WIDTH),
+    formatTokenCount(row.usage.cacheWriteTokens).padStart(NUMBER_WIDTH),
+    formatCost(row.cost).padStart(NUMBER_WIDTH),
+  ].join(' ');
+}
+
+function displayUsage(summary: UsageSummary, groupBy: UsageGroupBy, days: number, project?: string): void {
+  const scope = project ? ` for ${project}` : '';
+  console.log(colors.accent(`\n💰 Token Usage${scope} (last ${days} days)\n`));
+
+  const header = [
+    groupBy.charAt(0).toUpperCase() + groupBy.slice(1),
+    'Sessions',
+    'Input',
+    'Output',
+    'Cache rd',
+    'Cache wr',
+    'Cost',
+  ];
+  console.log(colors.muted([
+    header[0].padEnd(KEY_WIDTH),
+    header[1].padStart(8),
+    ...header.slice(2).map(title => title.padStart(NUMBER_WIDTH)),
+  ].join(' ')));
+
+  for (const row of summary.rows) {
+    console.log(formatRow(row));
+  }
+
+  console.log(colors.dim('─'.repeat(KEY_WIDTH + 9 + (NUMBER_WIDTH + 1) * 5)));
+  console.log(colors.highlight(formatRow({ ...summary.total, key: 'Total' })));
+
+  if (summary.unpricedModels.length > 0) {
+    console.log(colors.warning(`\nNo price for: ${summary.unpricedModels.join(', ')} (counted as $0)`));
+    console.log(colors.hint('Add one with: devark config --set prices.<model>=<input>,<output>'));
+  }
+
+  console.log(colors.dim('\nCosts are estimates at API list prices, in USD.\n'));
+}
+
+/**
+ * Show token usage and estimated cost from local Claude Code sessions
+ */
+export async function showUsage(options: { days?: string; project?: string; by?: string } = {}): Promise<void> {
+  const days = options.days ? parseInt(options.days, 10) : DEFAULT_USAGE_DAYS;
+  if (isNaN(days) || days < 1) {
+    throw new DevArkError('--days must be a positive number', 'INVALID_INPUT');
+  }
+
+  const groupBy = (options.by || 'project').toLowerCase() as UsageGroupBy;
+  if (!GROUP_BY_OPTIONS.includes(groupBy)) {
+    throw new DevArkError(`--by must be one of: ${GROUP_BY_OPTIONS.join(', ')}`, 'INVALID_INPUT');
+  }
+
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+  since.setHours(0, 0, 0, 0);
+
+  const sessions = await readUsageSessions({ since, project: options.project });
+  const summary = summarizeTokenUsage(sessions, groupBy);
+
+  if (summary.total.sessions === 0) {
+    console.log(colors.muted('\nNo Claude Code sessions with token usage found for this period.\n'));
+    return;
+  }
+
+  displayUsage(summary, groupBy, days, options.project);
+}
+
+/**
+ * Create the usage command
+ */
+export function createUsageCommand(): Command {
+  return new Command('usage')
+    .description('Show token usage and estimated cost per project, model or session')
+    .option('-d, --days <n>', `Number of days to include (default ${DEFAULT_USAGE_DAYS})`)
+    .option('-p, --project <name>', 'Only include sessions from this project')
+    .option('-b, --by <group>', `Group by ${GROUP_BY_OPTIONS.join(', ')} (default project)`)
+    .action(async (options) => {
+      try {
+        await showUsage(options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
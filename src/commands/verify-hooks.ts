@@ -1,5 +1,4 @@
 import { promises as fs } from 'fs';
-import path from 'path';
 import chalk from 'chalk';
 import { parseProjectName } from '../lib/ui/project-display';
 import { exec } from 'child_process';
@@ -7,9 +6,11 @@ import { promisify } from 'util';
 import { showSuccess, showWarning, showInfo, showError } from '../lib/ui';
 import { getToken } from '../lib/auth/token';
 import { getCliPath } from '../lib/config';
-import { getHookMode, getTrackedProjects } from '../lib/claude-settings-reader';
+import { getHookMode, getTrackedProjects, HookMode } from '../lib/claude-settings-reader';
+import { getHooksLogPath } from '../lib/hook-utils';
 import { logger } from '../utils/logger';
-import { getHookStatus, validateHookCommands, readClaudeSettings } from '../lib/hooks-manager';
+import { validateHookCommands, readClaudeSettings } from '../lib/hooks-manager';
+import { getHooksStatus, HOOK_EVENTS, HOOK_EVENT_TYPES, HookEventType } from '../lib/hooks/hooks-controller';
 
 const execAsync = promisify(exec);
 
@@ -34,16 +35,95 @@ async function testHookExecution(): Promise<boolean> {
   }
 }
 
+/**
+ * Result of each verification step, printed by verifyHooks and returned as is
+ * by `verify-hooks --json`
+ */
+export interface HookVerification {
+  authenticated: boolean;
+  settingsPath: string;
+  cliPath: string;
+  hooks: Array<{
+    event: HookEventType;
+    installed: boolean;
+    command?: string;
+    timeout?: number;
+    matcher?: string;
+    expectedMatcher?: string;
+    matcherOk: boolean;
+  }>;
+  hooksDisabled: boolean;        // disableAllHooks in Claude settings
+  trackingMode: HookMode;
+  trackedProjects: string[];
+  canExecute?: boolean;          // Not tested when no hooks are installed
+  validationErrors: string[];
+  logPath: string;
+  hasLoggedErrors: boolean;
+  ready: boolean;                // Hooks will sync sessions
+}
+
+/**
+ * Run every check without printing anything
+ */
+export async function getHookVerification(): Promise<HookVerification> {
+  const token = await getToken();
+  const hookStatus = await getHooksStatus();
+  const hooks = HOOK_EVENT_TYPES.map(event => {
+    const { key, matcher: expectedMatcher } = HOOK_EVENTS[event];
+    const hook = hookStatus[key];
+    return {
+      event,
+      installed: hook.installed,
+      command: hook.command,
+      timeout: hook.timeout,
+      matcher: hook.matcher,
+      expectedMatcher,
+      // A hook in another matcher group runs on different events than expected
+      matcherOk: !hook.installed || !expectedMatcher || hook.matcher === expectedMatcher
+    };
+  });
+  const hasHooks = hooks.some(hook => hook.installed);
+
+  const { merged: settings } = await readClaudeSettings();
+  const trackingMode = await getHookMode();
+  const trackedProjects = await getTrackedProjects();
+
+  const logPath = getHooksLogPath();
+  let hasLoggedErrors = false;
+  try {
+    hasLoggedErrors = (await fs.stat(logPath)).size > 0;
+  } catch {
+    // No log file means no errors
+  }
+
+  const hooksDisabled = !!settings?.disableAllHooks;
+  return {
+    authenticated: !!token,
+    settingsPath: hookStatus.settingsPath,
+    cliPath: getCliPath(),
+    hooks,
+    hooksDisabled,
+    trackingMode,
+    trackedProjects,
+    canExecute: hasHooks ? await testHookExecution() : undefined,
+    validationErrors: hasHooks ? (await validateHookCommands()).errors : [],
+    logPath,
+    hasLoggedErrors,
+    ready: hasHooks && !hooksDisabled && !!token &&
+      (trackingMode === 'all' || (trackingMode === 'selected' && trackedProjects.length > 0))
+  };
+}
+
 /**
  * Verify that devark hooks are properly installed and configured
  */
 export async function verifyHooks(): Promise<void> {
   console.log(chalk.cyan('🔍 Verifying DevArk Hooks...\n'));
+  const result = await getHookVerification();
   
   // 1. Check authentication
   console.log(chalk.gray('1. Checking authentication...'));
-  const token = await getToken();
-  if (token) {
+  if (result.authenticated) {
     showSuccess('  ✓ Authenticated');
   } else {
     showWarning('  ⚠ Not authenticated (hooks will skip sending)');
@@ -52,43 +132,41 @@ export async function verifyHooks(): Promise<void> {
   
   // 2. Check hooks installation
   console.log(chalk.gray('\n2. Checking hook installation...'));
-  const hookStatus = await getHookStatus();
-  
-  if (!hookStatus.installed) {
+  if (!result.hooks.some(hook => hook.installed)) {
     showError('  ✗ No hooks installed');
     showInfo('    Run "devark install-hooks" to install');
     return;
   }
   
-  if (hookStatus.settingsPath) {
-    showSuccess(`  ✓ Hooks found at: ${hookStatus.settingsPath}`);
-  }
+  showSuccess(`  ✓ Hooks found at: ${result.settingsPath}`);
   
   // Show configured CLI path
-  const cliPath = getCliPath();
-  console.log(chalk.gray(`  CLI command: ${cliPath}`));
+  console.log(chalk.gray(`  CLI command: ${result.cliPath}`));
   
-  
-  if (hookStatus.preCompactHook) {
-    showSuccess('  ✓ PreCompact hook installed');
-    if (hookStatus.hookCommands.preCompact) {
-      console.log(chalk.gray(`    Command: ${hookStatus.hookCommands.preCompact}`));
+  for (const hook of result.hooks) {
+    if (!hook.installed) {
+      console.log(chalk.gray(`  - ${hook.event} hook not installed`));
+      continue;
+    }
+
+    showSuccess(`  ✓ ${hook.event} hook installed`);
+    console.log(chalk.gray(`    Command: ${hook.command}`));
+    console.log(chalk.gray(`    Timeout: ${hook.timeout ? `${hook.timeout}s` : 'default (60s)'}`));
+    if (!hook.matcherOk) {
+      showWarning(`    ⚠ Matcher is "${hook.matcher || '(none)'}", expected "${hook.expectedMatcher || '(none)'}"`);
+      showInfo('    Disable and re-enable tracking in the hooks menu to restore it');
     }
-  } else {
-    showWarning('  ⚠ PreCompact hook not installed');
   }
   
   // Check for disableAllHooks setting
-  const { merged: settings } = await readClaudeSettings();
-  if (settings?.disableAllHooks) {
+  if (result.hooksDisabled) {
     showError('  ✗ All hooks are DISABLED (disableAllHooks: true)');
     showInfo('    Remove this setting from settings file to enable hooks');
   }
   
   // 3. Check project tracking configuration
   console.log(chalk.gray('\n3. Checking project tracking...'));
-  const trackingMode = await getHookMode();
-  const trackedProjects = await getTrackedProjects();
+  const { trackingMode, trackedProjects } = result;
   
   if (trackingMode === 'all') {
     showSuccess('  ✓ Tracking ALL projects');
@@ -107,8 +185,7 @@ export async function verifyHooks(): Promise<void> {
   
   // 4. Test hook execution
   console.log(chalk.gray('\n4. Testing hook execution...'));
-  const canExecute = await testHookExecution();
-  if (canExecute) {
+  if (result.canExecute) {
     showSuccess('  ✓ Hook command can execute');
   } else {
     showWarning('  ⚠ Hook command test failed');
@@ -116,43 +193,25 @@ export async function verifyHooks(): Promise<void> {
   }
   
   // Validate hook commands
-  const validation = await validateHookCommands();
-  if (!validation.valid && validation.errors.length > 0) {
+  if (result.validationErrors.length > 0) {
     showWarning('  ⚠ Hook validation issues:');
-    validation.errors.forEach(error => {
+    result.validationErrors.forEach(error => {
       console.log(chalk.yellow(`    • ${error}`));
     });
   }
   
   // 5. Check for hook logs
   console.log(chalk.gray('\n5. Checking hook logs...'));
-  const homeDir = process.env.HOME || process.env.USERPROFILE;
-  if (!homeDir) {
-    console.log(chalk.yellow('⚠️  Unable to determine home directory'));
-    return;
-  }
-  const logPath = path.join(
-    homeDir,
-    '.devark',
-    'hooks.log'
-  );
-  
-  try {
-    const stats = await fs.stat(logPath);
-    if (stats.size > 0) {
-      showWarning(`  ⚠ Hook errors logged at: ${logPath}`);
-      showInfo('    Run "devark hooks-log" to view errors');
-    } else {
-      showSuccess('  ✓ No hook errors');
-    }
-  } catch {
-    showSuccess('  ✓ No hook errors (no log file)');
+  if (result.hasLoggedErrors) {
+    showWarning(`  ⚠ Hook errors logged at: ${result.logPath}`);
+    showInfo('    Run "devark hooks-log" to view errors');
+  } else {
+    showSuccess('  ✓ No hook errors');
   }
   
   // Summary
   console.log(chalk.cyan('\n📊 Summary:'));
-  if (hookStatus.installed && !settings?.disableAllHooks && token && 
-      (trackingMode === 'all' || (trackingMode === 'selected' && trackedProjects.length > 0))) {
+  if (result.ready) {
     showSuccess('  Hooks are properly configured and ready to sync sessions!');
   } else {
     showWarning('  Hooks need configuration. See issues above.');
@@ -160,4 +219,4 @@ export async function verifyHooks(): Promise<void> {
   
   console.log('');
   console.log(chalk.gray('For more help: https://docs.devark.ai/cli/hooks'));
-}
\ No newline at end of file
+}
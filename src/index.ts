@@ -7,9 +7,24 @@ import { privacy } from './commands/privacy';
 import { createAnalyzePromptCommand } from './commands/analyze-prompt';
 import { createStatuslineCommand } from './commands/statusline';
 import { createTestPersonalityCommand } from './commands/test-personality';
+import { createPromptsCommand } from './commands/prompts';
+import { createUsageCommand } from './commands/usage';
+import { createStandupCommand } from './commands/standup';
+import { createRetroCommand } from './commands/retro';
+import { createReportCommand } from './commands/report';
+import { createHooksCommand } from './commands/hooks';
+import { createAgentsCommand } from './commands/agents';
+import { createSyncCommand } from './commands/sync';
 import { installAutoSync } from './commands/install-auto-sync';
+import { status, getStatusData } from './commands/status';
+import { hooksLog, getHooksLogData, HooksLogOptions } from './commands/hooks-log';
+import { verifyHooks, getHookVerification } from './commands/verify-hooks';
+import { cursorStats, getCursorStatsData } from './commands/cursor-stats';
+import { runScripted } from './commands/shared/scripted';
+import { createDoctorCommand } from './commands/doctor';
+import { createBackupCommand } from './commands/backup';
 import { showLogo } from './lib/ui';
-import { handleError } from './utils/errors';
+import { handleError, DevArkError } from './utils/errors';
 import { logger } from './utils/logger';
 import { detectSetupState } from './lib/detector';
 import { showMainMenu } from './lib/ui/main-menu';
@@ -67,6 +82,18 @@ if (!isSilent) {
 // Store version for UI components
 export const currentVersion = process.env.SIMULATE_OLD_VERSION || pkg.version;
 
+/**
+ * True when a --format other than console is requested without --output,
+ * so the command prints its result to stdout
+ */
+function writesFormattedStdout(argv: string[]): boolean {
+  const index = argv.findIndex(arg => arg === '--format' || arg.startsWith('--format='));
+  if (index === -1) return false;
+  const format = argv[index].includes('=') ? argv[index].split('=')[1] : argv[index + 1];
+  const hasOutput = argv.some(arg => arg === '-o' || arg === '--output' || arg.startsWith('--output='));
+  return !!format && format !== 'console' && !hasOutput;
+}
+
 const program = new Command();
 
 program
@@ -85,9 +112,11 @@ program
     const isSilent = process.argv.includes('--silent');
     // Skip logo for hook commands (statusline, etc.)
     const isHookCommand = process.argv[2] === 'statusline';
+    // Skip logo when the result itself goes to stdout for piping
+    const isPipedOutput = writesFormattedStdout(process.argv) || process.argv.includes('--json');
     // Only show logo if a command is specified (not the default interactive menu)
     const hasCommand = process.argv.length > 2 && !process.argv[2].startsWith('-');
-    if (!isSilent && !isHookCommand && hasCommand) {
+    if (!isSilent && !isHookCommand && !isPipedOutput && hasCommand) {
       await showLogo(currentVersion);
     }
   });
@@ -100,10 +129,11 @@ program
   .option('-a, --all', 'Send sessions from all projects (default: current project only)')
   .option('--silent', 'Run in silent mode (for hook execution)')
   .option('--background', 'Run upload in background (for hooks)')
-  .option('--hook-trigger <type>', 'Hook that triggered this command (sessionstart, precompact, sessionend)')
+  .option('--hook-trigger <type>', 'Hook that triggered this command (sessionstart, precompact, sessionend, stop, subagentstop)')
   .option('--hook-version <version>', 'Hook version (for tracking hook updates)')
   .option('--test', 'Test mode for hook validation (exits without processing)')
   .option('--claude-project-dir <dir>', 'Claude project directory from $CLAUDE_PROJECT_DIR')
+  .option('--flush-queue', 'Retry uploads saved after earlier failures')
   .action(async (options) => {
     try {
       await sendWithTimeout(options);
@@ -114,7 +144,7 @@ program
 
 // Auth command - shown in help for direct cloud setup
 program
-  .command('auth', { hidden: true })
+  .command('auth')
   .description('Sign in with GitHub to enable cloud sync, web dashboard, and streak tracking')
   .action(async () => {
     try {
@@ -126,9 +156,9 @@ program
     }
   });
 
-// Hidden command for advanced users
+// Command for advanced users
 program
-  .command('config', { hidden: true })
+  .command('config')
   .description('Manage devark configuration')
   .option('-l, --list', 'List all configuration values')
   .option('-s, --set <key=value>', 'Set a configuration value')
@@ -142,7 +172,7 @@ program
   });
 
 program
-  .command('logout', { hidden: true })
+  .command('logout')
   .description('Clear authentication and logout')
   .action(async () => {
     try {
@@ -152,9 +182,9 @@ program
     }
   });
 
-// Hidden command for advanced users
+// Command for advanced users
 program
-  .command('privacy', { hidden: true })
+  .command('privacy')
   .description('Preview and review data privacy (see what gets sent)')
   .option('-e, --export <path>', 'Export sanitized data to file')
   .action(async (options) => {
@@ -174,6 +204,104 @@ program.addCommand(createStatuslineCommand());
 // Add test-personality command (hidden - for debugging)
 program.addCommand(createTestPersonalityCommand());
 
+// Add prompts command for local prompt-quality history
+program.addCommand(createPromptsCommand());
+
+// Add usage command for local token and cost accounting
+program.addCommand(createUsageCommand());
+
+// Add standup command for scripted standups (the menu runs the same flow)
+program.addCommand(createStandupCommand());
+
+// Add retro command for weekly and monthly retrospectives
+program.addCommand(createRetroCommand());
+
+// Add report command for local reports, with --no-llm for offline statistics
+program.addCommand(createReportCommand());
+
+// Scriptable setup commands (--yes to skip prompts, --json for machine-readable output)
+program.addCommand(createHooksCommand());
+program.addCommand(createAgentsCommand());
+program.addCommand(createSyncCommand());
+
+// Status and diagnostics; --json prints the versioned schema for dashboards and onboarding checks
+program
+  .command('status')
+  .description('Show your streak, sync state and team policy')
+  .option('--json', 'Print local setup, hooks and sync state as JSON (no login needed)')
+  .action(async (options) => {
+    if (options.json) {
+      await runScripted('status', options, getStatusData, () => undefined);
+      return;
+    }
+    try {
+      await status();
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+program
+  .command('hooks-log')
+  .description('Show errors logged by hook runs')
+  .option('-n, --lines <n>', 'Number of lines to show', '50')
+  .option('--clear', 'Clear the hook log')
+  .option('--json', 'Print log lines as JSON')
+  .action(async (options: HooksLogOptions) => {
+    if (options.json) {
+      await runScripted('hooks-log', options, async () => {
+        if (options.clear) {
+          throw new DevArkError('--clear can\'t be combined with --json', 'INVALID_INPUT');
+        }
+        return getHooksLogData(options);
+      }, () => undefined);
+      return;
+    }
+    try {
+      await hooksLog(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+program
+  .command('verify-hooks')
+  .description('Check that hooks are installed, tracking projects and able to run')
+  .option('--json', 'Print every check as JSON')
+  .action(async (options) => {
+    if (options.json) {
+      await runScripted('verify-hooks', options, getHookVerification, () => undefined);
+      return;
+    }
+    try {
+      await verifyHooks();
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+program
+  .command('cursor-stats')
+  .description('Show Cursor IDE conversation and message counts')
+  .option('--json', 'Print counts as JSON')
+  .action(async (options) => {
+    if (options.json) {
+      await runScripted('cursor-stats', options, getCursorStatsData, () => undefined);
+      return;
+    }
+    try {
+      await cursorStats();
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Add doctor command to diagnose and repair broken setups
+program.addCommand(createDoctorCommand());
+
+// Add backup command to move DevArk state between machines
+program.addCommand(createBackupCommand());
+
 // Add install-auto-sync command for direct access to auto-sync configuration
 program
   .command('install-auto-sync')
@@ -201,6 +329,30 @@ function showHelp(): void {
   console.log('  npx devark-cli install-auto-sync  Configure automatic session sync');
   console.log('  npx devark-cli send               Manually sync sessions to cloud');
   console.log('  npx devark-cli privacy            Preview what data gets sent (privacy first!)');
+  console.log('  npx devark-cli config -l         List configuration (-g <key>, -s <key=value>)');
+  console.log('  npx devark-cli logout             Clear authentication and sign out');
+  console.log('  npx devark-cli prompts trend      Show how your prompt quality changes over time');
+  console.log('  npx devark-cli usage              Show token usage and cost per project or model');
+  console.log('  npx devark-cli standup            Standup summary (--date, --since, --format slack|markdown|json)');
+  console.log('  npx devark-cli retro              Weekly or monthly retro with deltas (--week, --month, --format markdown)');
+  console.log('  npx devark-cli report --no-llm    Local report from session data only, no Claude needed (--days, --format)');
+  console.log('  npx devark-cli report --resume    Continue an interrupted Claude report, reusing cached session analyses');
+  console.log('');
+  console.log('Scripted setup (add --yes to skip prompts, --json for JSON output):');
+  console.log('  npx devark-cli hooks install --mode selected --project <name>   Install auto-sync hooks (or --mode all)');
+  console.log('  npx devark-cli hooks uninstall | hooks status');
+  console.log('  npx devark-cli status --json                                    Setup, hooks and sync state as JSON');
+  console.log('  npx devark-cli verify-hooks | hooks-log | cursor-stats          Diagnostics (all accept --json)');
+  console.log('  npx devark-cli doctor --fix                                     Check the setup and repair stale locks, hook paths, token');
+  console.log('  npx devark-cli backup export | backup import <file>             Move settings, sync state and hooks to another machine');
+  console.log('  npx devark-cli statusline install --personality gordon         Install the status line co-pilot');
+  console.log('  npx devark-cli agents install                                   Install the report sub-agents');
+  console.log('  npx devark-cli sync --days 7 --project <name>                   Upload sessions without the menu (or --all)');
+  console.log('  npx devark-cli report --days 7 --out report.html                Write an offline report to a file');
+  console.log('  Run any of these with --help for all options');
+  console.log('');
+  console.log('Exit codes: 0 ok, 1 error, 2 invalid input, 3 not signed in, 4 not found,');
+  console.log('            5 blocked by team policy, 6 needs --yes or cancelled, 7 network error');
   console.log('');
   console.log('For hooks (automatic sync):');
   console.log('  npx devark-cli send --silent    Used by Claude Code hooks');
@@ -210,8 +362,9 @@ function showHelp(): void {
   process.exit(0);
 }
 
-// Handle --help flag
-if (process.argv.includes('--help') || process.argv.includes('-h')) {
+// Handle --help flag; subcommands print their own options
+const hasSubcommand = process.argv.length > 2 && !process.argv[2].startsWith('-');
+if ((process.argv.includes('--help') || process.argv.includes('-h')) && !hasSubcommand) {
   showHelp();
 }
 
@@ -0,0 +1,65 @@
+import { getAnalysisBackendSettings } from '../config';
+import { DevArkError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { claudeSdkBackend } from './claude-sdk';
+import { createOpenAICompatibleBackend } from './openai-compatible';
+import { AnalysisBackend, AnalysisBackendSettings, AnalysisBackendType, AnalysisMode, CompletionRequest } from './types';
+
+export const ANALYSIS_BACKEND_TYPES: AnalysisBackendType[] = ['claude-sdk', 'openai-compatible'];
+export const ANALYSIS_MODES: AnalysisMode[] = ['llm', 'heuristic', 'hybrid'];
+
+/**
+ * Build the backend selected in the config
+ */
+export function getAnalysisBackend(settings: AnalysisBackendSettings = getAnalysisBackendSettings()): AnalysisBackend {
+  switch (settings.backend || 'claude-sdk') {
+    case 'claude-sdk':
+      return claudeSdkBackend;
+
+    case 'openai-compatible':
+      if (!settings.endpoint) {
+        throw new DevArkError(
+          'No analysis endpoint configured. Set one with: devark config --set analysis.endpoint=<url>',
+          'INVALID_CONFIG'
+        );
+      }
+      return createOpenAICompatibleBackend(settings.endpoint);
+
+    default:
+      throw new DevArkError(
+        `Unknown analysis backend "${settings.backend}". Use: ${ANALYSIS_BACKEND_TYPES.join(', ')}`,
+        'INVALID_CONFIG'
+      );
+  }
+}
+
+/**
+ * Run the analysis prompt on the configured backend. When the backend can't be
+ * reached and `fallbackToClaude` is set, the Claude SDK answers instead;
+ * otherwise the ANALYSIS_BACKEND_UNAVAILABLE error reaches the caller.
+ */
+export async function completeAnalysis(
+  request: CompletionRequest,
+  settings: AnalysisBackendSettings = getAnalysisBackendSettings()
+): Promise<{ text: string; backend: AnalysisBackend }> {
+  const backend = getAnalysisBackend(settings);
+
+  try {
+    const text = await backend.complete({
+      ...request,
+      // A configured model wins; the caller's model only makes sense for Claude
+      model: settings.model || (backend.type === 'claude-sdk' ? request.model : undefined),
+      timeoutMs: settings.timeoutMs ?? request.timeoutMs,
+    });
+    return { text, backend };
+  } catch (error) {
+    const unreachable = error instanceof DevArkError && error.code === 'ANALYSIS_BACKEND_UNAVAILABLE';
+    if (!unreachable || !settings.fallbackToClaude || backend.type === 'claude-sdk') {
+      throw error;
+    }
+
+    logger.debug(`${backend.displayName} unreachable, falling back to Claude SDK: ${(error as Error).message}`);
+    const text = await claudeSdkBackend.complete({ ...request, timeoutMs: settings.timeoutMs });
+    return { text, backend: claudeSdkBackend };
+  }
+}
@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import { logger } from '../../utils/logger';
+import { getTempDirectoryPath } from '../temp-directories';
+import { AnalysisBackend, CompletionRequest } from './types';
+
+const DEFAULT_CLAUDE_MODEL = 'haiku';
+
+// Cache the SDK import to avoid re-importing on every analysis
+let cachedSDK: { query: any } | null = null;
+
+/**
+ * Get the Claude SDK, caching it after first import
+ */
+async function getClaudeSDK(): Promise<{ query: any }> {
+  if (!cachedSDK) {
+    logger.debug('Loading Claude SDK for first time...');
+    cachedSDK = await import('@anthropic-ai/claude-agent-sdk');
+  } else {
+    logger.debug('Using cached Claude SDK');
+  }
+  return cachedSDK;
+}
+
+async function complete({ prompt, model, timeoutMs, verbose }: CompletionRequest): Promise<string> {
+  const { query } = await getClaudeSDK();
+  logger.debug('SDK loaded successfully');
+
+  const selectedModel = model || DEFAULT_CLAUDE_MODEL;
+  logger.debug(`Using Claude SDK with ${selectedModel} model for analysis`);
+
+  // Create temp directory for analysis sessions to avoid polluting project history
+  const tempAnalysisDir = getTempDirectoryPath('PROMPT_ANALYSIS');
+  await fs.mkdir(tempAnalysisDir, { recursive: true }).catch(() => {});
+
+  // No timeout unless configured - let the SDK complete naturally
+  const abortController = timeoutMs ? new AbortController() : undefined;
+  const timer = abortController ? setTimeout(() => abortController.abort(), timeoutMs) : undefined;
+
+  // Simplified options - optimize for speed in hook mode
+  const queryOptions = {
+    maxTurns: 1,                    // Single turn only
+    model: selectedModel,           // Use selected model (haiku by default)
+    disallowedTools: ['*'],         // No tools needed for JSON response
+    cwd: tempAnalysisDir,           // Use temp directory to isolate analysis sessions
+    ...(abortController && { abortController }),
+  };
+  logger.debug('Query options:', { ...queryOptions, abortController: !!abortController });
+
+  let rawResponse = '';
+  try {
+    for await (const message of query({ prompt, options: queryOptions })) {
+      // Log every message type we receive
+      logger.debug(`Received message type: ${message.type}`, message.type === 'result' ? message : '');
+
+      if (message.type === 'assistant' && message.message?.content) {
+        const textContent = message.message.content.find((c: any) => c.type === 'text');
+        if (textContent?.text) {
+          rawResponse = textContent.text;
+          logger.debug('Got raw response from SDK:', rawResponse.substring(0, 200));
+        }
+      } else if (message.type === 'result' && verbose) {
+        logger.debug('Analysis metrics:', {
+          duration_ms: message.duration_ms,
+          cost_usd: message.total_cost_usd,
+          model_used: message.model || selectedModel
+        });
+      }
+    }
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+
+  return rawResponse;
+}
+
+export const claudeSdkBackend: AnalysisBackend = {
+  type: 'claude-sdk',
+  displayName: 'Claude SDK',
+  complete,
+};
@@ -0,0 +1,80 @@
+import axios, { AxiosError } from 'axios';
+import { logger } from '../../utils/logger';
+import { DevArkError } from '../../utils/errors';
+import { AnalysisBackend, CompletionRequest } from './types';
+
+/**
+ * Any server that speaks the OpenAI chat completions API: OpenAI itself,
+ * Azure/OpenRouter-style gateways, or local servers such as Ollama
+ * (http://localhost:11434/v1) and llama.cpp (http://localhost:8080/v1).
+ *
+ * The API key, if the server needs one, is read from DEVARK_ANALYSIS_API_KEY
+ * so it never lands in the config file.
+ */
+
+export const DEFAULT_HTTP_TIMEOUT_MS = 30000;
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+/**
+ * Connection failures and timeouts, as opposed to the server answering with an error
+ */
+function isUnreachable(error: AxiosError): boolean {
+  return !error.response || ['ECONNREFUSED', 'ENOTFOUND', 'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT'].includes(error.code || '');
+}
+
+export function createOpenAICompatibleBackend(endpoint: string): AnalysisBackend {
+  const url = `${endpoint.replace(/\/+$/, '')}/chat/completions`;
+
+  async function complete({ prompt, model, timeoutMs }: CompletionRequest): Promise<string> {
+    if (!model) {
+      throw new DevArkError(
+        'No analysis model configured. Set one with: devark config --set analysis.model=<name>',
+        'INVALID_CONFIG'
+      );
+    }
+
+    const apiKey = process.env.DEVARK_ANALYSIS_API_KEY;
+    logger.debug(`Sending analysis request to ${url} with model ${model}`);
+
+    try {
+      const response = await axios.post<ChatCompletionResponse>(
+        url,
+        {
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0,
+          stream: false,
+        },
+        {
+          timeout: timeoutMs || DEFAULT_HTTP_TIMEOUT_MS,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+          },
+        }
+      );
+
+      return response.data?.choices?.[0]?.message?.content || '';
+    } catch (error) {
+      if (error instanceof AxiosError && isUnreachable(error)) {
+        throw new DevArkError(`Analysis backend unreachable at ${endpoint}: ${error.message}`, 'ANALYSIS_BACKEND_UNAVAILABLE');
+      }
+      if (error instanceof AxiosError && error.response) {
+        throw new DevArkError(
+          `Analysis backend returned ${error.response.status}: ${error.message}`,
+          'ANALYSIS_BACKEND_ERROR'
+        );
+      }
+      throw error;
+    }
+  }
+
+  return {
+    type: 'openai-compatible',
+    displayName: `OpenAI-compatible (${endpoint})`,
+    complete,
+  };
+}
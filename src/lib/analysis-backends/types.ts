@@ -0,0 +1,36 @@
+export type AnalysisBackendType = 'claude-sdk' | 'openai-compatible';
+
+/**
+ * llm: backend only; heuristic: rule-based scorer only, no network;
+ * hybrid: rule-based score first, replaced by the LLM result when it arrives
+ */
+export type AnalysisMode = 'llm' | 'heuristic' | 'hybrid';
+
+/**
+ * Prompt analysis backend settings (config key `analysisBackend`)
+ */
+export interface AnalysisBackendSettings {
+  mode?: AnalysisMode;             // Default: llm
+  backend?: AnalysisBackendType;   // Default: claude-sdk
+  model?: string;                  // Backend-specific model name, e.g. haiku or llama3.1
+  endpoint?: string;               // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  timeoutMs?: number;              // Request timeout (HTTP backends default to 30s)
+  fallbackToClaude?: boolean;      // Use the Claude SDK when the configured backend is unreachable
+}
+
+export interface CompletionRequest {
+  prompt: string;
+  model?: string;
+  timeoutMs?: number;
+  verbose?: boolean;
+}
+
+/**
+ * A model that turns the analysis prompt into raw text. The caller extracts
+ * and validates the JSON, so every backend shares the same response contract.
+ */
+export interface AnalysisBackend {
+  type: AnalysisBackendType;
+  displayName: string;
+  complete(request: CompletionRequest): Promise<string>;
+}
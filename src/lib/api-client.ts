@@ -7,6 +7,7 @@ import { isNetworkError, createNetworkError } from './errors/network-errors';
 import { claudeSettingsManager } from './claude-settings-manager';
 import crypto from 'crypto';
 import type { CliTelemetry } from './telemetry';
+import type { GitUploadSummary } from './git-enrichment';
 
 // Size-based batching constants
 const TARGET_BATCH_SIZE_BYTES = 500 * 1024; // 500KB
@@ -32,6 +33,7 @@ export interface Session {
       hasPlanningMode?: boolean;        // Whether planning mode was used
       planningCycles?: number;          // Number of planning cycles
       exitPlanTimestamps?: string[];    // ISO timestamps of ExitPlanMode calls
+      git?: GitUploadSummary;           // Commits during the session (hashes and counts only)
     };
   };
 }
@@ -61,6 +63,22 @@ export interface UploadResult {
   created?: number;              // Number of new sessions created
   duplicates?: number;           // Number of duplicate sessions
   batchId?: string;              // Batch ID for tracking
+  queuedBatches?: number;        // Batches saved to the upload queue after a failure
+}
+
+/**
+ * Called with the failed batch and every batch after it when an upload fails
+ * with a retryable error. If it resolves, uploadSessions resolves with the
+ * results of the batches that did go through instead of throwing.
+ */
+export type FailedBatchHandler = (batches: Session[][], error: unknown) => Promise<void>;
+
+/**
+ * Network errors and 5xx responses are worth retrying later; 4xx are not
+ */
+export function isRetryableUploadError(error: unknown): boolean {
+  return error instanceof AxiosError &&
+    (!error.response || error.response.status >= 500 || isNetworkError(error));
 }
 
 export interface CLIConfiguration {
@@ -429,7 +447,8 @@ class SecureApiClient {
 
   async uploadSessions(
     sessions: Session[],
-    onProgress?: (current: number, total: number, sizeKB?: number) => void
+    onProgress?: (current: number, total: number, sizeKB?: number) => void,
+    onBatchFailed?: FailedBatchHandler
   ): Promise<any> {
     // Gather CLI configuration to send with the upload
     const cliConfig = await gatherCLIConfiguration();
@@ -537,14 +556,25 @@ class SecureApiClient {
           retryCount++;
           
           // Only retry on network errors, not on client errors (4xx)
-          const shouldRetry = error instanceof AxiosError && 
-            (!error.response || error.response.status >= 500 || isNetworkError(error));
+          const shouldRetry = isRetryableUploadError(error);
+          
+          if (shouldRetry && retryCount > MAX_RETRIES && onBatchFailed) {
+            // Hand the unsent batches over (e.g. to the upload queue) instead of losing them
+            const pending = chunks.slice(i);
+            try {
+              await onBatchFailed(pending, error);
+            } catch (handlerError) {
+              logger.debug('Failed batch handler failed', handlerError);
+              throw error;
+            }
+            return { ...this.mergeResults(results), queuedBatches: pending.length };
+          }
           
           if (!shouldRetry || retryCount > MAX_RETRIES) {
             throw error; // Don't retry, throw immediately
           }
           
-          logger.debug(`Network error, retrying (${retryCount}/${MAX_RETRIES})...`, { error: error.message });
+          logger.debug(`Network error, retrying (${retryCount}/${MAX_RETRIES})...`, { error: (error as AxiosError).message });
           // Wait a bit before retrying
           await new Promise(resolve => setTimeout(resolve, 1000 * retryCount));
         }
@@ -558,6 +588,45 @@ class SecureApiClient {
     return this.mergeResults(results);
   }
 
+  /**
+   * Upload a single batch saved by the upload queue.
+   * The checksum is the one computed when the batch was first sent, so the
+   * server sees an identical payload and reports already stored sessions as duplicates.
+   */
+  async uploadQueuedBatch(sessions: Session[], checksum: string): Promise<UploadResult> {
+    const cliConfig = await gatherCLIConfiguration();
+    const configHeaders: Record<string, string> = {};
+    if (cliConfig) {
+      configHeaders['x-devark-config-statusline'] = JSON.stringify(cliConfig.statusline);
+      configHeaders['x-devark-config-hooks'] = JSON.stringify(cliConfig.hooks);
+    }
+
+    const payload = {
+      sessions,
+      checksum,
+      totalSessions: sessions.length,
+      batchNumber: 1,
+      totalBatches: 1,
+    };
+
+    logger.debug(`📤 API Request queued batch: POST /cli/sessions`, {
+      batchSessions: sessions.length,
+      checksum,
+    });
+
+    const response = await this.client.post('/cli/sessions', payload, {
+      headers: configHeaders
+    });
+    return this.mergeResults([response.data]);
+  }
+
+  /**
+   * Checksum used for batch payloads
+   */
+  getBatchChecksum(sessions: Session[]): string {
+    return this.calculateChecksum(sessions);
+  }
+
   private sanitizeSession(session: Session): Session {
     // Remove or sanitize sensitive data
     return {
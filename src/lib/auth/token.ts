@@ -1,5 +1,6 @@
 import { getToken } from '../config';
 import { apiClient } from '../api-client';
+import { DevArkError } from '../../utils/errors';
 
 export async function isAuthenticated(): Promise<boolean> {
   const token = await getToken();
@@ -16,7 +17,7 @@ export async function isAuthenticated(): Promise<boolean> {
 export async function requireAuth(): Promise<void> {
   const authenticated = await isAuthenticated();
   if (!authenticated) {
-    throw new Error('Authentication required. Please run: npx devark-cli');
+    throw new DevArkError('Authentication required. Please run: npx devark-cli', 'AUTH_REQUIRED');
   }
 }
 
@@ -0,0 +1,343 @@
+/**
+ * Backup - moves DevArk state (config, sync watermarks, hook stats, prompt
+ * history, token) and the Claude hook setup to another machine in a
+ * passphrase-encrypted file.
+ */
+
+import crypto from 'crypto';
+import { promises as fs, existsSync } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import { getPortableConfig, setPortableConfig, getToken, storeToken, PortableConfig } from './config';
+import { getHookStatsPath } from './hooks/hooks-stats';
+import { getPromptHistoryPath } from './prompt-history';
+import {
+  readGlobalSettings,
+  readProjectLocalSettings,
+  getHookMode,
+  getTrackedProjects,
+  HookMode
+} from './claude-settings-reader';
+import {
+  getInstalledHookEvents,
+  installSelectedHooks,
+  installSelectiveProjectHooks,
+  HookEventType,
+  HookSelection,
+  HOOK_EVENTS,
+  HOOK_EVENT_TYPES
+} from './hooks/hooks-controller';
+import { getStatusLineStatus, installStatusLine } from './status-line-manager';
+import { loadTeamPolicy, isSyncModeAllowed, getCliVersion } from './team-policy';
+import { DevArkError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+const BACKUP_FORMAT = 'devark-backup';
+const BACKUP_VERSION = 1;
+const MIN_PASSPHRASE_LENGTH = 8;
+const HOOK_MODES: HookMode[] = ['all', 'selected', 'none'];
+
+// scrypt cost; the parameters are stored in the file so they can be raised later
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+/**
+ * Which Claude hooks were installed, so import can install the same ones
+ */
+export interface BackupClaudeSetup {
+  hookMode: HookMode;
+  globalHooks: HookEventType[];                                  // --mode all
+  projects: Array<{ path: string; hooks: HookEventType[] }>;     // --mode selected
+  statusLine: boolean;
+}
+
+/**
+ * Everything in a backup, before encryption
+ */
+export interface BackupPayload {
+  version: number;
+  createdAt: string;
+  cliVersion: string;
+  config: PortableConfig;
+  token?: string;          // Plain text here; re-encrypted with the new machine's key
+  hookStats?: string;      // hooks-stats.json as is
+  promptHistory?: string;  // prompt-history.jsonl as is
+  claude: BackupClaudeSetup;
+}
+
+/**
+ * The file on disk
+ */
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  iv: string;
+  authTag: string;
+  data: string;  // base64 of the encrypted, gzipped payload
+}
+
+export interface BackupImportResult {
+  createdAt: string;
+  restored: string[];              // What was restored, for display
+  hookMode?: HookMode;             // Hooks installed again, when not skipped
+  projects: string[];              // Projects that got their hooks back
+  skippedProjects: string[];       // Not on this machine
+  statusLine: boolean;
+  warnings: string[];
+}
+
+export function validatePassphrase(passphrase: string): void {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new DevArkError(`The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`, 'INVALID_INPUT');
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32, { ...params, maxmem: SCRYPT_MAXMEM });
+}
+
+async function readOptionalFile(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+async function getClaudeSetup(): Promise<BackupClaudeSetup> {
+  const hookMode = await getHookMode();
+  const projects: BackupClaudeSetup['projects'] = [];
+
+  if (hookMode === 'selected') {
+    for (const projectPath of await getTrackedProjects()) {
+      projects.push({ path: projectPath, hooks: getInstalledHookEvents(await readProjectLocalSettings(projectPath)) });
+    }
+  }
+
+  return {
+    hookMode,
+    globalHooks: hookMode === 'all' ? getInstalledHookEvents(await readGlobalSettings()) : [],
+    projects,
+    statusLine: await getStatusLineStatus() === 'installed'
+  };
+}
+
+/**
+ * Collect the current state
+ */
+export async function createBackupPayload(): Promise<BackupPayload> {
+  return {
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    cliVersion: getCliVersion(),
+    config: getPortableConfig(),
+    token: (await getToken()) || undefined,
+    hookStats: await readOptionalFile(getHookStatsPath()),
+    promptHistory: await readOptionalFile(getPromptHistoryPath()),
+    claude: await getClaudeSetup()
+  };
+}
+
+export async function encryptBackup(payload: BackupPayload, passphrase: string): Promise<string> {
+  validatePassphrase(passphrase);
+
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt, SCRYPT_PARAMS), iv);
+  const compressed = await gzip(Buffer.from(JSON.stringify(payload), 'utf-8'));
+  const encrypted = Buffer.concat([cipher.update(compressed), cipher.final()]);
+
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: payload.createdAt,
+    kdf: { name: 'scrypt', salt: salt.toString('hex'), ...SCRYPT_PARAMS },
+    iv: iv.toString('hex'),
+    authTag: cipher.getAuthTag().toString('hex'),
+    data: encrypted.toString('base64')
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export async function decryptBackup(content: string, passphrase: string): Promise<BackupPayload> {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new DevArkError('This is not a DevArk backup file', 'INVALID_BACKUP');
+  }
+  if (file?.format !== BACKUP_FORMAT || !file.kdf || !file.data) {
+    throw new DevArkError('This is not a DevArk backup file', 'INVALID_BACKUP');
+  }
+  if (file.version > BACKUP_VERSION) {
+    throw new DevArkError('This backup was made by a newer devark-cli. Update and try again', 'INVALID_BACKUP');
+  }
+
+  let decrypted: Buffer;
+  try {
+    const { N, r, p } = file.kdf;
+    const key = deriveKey(passphrase, Buffer.from(file.kdf.salt, 'hex'), { N, r, p });
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(file.authTag, 'hex'));
+    decrypted = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+  } catch (error) {
+    logger.debug('Backup decryption failed', error);
+    throw new DevArkError('Wrong passphrase, or the backup file is damaged', 'INVALID_BACKUP');
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse((await gunzip(decrypted)).toString('utf-8'));
+  } catch (error) {
+    logger.debug('Backup payload could not be read', error);
+    throw new DevArkError('The backup file is damaged', 'INVALID_BACKUP');
+  }
+  validateBackupPayload(payload);
+  return payload;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isHookList(value: unknown): value is HookEventType[] {
+  return Array.isArray(value) && value.every(type => (HOOK_EVENT_TYPES as readonly unknown[]).includes(type));
+}
+
+/**
+ * Check the shape of a decrypted payload before anything is restored from it
+ */
+export function validateBackupPayload(payload: unknown): asserts payload is BackupPayload {
+  const problem = getPayloadProblem(payload);
+  if (problem) {
+    throw new DevArkError(`The backup file is damaged (${problem})`, 'INVALID_BACKUP');
+  }
+}
+
+function getPayloadProblem(payload: unknown): string | null {
+  if (!isObject(payload)) return 'no payload';
+  if (typeof payload.version !== 'number' || payload.version > BACKUP_VERSION) return 'unsupported version';
+  if (!isObject(payload.config)) return 'invalid config';
+
+  for (const field of ['createdAt', 'token', 'hookStats', 'promptHistory'] as const) {
+    const value = payload[field];
+    if (value === undefined && field !== 'createdAt') continue;
+    if (typeof value !== 'string') return `invalid ${field}`;
+  }
+
+  const claude = payload.claude;
+  if (!isObject(claude) || !HOOK_MODES.includes(claude.hookMode as HookMode)) return 'invalid hook mode';
+  if (!isHookList(claude.globalHooks)) return 'invalid hooks';
+  if (!Array.isArray(claude.projects) ||
+      !claude.projects.every(project => isObject(project) && typeof project.path === 'string' && isHookList(project.hooks))) {
+    return 'invalid projects';
+  }
+  if (typeof claude.statusLine !== 'boolean') return 'invalid status line';
+
+  return null;
+}
+
+function toSelection(hooks: HookEventType[]): HookSelection {
+  const selection = {} as HookSelection;
+  for (const type of HOOK_EVENT_TYPES) {
+    selection[HOOK_EVENTS[type].key] = hooks.includes(type);
+  }
+  return selection;
+}
+
+/**
+ * Install the hooks and status line from the backup. Projects that don't
+ * exist here are skipped; the team policy can block the old tracking mode.
+ */
+async function restoreClaudeSetup(setup: BackupClaudeSetup, result: BackupImportResult): Promise<void> {
+  if (setup.hookMode !== 'none') {
+    const policy = loadTeamPolicy(process.cwd());
+    if (!isSyncModeAllowed(policy, setup.hookMode)) {
+      result.warnings.push(`${policy!.name || 'Team policy'} does not allow tracking mode "${setup.hookMode}"; hooks were not installed`);
+    } else if (setup.hookMode === 'all') {
+      await installSelectedHooks(toSelection(setup.globalHooks));
+      result.hookMode = 'all';
+    } else {
+      const present = setup.projects.filter(project => existsSync(project.path));
+      result.skippedProjects = setup.projects.filter(project => !present.includes(project)).map(project => project.path);
+
+      if (present.length > 0) {
+        const { failedCount } = await installSelectiveProjectHooks(present.map(project => {
+          const selection = toSelection(project.hooks);
+          return {
+            path: project.path,
+            name: path.basename(project.path),
+            actualPath: project.path,
+            sessionStart: selection.sessionStartHook,
+            preCompact: selection.preCompactHook,
+            sessionEnd: selection.sessionEndHook,
+            userPromptSubmit: selection.userPromptSubmitHook,
+            stop: selection.stopHook,
+            subagentStop: selection.subagentStopHook
+          };
+        }));
+        result.hookMode = 'selected';
+        result.projects = present.map(project => project.path);
+        if (failedCount > 0) {
+          result.warnings.push(`Hooks could not be installed in ${failedCount} of ${present.length} projects`);
+        }
+      }
+    }
+  }
+
+  if (setup.statusLine) {
+    await installStatusLine();
+    result.statusLine = true;
+  }
+}
+
+/**
+ * Restore a decrypted backup over the current state
+ */
+export async function restoreBackup(payload: BackupPayload, options: { hooks?: boolean } = {}): Promise<BackupImportResult> {
+  validateBackupPayload(payload);
+
+  const result: BackupImportResult = {
+    createdAt: payload.createdAt,
+    restored: [],
+    projects: [],
+    skippedProjects: [],
+    statusLine: false,
+    warnings: []
+  };
+
+  setPortableConfig(payload.config);
+  result.restored.push('settings');
+  if (payload.config.projectSyncData) {
+    const count = Object.keys(payload.config.projectSyncData).length;
+    result.restored.push(`sync data for ${count} project${count === 1 ? '' : 's'}`);
+  }
+
+  if (payload.token) {
+    await storeToken(payload.token);
+    result.restored.push('sign-in');
+  }
+
+  const devarkDir = path.dirname(getHookStatsPath());
+  await fs.mkdir(devarkDir, { recursive: true });
+  if (payload.hookStats) {
+    await fs.writeFile(getHookStatsPath(), payload.hookStats);
+    result.restored.push('hook statistics');
+  }
+  if (payload.promptHistory) {
+    await fs.writeFile(getPromptHistoryPath(), payload.promptHistory);
+    result.restored.push('prompt history');
+  }
+
+  if (options.hooks !== false) {
+    await restoreClaudeSetup(payload.claude, result);
+  }
+
+  return result;
+}
@@ -1,6 +1,8 @@
 /**
- * CCUsage Configuration Manager
- * Manages the integration of ccusage metrics with devark statusline
+ * Usage Metrics Configuration Manager
+ * Toggles the --with-usage flag that adds token usage and cost to the devark
+ * statusline. The module keeps its historical ccusage name; the metrics are
+ * now calculated natively (see token-usage.ts).
  */
 
 import { logger } from '../utils/logger';
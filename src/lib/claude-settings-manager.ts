@@ -10,6 +10,8 @@ import {
   readGlobalSettings, 
   writeGlobalSettings,
   readProjectLocalSettings,
+  isPromptAnalysisCommand,
+  getStatusLineAnalyzeCommand,
   ClaudeSettings
 } from './claude-settings-reader';
 import { getCliPath, saveStatusLineBackup, getStatusLineBackup, clearStatusLineBackup } from './config';
@@ -95,10 +97,11 @@ export class ClaudeSettingsManager {
     const cliPath = getCliPath();
     const expectedPrefix = `${cliPath} analyze-prompt`;
     
-    // Must be our exact command pattern
+    // Must be our exact command pattern; the hooks installer adds --hook-trigger to its own
     return command.startsWith(expectedPrefix) && 
            command.includes('--silent') && 
-           command.includes('--stdin');
+           command.includes('--stdin') &&
+           !command.includes('--hook-trigger');
   }
   
   /**
@@ -160,19 +163,22 @@ export class ClaudeSettingsManager {
     // 2. Remove any existing status line components to prevent duplicates
     this.removeStatusLineComponents(settings);
     
-    // 3. Install UserPromptSubmit hook for analysis
+    // 3. Install UserPromptSubmit hook for analysis, unless the hooks
+    // installer's UserPromptSubmit hook analyzes prompts already
     if (!settings.hooks) settings.hooks = {};
     if (!settings.hooks.UserPromptSubmit) settings.hooks.UserPromptSubmit = [];
     
-    const analyzeCommand = `${cliPath} analyze-prompt --silent --stdin`;
+    const analyzeCommand = getStatusLineAnalyzeCommand(cliPath);
     
-    // Check if there's already a UserPromptSubmit config with hooks array
-    if (settings.hooks.UserPromptSubmit.length > 0 && settings.hooks.UserPromptSubmit[0].hooks) {
+    if (this.hasAnalyzePromptHook(settings)) {
+      logger.debug('Prompt analysis is already enabled by the UserPromptSubmit hook, not adding another');
+    } else if (settings.hooks.UserPromptSubmit.length > 0 && settings.hooks.UserPromptSubmit[0].hooks) {
       // Append to existing hooks array
       settings.hooks.UserPromptSubmit[0].hooks.push({
         type: 'command',
         command: analyzeCommand
       });
+      logger.debug(`Added UserPromptSubmit hook: ${analyzeCommand}`);
     } else {
       // Create new config with hooks array
       settings.hooks.UserPromptSubmit.push({
@@ -181,10 +187,9 @@ export class ClaudeSettingsManager {
           command: analyzeCommand
         }]
       });
+      logger.debug(`Added UserPromptSubmit hook: ${analyzeCommand}`);
     }
     
-    logger.debug(`Added UserPromptSubmit hook: ${analyzeCommand}`);
-    
     // 4. Install statusLine display configuration
     const statuslineCommand = `${cliPath} statusline`;
     settings.statusLine = {
@@ -432,13 +437,14 @@ export class ClaudeSettingsManager {
   }
   
   /**
-   * Check if analyze-prompt hook is installed
+   * Check if prompts are analyzed, by our analyze-prompt hook or the hooks
+   * installer's UserPromptSubmit hook
    */
   private hasAnalyzePromptHook(settings: ClaudeSettings | null): boolean {
     if (!settings?.hooks?.UserPromptSubmit) return false;
     
     return settings.hooks.UserPromptSubmit.some((config: any) =>
-      config.hooks?.some((hook: any) => this.isAnalyzePromptCommand(hook.command))
+      config.hooks?.some((hook: any) => this.isAnalyzePromptCommand(hook.command) || isPromptAnalysisCommand(hook.command))
     );
   }
   
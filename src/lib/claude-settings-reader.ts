@@ -157,6 +157,32 @@ function isDevArkCommand(command: string | undefined): boolean {
   return command.includes('devark') || command.includes('devark');
 }
 
+/**
+ * Check if a command analyzes prompts: the status line's `analyze-prompt`
+ * hook or the hooks installer's UserPromptSubmit hook (the same command with
+ * --hook-trigger). Either one turns prompt analysis on; installing both would
+ * analyze every prompt twice.
+ */
+export function isPromptAnalysisCommand(command: string | undefined): boolean {
+  if (!command || !isDevArkCommand(command)) return false;
+  return / analyze-prompt(?:\s|$)/.test(command);
+}
+
+/**
+ * The status line's own UserPromptSubmit command
+ */
+export function getStatusLineAnalyzeCommand(cliPath: string): string {
+  return `${cliPath} analyze-prompt --silent --stdin`;
+}
+
+/**
+ * Check if settings show the devark status line
+ */
+export function hasDevArkStatusLine(settings: ClaudeSettings | null): boolean {
+  const command = settings?.statusLine?.command;
+  return !!command && isDevArkCommand(command) && / statusline(?:\s|$)/.test(command);
+}
+
 /**
  * Check if settings have devark hooks
  */
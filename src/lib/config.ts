@@ -4,6 +4,12 @@ import { homedir } from 'os';
 import { join } from 'path';
 import fs from 'fs/promises';
 import { logger } from '../utils/logger';
+import type { SessionTool } from './readers/types';
+import type { RedactionRule } from './redaction-rules';
+import type { AnalysisBackendSettings } from './analysis-backends/types';
+import type { ModelPrice } from './token-usage';
+import type { UsageBudgets, BudgetPeriod, BudgetLimits, BudgetSettings } from './usage-budget';
+import type { WorkingCalendarSettings } from './working-calendar';
 
 export interface ProjectSyncData {
   oldestSyncedTimestamp?: string;
@@ -26,10 +32,23 @@ interface ConfigSchema {
   projectSyncData?: {
     [claudeFolderName: string]: ProjectSyncData;
   };
+  // Daily/weekly token and dollar budgets, global and per project folder name
+  usageBudgets?: UsageBudgets;
+  workingCalendar?: WorkingCalendarSettings;
   lastSyncSummary?: {
     timestamp: string;
     description: string;
   };
+  // Skip Claude JSONL lines above this many bytes (DEFAULT_MAX_LINE_BYTES when unset)
+  maxLineBytes?: number;
+  // Per-tool session source switches (missing = enabled)
+  sessionSources?: Partial<Record<SessionTool, boolean>>;
+  // User-defined sanitizer rules, applied to every project
+  redactionRules?: RedactionRule[];
+  // Model used to score prompts (Claude SDK unless configured)
+  analysisBackend?: AnalysisBackendSettings;
+  // Per-model price overrides for token cost accounting (USD per million tokens)
+  modelPrices?: Record<string, ModelPrice>;
   statusLine?: {
     personality: 'gordon' | 'devark' | 'custom';
     customPersonality?: {
@@ -121,8 +140,10 @@ async function encrypt(text: string): Promise<string> {
 }
 
 async function decrypt(encryptedData: string): Promise<string> {
-  const key = await getOrCreateKey();
-  
+  return decryptWithKey(encryptedData, await getOrCreateKey());
+}
+
+function decryptWithKey(encryptedData: string, key: Buffer): string {
   const parts = encryptedData.split(':');
   if (parts.length !== 3) {
     throw new Error('Invalid encrypted data format');
@@ -168,6 +189,46 @@ export async function clearToken(): Promise<void> {
   config.delete('token');
 }
 
+/**
+ * Whether the stored token can be decrypted. 'bad-key' means ~/.devark/.key
+ * isn't a valid key, so no token can be stored or read with it.
+ */
+export type TokenHealth = 'missing' | 'valid' | 'bad-key' | 'undecryptable';
+
+export async function getTokenHealth(): Promise<TokenHealth> {
+  // Read the key directly: decrypt() would create one when it's missing
+  let key: Buffer | null = null;
+  try {
+    key = Buffer.from((await fs.readFile(KEY_FILE)).toString(), 'hex');
+    if (key.length !== 32) {
+      return 'bad-key';
+    }
+  } catch {
+    // No key yet; one is created with the first token
+  }
+
+  const encrypted = config.get('token');
+  if (!encrypted) return 'missing';
+  // A token without its key can't be read
+  if (!key) return 'undecryptable';
+
+  try {
+    decryptWithKey(encrypted, key);
+    return 'valid';
+  } catch {
+    return 'undecryptable';
+  }
+}
+
+/**
+ * Remove the stored token and the key it was encrypted with. A new key is
+ * created when the user signs in again.
+ */
+export async function resetTokenEncryption(): Promise<void> {
+  config.delete('token');
+  await fs.unlink(KEY_FILE).catch(() => {});
+}
+
 export function getApiUrl(): string {
   const envUrl = process.env.DEVARK_API_URL;
   const configUrl = config.get('apiUrl');
@@ -344,7 +405,14 @@ export function getAllConfig(): ConfigSchema {
       lastSync: config.get('lastSync'),
       preferences: config.get('preferences'),
       projectSyncData: config.get('projectSyncData'),
+      usageBudgets: config.get('usageBudgets'),
+      workingCalendar: config.get('workingCalendar'),
       lastSyncSummary: config.get('lastSyncSummary'),
+      sessionSources: config.get('sessionSources'),
+      maxLineBytes: config.get('maxLineBytes'),
+      redactionRules: config.get('redactionRules'),
+      analysisBackend: config.get('analysisBackend'),
+      modelPrices: config.get('modelPrices'),
     };
   } catch {
     // Config file doesn't exist, return empty object
@@ -358,6 +426,10 @@ export function getProjectSyncData(claudeFolderName: string): ProjectSyncData |
   return projectData[claudeFolderName];
 }
 
+export function getAllProjectSyncData(): Record<string, ProjectSyncData> {
+  return config.get('projectSyncData') || {};
+}
+
 export function setProjectSyncData(claudeFolderName: string, data: ProjectSyncData): void {
   const projectData = config.get('projectSyncData') || {};
   projectData[claudeFolderName] = data;
@@ -397,6 +469,57 @@ export function updateProjectSyncBoundaries(
   setProjectSyncData(claudeFolderName, updated);
 }
 
+// Usage budgets
+export function getUsageBudgets(): UsageBudgets {
+  return config.get('usageBudgets') || {};
+}
+
+/**
+ * Set or clear (null) the limits of one period, globally or for a project
+ */
+export function setUsageBudget(project: string | null, period: BudgetPeriod, limits: BudgetLimits | null): void {
+  const budgets = getUsageBudgets();
+  let settings: BudgetSettings;
+  if (project) {
+    budgets.projects = budgets.projects || {};
+    settings = budgets.projects[project] = budgets.projects[project] || {};
+  } else {
+    settings = budgets.global = budgets.global || {};
+  }
+
+  if (limits) {
+    settings[period] = { ...settings[period], ...limits };
+  } else {
+    delete settings[period];
+  }
+
+  if (project && budgets.projects && Object.keys(settings).length === 0) {
+    delete budgets.projects[project];
+  }
+  config.set('usageBudgets', budgets);
+}
+
+// Working calendar
+export function getWorkingCalendarSettings(): WorkingCalendarSettings {
+  return config.get('workingCalendar') || {};
+}
+
+/**
+ * Set or clear (undefined) one working calendar setting
+ */
+export function setWorkingCalendarSetting<K extends keyof WorkingCalendarSettings>(
+  key: K,
+  value: WorkingCalendarSettings[K] | undefined
+): void {
+  const settings = getWorkingCalendarSettings();
+  if (value === undefined) {
+    delete settings[key];
+  } else {
+    settings[key] = value;
+  }
+  config.set('workingCalendar', settings);
+}
+
 export function setLastSyncSummary(description: string): void {
   config.set('lastSyncSummary', {
     timestamp: new Date().toISOString(),
@@ -410,6 +533,68 @@ export function getLastSyncSummary(): { timestamp: string; description: string }
   return config.get('lastSyncSummary');
 }
 
+// Session source switches
+export function getSessionSourceSettings(): Partial<Record<SessionTool, boolean>> {
+  return config.get('sessionSources') || {};
+}
+
+export function setSessionSourceEnabled(tool: SessionTool, enabled: boolean): void {
+  const settings = getSessionSourceSettings();
+  settings[tool] = enabled;
+  config.set('sessionSources', settings);
+}
+
+// Per-line cap for streamed session files
+export function getMaxLineBytes(): number | undefined {
+  return config.get('maxLineBytes');
+}
+
+export function setMaxLineBytes(bytes: number | undefined): void {
+  if (bytes === undefined) {
+    config.delete('maxLineBytes');
+  } else {
+    config.set('maxLineBytes', bytes);
+  }
+}
+
+// Custom redaction rules
+export function getRedactionRules(): RedactionRule[] {
+  return config.get('redactionRules') || [];
+}
+
+export function setRedactionRules(rules: RedactionRule[]): void {
+  config.set('redactionRules', rules);
+}
+
+// Prompt analysis backend
+export function getAnalysisBackendSettings(): AnalysisBackendSettings {
+  return config.get('analysisBackend') || {};
+}
+
+export function setAnalysisBackendSetting<K extends keyof AnalysisBackendSettings>(
+  key: K,
+  value: AnalysisBackendSettings[K]
+): void {
+  const settings = getAnalysisBackendSettings();
+  settings[key] = value;
+  config.set('analysisBackend', settings);
+}
+
+// Model price overrides
+export function getModelPriceOverrides(): Record<string, ModelPrice> {
+  return config.get('modelPrices') || {};
+}
+
+export function setModelPriceOverride(model: string, price: ModelPrice | null): void {
+  const prices = getModelPriceOverrides();
+  if (price) {
+    prices[model] = price;
+  } else {
+    delete prices[model];
+  }
+  config.set('modelPrices', prices);
+}
+
 export function getConfigValue(key: keyof ConfigSchema): any {
   if (key === 'token') {
     return config.get('token') ? '<redacted>' : undefined;
@@ -431,6 +616,41 @@ export function getConfigPath(): string {
   return config.path;
 }
 
+// Config that only makes sense on the machine that wrote it: the token is
+// encrypted with this machine's key, cliPath points at a local install, the
+// status line backup holds this machine's previous status line, and the last
+// sync summary describes a sync made from here
+const MACHINE_CONFIG_KEYS = ['token', 'cliPath', 'statusLineBackup', 'lastSyncSummary'] as const;
+
+/**
+ * Config values that can move to another machine (backup export)
+ */
+export type PortableConfig = Omit<Partial<ConfigSchema>, typeof MACHINE_CONFIG_KEYS[number]>;
+
+export function getPortableConfig(): PortableConfig {
+  const values: Record<string, unknown> = { ...config.store };
+  for (const key of MACHINE_CONFIG_KEYS) {
+    delete values[key];
+  }
+  return values as PortableConfig;
+}
+
+/**
+ * Apply values from another machine (backup import). Sync data is merged per
+ * project; every other key replaces the local value.
+ */
+export function setPortableConfig(values: PortableConfig): void {
+  for (const [key, value] of Object.entries(values) as Array<[keyof PortableConfig, unknown]>) {
+    if ((MACHINE_CONFIG_KEYS as readonly string[]).includes(key) || value === undefined) continue;
+
+    if (key === 'projectSyncData') {
+      config.set('projectSyncData', { ...(config.get('projectSyncData') || {}), ...(value as ConfigSchema['projectSyncData']) });
+    } else {
+      config.set(key, value as ConfigSchema[typeof key]);
+    }
+  }
+}
+
 // Status line backup management functions
 export function saveStatusLineBackup(backup: {
   originalCommand?: string;
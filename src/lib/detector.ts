@@ -6,6 +6,8 @@ import { logger } from '../utils/logger';
 import { DEVARK_SUB_AGENTS } from './sub-agents/constants';
 import { getHookMode, getTrackedProjects as getHookTrackedProjects } from './claude-settings-reader';
 import { getStatusLineStatus, StatusLineStatus } from './status-line-manager';
+import { getSessionSourceStatuses, SessionSourceStatus } from './readers/session-sources';
+import { loadTeamPolicy, getTeamPolicyViolations } from './team-policy';
 
 export type SetupState =
   | 'FIRST_TIME'           // No configuration exists
@@ -34,6 +36,9 @@ export interface StateDetails {
   trackingMode: 'all' | 'selected' | 'none';
   trackedProjectCount: number;
   trackedProjectNames?: string[];
+  sessionSources?: SessionSourceStatus[];
+  teamPolicyName?: string;
+  policyViolations?: string[];
   errors: string[];
 }
 
@@ -153,6 +158,26 @@ export async function detectSetupState(): Promise<StateDetails> {
       }
     }
 
+    // Check which session sources (Claude Code, Cursor, ...) are present and enabled
+    try {
+      details.sessionSources = getSessionSourceStatuses();
+    } catch (error) {
+      logger.debug('Error detecting session sources:', error);
+      details.sessionSources = [];
+    }
+
+    // Check the current setup against the team policy, if there is one
+    try {
+      const policy = loadTeamPolicy(process.cwd());
+      if (policy) {
+        details.teamPolicyName = policy.name || 'Team policy';
+        const violations = await getTeamPolicyViolations(process.cwd(), policy);
+        details.policyViolations = violations.map(violation => violation.message);
+      }
+    } catch (error) {
+      logger.debug('Error checking team policy:', error);
+    }
+
     // Determine state based on what's installed
     if (!details.hasConfig && !details.hasAuth && !details.hasAgents) {
       details.state = 'FIRST_TIME';
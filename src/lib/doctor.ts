@@ -0,0 +1,277 @@
+/**
+ * Doctor - checks the pieces that break setups silently (hook commands, lock
+ * files, token encryption, the claude binary, the status line) and applies
+ * the repairs that can't lose data.
+ */
+
+import { detectSetupState } from './detector';
+import { getCliPath, getTokenHealth, resetTokenEncryption } from './config';
+import { validateHookCommands } from './hooks-manager';
+import { getStaleHookEvents, updateHooksCliPath } from './hooks/hooks-controller';
+import { readGlobalSettings, readProjectLocalSettings, getHookMode, getTrackedProjects } from './claude-settings-reader';
+import { HookLock } from './hook-lock';
+import { getUploadLockInfo, removeUploadLock } from '../utils/spawn';
+import { getStatusLineStatus, detectExistingStatusLine, installStatusLine } from './status-line-manager';
+import { checkClaudeInstalled } from '../utils/claude-executor';
+import { logger } from '../utils/logger';
+
+export type DoctorStatus = 'pass' | 'warn' | 'fail';
+
+/**
+ * Outcome of one check
+ */
+export interface DoctorCheck {
+  status: DoctorStatus;
+  message: string;
+  hint?: string;                  // What to run when there's no automatic fix
+  fix?: () => Promise<string>;    // Safe repair, resolves to what it did
+}
+
+/**
+ * A check after --fix, without the repair function
+ */
+export interface DoctorCheckResult {
+  id: string;
+  title: string;
+  status: DoctorStatus;
+  message: string;
+  hint?: string;
+  fixable: boolean;
+  fixed?: string;       // What --fix did
+  fixError?: string;    // Why --fix failed
+}
+
+export interface DoctorReport {
+  checks: DoctorCheckResult[];
+  passed: number;
+  warnings: number;
+  failures: number;
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.round(minutes / 60)}h`;
+}
+
+async function checkSetup(): Promise<DoctorCheck> {
+  const state = await detectSetupState();
+
+  if (state.state === 'ERROR' || state.errors.length > 0) {
+    return { status: 'fail', message: `Could not read the setup: ${state.errors.join('; ')}` };
+  }
+  if (state.policyViolations && state.policyViolations.length > 0) {
+    return {
+      status: 'warn',
+      message: state.policyViolations.join('; '),
+      hint: 'Run "devark status" for the team policy details'
+    };
+  }
+  return { status: 'pass', message: `${state.state}, tracking ${state.trackingMode}` };
+}
+
+async function checkHookCommands(): Promise<DoctorCheck> {
+  const settings = await readGlobalSettings();
+  const cliPath = getCliPath();
+  const stale = getStaleHookEvents(settings, cliPath);
+
+  if (stale.length > 0) {
+    return {
+      status: 'fail',
+      message: `${stale.join(', ')} ${stale.length === 1 ? 'hook runs' : 'hooks run'} an old CLI path (current: ${cliPath})`,
+      fix: async () => `Updated ${await updateHooksCliPath()} hook commands to ${cliPath}`
+    };
+  }
+
+  const mode = await getHookMode();
+  if (mode === 'none') {
+    return {
+      status: 'warn',
+      message: 'No auto-sync hooks installed',
+      hint: 'Run "devark hooks install" (or "--mode selected --project <name>")'
+    };
+  }
+  if (mode === 'selected') {
+    // Only global hooks are rewritten automatically
+    const staleProjects: string[] = [];
+    for (const projectPath of await getTrackedProjects()) {
+      if (getStaleHookEvents(await readProjectLocalSettings(projectPath), cliPath).length > 0) {
+        staleProjects.push(projectPath);
+      }
+    }
+    if (staleProjects.length > 0) {
+      return {
+        status: 'fail',
+        message: `Hooks in ${staleProjects.join(', ')} run an old CLI path (current: ${cliPath})`,
+        hint: 'Reinstall them: "devark hooks uninstall --project <path> --yes", then "devark hooks install --project <path> --yes"'
+      };
+    }
+    return { status: 'pass', message: `Project hooks run ${cliPath}` };
+  }
+
+  const { errors } = await validateHookCommands();
+  if (errors.length > 0) {
+    return {
+      status: 'fail',
+      message: errors.join('; '),
+      hint: 'Set the CLI path with "devark config -s cliPath=<command>"'
+    };
+  }
+  return { status: 'pass', message: `Hooks run ${cliPath}` };
+}
+
+async function checkHookLock(): Promise<DoctorCheck> {
+  const hookLock = new HookLock();
+  const lock = await hookLock.inspect();
+
+  if (!lock) {
+    return { status: 'pass', message: 'No hook is running' };
+  }
+  if (!lock.stale) {
+    return { status: 'pass', message: `A hook is running (PID ${lock.pid})` };
+  }
+  return {
+    status: 'warn',
+    message: lock.pid
+      ? `Stale hook.lock from PID ${lock.pid} (${formatAge(lock.age)} old)`
+      : 'Unreadable hook.lock',
+    fix: async () => {
+      await hookLock.forceClear();
+      return 'Removed hook.lock';
+    }
+  };
+}
+
+async function checkUploadLock(): Promise<DoctorCheck> {
+  const lock = await getUploadLockInfo();
+
+  if (!lock) {
+    return { status: 'pass', message: 'No background upload is running' };
+  }
+  if (!lock.stale) {
+    return { status: 'pass', message: `A background upload is running (PID ${lock.pid})` };
+  }
+  return {
+    status: 'fail',
+    message: `upload.lock left by a background upload that ended (${formatAge(lock.age)} old); hooks skip uploading while it exists`,
+    fix: async () => {
+      await removeUploadLock();
+      return 'Removed upload.lock';
+    }
+  };
+}
+
+async function checkToken(): Promise<DoctorCheck> {
+  const health = await getTokenHealth();
+  const reset = async () => {
+    await resetTokenEncryption();
+    return 'Removed the unreadable token and key. Run "devark auth" to sign in again';
+  };
+
+  switch (health) {
+    case 'valid':
+      return { status: 'pass', message: 'Token decrypts with ~/.devark/.key' };
+    case 'missing':
+      return { status: 'pass', message: 'Not signed in (cloud sync is off)' };
+    case 'bad-key':
+      return { status: 'fail', message: '~/.devark/.key is not a valid encryption key', fix: reset };
+    case 'undecryptable':
+      return { status: 'fail', message: 'The stored token can\'t be decrypted with ~/.devark/.key', fix: reset };
+  }
+}
+
+async function checkClaudeBinary(): Promise<DoctorCheck> {
+  const claude = await checkClaudeInstalled();
+
+  if (!claude.installed) {
+    return {
+      status: 'warn',
+      message: 'claude was not found in PATH; local reports and standups need it',
+      hint: 'Install Claude Code: https://docs.anthropic.com/en/docs/claude-code'
+    };
+  }
+  return { status: 'pass', message: `${claude.path}${claude.version ? ` (${claude.version})` : ''}` };
+}
+
+async function checkStatusLine(): Promise<DoctorCheck> {
+  const status = await getStatusLineStatus();
+
+  if (status === 'not-installed') {
+    return { status: 'pass', message: 'Not installed' };
+  }
+  if (status === 'installed') {
+    return { status: 'pass', message: 'Installed' };
+  }
+
+  // Half installed: either another tool replaced the display, or a part is missing
+  const existing = await detectExistingStatusLine();
+  if (existing?.command) {
+    return {
+      status: 'warn',
+      message: `Another status line replaced DevArk's: ${existing.command}`,
+      hint: 'Run "devark statusline install --yes" to switch back (the other one is backed up)'
+    };
+  }
+  return {
+    status: 'warn',
+    message: 'Only part of the status line is installed',
+    fix: async () => {
+      await installStatusLine();
+      return 'Reinstalled the status line';
+    }
+  };
+}
+
+const CHECKS: Array<{ id: string; title: string; run: () => Promise<DoctorCheck> }> = [
+  { id: 'setup', title: 'Setup', run: checkSetup },
+  { id: 'hook-commands', title: 'Hook commands', run: checkHookCommands },
+  { id: 'hook-lock', title: 'Hook lock', run: checkHookLock },
+  { id: 'upload-lock', title: 'Upload lock', run: checkUploadLock },
+  { id: 'token', title: 'Stored token', run: checkToken },
+  { id: 'claude', title: 'Claude CLI', run: checkClaudeBinary },
+  { id: 'status-line', title: 'Status line', run: checkStatusLine }
+];
+
+/**
+ * Run every check. A check that throws is reported as failed instead of
+ * stopping the others.
+ */
+export async function runDoctorChecks(): Promise<Array<DoctorCheck & { id: string; title: string }>> {
+  const checks: Array<DoctorCheck & { id: string; title: string }> = [];
+  for (const { id, title, run } of CHECKS) {
+    try {
+      checks.push({ id, title, ...(await run()) });
+    } catch (error) {
+      logger.debug(`Doctor check ${id} failed`, error);
+      checks.push({ id, title, status: 'fail', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return checks;
+}
+
+/**
+ * Run the checks and, with fix, apply the safe repairs. Repaired checks pass.
+ */
+export async function runDoctor(options: { fix?: boolean } = {}): Promise<DoctorReport> {
+  const checks: DoctorCheckResult[] = [];
+
+  for (const { fix, ...check } of await runDoctorChecks()) {
+    const result: DoctorCheckResult = { ...check, fixable: !!fix };
+    if (fix && options.fix && check.status !== 'pass') {
+      try {
+        result.fixed = await fix();
+        result.status = 'pass';
+      } catch (error) {
+        result.fixError = error instanceof Error ? error.message : String(error);
+      }
+    }
+    checks.push(result);
+  }
+
+  return {
+    checks,
+    passed: checks.filter(check => check.status === 'pass').length,
+    warnings: checks.filter(check => check.status === 'warn').length,
+    failures: checks.filter(check => check.status === 'fail').length
+  };
+}
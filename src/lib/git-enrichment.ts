@@ -0,0 +1,295 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { GitCommitInfo, SessionData, SessionGitInfo } from './readers/types';
+import { CURSOR_UNKNOWN_PROJECT } from './readers/cursor';
+import { parseProjectName } from './ui/project-display';
+import { logger } from '../utils/logger';
+
+/**
+ * Git enrichment stage: ties sessions to the commits the user authored while
+ * the session was running. Runs `git` locally in each session's projectPath;
+ * projects that are not repositories (or have no git installed) are left as
+ * they are.
+ *
+ * One `git log` per project covers all of its sessions, so enriching a
+ * large sync stays cheap.
+ */
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 5000;
+const GIT_MAX_BUFFER = 10 * 1024 * 1024;
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * Privacy-preserving summary sent with the upload: hashes and counts only,
+ * never commit messages or file names
+ */
+export interface GitUploadSummary {
+  commitHashes: string[];
+  commits: number;
+  filesChanged: number;
+  linesAdded: number;
+  linesRemoved: number;
+  hasUpstream: boolean;
+  pullRequests: number[];
+}
+
+/**
+ * Commits of one project over a set of sessions, for standups and reports
+ */
+export interface ProjectGitActivity {
+  project: string;
+  projectPath: string;
+  commits: GitCommitInfo[];     // Newest first, each commit once
+  filesChanged: number;
+  insertions: number;
+  deletions: number;
+  hasUpstream: boolean;
+  pullRequests: number[];
+}
+
+interface RepoInfo {
+  root: string;
+  authorEmail?: string;
+  hasUpstream: boolean;
+}
+
+async function runGit(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    timeout: GIT_TIMEOUT_MS,
+    maxBuffer: GIT_MAX_BUFFER,
+    windowsHide: true,
+  });
+  return stdout;
+}
+
+async function getRepoInfo(projectPath: string): Promise<RepoInfo | null> {
+  let root: string;
+  try {
+    root = (await runGit(projectPath, ['rev-parse', '--show-toplevel'])).trim();
+  } catch {
+    return null;
+  }
+
+  const authorEmail = await runGit(projectPath, ['config', 'user.email'])
+    .then(output => output.trim() || undefined)
+    .catch(() => undefined);
+
+  // Fails when the branch has no upstream (or HEAD is detached)
+  const hasUpstream = await runGit(projectPath, ['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{u}'])
+    .then(output => output.trim().length > 0)
+    .catch(() => false);
+
+  return { root, authorEmail, hasUpstream };
+}
+
+/**
+ * Parse `git log --numstat` output written with the record/field separators
+ * used by readCommits
+ */
+export function parseGitLog(output: string): GitCommitInfo[] {
+  const commits: GitCommitInfo[] = [];
+
+  for (const record of output.split(RECORD_SEPARATOR)) {
+    const [header, ...statLines] = record.split('\n');
+    const [hash, authoredAt, subject] = header.split(FIELD_SEPARATOR);
+    if (!hash || !authoredAt) continue;
+
+    const commit: GitCommitInfo = {
+      hash: hash.trim(),
+      subject: (subject || '').trim(),
+      authoredAt: new Date(authoredAt),
+      filesChanged: 0,
+      insertions: 0,
+      deletions: 0,
+      files: [],
+    };
+
+    for (const line of statLines) {
+      const [added, removed, file] = line.split('\t');
+      if (!file) continue;
+      // Binary files show "-" instead of line counts
+      commit.insertions += parseInt(added, 10) || 0;
+      commit.deletions += parseInt(removed, 10) || 0;
+      commit.files.push(file.trim());
+    }
+    commit.filesChanged = commit.files.length;
+
+    commits.push(commit);
+  }
+
+  return commits;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+async function readCommits(repo: RepoInfo, since: Date, until: Date): Promise<GitCommitInfo[]> {
+  const args = [
+    'log',
+    '--branches',
+    `--since=${since.toISOString()}`,
+    `--until=${until.toISOString()}`,
+    `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%s`,
+    '--numstat',
+  ];
+  if (repo.authorEmail) {
+    args.push(`--author=<${escapeRegExp(repo.authorEmail)}>`);
+  }
+
+  return parseGitLog(await runGit(repo.root, args));
+}
+
+/**
+ * Start and end of a session. `messages` may only hold the most recent part of
+ * the session (or nothing for indexed sessions), so the start comes from the
+ * session timestamp and the end from its last message when known.
+ */
+export function getSessionWindow(session: SessionData): { start: Date; end: Date } {
+  let start = session.timestamp.getTime();
+  let end = session.lastTimestamp?.getTime()
+    ?? (session.messages.length > 0 ? start : start + session.duration * 1000);
+  for (const message of session.messages) {
+    const time = message.timestamp.getTime();
+    if (time < start) start = time;
+    if (time > end) end = time;
+  }
+  return { start: new Date(start), end: new Date(end) };
+}
+
+/**
+ * PR numbers from subjects like "Fix login (#123)" or "Merge pull request #45 from ..."
+ */
+export function extractPullRequests(commits: GitCommitInfo[]): number[] {
+  const numbers = new Set<number>();
+  for (const commit of commits) {
+    for (const match of commit.subject.matchAll(/\(#(\d+)\)|pull request #(\d+)/gi)) {
+      numbers.add(parseInt(match[1] || match[2], 10));
+    }
+  }
+  return Array.from(numbers).sort((a, b) => a - b);
+}
+
+/**
+ * Combine commits into git info; a file changed in several commits counts once
+ */
+export function buildGitInfo(commits: GitCommitInfo[], hasUpstream: boolean): SessionGitInfo {
+  return {
+    commits,
+    filesChanged: new Set(commits.flatMap(commit => commit.files)).size,
+    insertions: commits.reduce((sum, commit) => sum + commit.insertions, 0),
+    deletions: commits.reduce((sum, commit) => sum + commit.deletions, 0),
+    hasUpstream,
+    pullRequests: extractPullRequests(commits),
+  };
+}
+
+/**
+ * Add `metadata.git` to every session whose project is a git repository.
+ * Returns new session objects in the same order; never throws.
+ */
+export async function enrichSessionsWithGit(sessions: SessionData[]): Promise<SessionData[]> {
+  const byProject = new Map<string, SessionData[]>();
+  for (const session of sessions) {
+    if (!session.projectPath || session.projectPath === CURSOR_UNKNOWN_PROJECT) continue;
+    byProject.set(session.projectPath, [...(byProject.get(session.projectPath) || []), session]);
+  }
+
+  const gitInfo = new Map<SessionData, SessionGitInfo>();
+
+  for (const [projectPath, projectSessions] of byProject) {
+    try {
+      const repo = await getRepoInfo(projectPath);
+      if (!repo) continue;
+
+      const windows = projectSessions.map(getSessionWindow);
+      const since = windows.reduce((min, window) => window.start < min ? window.start : min, windows[0].start);
+      const until = windows.reduce((max, window) => window.end > max ? window.end : max, windows[0].end);
+      const commits = await readCommits(repo, since, until);
+
+      projectSessions.forEach((session, i) => {
+        const { start, end } = windows[i];
+        const sessionCommits = commits.filter(commit =>
+          commit.authoredAt >= start && commit.authoredAt <= end
+        );
+        gitInfo.set(session, buildGitInfo(sessionCommits, repo.hasUpstream));
+      });
+    } catch (error) {
+      logger.debug(`Git enrichment failed for ${projectPath}:`, error);
+    }
+  }
+
+  return sessions.map(session => {
+    const git = gitInfo.get(session);
+    if (!git) return session;
+    return {
+      ...session,
+      metadata: {
+        files_edited: session.metadata?.files_edited || 0,
+        languages: session.metadata?.languages || [],
+        ...session.metadata,
+        git,
+      },
+    };
+  });
+}
+
+/**
+ * Hashes and counts for the upload payload, or undefined without git info
+ */
+export function getGitUploadSummary(git?: SessionGitInfo): GitUploadSummary | undefined {
+  if (!git) return undefined;
+  return {
+    commitHashes: git.commits.map(commit => commit.hash),
+    commits: git.commits.length,
+    filesChanged: git.filesChanged,
+    linesAdded: git.insertions,
+    linesRemoved: git.deletions,
+    hasUpstream: git.hasUpstream,
+    pullRequests: git.pullRequests,
+  };
+}
+
+/**
+ * Commits of enriched sessions grouped per project, most active project first
+ */
+export function summarizeGitActivity(sessions: SessionData[]): ProjectGitActivity[] {
+  const projects = new Map<string, { projectPath: string; commits: Map<string, GitCommitInfo>; hasUpstream: boolean }>();
+
+  for (const session of sessions) {
+    const git = session.metadata?.git;
+    if (!git) continue;
+
+    const entry = projects.get(session.projectPath) || {
+      projectPath: session.projectPath,
+      commits: new Map<string, GitCommitInfo>(),
+      hasUpstream: git.hasUpstream,
+    };
+    git.commits.forEach(commit => entry.commits.set(commit.hash, commit));
+    projects.set(session.projectPath, entry);
+  }
+
+  return Array.from(projects.values())
+    .filter(entry => entry.commits.size > 0)
+    .map(entry => {
+      const commits = Array.from(entry.commits.values())
+        .sort((a, b) => b.authoredAt.getTime() - a.authoredAt.getTime());
+      return {
+        project: parseProjectName(entry.projectPath),
+        projectPath: entry.projectPath,
+        ...buildGitInfo(commits, entry.hasUpstream),
+      };
+    })
+    .sort((a, b) => b.commits.length - a.commits.length);
+}
+
+/**
+ * One line per commit for prompts: "abc1234 Fix login redirect (+12/-3, 2 files)"
+ */
+export function formatCommitLine(commit: GitCommitInfo): string {
+  return `${commit.hash.slice(0, 7)} ${commit.subject} (+${commit.insertions}/-${commit.deletions}, ${commit.filesChanged} file${commit.filesChanged === 1 ? '' : 's'})`;
+}
@@ -0,0 +1,160 @@
+import type { PromptAnalysis, SessionMetadata } from './prompt-analyzer';
+
+/**
+ * Rule-based prompt scorer. Runs in a few milliseconds without any network
+ * access, so it can answer on its own ('heuristic' mode), show a first result
+ * while the LLM is working, or stand in when the LLM fails ('hybrid' mode).
+ *
+ * It mirrors the rubric in the LLM prompt: slash commands and short answers
+ * to a question score high, brief vague requests score low, and everything
+ * else earns points for file references, expected outcome, error output and
+ * constraints.
+ */
+
+interface PromptSignals {
+  words: number;
+  isSlashCommand: boolean;
+  isAnswer: boolean;
+  hasFileReference: boolean;
+  hasAcceptanceCriteria: boolean;
+  hasErrorOutput: boolean;
+  hasConstraints: boolean;
+  hasActionVerb: boolean;
+  isVague: boolean;
+  isBugReport: boolean;
+}
+
+type MissingKey = 'files' | 'criteria' | 'error' | 'constraints' | 'action';
+
+const MISSING_TEXT: Record<MissingKey, string> = {
+  files: 'specific files or code locations',
+  criteria: 'expected outcome or acceptance criteria',
+  error: 'error output or current behavior',
+  constraints: 'constraints or things to avoid',
+  action: 'a clear action to take',
+};
+
+const STEPS: Record<MissingKey, string> = {
+  files: 'Name the file or function, e.g. "in src/lib/config.ts, getApiUrl()".',
+  criteria: 'Say what done looks like, e.g. "it should return 404 for unknown ids and keep existing tests green".',
+  error: 'Paste the exact error message or stack trace and what you expected instead.',
+  constraints: 'Add limits such as "no new dependencies" or "keep the public API unchanged".',
+  action: 'Start with the action you want: add, fix, refactor, explain or review.',
+};
+
+const EMOJI: Record<MissingKey, string> = {
+  files: '🔍',
+  criteria: '🎯',
+  error: '🔍',
+  constraints: '🔄',
+  action: '🎯',
+};
+
+const MAX_MISSING = 2;
+
+const FILE_REFERENCE = /(?:^|[\s`'"(@])(?:[\w.-]+\/)*[\w-]+\.[a-z]{1,5}\b|`[^`\n]+`|@[\w./-]+|(?:^|\s)\/(?:[\w.-]+\/)+[\w.-]*/i;
+const ACCEPTANCE_CRITERIA = /\b(?:should|must|expect(?:ed|s)?|so that|make sure|ensure|done when|acceptance|returns?|until|instead of|pass(?:es|ing)?)\b/i;
+const ERROR_OUTPUT = /\b(?:error|exception|traceback|stack ?trace|errno|failed with|exit code|segfault|panic)\b|\b[A-Z]\w*(?:Error|Exception)\b|\bE[A-Z]{4,}\b|^\s+at .+:\d+(?::\d+)?\)?$|```/im;
+const CONSTRAINTS = /\b(?:don'?t|do not|without|only|avoid|never|must not|keep|no new|limit(?:ed)? to|backwards? compatible|within)\b/i;
+const ACTION_VERB = /\b(?:add|fix|create|implement|refactor|update|remove|delete|write|generate|review|test|deploy|rename|move|explain|debug|optimi[sz]e|migrate|build|check|analy[sz]e|document|convert|replace|change|set up|install|run)\b/i;
+const VAGUE_PROMPT = /^(?:fix it|fix this|make (?:it|this) (?:better|work)|help(?: me)?|do it|try again|again|continue|go on|you know what i mean|same|it doesn'?t work|not working)[.!?\s]*$/i;
+const BUG_REPORT = /\b(?:fix|bug|error|broken|fail(?:s|ing|ed)?|crash(?:es|ing)?|doesn'?t work|not working|wrong|issue)\b/i;
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function detectSignals(promptText: string, metadata?: SessionMetadata): PromptSignals {
+  const text = promptText.trim();
+  const words = countWords(text);
+
+  return {
+    words,
+    isSlashCommand: /^\/[\w:-]+/.test(text),
+    isAnswer: !!metadata?.lastAssistantEndsWithQuestion && words <= 15,
+    hasFileReference: FILE_REFERENCE.test(text),
+    hasAcceptanceCriteria: ACCEPTANCE_CRITERIA.test(text),
+    hasErrorOutput: ERROR_OUTPUT.test(text),
+    hasConstraints: CONSTRAINTS.test(text),
+    hasActionVerb: ACTION_VERB.test(text),
+    isVague: VAGUE_PROMPT.test(text),
+    isBugReport: BUG_REPORT.test(text),
+  };
+}
+
+function toQuality(score: number): PromptAnalysis['quality'] {
+  if (score <= 40) return 'poor';
+  if (score <= 60) return 'fair';
+  if (score <= 80) return 'good';
+  return 'excellent';
+}
+
+function computeScore(signals: PromptSignals, hasImages: boolean): number {
+  if (signals.isSlashCommand) return 90;
+  if (signals.isAnswer) return 90;
+  if (signals.isVague) return 35;
+
+  let score = 45;
+  if (signals.hasActionVerb) score += 10;
+  if (signals.hasFileReference) score += 12;
+  if (signals.hasAcceptanceCriteria) score += 12;
+  if (signals.hasErrorOutput) score += 8;
+  if (signals.hasConstraints) score += 8;
+  if (hasImages) score += 5;
+
+  // Brief + specific is fine; brief + nothing else is not
+  if (signals.words < 4) score -= 15;
+  else if (signals.words < 8) score -= 5;
+  else if (signals.words >= 30) score += 5;
+
+  return Math.max(0, Math.min(100, score));
+}
+
+function findMissing(signals: PromptSignals): MissingKey[] {
+  if (signals.isSlashCommand || signals.isAnswer) return [];
+
+  const missing: MissingKey[] = [];
+  if (!signals.hasActionVerb && !signals.isBugReport) missing.push('action');
+  if (signals.isBugReport && !signals.hasErrorOutput) missing.push('error');
+  if (!signals.hasFileReference) missing.push('files');
+  if (!signals.hasAcceptanceCriteria) missing.push('criteria');
+  if (!signals.hasConstraints && signals.words >= 30) missing.push('constraints');
+  return missing.slice(0, MAX_MISSING);
+}
+
+function buildSuggestion(signals: PromptSignals, missing: MissingKey[], score: number): string {
+  if (signals.isSlashCommand) return 'Slash command - a complete workflow, nothing to add.';
+  if (signals.isAnswer) return 'Short answer to the question - exactly what was needed.';
+  if (missing.length === 0) return 'Clear request with context and a definition of done.';
+
+  const gaps = missing.map(key => MISSING_TEXT[key]).join(' and ');
+  return score <= 40
+    ? `Too little to go on - add ${gaps}.`
+    : `Good start - adding ${gaps} would make this sharper.`;
+}
+
+/**
+ * Score a prompt with deterministic rules
+ */
+export function scorePromptHeuristically(
+  promptText: string,
+  metadata?: SessionMetadata,
+  sessionId?: string
+): PromptAnalysis {
+  const signals = detectSignals(promptText, metadata);
+  const score = computeScore(signals, !!metadata?.hasImages);
+  const missing = findMissing(signals);
+
+  return {
+    quality: toQuality(score),
+    missing: missing.map(key => MISSING_TEXT[key]),
+    suggestion: buildSuggestion(signals, missing, score),
+    actionableSteps: missing.length > 0 ? missing.map(key => STEPS[key]).join(' ') : undefined,
+    score,
+    contextualEmoji: missing.length > 0 ? EMOJI[missing[0]] : '✅',
+    timestamp: new Date().toISOString(),
+    sessionId,
+    originalPrompt: promptText,
+    source: 'heuristic',
+  };
+}
@@ -69,6 +69,28 @@ export class HookLock {
     }
   }
 
+  /**
+   * Current lock holder, for diagnostics. A lock older than the timeout, or
+   * one that can't be read, is stale and would be taken over by acquire().
+   * @returns null when there is no lock
+   */
+  async inspect(): Promise<{ pid?: number; age: number; stale: boolean } | null> {
+    let lockContent: string;
+    try {
+      lockContent = await fs.readFile(this.lockPath, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    try {
+      const lockData = JSON.parse(lockContent);
+      const age = Date.now() - lockData.timestamp;
+      return { pid: lockData.pid, age, stale: !(age < this.lockTimeout) };
+    } catch {
+      return { age: 0, stale: true };
+    }
+  }
+
   /**
    * Force clear any existing lock (for troubleshooting)
    */
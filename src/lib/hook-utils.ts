@@ -92,6 +92,19 @@ export async function clearHooksLog(): Promise<void> {
   }
 }
 
+/**
+ * Recent non-empty hook log lines, [] when there is no log
+ * @param lines Number of lines to read from the end
+ */
+export async function readHooksLogLines(lines: number = 50): Promise<string[]> {
+  try {
+    const content = await fs.readFile(getHooksLogPath(), 'utf-8');
+    return content.split('\n').filter(line => line.trim()).slice(-lines);
+  } catch (error) {
+    return [];
+  }
+}
+
 /**
  * Read recent hook log entries
  * @param lines Number of lines to read from the end
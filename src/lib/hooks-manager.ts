@@ -251,12 +251,14 @@ export async function validateHookCommands(): Promise<{
     return { valid: false, errors };
   }
   
-  // Check if CLI command exists
+  // Check if CLI command exists (commands like "npx devark-cli" aren't files)
   const cliPath = getCliPath();
-  try {
-    await fs.access(cliPath);
-  } catch (error) {
-    errors.push(`CLI command not found: ${cliPath}`);
+  if (!/\s/.test(cliPath)) {
+    try {
+      await fs.access(cliPath);
+    } catch (error) {
+      errors.push(`CLI command not found: ${cliPath}`);
+    }
   }
   
   // Check hook commands match current CLI path
@@ -34,7 +34,8 @@ vi.mock('../../claude-core', () => ({
   discoverProjects: vi.fn(() => Promise.resolve([]))
 }));
 
-vi.mock('../../claude-settings-reader', () => ({
+vi.mock('../../claude-settings-reader', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../claude-settings-reader')>()),
   readGlobalSettings: vi.fn(),
   writeGlobalSettings: vi.fn(),
   getHookMode: vi.fn(() => Promise.resolve('all' as const)),
@@ -629,6 +630,22 @@ describe('hooks-controller - Hook Preservation Tests', () => {
       await expect(removeProjectHooks(projects)).resolves.not.toThrow();
     });
 
+    it('should count the projects it could not update', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({
+        hooks: {
+          SessionStart: [{ hooks: [{ type: 'command', command: '/usr/local/bin/devark send --hook-trigger=sessionstart' }] }]
+        }
+      }));
+      vi.mocked(fs.writeFile).mockRejectedValue(new Error('EACCES: permission denied'));
+
+      const result = await removeProjectHooks([
+        { path: '/mock/.claude/projects/project1', name: 'project1', actualPath: '/mock/project1' },
+        { path: '/mock/.claude/projects/project2', name: 'project2' }
+      ]);
+
+      expect(result).toEqual({ removedCount: 0, failedCount: 2 });
+    });
+
     it('should delete empty hooks object after removing all hooks', async () => {
       const settingsWithOnlyDevArkHooks = {
         hooks: {
@@ -970,6 +987,21 @@ describe('hooks-controller - Hook Preservation Tests', () => {
       expect(writtenSettings.hooks?.SessionEnd).toBeUndefined();
     });
 
+    it('should carry on past a failing project and count it', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ hooks: {} }));
+      vi.mocked(fs.mkdir).mockResolvedValue(undefined);
+      vi.mocked(fs.writeFile)
+        .mockRejectedValueOnce(new Error('EACCES: permission denied'))
+        .mockResolvedValue(undefined);
+
+      const result = await installSelectiveProjectHooks([
+        { path: '/mock/.claude/projects/project1', name: 'project1', actualPath: '/mock/project1', sessionStart: true, preCompact: false, sessionEnd: false },
+        { path: '/mock/.claude/projects/project2', name: 'project2', actualPath: '/mock/project2', sessionStart: true, preCompact: false, sessionEnd: false }
+      ]);
+
+      expect(result).toEqual({ installedCount: 1, failedCount: 1 });
+    });
+
     it('should handle empty project array', async () => {
       const projectConfigs: ProjectHookConfig[] = [];
 
@@ -979,4 +1011,154 @@ describe('hooks-controller - Hook Preservation Tests', () => {
       expect(fs.writeFile).not.toHaveBeenCalled();
     });
   });
+
+  describe('additional hook events', () => {
+    const allOff: HookSelection = {
+      sessionStartHook: false,
+      preCompactHook: false,
+      sessionEndHook: false,
+      userPromptSubmitHook: false,
+      stopHook: false,
+      subagentStopHook: false
+    };
+    const statusLineHook = { type: 'command' as const, command: '/usr/local/bin/devark analyze-prompt --silent --stdin' };
+
+    function mockSettingsFile(settings: object): void {
+      vi.mocked(claudeSettingsReader.readGlobalSettings).mockResolvedValue(settings);
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(settings));
+      vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+      vi.mocked(fs.mkdir).mockResolvedValue(undefined);
+    }
+
+    it('should install UserPromptSubmit, Stop and SubagentStop with their timeouts and no matcher', async () => {
+      mockSettingsFile({ hooks: {} });
+
+      await installSelectedHooks({ ...allOff, userPromptSubmitHook: true, stopHook: true, subagentStopHook: true });
+
+      const writtenSettings = JSON.parse(vi.mocked(fs.writeFile).mock.calls[0][1] as string);
+      expect(writtenSettings.hooks.UserPromptSubmit).toEqual([{
+        hooks: [{
+          type: 'command',
+          command: '/usr/local/bin/devark analyze-prompt --silent --stdin --hook-trigger=userpromptsubmit --hook-version=1.0.0',
+          timeout: 10
+        }]
+      }]);
+      expect(writtenSettings.hooks.Stop).toEqual([{
+        hooks: [{
+          type: 'command',
+          command: '/usr/local/bin/devark send --silent --background --hook-trigger=stop --hook-version=1.0.0 --all',
+          timeout: 30
+        }]
+      }]);
+      expect(writtenSettings.hooks.SubagentStop[0].hooks[0].command).toContain('--hook-trigger=subagentstop');
+      expect(writtenSettings.hooks.SessionStart).toBeUndefined();
+    });
+
+    it('should add a new matcher group instead of joining a group with another matcher', async () => {
+      mockSettingsFile({
+        hooks: {
+          SessionStart: [{ matcher: 'resume', hooks: [{ type: 'command' as const, command: 'echo "on resume"' }] }]
+        }
+      });
+
+      await installSelectedHooks({ ...allOff, sessionStartHook: true });
+
+      const writtenSettings = JSON.parse(vi.mocked(fs.writeFile).mock.calls[0][1] as string);
+      expect(writtenSettings.hooks.SessionStart).toHaveLength(2);
+      expect(writtenSettings.hooks.SessionStart[0].hooks).toHaveLength(1);
+      expect(writtenSettings.hooks.SessionStart[1].matcher).toBe('startup|clear');
+      expect(writtenSettings.hooks.SessionStart[1].hooks[0].command).toContain('--hook-trigger=sessionstart');
+    });
+
+    it('should replace the status line hook with UserPromptSubmit instead of analyzing prompts twice', async () => {
+      mockSettingsFile({ hooks: { UserPromptSubmit: [{ hooks: [statusLineHook] }] } });
+
+      await installSelectedHooks({ ...allOff, userPromptSubmitHook: true });
+
+      const writtenSettings = JSON.parse(vi.mocked(fs.writeFile).mock.calls[0][1] as string);
+      expect(writtenSettings.hooks.UserPromptSubmit).toEqual([{
+        hooks: [expect.objectContaining({ command: expect.stringContaining('--hook-trigger=userpromptsubmit') })]
+      }]);
+    });
+
+    it('should give prompt analysis back to the status line when removing UserPromptSubmit', async () => {
+      mockSettingsFile({
+        statusLine: { type: 'command', command: '/usr/local/bin/devark statusline', padding: 0 },
+        hooks: {
+          UserPromptSubmit: [{
+            hooks: [{ type: 'command' as const, command: '/usr/local/bin/devark analyze-prompt --silent --stdin --hook-trigger=userpromptsubmit' }]
+          }]
+        }
+      });
+
+      await installSelectedHooks(allOff);
+
+      const writtenSettings = JSON.parse(vi.mocked(fs.writeFile).mock.calls[0][1] as string);
+      expect(writtenSettings.hooks.UserPromptSubmit).toEqual([{ hooks: [statusLineHook] }]);
+    });
+
+    it('should keep the status line hook when removing UserPromptSubmit', async () => {
+      mockSettingsFile({
+        hooks: {
+          UserPromptSubmit: [{
+            hooks: [
+              statusLineHook,
+              { type: 'command' as const, command: '/usr/local/bin/devark analyze-prompt --silent --stdin --hook-trigger=userpromptsubmit' }
+            ]
+          }]
+        }
+      });
+
+      await installSelectedHooks(allOff);
+
+      const writtenSettings = JSON.parse(vi.mocked(fs.writeFile).mock.calls[0][1] as string);
+      expect(writtenSettings.hooks.UserPromptSubmit).toEqual([{ hooks: [statusLineHook] }]);
+    });
+
+    it('should report status, matcher and timeout for the new events', async () => {
+      vi.mocked(fs.stat).mockRejectedValue(new Error('ENOENT'));
+      vi.mocked(claudeSettingsReader.readGlobalSettings).mockResolvedValue({
+        hooks: {
+          UserPromptSubmit: [{ hooks: [statusLineHook] }],
+          Stop: [{
+            hooks: [
+              { type: 'command' as const, command: 'echo "notify"' },
+              { type: 'command' as const, command: '/usr/local/bin/devark send --hook-trigger=stop --hook-version=1.0.0', timeout: 30 }
+            ]
+          }],
+          SubagentStop: [{
+            matcher: 'other',
+            hooks: [{ type: 'command' as const, command: '/usr/local/bin/devark send --hook-trigger=subagentstop' }]
+          }]
+        }
+      });
+
+      const status = await getHooksStatus();
+
+      // The status line's analyze-prompt hook analyzes prompts just like ours
+      expect(status.userPromptSubmitHook).toMatchObject({ installed: true, enabled: true, command: statusLineHook.command });
+      expect(status.stopHook).toMatchObject({ installed: true, version: '1.0.0', timeout: 30 });
+      expect(status.subagentStopHook).toMatchObject({ installed: true, matcher: 'other' });
+    });
+
+    it('should update the timeout of a Stop hook that is not first in its group', async () => {
+      const settings = {
+        hooks: {
+          Stop: [{
+            hooks: [
+              { type: 'command' as const, command: 'echo "notify"' },
+              { type: 'command' as const, command: '/usr/local/bin/devark send --hook-trigger=stop', timeout: 30 }
+            ]
+          }]
+        }
+      };
+      vi.mocked(claudeSettingsReader.readGlobalSettings).mockResolvedValue(settings);
+
+      await updateHookConfig('stop', { timeout: 45 });
+
+      const written = vi.mocked(claudeSettingsReader.writeGlobalSettings).mock.calls[0][0];
+      expect(written.hooks.Stop[0].hooks[0]).toEqual({ type: 'command', command: 'echo "notify"' });
+      expect(written.hooks.Stop[0].hooks[1].timeout).toBe(45);
+    });
+  });
 });
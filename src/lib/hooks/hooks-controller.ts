@@ -1,6 +1,7 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { logger } from '../../utils/logger';
+import { DevArkError } from '../../utils/errors';
 import { getCliPath } from '../config';
 import { getGlobalSettingsPath, getProjectLocalSettingsPath } from '../claude-core';
 import { sendTelemetryUpdate } from '../telemetry';
@@ -9,6 +10,9 @@ import {
   writeGlobalSettings,
   getHookMode as getHookModeFromReader,
   getTrackedProjects as getTrackedProjectsFromReader,
+  isPromptAnalysisCommand,
+  getStatusLineAnalyzeCommand,
+  hasDevArkStatusLine,
   ClaudeSettings
 } from '../claude-settings-reader';
 
@@ -19,6 +23,9 @@ export interface HookSelection {
   sessionStartHook: boolean;
   preCompactHook: boolean;
   sessionEndHook: boolean;
+  userPromptSubmitHook: boolean;
+  stopHook: boolean;
+  subagentStopHook: boolean;
 }
 
 /**
@@ -47,6 +54,7 @@ export interface HookStatusInfo {
   version: string;
   command?: string;
   timeout?: number;
+  matcher?: string;
   lastModified?: Date;
 }
 
@@ -57,6 +65,9 @@ export interface HooksStatus {
   sessionStartHook: HookStatusInfo;
   preCompactHook: HookStatusInfo;
   sessionEndHook: HookStatusInfo;
+  userPromptSubmitHook: HookStatusInfo;
+  stopHook: HookStatusInfo;
+  subagentStopHook: HookStatusInfo;
   settingsPath: string;
   cliPath: string;
   trackedProjects?: string[];  // List of project paths being tracked
@@ -70,12 +81,50 @@ export type { HookMode } from '../claude-settings-reader';
 // Current version of hooks
 const HOOKS_VERSION = '1.0.0';
 
-// Hook matcher configurations
-const HOOK_MATCHERS = {
-  SessionStart: 'startup|clear',  // Capture on startup and clear (not resume)
-  PreCompact: 'auto',             // Only automatic compression (not manual)
-  SessionEnd: 'clear|logout|prompt_input_exit|other'  // Capture on session end events
-} as const;
+/**
+ * Claude Code hook events managed by the installer
+ */
+export type HookEventType = 'SessionStart' | 'PreCompact' | 'SessionEnd' | 'UserPromptSubmit' | 'Stop' | 'SubagentStop';
+
+/**
+ * Value of --hook-trigger for each event
+ */
+export type HookTrigger = 'sessionstart' | 'precompact' | 'sessionend' | 'userpromptsubmit' | 'stop' | 'subagentstop';
+
+/**
+ * Key of an event in HookSelection and HooksStatus
+ */
+export type HookKey = keyof HookSelection;
+
+interface HookEventDefinition {
+  key: HookKey;
+  trigger: HookTrigger;
+  matcher?: string;   // Only for events Claude Code filters by source
+  timeout?: number;   // Seconds; Claude's default of 60 when not set
+}
+
+export const HOOK_EVENT_TYPES: HookEventType[] = [
+  'SessionStart', 'PreCompact', 'SessionEnd', 'UserPromptSubmit', 'Stop', 'SubagentStop'
+];
+
+// Per-event configuration
+export const HOOK_EVENTS: Record<HookEventType, HookEventDefinition> = {
+  SessionStart: { key: 'sessionStartHook', trigger: 'sessionstart', matcher: 'startup|clear' },  // Capture on startup and clear (not resume)
+  PreCompact: { key: 'preCompactHook', trigger: 'precompact', matcher: 'auto' },                 // Only automatic compression (not manual)
+  SessionEnd: { key: 'sessionEndHook', trigger: 'sessionend', matcher: 'clear|logout|prompt_input_exit|other' },
+  // Runs before Claude sees the prompt, so keep it short; the analysis itself runs in the background
+  UserPromptSubmit: { key: 'userPromptSubmitHook', trigger: 'userpromptsubmit', timeout: 10 },
+  // Fire after every response, so only new messages are synced
+  Stop: { key: 'stopHook', trigger: 'stop', timeout: 30 },
+  SubagentStop: { key: 'subagentStopHook', trigger: 'subagentstop', timeout: 30 }
+};
+
+/**
+ * Map a --hook-trigger value back to its event
+ */
+export function getHookEventForTrigger(trigger: HookTrigger): HookEventType {
+  return HOOK_EVENT_TYPES.find(type => HOOK_EVENTS[type].trigger === trigger)!;
+}
 
 /**
  * Check if a command is a devark hook command
@@ -86,6 +135,40 @@ export function isDevArkCommand(command: string | undefined): boolean {
   return command.includes('devark') || command.includes('@devark');
 }
 
+/**
+ * Check if a command was installed by this controller for the given event.
+ * The status line adds its own analyze-prompt hook to UserPromptSubmit, so
+ * there only commands carrying our trigger count.
+ */
+function isInstalledHookCommand(command: string | undefined, hookType: HookEventType): boolean {
+  if (!command || !isDevArkCommand(command)) return false;
+  return hookType !== 'UserPromptSubmit' || command.includes(`--hook-trigger=${HOOK_EVENTS.UserPromptSubmit.trigger}`);
+}
+
+/**
+ * First hook whose command matches, with its matcher group
+ */
+function findHook(
+  hookConfig: HookConfigWithMatcher[] | undefined,
+  matches: (command: string | undefined) => boolean
+): { hook: HookConfig; config: HookConfigWithMatcher } | undefined {
+  for (const config of hookConfig || []) {
+    const hook = (config.hooks || []).find(h => matches(h.command));
+    if (hook) return { hook, config };
+  }
+  return undefined;
+}
+
+/**
+ * First hook of an event that belongs to this controller, with its matcher group
+ */
+function findInstalledHook(
+  hookConfig: HookConfigWithMatcher[] | undefined,
+  hookType: HookEventType
+): { hook: HookConfig; config: HookConfigWithMatcher } | undefined {
+  return findHook(hookConfig, command => isInstalledHookCommand(command, hookType));
+}
+
 /**
  * Read Claude settings (delegate to claude-settings-reader)
  */
@@ -103,32 +186,19 @@ async function writeSettings(settings: ClaudeSettings): Promise<void> {
 /**
  * Get hook status info for a specific hook
  */
-function getHookStatusInfo(hookConfig: HookConfigWithMatcher[] | undefined): HookStatusInfo {
-  if (!hookConfig || hookConfig.length === 0) {
-    return {
-      installed: false,
-      enabled: false,
-      version: '0.0.0'
-    };
-  }
-  
-  const hook = hookConfig[0]?.hooks?.[0];
-  if (!hook) {
-    return {
-      installed: false,
-      enabled: false,
-      version: '0.0.0'
-    };
-  }
-  
-  // Check if it's a devark hook
-  if (!isDevArkCommand(hook.command)) {
+function getHookStatusInfo(hookConfig: HookConfigWithMatcher[] | undefined, hookType: HookEventType): HookStatusInfo {
+  // The status line's analyze-prompt hook does the job of ours, and ours isn't
+  // installed next to it, so prompt analysis counts as installed either way
+  const found = findInstalledHook(hookConfig, hookType) ||
+    (hookType === 'UserPromptSubmit' ? findHook(hookConfig, isPromptAnalysisCommand) : undefined);
+  if (!found) {
     return {
       installed: false,
       enabled: false,
       version: '0.0.0'
     };
   }
+  const { hook, config } = found;
   
   // Extract version from command if present
   const versionMatch = hook.command.match(/--hook-version=([0-9.]+)/);
@@ -139,7 +209,8 @@ function getHookStatusInfo(hookConfig: HookConfigWithMatcher[] | undefined): Hoo
     enabled: !hook.command.includes('--disabled'),
     version,
     command: hook.command,
-    timeout: hook.timeout
+    timeout: hook.timeout,
+    matcher: config.matcher
   };
 }
 
@@ -151,16 +222,17 @@ export async function getHooksStatus(): Promise<HooksStatus> {
   const settingsPath = getGlobalSettingsPath();
   const cliPath = getCliPath();
 
-  const sessionStartHook = getHookStatusInfo(settings?.hooks?.SessionStart);
-  const preCompactHook = getHookStatusInfo(settings?.hooks?.PreCompact);
-  const sessionEndHook = getHookStatusInfo(settings?.hooks?.SessionEnd);
+  const hooks = {} as Record<HookKey, HookStatusInfo>;
+  for (const hookType of HOOK_EVENT_TYPES) {
+    hooks[HOOK_EVENTS[hookType].key] = getHookStatusInfo(settings?.hooks?.[hookType], hookType);
+  }
 
   // Get file stats for last modified
   try {
     const stats = await fs.stat(settingsPath);
-    sessionStartHook.lastModified = stats.mtime;
-    preCompactHook.lastModified = stats.mtime;
-    sessionEndHook.lastModified = stats.mtime;
+    for (const info of Object.values(hooks)) {
+      info.lastModified = stats.mtime;
+    }
   } catch (error) {
     logger.debug('Could not get settings file stats:', error);
   }
@@ -170,23 +242,66 @@ export async function getHooksStatus(): Promise<HooksStatus> {
   const trackedProjects = mode === 'selected' ? await getTrackedProjectsFromReader() : undefined;
 
   return {
-    sessionStartHook,
-    preCompactHook,
-    sessionEndHook,
+    ...hooks,
     settingsPath,
     cliPath,
     trackedProjects
   };
 }
 
+/**
+ * Events that have one of our hooks in the given settings
+ */
+export function getInstalledHookEvents(settings: ClaudeSettings | null): HookEventType[] {
+  return HOOK_EVENT_TYPES.filter(hookType => findInstalledHook(settings?.hooks?.[hookType], hookType) !== undefined);
+}
+
+/**
+ * Global hooks whose command doesn't start with the configured CLI path,
+ * e.g. after switching from npx to a global install
+ */
+export function getStaleHookEvents(settings: ClaudeSettings | null, cliPath: string = getCliPath()): HookEventType[] {
+  return HOOK_EVENT_TYPES.filter(hookType => {
+    const found = findInstalledHook(settings?.hooks?.[hookType], hookType);
+    return found !== undefined && !found.hook.command.startsWith(`${cliPath} `);
+  });
+}
+
+/**
+ * Point installed global hooks at the configured CLI path, keeping their
+ * matcher, timeout and mode
+ * @returns Number of hooks rewritten
+ */
+export async function updateHooksCliPath(): Promise<number> {
+  const settings = await readSettings();
+  const cliPath = getCliPath();
+  const stale = getStaleHookEvents(settings, cliPath);
+  if (!settings || stale.length === 0) return 0;
+
+  for (const hookType of stale) {
+    const { hook } = findInstalledHook(settings.hooks?.[hookType], hookType)!;
+    const mode = hook.command.includes('--all') ? 'all' : 'selected';
+    hook.command = buildHookCommand(cliPath, HOOK_EVENTS[hookType].trigger, mode);
+  }
+
+  await writeSettings(settings);
+  logger.debug(`Updated CLI path of ${stale.length} hooks to ${cliPath}`);
+  return stale.length;
+}
+
 /**
  * Build hook command string with given trigger type
  */
 export function buildHookCommand(
   cliPath: string,
-  hookTrigger: 'sessionstart' | 'precompact' | 'sessionend',
+  hookTrigger: HookTrigger,
   mode?: 'all' | 'selected'
 ): string {
+  // Prompt analysis reads the prompt and project from the hook input
+  if (hookTrigger === 'userpromptsubmit') {
+    return `${cliPath} analyze-prompt --silent --stdin --hook-trigger=${hookTrigger} --hook-version=${HOOKS_VERSION}`;
+  }
+
   // For global mode (track all), use --all flag instead of --claude-project-dir
   if (mode === 'all') {
     return `${cliPath} send --silent --background --hook-trigger=${hookTrigger} --hook-version=${HOOKS_VERSION} --all`;
@@ -200,29 +315,36 @@ export function buildHookCommand(
  * Hook definition for configuration
  */
 interface HookDefinition {
-  type: 'SessionStart' | 'PreCompact' | 'SessionEnd';
+  type: HookEventType;
   enabled: boolean;
 }
 
+/**
+ * Hook entry as written to the settings file
+ */
+function buildHookEntry(hookType: HookEventType, cliPath: string, mode?: 'all' | 'selected'): HookConfig {
+  const { trigger, timeout } = HOOK_EVENTS[hookType];
+  return {
+    type: 'command',
+    command: buildHookCommand(cliPath, trigger, mode),
+    ...(timeout !== undefined && { timeout })
+  };
+}
+
 /**
  * Build hook configuration for a specific hook type
  * NOTE: This function is kept for future use but currently replaced by appendHookConfiguration
  * @deprecated Use appendHookConfiguration instead
  */
 function buildHookConfiguration(
-  hookType: 'SessionStart' | 'PreCompact' | 'SessionEnd',
+  hookType: HookEventType,
   cliPath: string,
   mode?: 'all' | 'selected'
 ): HookConfigWithMatcher[] {
-  const triggerType = hookType === 'SessionStart' ? 'sessionstart' :
-                      hookType === 'PreCompact' ? 'precompact' : 'sessionend';
+  const { matcher } = HOOK_EVENTS[hookType];
   return [{
-    matcher: HOOK_MATCHERS[hookType],
-    hooks: [{
-      type: 'command',
-      command: buildHookCommand(cliPath, triggerType, mode)
-      // No timeout specified - uses Claude's default of 60 seconds
-    }]
+    ...(matcher && { matcher }),
+    hooks: [buildHookEntry(hookType, cliPath, mode)]
   }];
 }
 
@@ -242,63 +364,96 @@ async function ensureDirectory(dir: string): Promise<void> {
  */
 function appendHookConfiguration(
   settings: ClaudeSettings,
-  hookType: 'SessionStart' | 'PreCompact' | 'SessionEnd',
+  hookType: HookEventType,
   cliPath: string,
   mode?: 'all' | 'selected'
 ): void {
-  const triggerType = hookType === 'SessionStart' ? 'sessionstart' :
-                      hookType === 'PreCompact' ? 'precompact' : 'sessionend';
-  const command = buildHookCommand(cliPath, triggerType, mode);
-  const matcher = HOOK_MATCHERS[hookType];
+  const { trigger: triggerType, matcher } = HOOK_EVENTS[hookType];
+  const entry = buildHookEntry(hookType, cliPath, mode);
 
   // Ensure hooks object exists
   if (!settings.hooks) {
     settings.hooks = {};
   }
 
+  // Check if devark hook already exists (prevent duplicates)
+  for (const config of settings.hooks[hookType] || []) {
+    for (const hook of config.hooks || []) {
+      if (isDevArkCommand(hook.command) && hook.command.includes(`--hook-trigger=${triggerType}`)) {
+        logger.debug(`${hookType} devark hook already exists, skipping`);
+        return;
+      }
+    }
+  }
+
+  // Our hook replaces the status line's analyze-prompt hook instead of running
+  // next to it (that would analyze every prompt twice). It is handed back when
+  // ours is removed while the status line is still installed.
+  if (hookType === 'UserPromptSubmit' && removeHooks(settings, hookType, isPromptAnalysisCommand) > 0) {
+    logger.debug('Replaced the status line\'s analyze-prompt hook with the UserPromptSubmit hook');
+  }
+
   // Ensure hook structure exists
   if (!settings.hooks[hookType]) {
     settings.hooks[hookType] = [];
   }
-
-  // Check if devark hook already exists (prevent duplicates)
   const existingHooks = settings.hooks[hookType];
-  if (existingHooks) {
-    for (const config of existingHooks) {
-      for (const hook of config.hooks || []) {
-        if (isDevArkCommand(hook.command) && hook.command.includes(`--hook-trigger=${triggerType}`)) {
-          logger.debug(`${hookType} devark hook already exists, skipping`);
-          return;
-        }
-      }
-    }
-  }
 
-  // Check if there's already a config with hooks array
-  if (existingHooks && existingHooks.length > 0 && existingHooks[0].hooks) {
+  // Check if there's already a config with our matcher - a hook in another
+  // matcher group would run on different events
+  const sameMatcher = existingHooks?.find((config: HookConfigWithMatcher) => config.hooks && (config.matcher || undefined) === matcher);
+  if (sameMatcher) {
     // Append to existing hooks array - PRESERVES EXISTING HOOKS
-    existingHooks[0].hooks.push({
-      type: 'command',
-      command: command
-    });
+    sameMatcher.hooks.push(entry);
   } else if (existingHooks) {
     // Create new config with hooks array
     existingHooks.push({
-      matcher: matcher,
-      hooks: [{
-        type: 'command',
-        command: command
-      }]
+      ...(matcher && { matcher }),
+      hooks: [entry]
     });
   }
 }
 
 /**
- * Remove only devark hooks from a specific hook type, preserving other hooks
+ * Remove only devark hooks from a specific hook type, preserving other hooks.
+ * Removing our UserPromptSubmit hook gives prompt analysis back to the status
+ * line when it is still installed.
  */
 function removeDevArkHook(
   settings: ClaudeSettings,
-  hookType: 'SessionStart' | 'PreCompact' | 'SessionEnd'
+  hookType: HookEventType
+): number {
+  const removed = removeHooks(settings, hookType, command => isInstalledHookCommand(command, hookType));
+
+  if (removed > 0 && hookType === 'UserPromptSubmit' && hasDevArkStatusLine(settings)) {
+    appendHookEntry(settings, hookType, { type: 'command', command: getStatusLineAnalyzeCommand(getCliPath()) });
+    logger.debug('Gave prompt analysis back to the status line');
+  }
+
+  return removed;
+}
+
+/**
+ * Append an entry to the first matcher group of an event, creating one if needed
+ */
+function appendHookEntry(settings: ClaudeSettings, hookType: HookEventType, entry: HookConfig): void {
+  if (!settings.hooks) settings.hooks = {};
+  const configs: HookConfigWithMatcher[] = settings.hooks[hookType] || (settings.hooks[hookType] = []);
+  const group = configs.find(config => config.hooks);
+  if (group) {
+    group.hooks.push(entry);
+  } else {
+    configs.push({ hooks: [entry] });
+  }
+}
+
+/**
+ * Remove the hooks of an event whose command matches, dropping empty groups
+ */
+function removeHooks(
+  settings: ClaudeSettings,
+  hookType: HookEventType,
+  matches: (command: string | undefined) => boolean
 ): number {
   if (!settings.hooks || !settings.hooks[hookType]) {
     return 0;
@@ -316,7 +471,7 @@ function removeDevArkHook(
   const filteredConfigs = existingHooks
     .map((config: HookConfigWithMatcher) => ({
       ...config,
-      hooks: config.hooks.filter((hook: HookConfig) => !isDevArkCommand(hook.command))
+      hooks: config.hooks.filter((hook: HookConfig) => !matches(hook.command))
     }))
     .filter((config: HookConfigWithMatcher) => config.hooks.length > 0);
 
@@ -382,11 +537,10 @@ async function installHooksToSettings(
  * Install selected hooks with configuration
  */
 export async function installSelectedHooks(selection: HookSelection): Promise<void> {
-  const hooks: HookDefinition[] = [
-    { type: 'SessionStart', enabled: selection.sessionStartHook },
-    { type: 'PreCompact', enabled: selection.preCompactHook },
-    { type: 'SessionEnd', enabled: selection.sessionEndHook }
-  ];
+  const hooks: HookDefinition[] = HOOK_EVENT_TYPES.map(type => ({
+    type,
+    enabled: selection[HOOK_EVENTS[type].key]
+  }));
   
   await installHooksToSettings(
     getGlobalSettingsPath(),
@@ -412,14 +566,10 @@ export async function uninstallAllHooks(): Promise<{ removedCount: number }> {
   if (globalSettings && globalSettings.hooks) {
     let globalRemoved = 0;
 
-    // Remove only devark hooks from SessionStart, preserving other hooks
-    globalRemoved += removeDevArkHook(globalSettings, 'SessionStart');
-
-    // Remove only devark hooks from PreCompact, preserving other hooks
-    globalRemoved += removeDevArkHook(globalSettings, 'PreCompact');
-
-    // Remove only devark hooks from SessionEnd, preserving other hooks
-    globalRemoved += removeDevArkHook(globalSettings, 'SessionEnd');
+    // Remove only devark hooks, preserving other hooks
+    for (const hookType of HOOK_EVENT_TYPES) {
+      globalRemoved += removeDevArkHook(globalSettings, hookType);
+    }
     
     if (globalRemoved > 0) {
       // Remove empty hooks object
@@ -445,20 +595,11 @@ export async function uninstallAllHooks(): Promise<{ removedCount: number }> {
       if (localSettings && localSettings.hooks) {
         let projectRemoved = 0;
         
-        // Check and remove devark hooks
-        if (localSettings.hooks.SessionStart && isDevArkHook(localSettings.hooks.SessionStart)) {
-          delete localSettings.hooks.SessionStart;
-          projectRemoved++;
-        }
-
-        if (localSettings.hooks.PreCompact && isDevArkHook(localSettings.hooks.PreCompact)) {
-          delete localSettings.hooks.PreCompact;
-          projectRemoved++;
-        }
-
-        if (localSettings.hooks.SessionEnd && isDevArkHook(localSettings.hooks.SessionEnd)) {
-          delete localSettings.hooks.SessionEnd;
-          projectRemoved++;
+        // Remove devark hooks, preserving other hooks
+        for (const hookType of HOOK_EVENT_TYPES) {
+          if (removeDevArkHook(localSettings, hookType) > 0) {
+            projectRemoved++;
+          }
         }
         
         if (projectRemoved > 0) {
@@ -479,7 +620,7 @@ export async function uninstallAllHooks(): Promise<{ removedCount: number }> {
   }
   
   if (removedCount === 0) {
-    throw new Error('No devark hooks found to uninstall');
+    throw new DevArkError('No devark hooks found to uninstall', 'HOOKS_NOT_FOUND');
   }
   
   logger.info(`Total removed: ${removedCount} hook(s)`);
@@ -490,15 +631,6 @@ export async function uninstallAllHooks(): Promise<{ removedCount: number }> {
   return { removedCount };
 }
 
-/**
- * Helper to check if a hook configuration contains devark commands
- */
-function isDevArkHook(hookConfigs: HookConfigWithMatcher[]): boolean {
-  return hookConfigs.some(config => 
-    config.hooks.some(hook => isDevArkCommand(hook.command))
-  );
-}
-
 /**
  * Helper to read settings file
  */
@@ -515,7 +647,7 @@ async function readSettingsFile(path: string): Promise<ClaudeSettings | null> {
  * Update hook configuration (timeout, debug mode, etc.)
  */
 export async function updateHookConfig(
-  hookType: 'sessionstart' | 'precompact' | 'sessionend',
+  hookType: HookTrigger,
   config: { timeout?: number }
 ): Promise<void> {
   const settings = await readSettings();
@@ -523,16 +655,13 @@ export async function updateHookConfig(
     throw new Error('No hooks installed');
   }
 
-  const hookKey = hookType === 'sessionstart' ? 'SessionStart' :
-                  hookType === 'precompact' ? 'PreCompact' : 'SessionEnd';
-  const hookConfig = settings.hooks[hookKey];
+  const hookKey = getHookEventForTrigger(hookType);
+  const hook = findInstalledHook(settings.hooks[hookKey], hookKey)?.hook;
   
-  if (!hookConfig || !hookConfig[0]?.hooks?.[0]) {
+  if (!hook) {
     throw new Error(`${hookKey} hook not installed`);
   }
   
-  const hook = hookConfig[0].hooks[0];
-  
   // Update timeout
   if (config.timeout !== undefined) {
     hook.timeout = config.timeout;
@@ -548,12 +677,11 @@ export async function updateHookConfig(
 export async function checkForHookUpdates(): Promise<{ needsUpdate: boolean; currentVersion: string; latestVersion: string }> {
   const status = await getHooksStatus();
 
-  const sessionStartVersion = status.sessionStartHook.installed ? status.sessionStartHook.version : '0.0.0';
-  const preCompactVersion = status.preCompactHook.installed ? status.preCompactHook.version : '0.0.0';
-  const sessionEndVersion = status.sessionEndHook.installed ? status.sessionEndHook.version : '0.0.0';
-
   // Compare versions and get the highest one
-  const versions = [sessionStartVersion, preCompactVersion, sessionEndVersion];
+  const versions = HOOK_EVENT_TYPES.map(type => {
+    const hook = status[HOOK_EVENTS[type].key];
+    return hook.installed ? hook.version : '0.0.0';
+  });
   const currentVersion = versions.reduce((max, version) => version > max ? version : max, '0.0.0');
   const needsUpdate = currentVersion < HOOKS_VERSION;
   
@@ -651,22 +779,27 @@ export async function installProjectHooks(projects: Array<{ path: string; name:
 export interface ProjectHookConfig {
   path: string;
   name: string;
+  actualPath?: string;
   sessionStart: boolean;
   preCompact: boolean;
   sessionEnd: boolean;
+  userPromptSubmit?: boolean;
+  stop?: boolean;
+  subagentStop?: boolean;
 }
 
 /**
- * Install hooks for specific projects with per-hook configuration in their local settings
+ * Install hooks for specific projects with per-hook configuration in their local settings.
+ * A failing project doesn't stop the others; callers check failedCount.
  */
-export async function installSelectiveProjectHooks(projectConfigs: ProjectHookConfig[]): Promise<void> {
+export async function installSelectiveProjectHooks(projectConfigs: ProjectHookConfig[]): Promise<{ installedCount: number; failedCount: number }> {
   const cliPath = getCliPath();
   let installedCount = 0;
   let failedCount = 0;
   
   for (const config of projectConfigs) {
     try {
-      const projectPath = (config as any).actualPath;
+      const projectPath = config.actualPath;
       if (!projectPath) {
         logger.warn(`No actual path found for project ${config.name}, skipping`);
         failedCount++;
@@ -676,7 +809,10 @@ export async function installSelectiveProjectHooks(projectConfigs: ProjectHookCo
       const hooks: HookDefinition[] = [
         { type: 'SessionStart', enabled: config.sessionStart },
         { type: 'PreCompact', enabled: config.preCompact },
-        { type: 'SessionEnd', enabled: config.sessionEnd }
+        { type: 'SessionEnd', enabled: config.sessionEnd },
+        { type: 'UserPromptSubmit', enabled: config.userPromptSubmit === true },
+        { type: 'Stop', enabled: config.stop === true },
+        { type: 'SubagentStop', enabled: config.subagentStop === true }
       ];
       
       const localSettingsPath = getProjectLocalSettingsPath(projectPath);
@@ -712,12 +848,16 @@ export async function installSelectiveProjectHooks(projectConfigs: ProjectHookCo
   if (failedCount > 0) {
     logger.warn(`Failed to configure hooks for ${failedCount} project(s)`);
   }
+  return { installedCount, failedCount };
 }
 
 /**
- * Remove devark hooks from specific projects' local settings
+ * Remove devark hooks from specific projects' local settings.
+ * A failing project doesn't stop the others; callers check failedCount.
  */
-export async function removeProjectHooks(projects: Array<{ path: string; name: string; actualPath?: string }>): Promise<void> {
+export async function removeProjectHooks(
+  projects: Array<{ path: string; name: string; actualPath?: string }>
+): Promise<{ removedCount: number; failedCount: number }> {
   let removedCount = 0;
   let failedCount = 0;
   
@@ -737,19 +877,10 @@ export async function removeProjectHooks(projects: Array<{ path: string; name: s
         let removed = false;
         
         // Remove devark hooks only
-        if (localSettings.hooks.SessionStart && isDevArkHook(localSettings.hooks.SessionStart)) {
-          delete localSettings.hooks.SessionStart;
-          removed = true;
-        }
-
-        if (localSettings.hooks.PreCompact && isDevArkHook(localSettings.hooks.PreCompact)) {
-          delete localSettings.hooks.PreCompact;
-          removed = true;
-        }
-
-        if (localSettings.hooks.SessionEnd && isDevArkHook(localSettings.hooks.SessionEnd)) {
-          delete localSettings.hooks.SessionEnd;
-          removed = true;
+        for (const hookType of HOOK_EVENT_TYPES) {
+          if (removeDevArkHook(localSettings, hookType) > 0) {
+            removed = true;
+          }
         }
         
         if (removed) {
@@ -780,4 +911,5 @@ export async function removeProjectHooks(projects: Array<{ path: string; name: s
   if (failedCount > 0) {
     logger.warn(`Failed to remove hooks from ${failedCount} project(s)`);
   }
+  return { removedCount, failedCount };
 }
\ No newline at end of file
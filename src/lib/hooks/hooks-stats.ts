@@ -1,6 +1,7 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { logger } from '../../utils/logger';
+import type { BudgetStatus, BudgetCheck } from '../usage-budget';
 
 /**
  * Hook execution statistics
@@ -25,15 +26,61 @@ export interface HooksStatsData {
   sessionStartHook: HookStats;
   preCompactHook: HookStats;
   sessionEndHook: HookStats;
-  stopHook?: HookStats; // Keep for backward compatibility
+  userPromptSubmitHook: HookStats;
+  stopHook: HookStats;
+  subagentStopHook: HookStats;
+  budgetBreaches?: BudgetBreach[];
   lastUpdated: Date;
 }
 
+type HookStatsKey = 'sessionStartHook' | 'preCompactHook' | 'sessionEndHook' | 'userPromptSubmitHook' | 'stopHook' | 'subagentStopHook';
+
+/**
+ * Statistics entry for each hook trigger
+ */
+const HOOK_STATS_KEYS: Record<HookExecution['hookType'], HookStatsKey> = {
+  sessionstart: 'sessionStartHook',
+  precompact: 'preCompactHook',
+  sessionend: 'sessionEndHook',
+  userpromptsubmit: 'userPromptSubmitHook',
+  stop: 'stopHook',
+  subagentstop: 'subagentStopHook'
+};
+
+const STATS_VERSION = '2.1.0';
+
+/**
+ * Success rate summary for one hook
+ */
+export interface RecentHookStats {
+  total: number;
+  success: number;
+  failure: number;
+  successRate: number;
+  lastSuccess?: Date;
+}
+
+/**
+ * A budget that reached its warning threshold or limit, recorded once per
+ * budget, period and level
+ */
+export interface BudgetBreach {
+  periodKey: string;
+  scope: BudgetCheck['scope'];
+  project?: string;
+  period: BudgetCheck['period'];
+  unit: BudgetCheck['unit'];
+  level: 'warning' | 'exceeded';
+  limit: number;
+  used: number;
+  recordedAt: string;
+}
+
 /**
  * Hook execution record
  */
 export interface HookExecution {
-  hookType: 'sessionstart' | 'precompact' | 'sessionend' | 'stop'; // Keep 'stop' for backward compat
+  hookType: 'sessionstart' | 'precompact' | 'sessionend' | 'userpromptsubmit' | 'stop' | 'subagentstop';
   timestamp: Date;
   success: boolean;
   duration: number;
@@ -45,7 +92,7 @@ export interface HookExecution {
 /**
  * Get the path to the hooks statistics file
  */
-function getStatsPath(): string {
+export function getHookStatsPath(): string {
   const homedir = process.env.HOME || process.env.USERPROFILE;
   if (!homedir) {
     throw new Error('Unable to determine home directory for hooks statistics');
@@ -70,60 +117,48 @@ function createEmptyStats(): HookStats {
  * Load hook statistics
  */
 export async function loadHookStats(): Promise<HooksStatsData> {
-  const statsPath = getStatsPath();
+  const statsPath = getHookStatsPath();
   
   try {
     const data = await fs.readFile(statsPath, 'utf-8');
     const parsed = JSON.parse(data);
     
-    // Migrate from stopHook to sessionStartHook if needed
-    if (parsed.stopHook && !parsed.sessionStartHook) {
-      parsed.sessionStartHook = parsed.stopHook;
-      logger.debug('Migrated stopHook stats to sessionStartHook');
-    }
-    
-    // Convert dates and maps for sessionStartHook
-    if (parsed.sessionStartHook) {
-      if (parsed.sessionStartHook.lastExecution) parsed.sessionStartHook.lastExecution = new Date(parsed.sessionStartHook.lastExecution);
-      if (parsed.sessionStartHook.lastSuccess) parsed.sessionStartHook.lastSuccess = new Date(parsed.sessionStartHook.lastSuccess);
-      if (parsed.sessionStartHook.lastFailure) parsed.sessionStartHook.lastFailure = new Date(parsed.sessionStartHook.lastFailure);
-      parsed.sessionStartHook.projects = new Map(Object.entries(parsed.sessionStartHook.projects || {}));
+    // Files before 2.1.0 kept the legacy Stop hook stats, which were SessionStart syncs
+    if (parsed.stopHook && (!parsed.version || parsed.version < STATS_VERSION)) {
+      if (!parsed.sessionStartHook) {
+        parsed.sessionStartHook = parsed.stopHook;
+        logger.debug('Migrated stopHook stats to sessionStartHook');
+      }
+      delete parsed.stopHook;
     }
     
-    // Convert dates and maps for preCompactHook
-    if (parsed.preCompactHook) {
-      if (parsed.preCompactHook.lastExecution) parsed.preCompactHook.lastExecution = new Date(parsed.preCompactHook.lastExecution);
-      if (parsed.preCompactHook.lastSuccess) parsed.preCompactHook.lastSuccess = new Date(parsed.preCompactHook.lastSuccess);
-      if (parsed.preCompactHook.lastFailure) parsed.preCompactHook.lastFailure = new Date(parsed.preCompactHook.lastFailure);
-      parsed.preCompactHook.projects = new Map(Object.entries(parsed.preCompactHook.projects || {}));
-    }
-
-    // Convert dates and maps for sessionEndHook
-    if (parsed.sessionEndHook) {
-      if (parsed.sessionEndHook.lastExecution) parsed.sessionEndHook.lastExecution = new Date(parsed.sessionEndHook.lastExecution);
-      if (parsed.sessionEndHook.lastSuccess) parsed.sessionEndHook.lastSuccess = new Date(parsed.sessionEndHook.lastSuccess);
-      if (parsed.sessionEndHook.lastFailure) parsed.sessionEndHook.lastFailure = new Date(parsed.sessionEndHook.lastFailure);
-      parsed.sessionEndHook.projects = new Map(Object.entries(parsed.sessionEndHook.projects || {}));
+    // Convert dates and maps, and ensure all hooks exist
+    for (const key of Object.values(HOOK_STATS_KEYS)) {
+      const hookStats = parsed[key];
+      if (!hookStats) {
+        parsed[key] = createEmptyStats();
+        continue;
+      }
+      if (hookStats.lastExecution) hookStats.lastExecution = new Date(hookStats.lastExecution);
+      if (hookStats.lastSuccess) hookStats.lastSuccess = new Date(hookStats.lastSuccess);
+      if (hookStats.lastFailure) hookStats.lastFailure = new Date(hookStats.lastFailure);
+      hookStats.projects = new Map(Object.entries(hookStats.projects || {}));
     }
     
     if (parsed.lastUpdated) parsed.lastUpdated = new Date(parsed.lastUpdated);
-    
-    // Ensure all hooks exist
-    if (!parsed.sessionStartHook) {
-      parsed.sessionStartHook = createEmptyStats();
-    }
-    if (!parsed.sessionEndHook) {
-      parsed.sessionEndHook = createEmptyStats();
-    }
+    parsed.version = STATS_VERSION;
 
     return parsed;
   } catch (error) {
     logger.debug('No existing stats file, creating new one');
     return {
-      version: '2.0.0',
+      version: STATS_VERSION,
       sessionStartHook: createEmptyStats(),
       preCompactHook: createEmptyStats(),
       sessionEndHook: createEmptyStats(),
+      userPromptSubmitHook: createEmptyStats(),
+      stopHook: createEmptyStats(),
+      subagentStopHook: createEmptyStats(),
       lastUpdated: new Date()
     };
   }
@@ -133,7 +168,7 @@ export async function loadHookStats(): Promise<HooksStatsData> {
  * Save hook statistics
  */
 export async function saveHookStats(stats: HooksStatsData): Promise<void> {
-  const statsPath = getStatsPath();
+  const statsPath = getHookStatsPath();
   const statsDir = path.dirname(statsPath);
   
   // Ensure directory exists
@@ -142,23 +177,15 @@ export async function saveHookStats(stats: HooksStatsData): Promise<void> {
   // Convert maps to objects for JSON serialization
   const toSave: any = {
     ...stats,
-    sessionStartHook: {
-      ...stats.sessionStartHook,
-      projects: Object.fromEntries(stats.sessionStartHook.projects)
-    },
-    preCompactHook: {
-      ...stats.preCompactHook,
-      projects: Object.fromEntries(stats.preCompactHook.projects)
-    },
-    sessionEndHook: {
-      ...stats.sessionEndHook,
-      projects: Object.fromEntries(stats.sessionEndHook.projects)
-    },
+    version: STATS_VERSION,
     lastUpdated: new Date()
   };
-  
-  // Remove old stopHook if present
-  delete toSave.stopHook;
+  for (const key of Object.values(HOOK_STATS_KEYS)) {
+    toSave[key] = {
+      ...stats[key],
+      projects: Object.fromEntries(stats[key].projects)
+    };
+  }
   
   // Write atomically
   const tempPath = `${statsPath}.tmp`;
@@ -174,11 +201,7 @@ export async function saveHookStats(stats: HooksStatsData): Promise<void> {
 export async function recordHookExecution(execution: HookExecution): Promise<void> {
   const stats = await loadHookStats();
   
-  // Map 'stop' to 'sessionstart' for backward compatibility
-  const hookType = execution.hookType === 'stop' ? 'sessionstart' : execution.hookType;
-  const hookStats = hookType === 'sessionstart' ? stats.sessionStartHook :
-                    hookType === 'precompact' ? stats.preCompactHook :
-                    stats.sessionEndHook;
+  const hookStats = stats[HOOK_STATS_KEYS[execution.hookType]];
   
   // Update counts
   hookStats.totalExecutions++;
@@ -214,51 +237,69 @@ export async function recordHookExecution(execution: HookExecution): Promise<voi
   await saveHookStats(stats);
 }
 
+const MAX_BUDGET_BREACHES = 200;
+
+/**
+ * Record the budgets of a status that are at their warning threshold or over
+ * their limit. Repeated checks in the same period don't add new entries.
+ */
+export async function recordBudgetBreaches(status: BudgetStatus): Promise<void> {
+  const breached = status.checks.filter(check => check.level !== 'ok');
+  if (breached.length === 0) return;
+
+  const stats = await loadHookStats();
+  const breaches = stats.budgetBreaches || [];
+  const keyOf = (breach: Omit<BudgetBreach, 'limit' | 'used' | 'recordedAt'>) =>
+    [breach.periodKey, breach.scope, breach.project || '', breach.period, breach.unit, breach.level].join('|');
+  const known = new Set(breaches.map(keyOf));
+
+  let added = 0;
+  for (const check of breached) {
+    const breach: BudgetBreach = {
+      periodKey: check.periodKey,
+      scope: check.scope,
+      project: check.project,
+      period: check.period,
+      unit: check.unit,
+      level: check.level as BudgetBreach['level'],
+      limit: check.limit,
+      used: check.used,
+      recordedAt: status.computedAt,
+    };
+    if (known.has(keyOf(breach))) continue;
+    breaches.push(breach);
+    added++;
+  }
+
+  if (added === 0) return;
+
+  stats.budgetBreaches = breaches.slice(-MAX_BUDGET_BREACHES);
+  await saveHookStats(stats);
+}
+
 /**
  * Get statistics for the last N days
  */
-export async function getRecentStats(days: number = 7): Promise<{
-  sessionStartHook: { total: number; success: number; failure: number; successRate: number };
-  preCompactHook: { total: number; success: number; failure: number; successRate: number };
-  sessionEndHook: { total: number; success: number; failure: number; successRate: number };
-}> {
+export async function getRecentStats(days: number = 7): Promise<Record<HookStatsKey, RecentHookStats>> {
   const stats = await loadHookStats();
   const cutoffDate = new Date();
   cutoffDate.setDate(cutoffDate.getDate() - days);
   
   // For now, return all-time stats (in future, could filter by date)
-  const sessionStartSuccessRate = stats.sessionStartHook.totalExecutions > 0
-    ? (stats.sessionStartHook.successCount / stats.sessionStartHook.totalExecutions) * 100
-    : 0;
-  
-  const preCompactSuccessRate = stats.preCompactHook.totalExecutions > 0
-    ? (stats.preCompactHook.successCount / stats.preCompactHook.totalExecutions) * 100
-    : 0;
-
-  const sessionEndSuccessRate = stats.sessionEndHook.totalExecutions > 0
-    ? (stats.sessionEndHook.successCount / stats.sessionEndHook.totalExecutions) * 100
-    : 0;
-
-  return {
-    sessionStartHook: {
-      total: stats.sessionStartHook.totalExecutions,
-      success: stats.sessionStartHook.successCount,
-      failure: stats.sessionStartHook.failureCount,
-      successRate: sessionStartSuccessRate
-    },
-    preCompactHook: {
-      total: stats.preCompactHook.totalExecutions,
-      success: stats.preCompactHook.successCount,
-      failure: stats.preCompactHook.failureCount,
-      successRate: preCompactSuccessRate
-    },
-    sessionEndHook: {
-      total: stats.sessionEndHook.totalExecutions,
-      success: stats.sessionEndHook.successCount,
-      failure: stats.sessionEndHook.failureCount,
-      successRate: sessionEndSuccessRate
-    }
-  };
+  const recent = {} as Record<HookStatsKey, RecentHookStats>;
+  for (const key of Object.values(HOOK_STATS_KEYS)) {
+    const hookStats = stats[key];
+    recent[key] = {
+      total: hookStats.totalExecutions,
+      success: hookStats.successCount,
+      failure: hookStats.failureCount,
+      successRate: hookStats.totalExecutions > 0
+        ? (hookStats.successCount / hookStats.totalExecutions) * 100
+        : 0,
+      lastSuccess: hookStats.lastSuccess
+    };
+  }
+  return recent;
 }
 
 /**
@@ -267,16 +308,14 @@ export async function getRecentStats(days: number = 7): Promise<{
 export async function getTopProjects(limit: number = 5): Promise<Array<{ project: string; count: number }>> {
   const stats = await loadHookStats();
   
-  // Combine projects from both hooks
+  // Combine projects from all hooks
   const combinedProjects = new Map<string, number>();
   
-  for (const [project, count] of stats.sessionStartHook.projects) {
-    combinedProjects.set(project, count);
-  }
-  
-  for (const [project, count] of stats.preCompactHook.projects) {
-    const existing = combinedProjects.get(project) || 0;
-    combinedProjects.set(project, existing + count);
+  for (const key of Object.values(HOOK_STATS_KEYS)) {
+    for (const [project, count] of stats[key].projects) {
+      const existing = combinedProjects.get(project) || 0;
+      combinedProjects.set(project, existing + count);
+    }
   }
   
   // Sort and return top projects
@@ -292,7 +331,7 @@ export async function getTopProjects(limit: number = 5): Promise<Array<{ project
  * Clear hook statistics
  */
 export async function clearHookStats(): Promise<void> {
-  const statsPath = getStatsPath();
+  const statsPath = getHookStatsPath();
   
   try {
     await fs.unlink(statsPath);
@@ -4,7 +4,7 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { logger } from '../../utils/logger';
 import { getCliPath } from '../config';
-import { getHooksStatus } from './hooks-controller';
+import { getHooksStatus, getHookEventForTrigger, HookTrigger, HOOK_EVENTS, HOOK_EVENT_TYPES } from './hooks-controller';
 import { recordHookExecution } from './hooks-stats';
 
 const execAsync = promisify(exec);
@@ -13,7 +13,7 @@ const execAsync = promisify(exec);
  * Test result for a single hook
  */
 export interface HookTestResult {
-  hookType: 'sessionstart' | 'precompact' | 'sessionend';
+  hookType: HookTrigger;
   success: boolean;
   duration: number;
   output?: string;
@@ -31,11 +31,22 @@ export interface TestStep {
   duration?: number;
 }
 
+/**
+ * Command that checks a hook can run without side effects. Prompt analysis
+ * would start a background analysis, so only its options are checked.
+ */
+function buildTestCommand(cliPath: string, hookType: HookTrigger): string {
+  if (hookType === 'userpromptsubmit') {
+    return `${cliPath} analyze-prompt --help`;
+  }
+  return `${cliPath} send --dry --silent --hook-trigger=${hookType} --test`;
+}
+
 /**
  * Test a specific hook
  */
 export async function testHook(
-  hookType: 'sessionstart' | 'precompact' | 'sessionend',
+  hookType: HookTrigger,
   options: { verbose?: boolean; record?: boolean } = {}
 ): Promise<HookTestResult> {
   const startTime = Date.now();
@@ -46,9 +57,7 @@ export async function testHook(
     // Step 1: Check if hook is installed
     const stepStart = Date.now();
     const status = await getHooksStatus();
-    const hookStatus = hookType === 'sessionstart' ? status.sessionStartHook :
-                       hookType === 'precompact' ? status.preCompactHook :
-                       status.sessionEndHook;
+    const hookStatus = status[HOOK_EVENTS[getHookEventForTrigger(hookType)].key];
     
     if (!hookStatus.installed) {
       steps.push({
@@ -109,7 +118,7 @@ export async function testHook(
     
     // Step 3: Test hook execution
     const execStepStart = Date.now();
-    const testCommand = `${cliPath} send --dry --silent --hook-trigger=${hookType} --test`;
+    const testCommand = buildTestCommand(cliPath, hookType);
     
     if (options.verbose) {
       console.log(chalk.gray(`Executing: ${testCommand}`));
@@ -235,38 +244,14 @@ export async function testAllHooks(
   // Get hook status
   const status = await getHooksStatus();
   
-  // Test SessionStart hook if installed
-  if (status.sessionStartHook.installed) {
-    if (options.verbose) {
-      console.log(chalk.cyan('\nTesting SessionStart Hook...'));
-    }
-    const result = await testHook('sessionstart', options);
-    results.push(result);
-    
-    if (options.verbose) {
-      displayTestResult(result);
-    }
-  }
-  
-  // Test PreCompact hook if installed
-  if (status.preCompactHook.installed) {
-    if (options.verbose) {
-      console.log(chalk.cyan('\nTesting PreCompact Hook...'));
-    }
-    const result = await testHook('precompact', options);
-    results.push(result);
-
-    if (options.verbose) {
-      displayTestResult(result);
-    }
-  }
+  for (const type of HOOK_EVENT_TYPES) {
+    const { key, trigger } = HOOK_EVENTS[type];
+    if (!status[key].installed) continue;
 
-  // Test SessionEnd hook if installed
-  if (status.sessionEndHook.installed) {
     if (options.verbose) {
-      console.log(chalk.cyan('\nTesting SessionEnd Hook...'));
+      console.log(chalk.cyan(`\nTesting ${type} Hook...`));
     }
-    const result = await testHook('sessionend', options);
+    const result = await testHook(trigger, options);
     results.push(result);
 
     if (options.verbose) {
@@ -285,9 +270,7 @@ export async function testAllHooks(
  * Display a test result with formatting
  */
 export function displayTestResult(result: HookTestResult): void {
-  const hookName = result.hookType === 'sessionstart' ? 'SessionStart Hook' :
-                   result.hookType === 'precompact' ? 'PreCompact Hook' :
-                   'SessionEnd Hook';
+  const hookName = `${getHookEventForTrigger(result.hookType)} Hook`;
   
   console.log('');
   if (result.success) {
@@ -331,7 +314,7 @@ export function displayTestResult(result: HookTestResult): void {
  * Simulate a hook trigger for testing
  */
 export async function simulateHookTrigger(
-  hookType: 'sessionstart' | 'precompact' | 'sessionend',
+  hookType: HookTrigger,
   projectPath?: string
 ): Promise<{ success: boolean; output?: string; error?: string }> {
   try {
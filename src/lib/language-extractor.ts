@@ -365,17 +365,27 @@ export function extractLanguageFromEntry(data: any): string | null {
   const filePath = extractFilePathFromToolUse(data);
   
   if (filePath) {
-    // Check for special files without extensions (like Dockerfile)
-    const basename = path.basename(filePath).toLowerCase();
-    if (LANGUAGE_MAPPINGS[basename]) {
-      return LANGUAGE_MAPPINGS[basename];
-    }
-    
-    // Extract extension and get language
-    const ext = path.extname(filePath).slice(1).toLowerCase();
-    if (ext) {
-      return getLanguageFromExtension(ext); // This already returns null for ignored extensions
-    }
+    return getLanguageFromFilePath(filePath);
+  }
+  
+  return null;
+}
+
+/**
+ * Get the programming language of a file path
+ * Useful for readers that already know which files were touched
+ */
+export function getLanguageFromFilePath(filePath: string): string | null {
+  // Check for special files without extensions (like Dockerfile)
+  const basename = path.basename(filePath).toLowerCase();
+  if (LANGUAGE_MAPPINGS[basename]) {
+    return LANGUAGE_MAPPINGS[basename];
+  }
+  
+  // Extract extension and get language
+  const ext = path.extname(filePath).slice(1).toLowerCase();
+  if (ext) {
+    return getLanguageFromExtension(ext); // This already returns null for ignored extensions
   }
   
   return null;
@@ -1,4 +1,6 @@
 import { Message } from './readers/types';
+import { redactSecrets } from './secret-detector';
+import { RedactionRule, CompiledRedactionRule, compileRedactionRules, applyRedactionRules } from './redaction-rules';
 
 /**
  * Sanitizes messages by redacting sensitive information while preserving context
@@ -18,6 +20,7 @@ interface SanitizedMessage {
       paths: number;
       urls: number;
       emails: number;
+      custom: number; // Matches of user-defined redaction rules
     };
     originalLength: number;
     sanitizedLength: number;
@@ -43,11 +46,16 @@ export class MessageSanitizer {
   private entityNamer = new EntityNamer();
   private debugMode = process.env.DEVARK_DEBUG === 'true';
   private debugCredentials: Array<{ text: string; pattern: string }> = [];
+  private customRules: CompiledRedactionRule[] = [];
   
-  sanitizeMessages(messages: Message[]): SanitizedMessage[] {
+  /**
+   * @param customRules - user-defined rules (see getRedactionRules), applied on top of the built-in ones
+   */
+  sanitizeMessages(messages: Message[], customRules: RedactionRule[] = []): SanitizedMessage[] {
     // Reset naming for each session to maintain consistency
     this.entityNamer.reset();
     this.debugCredentials = [];
+    this.customRules = compileRedactionRules(customRules);
     return messages.map(msg => this.sanitizeMessage(msg));
   }
   
@@ -75,6 +83,7 @@ export class MessageSanitizer {
           paths: metadata.paths,
           urls: metadata.urls,
           emails: metadata.emails,
+          custom: metadata.custom,
         },
         originalLength: typeof message.content === 'string' ? message.content.length : JSON.stringify(message.content).length,
         sanitizedLength: content.length,
@@ -114,6 +123,7 @@ export class MessageSanitizer {
       paths: 0,
       urls: 0,
       emails: 0,
+      custom: 0,
     };
     
     // 1. Redact code blocks but keep description
@@ -139,6 +149,14 @@ export class MessageSanitizer {
       return `[CODE_${this.entityNamer.getName('inline_code')}]`;
     });
     
+    // 2b. Apply user-defined rules (internal token formats, customer names, hostnames)
+    // before the built-in patterns rewrite the text they might match
+    if (this.customRules.length > 0) {
+      const custom = applyRedactionRules(sanitized, this.customRules, entity => this.entityNamer.getName(entity));
+      sanitized = custom.content;
+      metadata.custom += custom.count;
+    }
+    
     // 3. Redact API keys and tokens - optimized for performance
     // First, do a quick check if the content likely contains credentials
     const hasLikelyCredentials = /\b(sk[-_]|pk[-_]|rk_|gh[ps]_|gho_|ghu_|ghr_|AKIA|xox[bp]-|npm_|SG\.|bearer\s+)/i.test(sanitized);
@@ -192,6 +210,18 @@ export class MessageSanitizer {
     // Note: Removed generic long token check - it was causing 400K+ false positives
     // Real credentials are already caught by the specific patterns above
     
+    // 3b. Structure- and context-based detection for secrets without a known prefix
+    // (private keys, JWTs, database URL passwords, `password=...` with a high-entropy value)
+    sanitized = redactSecrets(sanitized, ({ type, start, end }) => {
+      metadata.credentials++;
+      if (this.debugMode) {
+        const match = sanitized.slice(start, end);
+        const preview = match.length > 20 ? match.substring(0, 20) + '...' : match;
+        this.debugCredentials.push({ text: preview, pattern: `Secret detection (${type})` });
+      }
+      return `[CREDENTIAL_${this.entityNamer.getName('credential')}]`;
+    }).content;
+    
     // 4. Redact environment variables
     sanitized = sanitized.replace(/\$\{?[A-Z_][A-Z0-9_]*\}?/g, (_match) => {
       metadata.envVars++;
@@ -1,6 +1,7 @@
 import { requireAuth, getToken } from '../auth/token';
-import { readClaudeSessions } from '../readers/claude';
-import { apiClient, Session } from '../api-client';
+import { readAllSessions } from '../readers/session-sources';
+import { apiClient, Session, UploadResult } from '../api-client';
+import { enqueueBatches, flushUploadQueue, FlushResult } from '../upload-queue';
 import {
   getProjectSyncData,
   updateProjectSyncBoundaries,
@@ -10,14 +11,17 @@ import { parseProjectName } from '../ui/project-display';
 import { DevArkError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
 import { MessageSanitizer } from '../message-sanitizer';
+import { getRedactionRules } from '../redaction-rules';
 import { logHookError } from '../hook-utils';
 import { SessionData } from '../readers/types';
-import { SelectedSessionInfo } from '../ui/session-selector';
+import { SelectedSessionInfo, readSelectedSourceSessions } from '../ui/session-selector';
 import { analyzeProject } from '../claude-core';
 import path from 'path';
 import fs from 'fs/promises';
 import { filterImageContent } from '../readers/image-filter';
+import { CURSOR_UNKNOWN_PROJECT } from '../readers/cursor';
 import { extractLanguagesFromSession } from '../language-extractor';
+import { enrichSessionsWithGit, getGitUploadSummary } from '../git-enrichment';
 
 export interface SendOptions {
   dry?: boolean;
@@ -32,6 +36,7 @@ export interface SendOptions {
   claudeProjectDir?: string;
   fromMenu?: boolean;  // Indicates call is from interactive menu
   isInitialSync?: boolean;  // Indicates this is initial sync during hook setup
+  flushQueue?: boolean;  // Only replay queued upload batches (--flush-queue)
 }
 
 // Use Session type from api-client for consistency
@@ -44,6 +49,12 @@ export class SendOrchestrator {
     // Authenticate
     await this.authenticate(options);
 
+    // Retry batches left over from earlier failed uploads (respects backoff).
+    // A dry run (also used by the hook test) must not upload anything.
+    if (!options.dry) {
+      await this.flushQueue();
+    }
+
     // Load sessions
     const sessions = await this.loadSessions(options);
 
@@ -98,8 +109,7 @@ export class SendOrchestrator {
       if (serverSince) {
         logger.debug(`Using server timestamp for incremental sync: ${serverSince.toISOString()}`);
       }
-      const sessions = await readClaudeSessions({ since: serverSince });
-      return sessions;
+      return readAllSessions({ since: serverSince, useIndex: false });
     }
 
     // Determine date filter only for non-all modes
@@ -111,7 +121,7 @@ export class SendOrchestrator {
     }
 
     // Load all sessions and filter to current directory (default behavior)
-    const sessions = await readClaudeSessions({ since: sinceDate });
+    const sessions = await readAllSessions({ since: sinceDate, useIndex: false });
     const currentDir = process.cwd();
     return sessions.filter(session => {
       const sessionPath = path.normalize(session.projectPath).toLowerCase();
@@ -181,17 +191,19 @@ export class SendOrchestrator {
       return [];
     }
     
-    return readClaudeSessions({
+    return readAllSessions({
       since: sinceDate,
-      projectPath: project.actualPath
+      projectPath: project.actualPath,
+      tools: ['claude_code'],
+      useIndex: false
     });
   }
 
   private async readSelectedSessions(selectedInfo: SelectedSessionInfo[]): Promise<SessionData[]> {
-    const sessions: SessionData[] = [];
+    const sessions = await readSelectedSourceSessions(selectedInfo.filter(info => !info.sessionFile));
     const failedFiles: string[] = [];
     
-    for (const info of selectedInfo) {
+    for (const info of selectedInfo.filter(info => info.sessionFile)) {
       try {
         const filePath = path.join(info.projectPath, info.sessionFile);
         const content = await fs.readFile(filePath, 'utf-8');
@@ -318,7 +330,16 @@ export class SendOrchestrator {
     // Track filtered sessions for logging
     let filteredCount = 0;
     
-    for (const session of sessions) {
+    // Tie sessions to the commits made while they ran
+    const enrichedSessions = await enrichSessionsWithGit(sessions);
+    
+    for (const session of enrichedSessions) {
+      // Cursor conversations without a workspace folder have no project to upload to
+      if (session.projectPath === CURSOR_UNKNOWN_PROJECT) {
+        logger.debug(`Skipping Cursor session ${session.id} without a workspace folder`);
+        continue;
+      }
+
       // Filter out sessions that are too short
       if (session.duration < MIN_DURATION_SECONDS) {
         filteredCount++;
@@ -326,7 +347,10 @@ export class SendOrchestrator {
         continue;
       }
       
-      const sanitizedMessages = this.sanitizer.sanitizeMessages(session.messages);
+      const sanitizedMessages = this.sanitizer.sanitizeMessages(
+        session.messages,
+        getRedactionRules(session.projectPath)
+      );
       const projectName = parseProjectName(session.projectPath);
       
       apiSessions.push({
@@ -337,7 +361,7 @@ export class SendOrchestrator {
         data: {
           projectName,
           messageSummary: JSON.stringify(sanitizedMessages),
-          messageCount: session.messages.length,
+          messageCount: session.messageCount ?? session.messages.length,
           metadata: {
             files_edited: session.metadata?.files_edited || 0,
             languages: session.metadata?.languages || [],
@@ -348,6 +372,7 @@ export class SendOrchestrator {
             hasPlanningMode: session.planningModeInfo?.hasPlanningMode || false,
             planningCycles: session.planningModeInfo?.planningCycles || 0,
             exitPlanTimestamps: session.planningModeInfo?.exitPlanTimestamps?.map(t => t.toISOString()) || [],
+            git: getGitUploadSummary(session.metadata?.git),
           },
         },
       });
@@ -386,7 +411,14 @@ export class SendOrchestrator {
         console.log('[DEBUG] SendOrchestrator.uploadSessions called with', apiSessions.length, 'sessions');
       }
       logger.debug(`Uploading ${apiSessions.length} sessions to API`);
-      const result = await apiClient.uploadSessions(apiSessions, onProgress);
+      const result = await apiClient.uploadSessions(
+        apiSessions,
+        onProgress,
+        // Keep unsent batches in the upload queue instead of losing them
+        async (batches, error) => {
+          await enqueueBatches(batches, error);
+        }
+      );
       if (process.env.DEVARK_DEBUG === 'true') {
         console.log('[DEBUG] Upload completed successfully');
       }
@@ -403,6 +435,19 @@ export class SendOrchestrator {
     }
   }
 
+  /**
+   * Replay queued upload batches. Queue problems never block a new upload.
+   * @param force - ignore backoff (used by `send --flush-queue`)
+   */
+  async flushQueue(force = false): Promise<FlushResult | undefined> {
+    try {
+      return await flushUploadQueue({ force });
+    } catch (error) {
+      logger.debug('Failed to flush upload queue:', error);
+      return undefined;
+    }
+  }
+
   async updateSyncState(sessions: SessionData[], options: SendOptions): Promise<void> {
     if (sessions.length === 0) return;
     
@@ -452,7 +497,11 @@ export class SendOrchestrator {
     }
   }
 
-  private logResults(results: any, options: SendOptions): void {
+  private logResults(results: UploadResult, options: SendOptions): void {
+    if (results.queuedBatches) {
+      logger.info(`Upload interrupted - ${results.queuedBatches} batch(es) queued for retry`);
+    }
+
     if (options.silent) {
       // Log success with points info if available
       if (results.pointsEarned?.total) {
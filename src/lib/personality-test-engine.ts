@@ -74,7 +74,8 @@ export async function runPersonalityTest(
       // Get real analysis from Claude
       const analysis: PromptAnalysis = await analyzer.analyze(testPrompt.text, {
         verbose,
-        timeout: 15000 // 15 second timeout
+        timeout: 15000, // 15 second timeout
+        recordHistory: false
       });
       
       const processingTime = Date.now() - startTime;
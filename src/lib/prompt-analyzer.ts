@@ -3,10 +3,13 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
 import { getStatusLinePersonality } from './personality-manager';
-import { getToken } from './config';
+import { getToken, getAnalysisBackendSettings } from './config';
 import { LoadingState, getLoadingMessage } from '../types/loading-state';
 import { generatePromotionalTip } from './promotional-tips';
-import { getTempDirectoryPath } from './temp-directories';
+import { completeAnalysis } from './analysis-backends/analysis-backend';
+import { appendPromptHistory } from './prompt-history';
+import { scorePromptHeuristically } from './heuristic-scorer';
+import { AnalysisMode } from './analysis-backends/types';
 
 /**
  * Analysis result for a prompt
@@ -22,6 +25,7 @@ export interface PromptAnalysis {
   sessionId?: string;
   originalPrompt?: string;  // The original prompt that was analyzed
   promotionalTip?: string;  // Pre-generated promotional tip (10% chance)
+  source?: 'llm' | 'heuristic';  // Who produced the score
 }
 
 /**
@@ -43,33 +47,18 @@ export interface SessionMetadata {
 export interface AnalysisOptions {
   sessionId?: string;
   timeout?: number; // Default 10 seconds
-  model?: 'haiku' | 'sonnet'; // For future use when model selection is available
+  model?: string; // Claude model when no model is configured for the analysis backend
   verbose?: boolean;
   conversationContext?: string; // Context from previous 2-3 conversation turns
   previousAssistantMessage?: string; // Deprecated: Use conversationContext instead
   sessionMetadata?: SessionMetadata; // Rich metadata about the session
+  projectPath?: string; // Working directory of the session, for the score history
+  recordHistory?: boolean; // Append the score to the local history (default true)
+  mode?: AnalysisMode; // Overrides the configured analysis mode
 }
 
-// Cache the SDK import to avoid re-importing on every analysis
-let cachedSDK: { query: any } | null = null;
-
-// Removed session-based recursion tracker - now using loading state detection
-
 /**
- * Get the Claude SDK, caching it after first import
- */
-async function getClaudeSDK(): Promise<{ query: any }> {
-  if (!cachedSDK) {
-    logger.debug('Loading Claude SDK for first time...');
-    cachedSDK = await import('@anthropic-ai/claude-agent-sdk');
-  } else {
-    logger.debug('Using cached Claude SDK');
-  }
-  return cachedSDK;
-}
-
-/**
- * Analyzes prompt quality using Claude SDK
+ * Analyzes prompt quality using the configured analysis backend (Claude SDK by default)
  * Provides concise feedback on what's missing and how to improve
  */
 export class PromptAnalyzer {
@@ -155,7 +144,7 @@ Emoji selection:
   } */
 
   /**
-   * Analyze a prompt and return quality feedback using Claude SDK
+   * Analyze a prompt and return quality feedback using the configured analysis backend
    */
   public async analyze(
     promptText: string,
@@ -168,6 +157,7 @@ Emoji selection:
       previousAssistantMessage, // For backward compatibility
       sessionMetadata
     } = options;
+    const mode = options.mode || getAnalysisBackendSettings().mode || 'llm';
     
     // Use conversationContext if available, fallback to previousAssistantMessage for compatibility
     const context = conversationContext || previousAssistantMessage;
@@ -184,13 +174,27 @@ Emoji selection:
     // the original analysis from running. The signature check above is sufficient.
 
     // Debug log to file for hook troubleshooting
-    await this.logToDebugFile(`Starting analysis for session ${sessionId}, prompt length: ${promptText.length}`);
+    await this.logToDebugFile(`Starting ${mode} analysis for session ${sessionId}, prompt length: ${promptText.length}`);
+
+    if (mode === 'heuristic') {
+      await this.ensureAnalysisDir();
+      return this.finishAnalysis(scorePromptHeuristically(promptText, sessionMetadata, sessionId), options);
+    }
+
+    // Hybrid mode: the rule-based score is shown right away and kept if the LLM fails
+    let preliminaryResult: PromptAnalysis | null = null;
 
     try {
       logger.debug(`Starting prompt analysis - length: ${promptText.length} chars`);
 
-      // Write loading state immediately for instant feedback
-      await this.writeLoadingState(sessionId);
+      if (mode === 'hybrid') {
+        preliminaryResult = scorePromptHeuristically(promptText, sessionMetadata, sessionId);
+        await this.ensureAnalysisDir();
+        await this.saveAnalysis(preliminaryResult, sessionId);
+      } else {
+        // Write loading state immediately for instant feedback
+        await this.writeLoadingState(sessionId);
+      }
     
     // Add a small delay to ensure loading state is visible
     // This helps with very fast analyses that complete in <100ms
@@ -337,60 +341,16 @@ Respond with JSON only, no explanation.`;
     let rawResponse = '';
 
     try {
-      // Get Claude SDK (cached after first import)
-      logger.debug('Getting Claude SDK...');
-      await this.logToDebugFile(`Getting Claude SDK for session ${sessionId}...`);
-      const { query } = await getClaudeSDK();
-      logger.debug('SDK loaded successfully');
-      await this.logToDebugFile(`SDK loaded successfully for session ${sessionId}`);
-      
-      // Use model from options or default to haiku
-      // In hook mode (when sessionId exists), prioritize speed over accuracy
-      const selectedModel = options.model || (sessionId ? 'haiku' : 'haiku');
-      logger.debug(`Using Claude SDK with ${selectedModel} model for analysis`);
-      
-      // No timeout - let the SDK complete naturally
-      logger.debug('Starting SDK query with prompt length:', analysisPrompt.length);
-      
-      // Create temp directory for analysis sessions to avoid polluting project history
-      const tempAnalysisDir = getTempDirectoryPath('PROMPT_ANALYSIS');
-      await fs.mkdir(tempAnalysisDir, { recursive: true }).catch(() => {});
-      
-      // Simplified options - optimize for speed in hook mode
-      const queryOptions = {
-        maxTurns: 1,                    // Single turn only
-        model: selectedModel,           // Use selected model (haiku by default)
-        disallowedTools: ['*'],         // No tools needed for JSON response
-        cwd: tempAnalysisDir            // Use temp directory to isolate analysis sessions
-      };
-      
-      logger.debug('Query options:', queryOptions);
-      await this.logToDebugFile(`Starting SDK query for session ${sessionId} with model ${selectedModel} in temp dir: ${tempAnalysisDir}`);
-        
-        for await (const message of query({
-          prompt: analysisPrompt,
-          options: queryOptions
-        })) {
-          // Log every message type we receive
-          logger.debug(`Received message type: ${message.type}`, message.type === 'result' ? message : '');
-          
-          if (message.type === 'assistant' && message.message?.content) {
-            const textContent = message.message.content.find((c: any) => c.type === 'text');
-            if (textContent?.text) {
-              rawResponse = textContent.text;
-              logger.debug('Got raw response from SDK:', rawResponse.substring(0, 200));
-              await this.logToDebugFile(`Raw SDK response: ${rawResponse.substring(0, 500)}`);
-            }
-          } else if (message.type === 'result' && verbose) {
-            logger.debug('Analysis metrics:', {
-              duration_ms: message.duration_ms,
-              cost_usd: message.total_cost_usd,
-              model_used: message.model || selectedModel
-            });
-          }
-        }
+      const { text, backend } = await completeAnalysis({
+        prompt: analysisPrompt,
+        model: options.model,
+        verbose
+      });
+      rawResponse = text;
+      logger.debug(`Analysis answered by ${backend.displayName}`);
+      await this.logToDebugFile(`Raw ${backend.displayName} response: ${rawResponse.substring(0, 500)}`);
 
-      await this.logToDebugFile(`SDK query completed for session ${sessionId}, got response: ${rawResponse ? 'YES' : 'NO'}`);
+      await this.logToDebugFile(`Analysis query completed for session ${sessionId}, got response: ${rawResponse ? 'YES' : 'NO'}`);
 
       // Parse the response
       if (rawResponse) {
@@ -401,11 +361,11 @@ Respond with JSON only, no explanation.`;
             const parsed = JSON.parse(jsonMatch[0]);
             
             // Validate and normalize the response - NO FALLBACKS!
-            // If SDK doesn't return proper data, we should fail and fix it
+            // If the backend doesn't return proper data, we should fail and fix it
             if (!parsed.quality || !parsed.suggestion || typeof parsed.score !== 'number') {
-              logger.error('SDK response missing required fields:', parsed);
-              await this.logToDebugFile(`INCOMPLETE SDK RESPONSE: ${JSON.stringify(parsed)}`);
-              throw new Error(`SDK response missing required fields: quality=${parsed.quality}, suggestion=${parsed.suggestion}, score=${parsed.score}`);
+              logger.error('Analysis response missing required fields:', parsed);
+              await this.logToDebugFile(`INCOMPLETE ANALYSIS RESPONSE: ${JSON.stringify(parsed)}`);
+              throw new Error(`Analysis response missing required fields: quality=${parsed.quality}, suggestion=${parsed.suggestion}, score=${parsed.score}`);
             }
             
             analysisResult = {
@@ -417,24 +377,30 @@ Respond with JSON only, no explanation.`;
               contextualEmoji: parsed.contextualEmoji || '💡',  // Only emoji can have fallback
               timestamp: new Date().toISOString(),
               sessionId,
-              originalPrompt: promptText  // Add the original prompt for debugging
+              originalPrompt: promptText,  // Add the original prompt for debugging
+              source: 'llm'
             };
 
-            logger.debug('Parsed SDK analysis result:', analysisResult);
+            logger.debug('Parsed analysis result:', analysisResult);
           } else {
-            throw new Error('No JSON found in SDK response');
+            throw new Error('No JSON found in analysis response');
           }
         } catch (parseError) {
-          logger.error('Failed to parse SDK response:', parseError);
-          logger.debug('Raw SDK response was:', rawResponse);
+          logger.error('Failed to parse analysis response:', parseError);
+          logger.debug('Raw analysis response was:', rawResponse);
           throw new Error(`Failed to parse analysis response: ${parseError}`);
         }
       } else {
-        throw new Error('No response received from Claude SDK - please try again');
+        throw new Error('No response received from the analysis backend - please try again');
       }
 
     } catch (error) {
-      logger.error('Error during SDK prompt analysis:', error);
+      logger.error('Error during prompt analysis:', error);
+
+      if (preliminaryResult) {
+        await this.logToDebugFile(`LLM analysis failed for ${sessionId}, keeping heuristic score: ${error}`);
+        return this.finishAnalysis(preliminaryResult, options);
+      }
       
       // Check if it's an abort/timeout
       if (error instanceof Error && (error.name === 'AbortError' || error.message.includes('abort'))) {
@@ -447,17 +413,7 @@ Respond with JSON only, no explanation.`;
       throw error;
     }
 
-      // Generate promotional tip for this analysis (5% chance, not for first 3 messages)
-      if (analysisResult) {
-        // Check authentication status for promotional tip
-        const token = await getToken();
-        // Pass message number if available from session metadata
-        const messageNumber = sessionMetadata?.messageNumber;
-        analysisResult.promotionalTip = generatePromotionalTip(!!token, messageNumber);
-        await this.saveAnalysis(analysisResult, sessionId);
-      }
-
-      return analysisResult!;
+      return await this.finishAnalysis(analysisResult!, options);
     } catch (error) {
       // Log errors to debug file
       await this.logToDebugFile(`ERROR in analysis for ${sessionId}: ${error}`);
@@ -469,6 +425,26 @@ Respond with JSON only, no explanation.`;
     }
   }
 
+  /**
+   * Add the promotional tip, save the result for the status line and record it in the history
+   */
+  private async finishAnalysis(analysisResult: PromptAnalysis, options: AnalysisOptions): Promise<PromptAnalysis> {
+    const { sessionId, sessionMetadata, projectPath, recordHistory = true } = options;
+
+    // Generate promotional tip for this analysis (5% chance, not for first 3 messages)
+    // Check authentication status for promotional tip
+    const token = await getToken();
+    // Pass message number if available from session metadata
+    const messageNumber = sessionMetadata?.messageNumber;
+    analysisResult.promotionalTip = generatePromotionalTip(!!token, messageNumber);
+    await this.saveAnalysis(analysisResult, sessionId);
+    if (recordHistory) {
+      await appendPromptHistory(analysisResult, { sessionId, projectPath });
+    }
+
+    return analysisResult;
+  }
+
   /**
    * Write loading state to session file
    * This provides immediate feedback while analysis is running
@@ -0,0 +1,188 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { homedir } from 'os';
+import { PromptAnalysis } from './prompt-analyzer';
+import { logger } from '../utils/logger';
+import { getLocalDateString } from './utils/date-utils';
+
+/**
+ * Append-only history of prompt-quality scores.
+ *
+ * The per-session files in ~/.devark/analyzed-prompts only hold the latest
+ * analysis for the status line and are cleaned up after 7 days. Every
+ * finished analysis is also appended as one JSON line to
+ * ~/.devark/prompt-history.jsonl so trends can be computed offline.
+ * The prompt text itself is never stored here.
+ */
+
+export interface PromptHistoryEntry {
+  timestamp: string;
+  score: number;
+  quality: PromptAnalysis['quality'];
+  missing: string[];
+  sessionId?: string;
+  project?: string;      // Project folder name
+  projectPath?: string;
+  source?: PromptAnalysis['source'];
+}
+
+export interface PromptHistoryFilter {
+  since?: Date;
+  project?: string;  // Matches the project name, case-insensitive
+}
+
+export interface PromptTrendBucket {
+  key: string;           // YYYY-MM-DD for days, project name for projects
+  count: number;
+  averageScore: number;
+}
+
+export interface PromptTrend {
+  total: number;
+  averageScore: number;
+  days: PromptTrendBucket[];        // Oldest first
+  projects: PromptTrendBucket[];    // Most prompts first
+  topMissing: Array<{ category: string; count: number }>;
+  improvement: {
+    firstHalfAverage: number;
+    secondHalfAverage: number;
+    change: number;                 // Positive = prompts are getting better
+  } | null;                         // Null with fewer than 4 entries
+}
+
+const MIN_ENTRIES_FOR_IMPROVEMENT = 4;
+const TOP_MISSING_LIMIT = 5;
+
+export function getPromptHistoryPath(): string {
+  return path.join(homedir(), '.devark', 'prompt-history.jsonl');
+}
+
+/**
+ * Record a finished analysis. Never throws - history is a nice-to-have.
+ */
+export async function appendPromptHistory(
+  analysis: PromptAnalysis,
+  context: { sessionId?: string; projectPath?: string } = {}
+): Promise<void> {
+  const entry: PromptHistoryEntry = {
+    timestamp: analysis.timestamp || new Date().toISOString(),
+    score: analysis.score,
+    quality: analysis.quality,
+    missing: analysis.missing || [],
+    sessionId: context.sessionId ?? analysis.sessionId,
+    project: context.projectPath ? path.basename(context.projectPath) : undefined,
+    projectPath: context.projectPath,
+    source: analysis.source,
+  };
+
+  try {
+    const filePath = getPromptHistoryPath();
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, JSON.stringify(entry) + '\n', 'utf8');
+  } catch (error) {
+    logger.debug('Failed to append prompt history:', error);
+  }
+}
+
+function isHistoryEntry(value: unknown): value is PromptHistoryEntry {
+  const entry = value as PromptHistoryEntry;
+  return !!entry &&
+    typeof entry.timestamp === 'string' &&
+    typeof entry.score === 'number' &&
+    Array.isArray(entry.missing);
+}
+
+/**
+ * Read history entries, oldest first. Corrupt lines are skipped.
+ */
+export async function readPromptHistory(filter: PromptHistoryFilter = {}): Promise<PromptHistoryEntry[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(getPromptHistoryPath(), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const project = filter.project?.toLowerCase().trim();
+  const entries: PromptHistoryEntry[] = [];
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (!isHistoryEntry(entry)) continue;
+
+    const time = new Date(entry.timestamp);
+    if (isNaN(time.getTime())) continue;
+    if (filter.since && time < filter.since) continue;
+    if (project && entry.project?.toLowerCase() !== project) continue;
+
+    entries.push(entry);
+  }
+
+  return entries.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+function average(scores: number[]): number {
+  if (scores.length === 0) return 0;
+  return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+}
+
+function toBuckets(groups: Map<string, number[]>): PromptTrendBucket[] {
+  return Array.from(groups.entries()).map(([key, scores]) => ({
+    key,
+    count: scores.length,
+    averageScore: average(scores),
+  }));
+}
+
+/**
+ * Per-day and per-project averages, most common missing items and the change
+ * between the first and second half of the period
+ */
+export function computePromptTrend(entries: PromptHistoryEntry[]): PromptTrend {
+  const byDay = new Map<string, number[]>();
+  const byProject = new Map<string, number[]>();
+  const missingCounts = new Map<string, number>();
+
+  for (const entry of entries) {
+    const day = getLocalDateString(new Date(entry.timestamp));
+    byDay.set(day, [...(byDay.get(day) || []), entry.score]);
+
+    const project = entry.project || 'unknown';
+    byProject.set(project, [...(byProject.get(project) || []), entry.score]);
+
+    // Count each category once per prompt, ignoring case and spacing differences
+    const categories = new Set(entry.missing.map(item => item.toLowerCase().trim()).filter(Boolean));
+    for (const category of categories) {
+      missingCounts.set(category, (missingCounts.get(category) || 0) + 1);
+    }
+  }
+
+  const scores = entries.map(entry => entry.score);
+  let improvement: PromptTrend['improvement'] = null;
+  if (entries.length >= MIN_ENTRIES_FOR_IMPROVEMENT) {
+    const middle = Math.floor(scores.length / 2);
+    const firstHalfAverage = average(scores.slice(0, middle));
+    const secondHalfAverage = average(scores.slice(middle));
+    improvement = { firstHalfAverage, secondHalfAverage, change: secondHalfAverage - firstHalfAverage };
+  }
+
+  return {
+    total: entries.length,
+    averageScore: average(scores),
+    days: toBuckets(byDay).sort((a, b) => a.key.localeCompare(b.key)),
+    projects: toBuckets(byProject).sort((a, b) => b.count - a.count || a.key.localeCompare(b.key)),
+    topMissing: Array.from(missingCounts.entries())
+      .map(([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category))
+      .slice(0, TOP_MISSING_LIMIT),
+    improvement,
+  };
+}
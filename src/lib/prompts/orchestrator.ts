@@ -15,12 +15,22 @@ export function buildOrchestratedPrompt(context: PromptContext): OrchestratedPro
   // Create the timeframe description
   const timeframeDesc = days === 1 ? 'the last 24 hours' : `the last ${days} days`;
 
+  // Sessions analyzed in an earlier run are not in the manifest
+  const cachedSessions = context.cachedSessions || 0;
+  const cachedSection = cachedSessions > 0 ? `
+
+## Cached Analyses
+${cachedSessions} session${cachedSessions === 1 ? ' was' : 's were'} analyzed in an earlier run. Their results are in .devark-temp/cached-analyses.json (same format as the batch analyzer output).
+- Do NOT analyze these sessions again - they are not listed in the manifest
+- Read .devark-temp/cached-analyses.json and pass its entries to the report generator together with the new results${context.sessionsToAnalyze === 0 ? `
+- Every session is cached: SKIP Phase 2 and go straight to Phase 3` : ''}` : '';
+
   // Separate system prompt for behavioral instructions
   const systemPrompt = `You are a devark ORCHESTRATOR coordinating batch analysis.
 
 CRITICAL RULES:
 - DO NOT analyze session files yourself - delegate ALL analysis to sub-agents
-- DO NOT use Grep, Read (except manifest), or other analysis tools on session files
+- DO NOT use Grep, Read (except manifest and cached analyses), or other analysis tools on session files
 - Batch sessions to limit parallel agents (MAX 9 agents total)
 - Your role: Read manifest → Launch batch analyzers → Collect results → Launch report generator → Capture and output HTML
 
@@ -65,7 +75,7 @@ Read .devark-temp/manifest.json to understand:
 - Session files and their sizes
 - Projects involved
 
-Output: "Found X sessions across Y projects, launching parallel analyzers..."
+Output: "Found X sessions across Y projects, launching parallel analyzers..."${cachedSection}
 
 ## Phase 2 - Parallel Batch Analysis (20 seconds)
 Group sessions into batches and launch parallel analyzers (MAX 9 agents):
@@ -148,7 +158,7 @@ RETURN FORMAT (JSON array for your batch):
   // ... one object for each session in your batch
 ]
 
-CRITICAL: Process ALL files in your batch. Return an array with one object per session.")
+CRITICAL: Process ALL files in your batch. Return an array with one object per session as valid JSON (double quotes), with session_file set to the file name exactly as listed in the manifest.")
 
 IMPORTANT:
 - Group sessions into batches based on the strategy above
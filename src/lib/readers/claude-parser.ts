@@ -0,0 +1,315 @@
+import { SessionData, Message, SessionMetadata, TokenUsage } from './types';
+import { filterImageContent } from './image-filter';
+import { extractLanguageFromEntry } from '../language-extractor';
+import { activeGapSeconds, capDuration } from './duration';
+import { getLocalDateString } from '../utils/date-utils';
+import { emptyUsage, addUsage } from '../utils/token-usage-utils';
+
+interface ClaudeMessage {
+  role: string;
+  content: string | any[];  // Content can be string or array of content items
+  timestamp: string;
+  model?: string;  // Model ID for assistant messages
+  id?: string;     // API message ID, shared by every entry of one response
+  usage?: ClaudeMessageUsage;
+}
+
+/**
+ * Token counts reported by the API for one assistant response
+ */
+export interface ClaudeMessageUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+export interface ClaudeLogEntry {
+  sessionId?: string;
+  cwd?: string;
+  timestamp?: string;
+  message?: ClaudeMessage;
+  type?: string;
+  requestId?: string;
+  files?: string[];
+  gitBranch?: string;  // Git branch from JSONL
+  toolUseResult?: {
+    type: string;
+    filePath?: string;
+  };
+}
+
+/**
+ * Bump whenever the parse rules change so persisted parse states
+ * (see claude-session-index.ts) are rebuilt instead of resumed.
+ */
+export const CLAUDE_PARSER_VERSION = 5;
+
+/**
+ * Only the most recent messages are kept with their content, so memory stays
+ * bounded however long the session is. Counts and duration still cover every
+ * message through the running counters in the parse state.
+ */
+export const MAX_WINDOW_MESSAGES = 1000;
+export const MAX_WINDOW_CHARS = 2 * 1024 * 1024;
+
+// Responses are written as consecutive entries, so only recent IDs are needed
+const MAX_TRACKED_USAGE_IDS = 1000;
+
+/**
+ * Accumulated parse state for a single Claude session file.
+ * Lines are fed one by one, so parsing can resume from any line boundary.
+ */
+export interface ClaudeParseState {
+  metadata: SessionMetadata | null;
+  messages: Message[];                                          // Window of the most recent messages
+  windowChars: number;                                          // Content length held in `messages`
+  messageCount: number;                                         // All messages seen
+  activeSeconds: number;                                        // Uncapped active time over all messages
+  lastMessageAt: Date | null;
+  editedFiles: Set<string>;
+  languages: Set<string>;
+  modelStats: Record<string, number>;
+  lastModel: string | null;
+  modelSwitches: number;
+  exitPlanTimestamps: Date[];
+  toolUses: Record<string, number>;                             // Tool name -> tool_use count
+  dailyTokenUsage: Record<string, Record<string, TokenUsage>>;  // Local day (YYYY-MM-DD) -> model ID -> token totals
+  usageMessageIds: Set<string>;                                 // Recent responses already counted
+  gitBranch?: string;
+}
+
+export function createParseState(): ClaudeParseState {
+  return {
+    metadata: null,
+    messages: [],
+    windowChars: 0,
+    messageCount: 0,
+    activeSeconds: 0,
+    lastMessageAt: null,
+    editedFiles: new Set(),
+    languages: new Set(),
+    modelStats: {},
+    lastModel: null,
+    modelSwitches: 0,
+    exitPlanTimestamps: [],
+    toolUses: {},
+    dailyTokenUsage: {},
+    usageMessageIds: new Set(),
+  };
+}
+
+/**
+ * Feed one JSONL line into the parse state.
+ * Invalid JSON lines are ignored.
+ */
+export function ingestLine(state: ClaudeParseState, line: string): void {
+  if (!line.trim()) return;
+
+  let data: ClaudeLogEntry;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    // Skip invalid JSON lines
+    return;
+  }
+
+  // Extract git branch from the first entry that has it
+  if (!state.gitBranch && data.gitBranch) {
+    state.gitBranch = data.gitBranch;
+  }
+
+  // Extract session metadata from first valid entry
+  if (!state.metadata && data.sessionId && data.cwd && data.timestamp) {
+    state.metadata = {
+      id: data.sessionId,
+      projectPath: data.cwd,
+      timestamp: new Date(data.timestamp),
+      claudeSessionId: data.sessionId,  // Store the Claude session ID
+    };
+  }
+
+  // Extract messages and track model usage
+  if (data.message && data.timestamp) {
+    // Count tool uses and check for ExitPlanMode in message content
+    if (data.message.content && Array.isArray(data.message.content)) {
+      for (const item of data.message.content) {
+        if (item.type !== 'tool_use' || typeof item.name !== 'string') continue;
+        state.toolUses[item.name] = (state.toolUses[item.name] || 0) + 1;
+        if (item.name === 'ExitPlanMode') {
+          state.exitPlanTimestamps.push(new Date(data.timestamp));
+        }
+      }
+    }
+
+    // Filter images from content before adding to messages
+    addMessage(state, {
+      role: data.message.role as 'user' | 'assistant',
+      content: filterImageContent(data.message.content),
+      timestamp: new Date(data.timestamp),
+    });
+
+    // Track model usage for assistant messages
+    if (data.message.role === 'assistant' && data.message.model) {
+      state.modelStats[data.message.model] = (state.modelStats[data.message.model] || 0) + 1;
+
+      // Track model switches
+      if (state.lastModel && state.lastModel !== data.message.model) {
+        state.modelSwitches++;
+      }
+      state.lastModel = data.message.model;
+    }
+
+    trackTokenUsage(state, data);
+  }
+
+  // Track edited files from toolUseResult (for backward compatibility)
+  if (data.toolUseResult && (data.toolUseResult.type === 'create' || data.toolUseResult.type === 'update')) {
+    const filePath = data.toolUseResult.filePath;
+    if (filePath) {
+      state.editedFiles.add(filePath);
+    }
+  }
+
+  const language = extractLanguageFromEntry(data);
+  if (language) {
+    state.languages.add(language);
+  }
+}
+
+/**
+ * Update the running counters and append the message to the window,
+ * dropping the oldest messages once it is over either limit.
+ */
+function addMessage(state: ClaudeParseState, message: Message): void {
+  if (state.lastMessageAt) {
+    state.activeSeconds += activeGapSeconds(state.lastMessageAt, message.timestamp);
+  }
+  state.lastMessageAt = message.timestamp;
+  state.messageCount++;
+
+  state.messages.push(message);
+  state.windowChars += message.content.length;
+
+  // The newest message is always kept, even when it alone is over the limit
+  while (
+    state.messages.length > 1 &&
+    (state.messages.length > MAX_WINDOW_MESSAGES || state.windowChars > MAX_WINDOW_CHARS)
+  ) {
+    const dropped = state.messages.shift();
+    state.windowChars -= dropped ? dropped.content.length : 0;
+  }
+}
+
+/**
+ * Add the usage block of an assistant response to the per-day, per-model
+ * totals. Claude Code writes one entry per content block, all carrying the
+ * same message ID and usage, so each response is counted once.
+ */
+function trackTokenUsage(state: ClaudeParseState, data: ClaudeLogEntry): void {
+  const message = data.message;
+  if (!message || message.role !== 'assistant' || !message.usage || !data.timestamp) return;
+  // Synthetic entries (e.g. interrupted requests) carry no real usage
+  if (!message.model || message.model === '<synthetic>') return;
+
+  if (message.id) {
+    const key = `${message.id}:${data.requestId || ''}`;
+    if (state.usageMessageIds.has(key)) return;
+    state.usageMessageIds.add(key);
+    if (state.usageMessageIds.size > MAX_TRACKED_USAGE_IDS) {
+      // Sets iterate in insertion order, so the first ID is the oldest
+      for (const oldest of state.usageMessageIds) {
+        state.usageMessageIds.delete(oldest);
+        break;
+      }
+    }
+  }
+
+  const timestamp = new Date(data.timestamp);
+  if (isNaN(timestamp.getTime())) return;
+
+  const day = getLocalDateString(timestamp);
+  const models = state.dailyTokenUsage[day] || (state.dailyTokenUsage[day] = {});
+  const totals = models[message.model] || (models[message.model] = emptyUsage());
+
+  const usage = message.usage;
+  totals.inputTokens += usage.input_tokens || 0;
+  totals.outputTokens += usage.output_tokens || 0;
+  totals.cacheReadTokens += usage.cache_read_input_tokens || 0;
+  totals.cacheWriteTokens += usage.cache_creation_input_tokens || 0;
+}
+
+/**
+ * Per-model totals and a copy of the per-day totals, or undefined without usage
+ */
+function buildTokenUsage(state: ClaudeParseState): Pick<SessionData, 'tokenUsage' | 'dailyTokenUsage'> {
+  const days = Object.keys(state.dailyTokenUsage);
+  if (days.length === 0) return { tokenUsage: undefined, dailyTokenUsage: undefined };
+
+  const tokenUsage: Record<string, TokenUsage> = {};
+  const dailyTokenUsage: Record<string, Record<string, TokenUsage>> = {};
+
+  for (const day of days) {
+    dailyTokenUsage[day] = {};
+    for (const [model, usage] of Object.entries(state.dailyTokenUsage[day])) {
+      dailyTokenUsage[day][model] = { ...usage };
+      addUsage(tokenUsage[model] || (tokenUsage[model] = emptyUsage()), usage);
+    }
+  }
+
+  return { tokenUsage, dailyTokenUsage };
+}
+
+/**
+ * Build SessionData from an accumulated parse state.
+ * Returns null when the file had no usable session metadata or messages.
+ */
+export function buildSessionData(state: ClaudeParseState): SessionData | null {
+  if (!state.metadata || state.messageCount === 0) return null;
+
+  const duration = capDuration(state.activeSeconds);
+
+  // Prepare model info if models were detected
+  let modelInfo: SessionData['modelInfo'] = undefined;
+  if (Object.keys(state.modelStats).length > 0) {
+    const models = Object.keys(state.modelStats);
+    const primaryModel = models.reduce((a, b) =>
+      state.modelStats[a] > state.modelStats[b] ? a : b
+    );
+
+    modelInfo = {
+      models,
+      primaryModel,
+      modelUsage: { ...state.modelStats },
+      modelSwitches: state.modelSwitches,
+    };
+  }
+
+  // Prepare planning mode info if detected
+  let planningModeInfo: SessionData['planningModeInfo'] = undefined;
+  if (state.exitPlanTimestamps.length > 0) {
+    planningModeInfo = {
+      hasPlanningMode: true,
+      planningCycles: state.exitPlanTimestamps.length,
+      exitPlanTimestamps: [...state.exitPlanTimestamps],
+    };
+  }
+
+  return {
+    ...state.metadata,
+    messages: [...state.messages],
+    messageCount: state.messageCount,
+    lastTimestamp: state.lastMessageAt || undefined,
+    duration,
+    tool: 'claude_code',
+    metadata: {
+      files_edited: state.editedFiles.size,
+      languages: Array.from(state.languages).sort(),
+    },
+    modelInfo,
+    planningModeInfo,
+    toolUsage: Object.keys(state.toolUses).length > 0 ? { ...state.toolUses } : undefined,
+    ...buildTokenUsage(state),
+    gitBranch: state.gitBranch,
+  };
+}
@@ -0,0 +1,392 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import { SessionData, TokenUsage } from './types';
+import {
+  ClaudeParseState,
+  CLAUDE_PARSER_VERSION,
+  createParseState,
+  ingestLine,
+  buildSessionData,
+} from './claude-parser';
+import { readJsonlLines, DEFAULT_MAX_LINE_BYTES } from './jsonl-line-reader';
+import { logger } from '../../utils/logger';
+
+const INDEX_VERSION = 2;
+const HASH_WINDOW = 4096;   // Bytes hashed at the start of the file and before the offset
+
+/**
+ * Per-file record in the session index
+ */
+export interface SessionIndexEntry {
+  size: number;
+  mtimeMs: number;
+  ino: number;
+  offset: number;            // Bytes consumed so far (always on a line boundary)
+  maxLineBytes: number;      // Per-line cap the offset was parsed with
+  headHash: string;          // Hash of the first bytes of the file (detects rotation)
+  anchorHash: string;        // Hash of the bytes right before `offset` (detects rewrites)
+  stateFile: string;         // Resume state file name inside the index directory
+  summary: {
+    sessionId?: string;
+    projectPath?: string;
+    timestamp?: string;      // First message timestamp (ISO)
+    lastTimestamp?: string;  // Last message timestamp (ISO)
+    messageCount: number;
+    duration: number;
+  };
+}
+
+interface SessionIndexManifest {
+  version: number;
+  parserVersion: number;
+  files: Record<string, SessionIndexEntry>;
+}
+
+/**
+ * JSON form of ClaudeParseState without its message window (sets flattened,
+ * dates as ISO strings) - the counters needed to resume parsing
+ */
+interface SerializedParseState {
+  metadata: { id: string; projectPath: string; timestamp: string; claudeSessionId?: string } | null;
+  messageCount: number;
+  activeSeconds: number;
+  lastMessageAt: string | null;
+  editedFiles: string[];
+  languages: string[];
+  modelStats: Record<string, number>;
+  lastModel: string | null;
+  modelSwitches: number;
+  exitPlanTimestamps: string[];
+  toolUses?: Record<string, number>;
+  dailyTokenUsage: Record<string, Record<string, TokenUsage>>;
+  usageMessageIds: string[];
+  gitBranch?: string;
+}
+
+/**
+ * Minimal stat shape needed to validate an index entry
+ */
+export interface IndexableStat {
+  size: number;
+  mtimeMs: number;
+  ino: number;
+}
+
+export function getSessionIndexDir(): string {
+  return path.join(os.homedir(), '.devark', 'session-index');
+}
+
+/**
+ * True when the stat result carries everything the index needs.
+ */
+export function isIndexableStat(stat: unknown): stat is IndexableStat {
+  const s = stat as Partial<IndexableStat> | null | undefined;
+  return !!s && typeof s.size === 'number' && typeof s.mtimeMs === 'number';
+}
+
+/**
+ * Persistent index of Claude session files under ~/.devark/session-index.
+ *
+ * Each JSONL file is tracked by size, mtime, inode, the byte offset that has
+ * been parsed and two hashes. Only the running counters are stored, never
+ * message content: unchanged files are served from them without messages,
+ * appended files are parsed from their last offset and carry only the new
+ * messages, and files that were truncated, rotated, rewritten or parsed with
+ * another line size cap are re-indexed from scratch.
+ */
+export class SessionIndex {
+  private manifest: SessionIndexManifest;
+  private dirty = false;
+  private seen = new Set<string>();
+
+  private constructor(private indexDir: string, manifest: SessionIndexManifest) {
+    this.manifest = manifest;
+  }
+
+  static async load(indexDir: string = getSessionIndexDir()): Promise<SessionIndex> {
+    const empty: SessionIndexManifest = {
+      version: INDEX_VERSION,
+      parserVersion: CLAUDE_PARSER_VERSION,
+      files: {},
+    };
+
+    try {
+      const content = await fs.readFile(path.join(indexDir, 'index.json'), 'utf-8');
+      const parsed = JSON.parse(content) as SessionIndexManifest;
+
+      if (parsed.version !== INDEX_VERSION || parsed.parserVersion !== CLAUDE_PARSER_VERSION || !parsed.files) {
+        logger.debug('Session index format changed, rebuilding');
+        const index = new SessionIndex(indexDir, empty);
+        index.dirty = true;
+        return index;
+      }
+
+      return new SessionIndex(indexDir, parsed);
+    } catch {
+      return new SessionIndex(indexDir, empty);
+    }
+  }
+
+  getEntry(filePath: string): SessionIndexEntry | undefined {
+    return this.manifest.files[filePath];
+  }
+
+  /**
+   * Whether the stored entry still describes the file byte for byte.
+   */
+  isUnchanged(filePath: string, stat: IndexableStat): boolean {
+    const entry = this.getEntry(filePath);
+    return !!entry &&
+      entry.size === stat.size &&
+      entry.mtimeMs === stat.mtimeMs &&
+      entry.ino === stat.ino &&
+      entry.offset === stat.size;
+  }
+
+  /**
+   * Return the session for a file, parsing only bytes not seen before.
+   * Its `messages` are only those parsed by this call.
+   */
+  async readSession(
+    filePath: string,
+    stat: IndexableStat,
+    options: { maxLineBytes?: number } = {}
+  ): Promise<SessionData | null> {
+    this.seen.add(filePath);
+    const entry = this.getEntry(filePath);
+    const maxLineBytes = options.maxLineBytes ?? DEFAULT_MAX_LINE_BYTES;
+
+    let state: ClaudeParseState | null = null;
+    let startOffset = 0;
+
+    if (entry && entry.maxLineBytes === maxLineBytes && await this.canResume(filePath, entry, stat)) {
+      state = await this.loadState(entry.stateFile);
+      startOffset = entry.offset;
+
+      if (state && entry.offset === stat.size) {
+        // Nothing appended - only refresh mtime if it moved
+        if (entry.mtimeMs !== stat.mtimeMs) {
+          entry.mtimeMs = stat.mtimeMs;
+          this.dirty = true;
+        }
+        return buildSessionData(state);
+      }
+    }
+
+    if (!state) {
+      if (entry) {
+        logger.debug(`Re-indexing session file ${filePath}`);
+      }
+      state = createParseState();
+      startOffset = 0;
+    }
+
+    const offset = await this.parseFrom(filePath, startOffset, state, maxLineBytes);
+    const stateFile = entry?.stateFile || `${hashString(filePath)}.json`;
+    const session = buildSessionData(state);
+
+    await this.saveState(stateFile, state);
+    this.manifest.files[filePath] = {
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      ino: stat.ino,
+      offset,
+      maxLineBytes,
+      headHash: await hashRange(filePath, 0, Math.min(HASH_WINDOW, offset)),
+      anchorHash: await hashRange(filePath, Math.max(0, offset - HASH_WINDOW), offset),
+      stateFile,
+      summary: {
+        sessionId: session?.id,
+        projectPath: session?.projectPath,
+        timestamp: session?.timestamp.toISOString(),
+        lastTimestamp: state.lastMessageAt?.toISOString(),
+        messageCount: state.messageCount,
+        duration: session?.duration || 0,
+      },
+    };
+    this.dirty = true;
+
+    return session;
+  }
+
+  /**
+   * Mark a file as still present without reading it (e.g. skipped by date filters).
+   */
+  touch(filePath: string): void {
+    this.seen.add(filePath);
+  }
+
+  /**
+   * Drop entries for files that were not seen during a complete scan.
+   */
+  async prune(): Promise<void> {
+    for (const [filePath, entry] of Object.entries(this.manifest.files)) {
+      if (this.seen.has(filePath)) continue;
+
+      delete this.manifest.files[filePath];
+      this.dirty = true;
+      try {
+        await fs.unlink(path.join(this.indexDir, entry.stateFile));
+      } catch {
+        // State file already gone
+      }
+    }
+  }
+
+  /**
+   * Write the manifest atomically if anything changed.
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    try {
+      await writeAtomic(path.join(this.indexDir, 'index.json'), JSON.stringify(this.manifest));
+      this.dirty = false;
+    } catch (error) {
+      logger.debug('Failed to save session index', error);
+    }
+  }
+
+  private async canResume(filePath: string, entry: SessionIndexEntry, stat: IndexableStat): Promise<boolean> {
+    // Truncated or replaced by a different file
+    if (stat.size < entry.offset || entry.ino !== stat.ino) return false;
+
+    const headHash = await hashRange(filePath, 0, Math.min(HASH_WINDOW, entry.offset));
+    if (headHash !== entry.headHash) return false;
+
+    const anchorHash = await hashRange(filePath, Math.max(0, entry.offset - HASH_WINDOW), entry.offset);
+    return anchorHash === entry.anchorHash;
+  }
+
+  /**
+   * Parse complete lines from `start` to the end of the file.
+   * Returns the new offset (end of the last consumed line).
+   */
+  private async parseFrom(
+    filePath: string,
+    start: number,
+    state: ClaudeParseState,
+    maxLineBytes?: number
+  ): Promise<number> {
+    let offset = start;
+
+    const lines = readJsonlLines(filePath, {
+      start,
+      maxLineBytes,
+      onOversizedLine: (bytes, end, complete) => {
+        logger.debug(`Skipping oversized line (${bytes} bytes) in ${filePath}`);
+        if (complete) offset = end;
+      },
+    });
+
+    for await (const { line, end, complete } of lines) {
+      // A trailing line without newline is consumed only once it is complete JSON,
+      // otherwise it is probably still being written and is left for the next run
+      if (!complete && !isCompleteJson(line)) break;
+
+      ingestLine(state, line);
+      offset = end;
+    }
+
+    return offset;
+  }
+
+  private async loadState(stateFile: string): Promise<ClaudeParseState | null> {
+    try {
+      const content = await fs.readFile(path.join(this.indexDir, stateFile), 'utf-8');
+      return deserializeState(JSON.parse(content));
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveState(stateFile: string, state: ClaudeParseState): Promise<void> {
+    try {
+      await writeAtomic(path.join(this.indexDir, stateFile), JSON.stringify(serializeState(state)));
+    } catch (error) {
+      logger.debug('Failed to save session parse state', error);
+    }
+  }
+}
+
+function serializeState(state: ClaudeParseState): SerializedParseState {
+  return {
+    metadata: state.metadata
+      ? { ...state.metadata, timestamp: state.metadata.timestamp.toISOString() }
+      : null,
+    messageCount: state.messageCount,
+    activeSeconds: state.activeSeconds,
+    lastMessageAt: state.lastMessageAt ? state.lastMessageAt.toISOString() : null,
+    editedFiles: Array.from(state.editedFiles),
+    languages: Array.from(state.languages),
+    modelStats: state.modelStats,
+    lastModel: state.lastModel,
+    modelSwitches: state.modelSwitches,
+    exitPlanTimestamps: state.exitPlanTimestamps.map(d => d.toISOString()),
+    toolUses: state.toolUses,
+    dailyTokenUsage: state.dailyTokenUsage,
+    usageMessageIds: Array.from(state.usageMessageIds),
+    gitBranch: state.gitBranch,
+  };
+}
+
+function deserializeState(data: SerializedParseState): ClaudeParseState {
+  return {
+    metadata: data.metadata
+      ? { ...data.metadata, timestamp: new Date(data.metadata.timestamp) }
+      : null,
+    messages: [],
+    windowChars: 0,
+    messageCount: data.messageCount,
+    activeSeconds: data.activeSeconds,
+    lastMessageAt: data.lastMessageAt ? new Date(data.lastMessageAt) : null,
+    editedFiles: new Set(data.editedFiles),
+    languages: new Set(data.languages),
+    modelStats: data.modelStats,
+    lastModel: data.lastModel,
+    modelSwitches: data.modelSwitches,
+    exitPlanTimestamps: data.exitPlanTimestamps.map(t => new Date(t)),
+    toolUses: data.toolUses || {},
+    dailyTokenUsage: data.dailyTokenUsage || {},
+    usageMessageIds: new Set(data.usageMessageIds || []),
+    gitBranch: data.gitBranch,
+  };
+}
+
+function isCompleteJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function hashString(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex').slice(0, 32);
+}
+
+async function hashRange(filePath: string, start: number, end: number): Promise<string> {
+  const length = end - start;
+  const hash = crypto.createHash('sha256');
+  if (length > 0) {
+    const fd = await fs.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await fd.read(buffer, 0, length, start);
+      hash.update(buffer.subarray(0, bytesRead));
+    } finally {
+      await fd.close();
+    }
+  }
+  return hash.digest('hex');
+}
+
+async function writeAtomic(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, content, 'utf-8');
+  await fs.rename(tmpPath, filePath);
+}
@@ -1,31 +1,13 @@
 import fs from 'fs/promises';
+import type { Stats } from 'fs';
 import path from 'path';
 import os from 'os';
-import { SessionData, Message, ReaderOptions } from './types';
+import { SessionData, ReaderOptions } from './types';
 import { DevArkError } from '../../utils/errors';
-import { filterImageContent } from './image-filter';
-import { extractLanguagesFromSession } from '../language-extractor';
-
-interface ClaudeMessage {
-  role: string;
-  content: string | any[];  // Content can be string or array of content items
-  timestamp: string;
-  model?: string;  // Model ID for assistant messages
-}
-
-interface ClaudeLogEntry {
-  sessionId?: string;
-  cwd?: string;
-  timestamp?: string;
-  message?: ClaudeMessage;
-  type?: string;
-  files?: string[];
-  gitBranch?: string;  // Git branch from JSONL
-  toolUseResult?: {
-    type: string;
-    filePath?: string;
-  };
-}
+import { logger } from '../../utils/logger';
+import { createParseState, ingestLine, buildSessionData } from './claude-parser';
+import { SessionIndex, isIndexableStat } from './claude-session-index';
+import { readJsonlLines } from './jsonl-line-reader';
 
 /**
  * Quickly extract session timestamp from first few lines of JSONL file
@@ -82,6 +64,10 @@ export async function readClaudeSessions(
   const sessions: SessionData[] = [];
   const projects = await fs.readdir(claudePath);
 
+  // The session index is loaded lazily, once a file with usable stats is found
+  let index: SessionIndex | null = null;
+  let scanComplete = true;
+
   for (const project of projects) {
     const projectPath = path.join(claudePath, project);
     const stat = await fs.stat(projectPath);
@@ -93,25 +79,58 @@ export async function readClaudeSessions(
 
     for (const file of logFiles) {
       const filePath = path.join(projectPath, file);
+      const fileStat = await statFile(filePath);
+
+      if (options.useIndex !== false && !index && isIndexableStat(fileStat)) {
+        index = await SessionIndex.load();
+      }
+      const indexable = index && isIndexableStat(fileStat) ? fileStat : null;
+      
+      // Files not written since the cutoff can't hold newer activity
+      if (options.modifiedSince && fileStat && fileStat.mtime < options.modifiedSince) {
+        index?.touch(filePath);
+        continue;
+      }
       
       // OPTIMIZATION 1: Skip files older than the since date
       if (options.since) {
-        const fileStat = await fs.stat(filePath);
-        if (fileStat.mtime < options.since) {
+        if (fileStat && fileStat.mtime < options.since) {
           // File hasn't been modified since our cutoff date, skip it entirely
+          index?.touch(filePath);
           continue;
         }
         
-        // OPTIMIZATION 2: Quick check of session timestamp
-        const sessionTimestamp = await quickExtractTimestamp(filePath);
-        if (sessionTimestamp && sessionTimestamp < options.since) {
-          // Session started before our cutoff date, skip it
-          continue;
+        // OPTIMIZATION 2: Check the session timestamp, from the index when the
+        // file is unchanged, otherwise from the first lines of the file
+        const entry = index?.getEntry(filePath);
+        if (index && indexable && entry && index.isUnchanged(filePath, indexable)) {
+          const indexedTimestamp = entry.summary.timestamp;
+          if (!indexedTimestamp || new Date(indexedTimestamp) < options.since) {
+            index.touch(filePath);
+            continue;
+          }
+        } else {
+          const sessionTimestamp = await quickExtractTimestamp(filePath);
+          if (sessionTimestamp && sessionTimestamp < options.since) {
+            // Session started before our cutoff date, skip it
+            index?.touch(filePath);
+            continue;
+          }
         }
       }
       
-      // Now read and parse the full file
-      const session = await parseSessionFile(filePath);
+      // Now read the file - incrementally through the index when possible
+      let session: SessionData | null = null;
+      if (index && indexable) {
+        try {
+          session = await index.readSession(filePath, indexable, { maxLineBytes: options.maxLineBytes });
+        } catch (error) {
+          logger.debug(`Session index failed for ${filePath}, parsing in full`, error);
+          session = await parseSessionFile(filePath, options.maxLineBytes);
+        }
+      } else {
+        session = await parseSessionFile(filePath, options.maxLineBytes);
+      }
       
       if (session) {
         // Apply filters (timestamp check now redundant but kept for safety)
@@ -136,182 +155,54 @@ export async function readClaudeSessions(
         sessions.push(session);
         
         if (options.limit && sessions.length >= options.limit) {
+          scanComplete = false;
           break;
         }
       }
     }
     
     if (options.limit && sessions.length >= options.limit) {
+      scanComplete = false;
       break;
     }
   }
 
+  if (index) {
+    // Only a full scan can tell which indexed files were deleted
+    if (scanComplete) {
+      await index.prune();
+    }
+    await index.save();
+  }
+
   return sessions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
 }
 
-async function parseSessionFile(filePath: string): Promise<SessionData | null> {
+async function statFile(filePath: string): Promise<Stats | null> {
   try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const lines = content.trim().split('\n');
-
-    const messages: Message[] = [];
-    let metadata: {
-      id: string;
-      projectPath: string;
-      timestamp: Date;
-      claudeSessionId?: string;
-    } | null = null;
-    const editedFiles = new Set<string>();
-    
-    // Model tracking variables
-    const modelStats: Record<string, number> = {};
-    let lastModel: string | null = null;
-    let modelSwitches = 0;
-    
-    // Planning mode tracking variables
-    const exitPlanTimestamps: Date[] = [];
-    
-    // Git branch tracking
-    let gitBranch: string | undefined;
-
-    for (const line of lines) {
-      if (!line.trim()) continue;
-      
-      try {
-        const data: ClaudeLogEntry = JSON.parse(line);
-
-        // Extract git branch from the first entry that has it
-        if (!gitBranch && data.gitBranch) {
-          gitBranch = data.gitBranch;
-        }
-
-        // Extract session metadata from first valid entry
-        if (!metadata && data.sessionId && data.cwd && data.timestamp) {
-          metadata = {
-            id: data.sessionId,
-            projectPath: data.cwd,
-            timestamp: new Date(data.timestamp),
-            claudeSessionId: data.sessionId,  // Store the Claude session ID
-          };
-        }
-
-        // Extract messages and track model usage
-        if (data.message && data.timestamp) {
-          // Check for ExitPlanMode tool usage in message content
-          if (data.message.content && Array.isArray(data.message.content)) {
-            for (const item of data.message.content) {
-              if (item.type === 'tool_use' && item.name === 'ExitPlanMode') {
-                exitPlanTimestamps.push(new Date(data.timestamp));
-              }
-            }
-          }
-          
-          // Filter images from content before adding to messages
-          const filteredContent = filterImageContent(data.message.content);
-          
-          messages.push({
-            role: data.message.role as 'user' | 'assistant',
-            content: filteredContent,
-            timestamp: new Date(data.timestamp),
-          });
-          
-          // Track model usage for assistant messages
-          if (data.message.role === 'assistant' && data.message.model) {
-            modelStats[data.message.model] = (modelStats[data.message.model] || 0) + 1;
-            
-            // Track model switches
-            if (lastModel && lastModel !== data.message.model) {
-              modelSwitches++;
-            }
-            lastModel = data.message.model;
-          }
-        }
-
-        // Track edited files from toolUseResult (for backward compatibility)
-        if (data.toolUseResult && (data.toolUseResult.type === 'create' || data.toolUseResult.type === 'update')) {
-          const filePath = data.toolUseResult.filePath;
-          if (filePath) {
-            editedFiles.add(filePath);
-          }
-        }
-      } catch (err) {
-        // Skip invalid JSON lines
-        continue;
-      }
-    }
-
-    if (!metadata || messages.length === 0) return null;
+    return await fs.stat(filePath);
+  } catch {
+    return null;
+  }
+}
 
-    const duration = calculateDuration(messages);
-    
-    // Use the language extractor to get all languages used in the session
-    const languages = extractLanguagesFromSession(lines);
-    
-    // Prepare model info if models were detected
-    let modelInfo: SessionData['modelInfo'] = undefined;
-    if (Object.keys(modelStats).length > 0) {
-      const models = Object.keys(modelStats);
-      const primaryModel = models.reduce((a, b) => 
-        modelStats[a] > modelStats[b] ? a : b
-      );
-      
-      modelInfo = {
-        models,
-        primaryModel,
-        modelUsage: modelStats,
-        modelSwitches,
-      };
-    }
-    
-    // Prepare planning mode info if detected
-    let planningModeInfo: SessionData['planningModeInfo'] = undefined;
-    if (exitPlanTimestamps.length > 0) {
-      planningModeInfo = {
-        hasPlanningMode: true,
-        planningCycles: exitPlanTimestamps.length,
-        exitPlanTimestamps: exitPlanTimestamps,
-      };
+async function parseSessionFile(filePath: string, maxLineBytes?: number): Promise<SessionData | null> {
+  try {
+    const state = createParseState();
+    const lines = readJsonlLines(filePath, {
+      maxLineBytes,
+      onOversizedLine: (bytes) => logger.debug(`Skipping oversized line (${bytes} bytes) in ${filePath}`),
+    });
+
+    // Stream entries so the raw file is never loaded whole; the parse state
+    // keeps counters plus a bounded window of recent messages
+    for await (const { line } of lines) {
+      ingestLine(state, line);
     }
 
-    return {
-      ...metadata,
-      messages,
-      duration,
-      tool: 'claude_code',
-      metadata: {
-        files_edited: editedFiles.size,
-        languages: languages,
-      },
-      modelInfo,
-      planningModeInfo,
-      gitBranch,
-    };
+    return buildSessionData(state);
   } catch (error) {
     console.error(`Error parsing session file ${filePath}:`, error);
     return null;
   }
 }
-
-function calculateDuration(messages: Message[]): number {
-  if (messages.length < 2) return 0;
-
-  let totalActiveTime = 0;
-  const MAX_IDLE_GAP = 15 * 60; // 15 minutes in seconds
-  const MAX_SESSION_DURATION = 8 * 60 * 60; // 8 hours max
-
-  // Sum gaps between consecutive messages, excluding long idle periods
-  for (let i = 1; i < messages.length; i++) {
-    const gapSeconds = Math.floor(
-      (messages[i].timestamp.getTime() - messages[i-1].timestamp.getTime()) / 1000
-    );
-
-    // Only count gaps <= 15 minutes as active coding time
-    if (gapSeconds > 0 && gapSeconds <= MAX_IDLE_GAP) {
-      totalActiveTime += gapSeconds;
-    }
-    // Gaps > 15 minutes are considered breaks/idle time (not counted)
-  }
-
-  // Cap at 8 hours max for safety
-  return Math.min(totalActiveTime, MAX_SESSION_DURATION);
-}
\ No newline at end of file
@@ -3,24 +3,57 @@ import path from 'path';
 import os from 'os';
 import fs from 'fs';
 import { DevArkError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { SessionData, Message, ReaderOptions } from './types';
+import { calculateDuration } from './duration';
+import { getLanguageFromFilePath } from '../language-extractor';
 
-interface CursorConversation {
+/**
+ * A single message ("bubble") in a Cursor conversation.
+ * Legacy conversations embed these; modern ones store them under bubbleId:* keys.
+ */
+export interface CursorBubble {
+  bubbleId?: string;
+  type: number; // 1 = user, 2 = assistant
+  text?: string;
+  timestamp?: string;
+  createdAt?: string | number;
+  timingInfo?: {
+    clientStartTime?: number;
+    clientRpcSendTime?: number;
+    clientEndTime?: number;
+  };
+  modelInfo?: { modelName?: string };
+  codeBlocks?: Array<{ uri?: CursorUri }>;
+  toolFormerData?: {
+    name?: string;
+    params?: string;
+    rawArgs?: string;
+  };
+}
+
+interface CursorUri {
+  fsPath?: string;
+  path?: string;
+}
+
+export interface CursorConversation {
   composerId: string;
+  name?: string;
   createdAt?: number;
   lastUpdatedAt?: number;
-  conversation?: Array<{
-    type: number; // 1 = user, 2 = assistant
-    text: string;
-    timestamp?: string;
-  }>;
+  conversation?: CursorBubble[];
   fullConversationHeadersOnly?: Array<{
     bubbleId: string;
     type: number;
   }>;
+  codeBlockData?: Record<string, unknown>; // Keyed by file URI
+  newlyCreatedFiles?: Array<{ uri?: CursorUri }>;
+  modelConfig?: { modelName?: string };
   _v?: number; // Modern format has version field
 }
 
-interface CursorMessageCount {
+export interface CursorMessageCount {
   totalMessages: number;
   userMessages: number;
   assistantMessages: number;
@@ -30,7 +63,7 @@ interface CursorMessageCount {
 /**
  * Get the Cursor database path based on platform
  */
-function getCursorDatabasePath(): string {
+export function getCursorDatabasePath(): string {
   const platform = os.platform();
 
   if (platform === 'darwin') {
@@ -137,7 +170,7 @@ export async function getCursorMessagesSince(
             }
 
             allMessages.push({
-              text: message.text,
+              text: message.text || '',
               type: message.type,
               timestamp
             });
@@ -219,6 +252,13 @@ export async function countCursorMessages(options?: {
 }): Promise<CursorMessageCount> {
   const dbPath = getCursorDatabasePath();
 
+  if (!fs.existsSync(dbPath)) {
+    throw new DevArkError(
+      'Cursor IDE data not found. Make sure Cursor is installed and you have used it at least once.',
+      'CURSOR_NOT_FOUND'
+    );
+  }
+
   let db: Database.Database | null = null;
 
   try {
@@ -319,3 +359,310 @@ export async function countCursorMessages(options?: {
     }
   }
 }
+
+// Placeholder project when a conversation can't be matched to a workspace folder.
+// Not a path: such sessions get no git info and are left out of uploads.
+export const CURSOR_UNKNOWN_PROJECT = 'Cursor (no workspace)';
+
+// Tool calls that write files in agent mode
+const CURSOR_EDIT_TOOLS = new Set(['edit_file', 'search_replace', 'write', 'create_file', 'apply_patch', 'MultiEdit']);
+
+/**
+ * Map composer IDs to workspace folders.
+ * Each workspace has its own state.vscdb listing the composers opened in it.
+ */
+export function getCursorWorkspaceFolders(): Map<string, string> {
+  const workspaceRoot = path.join(path.dirname(path.dirname(getCursorDatabasePath())), 'workspaceStorage');
+  const folders = new Map<string, string>();
+
+  let workspaces: string[];
+  try {
+    workspaces = fs.readdirSync(workspaceRoot);
+  } catch {
+    return folders;
+  }
+
+  for (const workspace of workspaces) {
+    const workspaceDir = path.join(workspaceRoot, workspace);
+    const dbPath = path.join(workspaceDir, 'state.vscdb');
+    let db: Database.Database | null = null;
+
+    try {
+      const workspaceJson = JSON.parse(fs.readFileSync(path.join(workspaceDir, 'workspace.json'), 'utf-8'));
+      const folder = workspaceJson.folder ? uriToPath(workspaceJson.folder) : null;
+      if (!folder || !fs.existsSync(dbPath)) continue;
+
+      db = new Database(dbPath, { readonly: true });
+      const row = db.prepare(`SELECT value FROM ItemTable WHERE key = 'composer.composerData'`).get() as
+        { value: string } | undefined;
+      if (!row) continue;
+
+      const composerData = JSON.parse(row.value);
+      for (const composer of composerData.allComposers || []) {
+        if (composer?.composerId) {
+          folders.set(composer.composerId, folder);
+        }
+      }
+    } catch (error) {
+      logger.debug(`Skipping Cursor workspace ${workspace}: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  }
+
+  return folders;
+}
+
+/**
+ * Convert a file:// URI (or plain path) to a filesystem path
+ */
+function uriToPath(uri: string | CursorUri): string | null {
+  if (typeof uri !== 'string') {
+    return uri.fsPath || uri.path || null;
+  }
+  if (!uri.startsWith('file://')) {
+    return uri;
+  }
+  try {
+    let filePath = decodeURIComponent(new URL(uri).pathname);
+    // file:///c%3A/Users/... -> c:/Users/...
+    if (/^\/[a-zA-Z]:/.test(filePath)) {
+      filePath = filePath.slice(1);
+    }
+    return filePath;
+  } catch {
+    return null;
+  }
+}
+
+function toMillis(value: string | number | undefined): number | null {
+  if (value === undefined || value === null) return null;
+  const millis = typeof value === 'number' ? value : new Date(value).getTime();
+  return Number.isFinite(millis) && millis > 0 ? millis : null;
+}
+
+/**
+ * Best available timestamp for a bubble
+ */
+function getBubbleTimestamp(bubble: CursorBubble): number | null {
+  return toMillis(bubble.createdAt) ??
+    toMillis(bubble.timestamp) ??
+    toMillis(bubble.timingInfo?.clientStartTime) ??
+    toMillis(bubble.timingInfo?.clientRpcSendTime) ??
+    toMillis(bubble.timingInfo?.clientEndTime);
+}
+
+/**
+ * Files written by an agent tool call
+ */
+function getToolEditedFile(bubble: CursorBubble): string | null {
+  const tool = bubble.toolFormerData;
+  if (!tool?.name || !CURSOR_EDIT_TOOLS.has(tool.name)) return null;
+
+  try {
+    const params = JSON.parse(tool.params || tool.rawArgs || '{}');
+    return params.target_file || params.relativeWorkspacePath || params.file_path || params.path || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rebuild a Cursor conversation as SessionData.
+ * Works for both legacy (inline conversation) and modern (bubbleId:*) formats.
+ * @param conversation Parsed composerData value
+ * @param getBubble Looks up a modern bubble by ID
+ * @param projectPath Workspace folder of the conversation, if known
+ */
+export function buildCursorSession(
+  conversation: CursorConversation,
+  getBubble: (bubbleId: string) => CursorBubble | undefined,
+  projectPath?: string
+): SessionData | null {
+  let bubbles: CursorBubble[] = [];
+
+  if (isLegacyConversation(conversation)) {
+    bubbles = conversation.conversation || [];
+  } else if (isModernConversation(conversation)) {
+    const inline = new Map((conversation.conversation || [])
+      .filter(b => b.bubbleId)
+      .map(b => [b.bubbleId as string, b]));
+
+    for (const header of conversation.fullConversationHeadersOnly || []) {
+      const bubble = getBubble(header.bubbleId) || inline.get(header.bubbleId);
+      if (bubble) {
+        bubbles.push({ ...bubble, type: bubble.type ?? header.type });
+      }
+    }
+  } else {
+    return null;
+  }
+
+  const messages: Message[] = [];
+  const editedFiles = new Set<string>();
+  const modelStats: Record<string, number> = {};
+  let lastModel: string | null = null;
+  let modelSwitches = 0;
+
+  // Bubbles without their own timestamp inherit the previous one,
+  // starting from the conversation creation time
+  let previousTimestamp = conversation.createdAt || conversation.lastUpdatedAt || null;
+
+  for (const bubble of bubbles) {
+    const timestamp = getBubbleTimestamp(bubble) ?? previousTimestamp;
+    previousTimestamp = timestamp;
+
+    for (const block of bubble.codeBlocks || []) {
+      const filePath = block.uri ? uriToPath(block.uri) : null;
+      if (filePath) editedFiles.add(filePath);
+    }
+    const toolFile = getToolEditedFile(bubble);
+    if (toolFile) editedFiles.add(toolFile);
+
+    const text = bubble.text?.trim();
+    if (!text || timestamp === null) continue;
+
+    const role = bubble.type === 1 ? 'user' : 'assistant';
+    messages.push({ role, content: text, timestamp: new Date(timestamp) });
+
+    const model = bubble.modelInfo?.modelName;
+    if (role === 'assistant' && model) {
+      modelStats[model] = (modelStats[model] || 0) + 1;
+      if (lastModel && lastModel !== model) {
+        modelSwitches++;
+      }
+      lastModel = model;
+    }
+  }
+
+  if (messages.length === 0) return null;
+
+  for (const uri of Object.keys(conversation.codeBlockData || {})) {
+    const filePath = uriToPath(uri);
+    if (filePath) editedFiles.add(filePath);
+  }
+  for (const created of conversation.newlyCreatedFiles || []) {
+    const filePath = created.uri ? uriToPath(created.uri) : null;
+    if (filePath) editedFiles.add(filePath);
+  }
+
+  // Fall back to the conversation-level model when bubbles don't carry one
+  if (Object.keys(modelStats).length === 0 && conversation.modelConfig?.modelName) {
+    modelStats[conversation.modelConfig.modelName] = messages.filter(m => m.role === 'assistant').length;
+  }
+
+  const languages = new Set<string>();
+  for (const filePath of editedFiles) {
+    const language = getLanguageFromFilePath(filePath);
+    if (language) languages.add(language);
+  }
+
+  messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  let modelInfo: SessionData['modelInfo'] = undefined;
+  const models = Object.keys(modelStats);
+  if (models.length > 0) {
+    modelInfo = {
+      models,
+      primaryModel: models.reduce((a, b) => modelStats[a] > modelStats[b] ? a : b),
+      modelUsage: modelStats,
+      modelSwitches,
+    };
+  }
+
+  return {
+    id: conversation.composerId,
+    projectPath: projectPath || CURSOR_UNKNOWN_PROJECT,
+    timestamp: messages[0].timestamp,
+    messages,
+    duration: calculateDuration(messages),
+    tool: 'cursor',
+    metadata: {
+      files_edited: editedFiles.size,
+      languages: Array.from(languages).sort(),
+    },
+    modelInfo,
+  };
+}
+
+/**
+ * Read Cursor conversations as SessionData, like readClaudeSessions does for Claude Code
+ */
+export async function readCursorSessions(
+  options: ReaderOptions = {}
+): Promise<SessionData[]> {
+  const dbPath = getCursorDatabasePath();
+
+  if (!fs.existsSync(dbPath)) {
+    throw new DevArkError(
+      'Cursor IDE data not found. Make sure Cursor is installed and you have used it at least once.',
+      'CURSOR_NOT_FOUND'
+    );
+  }
+
+  const workspaceFolders = getCursorWorkspaceFolders();
+  const sessions: SessionData[] = [];
+  let db: Database.Database | null = null;
+
+  try {
+    db = new Database(dbPath, { readonly: true });
+
+    const rows = db.prepare(`
+      SELECT key, value FROM cursorDiskKV
+      WHERE key LIKE 'composerData:%'
+    `).all() as Array<{ key: string; value: string }>;
+    const bubbleQuery = db.prepare('SELECT value FROM cursorDiskKV WHERE key = ?');
+
+    for (const row of rows) {
+      let conversation: CursorConversation;
+      try {
+        conversation = JSON.parse(row.value);
+      } catch {
+        continue;
+      }
+      if (!conversation?.composerId) continue;
+
+      // Skip conversations that were last touched before the cutoff
+      if (options.since && conversation.lastUpdatedAt && conversation.lastUpdatedAt < options.since.getTime()) {
+        continue;
+      }
+
+      const getBubble = (bubbleId: string): CursorBubble | undefined => {
+        try {
+          const bubbleRow = bubbleQuery.get(`bubbleId:${conversation.composerId}:${bubbleId}`) as
+            { value: string } | undefined;
+          return bubbleRow ? JSON.parse(bubbleRow.value) : undefined;
+        } catch {
+          // Skip bubbles that can't be read
+          return undefined;
+        }
+      };
+
+      const session = buildCursorSession(conversation, getBubble, workspaceFolders.get(conversation.composerId));
+      if (!session) continue;
+
+      if (options.since && session.timestamp < options.since) continue;
+      if (options.projectPath) {
+        const normalizedSessionPath = path.normalize(session.projectPath).toLowerCase();
+        const normalizedFilterPath = path.normalize(options.projectPath).toLowerCase();
+        if (!normalizedSessionPath.startsWith(normalizedFilterPath)) continue;
+      }
+
+      sessions.push(session);
+    }
+  } catch (error) {
+    throw new DevArkError(
+      `Failed to read Cursor sessions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'CURSOR_READ_ERROR'
+    );
+  } finally {
+    if (db) {
+      db.close();
+    }
+  }
+
+  sessions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  return options.limit ? sessions.slice(0, options.limit) : sessions;
+}
@@ -0,0 +1,35 @@
+import { Message } from './types';
+
+const MAX_IDLE_GAP = 15 * 60; // 15 minutes in seconds
+const MAX_SESSION_DURATION = 8 * 60 * 60; // 8 hours max
+
+/**
+ * Active seconds between two consecutive messages.
+ * Gaps > 15 minutes are considered breaks/idle time (not counted).
+ */
+export function activeGapSeconds(previous: Date, next: Date): number {
+  const gapSeconds = Math.floor((next.getTime() - previous.getTime()) / 1000);
+  return gapSeconds > 0 && gapSeconds <= MAX_IDLE_GAP ? gapSeconds : 0;
+}
+
+/**
+ * Cap summed active time at 8 hours for safety
+ */
+export function capDuration(activeSeconds: number): number {
+  return Math.min(activeSeconds, MAX_SESSION_DURATION);
+}
+
+/**
+ * Active session time in seconds, shared by all readers.
+ * Sums the gaps between consecutive messages, ignoring idle periods.
+ */
+export function calculateDuration(messages: Message[]): number {
+  if (messages.length < 2) return 0;
+
+  let totalActiveTime = 0;
+  for (let i = 1; i < messages.length; i++) {
+    totalActiveTime += activeGapSeconds(messages[i - 1].timestamp, messages[i].timestamp);
+  }
+
+  return capDuration(totalActiveTime);
+}
@@ -0,0 +1,95 @@
+import fs from 'fs/promises';
+
+/**
+ * Default cap for a single JSONL line. Lines above this size (huge pasted logs,
+ * tool outputs) are skipped instead of being buffered in memory.
+ */
+export const DEFAULT_MAX_LINE_BYTES = 16 * 1024 * 1024;
+
+const READ_CHUNK = 64 * 1024;
+const NEWLINE = 0x0a;
+
+export interface JsonlLine {
+  line: string;
+  end: number;         // Byte offset right after this line (including the newline)
+  complete: boolean;   // False for a trailing line without newline
+}
+
+export interface JsonlReadOptions {
+  start?: number;          // Byte offset to start reading from (must be a line boundary)
+  maxLineBytes?: number;   // Lines longer than this are skipped
+  onOversizedLine?: (bytes: number, end: number, complete: boolean) => void;
+}
+
+/**
+ * Stream a JSONL file line by line without loading it into memory.
+ *
+ * Memory use is bounded by the read chunk size plus `maxLineBytes`: bytes of a
+ * line that exceeds the cap are discarded as they arrive and the line is
+ * reported through `onOversizedLine` instead of being yielded.
+ */
+export async function* readJsonlLines(
+  filePath: string,
+  options: JsonlReadOptions = {}
+): AsyncGenerator<JsonlLine> {
+  const maxLineBytes = options.maxLineBytes ?? DEFAULT_MAX_LINE_BYTES;
+  const handle = await fs.open(filePath, 'r');
+
+  try {
+    const chunk = Buffer.alloc(READ_CHUNK);
+    let position = options.start ?? 0;
+    let lineStart = position;
+    let parts: Buffer[] = [];
+    let lineBytes = 0;
+    let oversized = false;
+
+    for (;;) {
+      const { bytesRead } = await handle.read(chunk, 0, READ_CHUNK, position);
+      if (bytesRead === 0) break;
+
+      let from = 0;
+      while (from < bytesRead) {
+        const newline = chunk.indexOf(NEWLINE, from);
+        const to = newline === -1 || newline >= bytesRead ? bytesRead : newline;
+        const size = to - from;
+
+        if (!oversized) {
+          if (lineBytes + size > maxLineBytes) {
+            oversized = true;
+            parts = [];
+          } else if (size > 0) {
+            parts.push(Buffer.from(chunk.subarray(from, to)));
+          }
+        }
+        lineBytes += size;
+
+        if (to === bytesRead) break;
+
+        // Reached the end of a line
+        const end = position + to + 1;
+        if (oversized) {
+          options.onOversizedLine?.(lineBytes, end, true);
+        } else {
+          yield { line: Buffer.concat(parts).toString('utf-8'), end, complete: true };
+        }
+        parts = [];
+        lineBytes = 0;
+        oversized = false;
+        lineStart = end;
+        from = to + 1;
+      }
+
+      position += bytesRead;
+    }
+
+    if (lineBytes > 0) {
+      if (oversized) {
+        options.onOversizedLine?.(lineBytes, lineStart + lineBytes, false);
+      } else {
+        yield { line: Buffer.concat(parts).toString('utf-8'), end: lineStart + lineBytes, complete: false };
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { SessionData, ReaderOptions, SessionTool } from './types';
+import { readClaudeSessions } from './claude';
+import { readCursorSessions, isCursorInstalled } from './cursor';
+import { getSessionSourceSettings, getMaxLineBytes } from '../config';
+import { logger } from '../../utils/logger';
+
+/**
+ * A local source of AI coding sessions (Claude Code, Cursor, ...).
+ * New tools plug in by implementing this interface and registering it below,
+ * so commands never call a specific reader directly.
+ */
+export interface SessionSource {
+  tool: SessionTool;
+  displayName: string;
+  /** True when the tool's local data exists on this machine (used for detection) */
+  isAvailable(): boolean;
+  /** Should throw a DevArkError when the tool's data is missing */
+  readSessions(options: ReaderOptions): Promise<SessionData[]>;
+}
+
+export interface SessionSourceStatus {
+  tool: SessionTool;
+  displayName: string;
+  available: boolean;
+  enabled: boolean;
+}
+
+const registry = new Map<SessionTool, SessionSource>();
+
+/**
+ * Register (or replace) the source for a tool
+ */
+export function registerSessionSource(source: SessionSource): void {
+  registry.set(source.tool, source);
+}
+
+export function getSessionSource(tool: SessionTool): SessionSource | undefined {
+  return registry.get(tool);
+}
+
+export function getSessionSources(): SessionSource[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Whether the user has left this source switched on (sources are on by default)
+ */
+export function isSessionSourceEnabled(tool: SessionTool): boolean {
+  const settings = getSessionSourceSettings() || {};
+  return settings[tool] !== false;
+}
+
+/**
+ * Availability and config state of every registered source
+ */
+export function getSessionSourceStatuses(): SessionSourceStatus[] {
+  return getSessionSources().map(source => ({
+    tool: source.tool,
+    displayName: source.displayName,
+    available: safeIsAvailable(source),
+    enabled: isSessionSourceEnabled(source.tool),
+  }));
+}
+
+/**
+ * Read and merge sessions from every enabled source.
+ *
+ * A failing or missing source is logged and skipped so one tool doesn't block
+ * the others; only when every enabled source fails is the first error rethrown
+ * (e.g. CLAUDE_NOT_FOUND when no tool has any data).
+ */
+export async function readAllSessions(
+  options: ReaderOptions & { tools?: SessionTool[] } = {}
+): Promise<SessionData[]> {
+  const { tools, ...readerOptions } = options;
+  const sources = getSessionSources().filter(source =>
+    (!tools || tools.includes(source.tool)) &&
+    isSessionSourceEnabled(source.tool)
+  );
+
+  const sessions: SessionData[] = [];
+  const errors: unknown[] = [];
+
+  for (const source of sources) {
+    try {
+      sessions.push(...await source.readSessions(readerOptions));
+    } catch (error) {
+      logger.debug(`Failed to read ${source.displayName} sessions:`, error);
+      errors.push(error);
+    }
+  }
+
+  if (sources.length > 0 && errors.length === sources.length) {
+    throw errors[0];
+  }
+
+  sessions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  return readerOptions.limit ? sessions.slice(0, readerOptions.limit) : sessions;
+}
+
+/**
+ * Re-read sessions picked earlier by ID, for sources without session files
+ * (Cursor). `since` should be the start of the oldest picked session.
+ */
+export async function readSessionsById(tool: SessionTool, ids: string[], since?: Date): Promise<SessionData[]> {
+  const wanted = new Set(ids);
+  const sessions = await readAllSessions({ tools: [tool], since });
+  return sessions.filter(session => wanted.has(session.id));
+}
+
+function safeIsAvailable(source: SessionSource): boolean {
+  try {
+    return source.isAvailable();
+  } catch {
+    return false;
+  }
+}
+
+registerSessionSource({
+  tool: 'claude_code',
+  displayName: 'Claude Code',
+  isAvailable: () => fs.existsSync(path.join(os.homedir(), '.claude', 'projects')),
+  // The per-line cap comes from config unless the caller sets one
+  readSessions: options => readClaudeSessions({ ...options, maxLineBytes: options.maxLineBytes ?? getMaxLineBytes() }),
+});
+
+registerSessionSource({
+  tool: 'cursor',
+  displayName: 'Cursor',
+  isAvailable: () => isCursorInstalled(),
+  readSessions: readCursorSessions,
+});
@@ -11,12 +11,38 @@ export interface ModelUsageStats {
   modelSwitches: number;                // Number of times model changed
 }
 
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;   // Prompt tokens served from the cache
+  cacheWriteTokens: number;  // Prompt tokens written to the cache
+}
+
 export interface PlanningModeInfo {
   hasPlanningMode: boolean;           // True if any ExitPlanMode detected
   planningCycles: number;              // Count of ExitPlanMode tool uses
   exitPlanTimestamps: Date[];          // Timestamps when ExitPlanMode was called
 }
 
+export interface GitCommitInfo {
+  hash: string;
+  subject: string;
+  authoredAt: Date;
+  filesChanged: number;
+  insertions: number;
+  deletions: number;
+  files: string[];              // Paths relative to the repository root
+}
+
+export interface SessionGitInfo {
+  commits: GitCommitInfo[];     // Commits by the user authored during the session
+  filesChanged: number;         // Unique files over all commits
+  insertions: number;
+  deletions: number;
+  hasUpstream: boolean;         // Current branch tracks a remote branch
+  pullRequests: number[];       // PR numbers referenced by commit subjects
+}
+
 export interface SessionMetadata {
   id: string;
   projectPath: string;
@@ -24,16 +50,24 @@ export interface SessionMetadata {
   claudeSessionId?: string;  // Claude's unique session identifier
 }
 
+export type SessionTool = 'claude_code' | 'cursor' | 'vscode';
+
 export interface SessionData extends SessionMetadata {
   messages: Message[];
+  messageCount?: number;  // All messages in the session, when `messages` holds only the most recent ones
+  lastTimestamp?: Date;   // Timestamp of the last message, set alongside messageCount
   duration: number;
-  tool: 'claude_code' | 'cursor' | 'vscode';
+  tool: SessionTool;
   metadata?: {
     files_edited: number;
     languages: string[];
+    git?: SessionGitInfo;  // Added by the git enrichment stage (see git-enrichment.ts)
   };
   modelInfo?: ModelUsageStats;  // Model usage information
   planningModeInfo?: PlanningModeInfo;  // Planning mode tracking
+  toolUsage?: Record<string, number>;  // Tool name -> tool_use count (Claude sessions only)
+  tokenUsage?: Record<string, TokenUsage>;  // Model ID -> token totals (Claude sessions only)
+  dailyTokenUsage?: Record<string, Record<string, TokenUsage>>;  // Local day (YYYY-MM-DD) -> model ID -> token totals
   gitBranch?: string;  // Git branch from JSONL
   // Source file information for re-reading if needed
   sourceFile?: {
@@ -46,4 +80,7 @@ export interface ReaderOptions {
   since?: Date;
   projectPath?: string;
   limit?: number;
+  modifiedSince?: Date;  // Skip files not written since, but keep sessions that started earlier
+  useIndex?: boolean;  // Use the persistent session index in ~/.devark (default: true); indexed sessions only carry newly parsed messages, so pass false when message content is needed
+  maxLineBytes?: number;  // Skip JSONL lines larger than this (default: the maxLineBytes config, else DEFAULT_MAX_LINE_BYTES)
 }
\ No newline at end of file
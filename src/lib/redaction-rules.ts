@@ -0,0 +1,247 @@
+import fs from 'fs';
+import path from 'path';
+import { getRedactionRules as getConfigRedactionRules } from './config';
+import { loadTeamPolicy } from './team-policy';
+import { DevArkError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * User-defined redaction rules for MessageSanitizer.
+ *
+ * Rules come from the global config (`redactionRules`) and, per project, from
+ * `<project>/.devark/redact.json` ({ "rules": [...] }). A team policy can add
+ * mandatory rules on top. Each match is replaced with `[<ENTITY>_<n>]` unless
+ * it is on the rule's allowlist.
+ */
+
+export interface RedactionRule {
+  name: string;
+  pattern: string;       // Regular expression source
+  flags?: string;        // Extra RegExp flags ('g' is always added)
+  entity: string;        // Replacement entity type, e.g. CUSTOMER -> [CUSTOMER_1]
+  allowlist?: string[];  // Matches to leave untouched (case-insensitive)
+  enabled?: boolean;     // Missing = enabled
+}
+
+export interface CompiledRedactionRule {
+  rule: RedactionRule;
+  regex: RegExp;
+  entity: string;
+  allowlist: Set<string>;
+}
+
+export const PROJECT_REDACTION_FILE = path.join('.devark', 'redact.json');
+
+const ENTITY_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+const ALLOWED_FLAGS = /^[imsu]*$/;
+
+/**
+ * Validate a rule and compile it. Throws INVALID_REDACTION_RULE on bad input.
+ */
+export function compileRedactionRule(rule: RedactionRule): CompiledRedactionRule {
+  if (!rule || typeof rule.pattern !== 'string' || rule.pattern.length === 0) {
+    throw new DevArkError('Redaction rule needs a non-empty pattern', 'INVALID_REDACTION_RULE');
+  }
+
+  const entity = String(rule.entity || '').toUpperCase();
+  if (!ENTITY_PATTERN.test(entity)) {
+    throw new DevArkError(
+      `Invalid entity type "${rule.entity}". Use letters, digits and underscores, e.g. CUSTOMER`,
+      'INVALID_REDACTION_RULE'
+    );
+  }
+
+  const flags = rule.flags || '';
+  if (!ALLOWED_FLAGS.test(flags)) {
+    throw new DevArkError(`Invalid regex flags "${flags}". Allowed: i, m, s, u`, 'INVALID_REDACTION_RULE');
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(rule.pattern, `g${flags}`);
+  } catch (error) {
+    throw new DevArkError(
+      `Invalid pattern in rule "${rule.name}": ${error instanceof Error ? error.message : String(error)}`,
+      'INVALID_REDACTION_RULE'
+    );
+  }
+
+  if (regex.test('')) {
+    throw new DevArkError(`Pattern in rule "${rule.name}" matches empty text`, 'INVALID_REDACTION_RULE');
+  }
+  regex.lastIndex = 0;
+
+  return {
+    rule,
+    regex,
+    entity,
+    allowlist: new Set((rule.allowlist || []).map(item => item.toLowerCase())),
+  };
+}
+
+/**
+ * Compile enabled rules, skipping (and logging) invalid ones so one bad rule
+ * doesn't stop an upload
+ */
+export function compileRedactionRules(rules: RedactionRule[]): CompiledRedactionRule[] {
+  const compiled: CompiledRedactionRule[] = [];
+  for (const rule of rules) {
+    if (rule.enabled === false) continue;
+    try {
+      compiled.push(compileRedactionRule(rule));
+    } catch (error) {
+      logger.warn(`Skipping redaction rule "${rule?.name}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return compiled;
+}
+
+/**
+ * Replace every non-allowlisted match. `nameEntity` returns the replacement
+ * name (e.g. CUSTOMER_1) so numbering stays consistent within a session.
+ */
+export function applyRedactionRules(
+  text: string,
+  rules: CompiledRedactionRule[],
+  nameEntity: (entity: string) => string
+): { content: string; count: number } {
+  let count = 0;
+  let content = text;
+
+  for (const { regex, entity, allowlist } of rules) {
+    content = content.replace(regex, (match) => {
+      if (allowlist.has(match.toLowerCase())) return match;
+      count++;
+      return `[${nameEntity(entity)}]`;
+    });
+  }
+
+  return { content, count };
+}
+
+// Project rule files are read synchronously while sanitizing, so cache them per run
+const projectRuleCache = new Map<string, RedactionRule[]>();
+
+/**
+ * Rules from `<projectPath>/.devark/redact.json`, or [] when there is none
+ */
+export function loadProjectRedactionRules(projectPath: string): RedactionRule[] {
+  const cached = projectRuleCache.get(projectPath);
+  if (cached) return cached;
+
+  let rules: RedactionRule[] = [];
+  const filePath = path.join(projectPath, PROJECT_REDACTION_FILE);
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    rules = Array.isArray(parsed?.rules) ? parsed.rules : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn(`Ignoring invalid redaction file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  projectRuleCache.set(projectPath, rules);
+  return rules;
+}
+
+/**
+ * Add a rule to `<projectPath>/.devark/redact.json`, replacing one with the same name
+ */
+export async function saveProjectRedactionRule(projectPath: string, rule: RedactionRule): Promise<string> {
+  compileRedactionRule(rule);
+
+  const filePath = path.join(projectPath, PROJECT_REDACTION_FILE);
+  const rules = loadProjectRedactionRules(projectPath).filter(existing => existing.name !== rule.name);
+  rules.push(rule);
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, JSON.stringify({ rules }, null, 2) + '\n');
+  projectRuleCache.delete(projectPath);
+  return filePath;
+}
+
+export function clearRedactionRuleCache(): void {
+  projectRuleCache.clear();
+}
+
+/**
+ * Global rules from config, the project's own rules and the team policy's
+ * rules. Policy rules are always enabled and replace user rules of the same name.
+ */
+export function getRedactionRules(projectPath?: string): RedactionRule[] {
+  const globalRules = getConfigRedactionRules() || [];
+  const userRules = projectPath ? [...globalRules, ...loadProjectRedactionRules(projectPath)] : globalRules;
+
+  const policyRules = (loadTeamPolicy(projectPath)?.redactionRules || []).map(rule => ({ ...rule, enabled: true }));
+  if (policyRules.length === 0) return userRules;
+
+  const policyNames = new Set(policyRules.map(rule => rule.name));
+  return [...userRules.filter(rule => !policyNames.has(rule.name)), ...policyRules];
+}
+
+export interface RedactionRuleTestResult {
+  sessionsScanned: number;
+  sessionsMatched: number;
+  messagesMatched: number;
+  matches: number;
+  allowlisted: number;
+  samples: Array<{ match: string; before: string; after: string }>;
+}
+
+/**
+ * Dry-run a single rule against raw message text (nothing leaves the machine)
+ */
+export function testRedactionRule(
+  rule: RedactionRule,
+  sessions: Array<{ messages: Array<{ content: unknown }> }>,
+  maxSamples = 5
+): RedactionRuleTestResult {
+  const compiled = compileRedactionRule(rule);
+  const result: RedactionRuleTestResult = {
+    sessionsScanned: sessions.length,
+    sessionsMatched: 0,
+    messagesMatched: 0,
+    matches: 0,
+    allowlisted: 0,
+    samples: [],
+  };
+
+  for (const session of sessions) {
+    let sessionMatched = false;
+
+    for (const message of session.messages) {
+      const text = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+      let messageMatched = false;
+
+      for (const match of text.matchAll(compiled.regex)) {
+        if (compiled.allowlist.has(match[0].toLowerCase())) {
+          result.allowlisted++;
+          continue;
+        }
+
+        result.matches++;
+        messageMatched = true;
+
+        if (result.samples.length < maxSamples) {
+          const start = Math.max(0, match.index - 40);
+          const end = Math.min(text.length, match.index + match[0].length + 40);
+          const before = text.slice(start, end);
+          result.samples.push({
+            match: match[0],
+            before,
+            after: before.replace(match[0], `[${compiled.entity}_1]`),
+          });
+        }
+      }
+
+      if (messageMatched) {
+        result.messagesMatched++;
+        sessionMatched = true;
+      }
+    }
+
+    if (sessionMatched) result.sessionsMatched++;
+  }
+
+  return result;
+}
@@ -1,8 +1,11 @@
 import { executeClaude, ClaudeStreamEvent, ClaudeExecutorOptions } from '../utils/claude-executor';
 import { ReportGenerator } from './report-generator';
+import { ReportFormat } from './report-renderers/types';
+import { ReportRunTracker } from './reports/report-cache';
 import { colors, icons } from './ui/styles';
 import { Spinner } from './ui/progress';
 import { logger } from '../utils/logger';
+import type { ReportData } from '../types/report-data';
 
 /**
  * Format a timestamp for display
@@ -22,6 +25,17 @@ function getElapsedSeconds(start: Date, end: Date): string {
   return `+${elapsed}s`;
 }
 
+/**
+ * Text of a tool result, which is a string or a list of content blocks
+ */
+function getToolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(block => (block && typeof block.text === 'string' ? block.text : ''))
+    .join('\n');
+}
+
 /**
  * Execute Claude with the orchestrated prompt for report generation
  * This maintains backward compatibility with the old executeClaudePrompt
@@ -32,17 +46,27 @@ export async function executeClaudePrompt(
     systemPrompt?: string;
     cwd?: string;
     claudePath?: string;
+    tokenUsage?: ReportData['tokenUsage'];  // Usage of the analyzed sessions, added to the saved report
+    gitActivity?: ReportData['gitActivity'];  // Commits made during the analyzed sessions
+    formats?: ReportFormat[];  // Output formats of the saved report (default: html)
+    baseReport?: ReportData;  // Offline report; Claude's output only adds the narration
+    tracker?: ReportRunTracker;  // Caches session analyses and checkpoints the run for --resume
     onStart?: () => void;
     onError?: (error: Error) => void;
     onComplete?: (code: number) => void;
   }
 ): Promise<void> {
   const reportGenerator = new ReportGenerator();
+  reportGenerator.setTokenUsage(options?.tokenUsage);
+  reportGenerator.setGitActivity(options?.gitActivity);
+  reportGenerator.setFormats(options?.formats || ['html']);
+  reportGenerator.setBaseReport(options?.baseReport);
   let spinner: Spinner | null = null;
   let spinnerInterval: NodeJS.Timeout | null = null;
   let lastResponseTime: Date | null = null;
   let messageCount = 0;
   let hasShownThinking = false;
+  let reportRecorded = false;
 
   console.log(colors.muted(`Prompt length: ${prompt.length} characters`));
   console.log();
@@ -74,6 +98,10 @@ export async function executeClaudePrompt(
         if (event.message?.content) {
           for (const content of event.message.content) {
             if (content.type === 'tool_result') {
+              if (options?.tracker && !content.is_error) {
+                options.tracker.recordToolResult(getToolResultText(content.content));
+              }
+
               // Clear spinner and show tool result
               if (spinnerInterval) {
                 process.stdout.write('\r' + ' '.repeat(80) + '\r');
@@ -135,6 +163,11 @@ export async function executeClaudePrompt(
               
               // Process the message through report generator
               reportGenerator.processMessage(content.text);
+              const capturedReport = reportGenerator.getReportData();
+              if (capturedReport && !reportRecorded) {
+                reportRecorded = true;
+                options?.tracker?.recordReport(capturedReport);
+              }
               
               // If not capturing report, show the message
               if (!reportGenerator.isCapturing()) {
@@ -320,9 +353,15 @@ export async function executeClaudePrompt(
         console.log(colors.dim(`[DEBUG] isCapturing: ${reportGenerator.isCapturing()}`));
       }
       
+      await options?.tracker?.flush();
+
       // Save the report if we have one
       if (reportGenerator.hasReport()) {
         const result = await reportGenerator.saveReport();
+        if (result.success && options?.tracker) {
+          options.tracker.complete();
+          await options.tracker.flush();
+        }
         
         console.log();
         console.log(colors.highlight('━'.repeat(60)));
@@ -3,7 +3,9 @@ import path from 'path';
 import { colors, icons } from './ui/styles';
 import { logger } from '../utils/logger';
 import { parseProjectName } from './ui/project-display';
-import { ReportTemplateEngine } from './report-template-engine';
+import { getReportRenderer } from './report-renderers/report-renderer';
+import { ReportFormat } from './report-renderers/types';
+import { overlayNarration } from './reports/offline-report';
 import type { ReportData } from '../types/report-data';
 
 /**
@@ -25,6 +27,7 @@ interface ExecutionStats {
 export interface ReportResult {
   success: boolean;
   reportPath?: string;
+  reportPaths?: string[];       // One file per selected format, reportPath is the first
   reportContent?: string;
   executionStats?: ExecutionStats;
   error?: string;
@@ -32,28 +35,26 @@ export interface ReportResult {
 
 /**
  * Generate a unique report filename by checking for existing files
- * and appending an incremental suffix if needed
+ * and appending an incremental suffix if needed. With several formats the
+ * name is free for every extension and the path of the first is returned.
  */
-function getUniqueReportFilename(basePath: string): string {
+function getUniqueReportFilename(basePath: string, extensions: string[] = ['html']): string {
   const dateStr = new Date().toISOString().split('T')[0];
   const baseFilename = `devark-report-${dateStr}`;
+  const isFree = (name: string) => extensions.every(ext => !existsSync(path.join(basePath, `${name}.${ext}`)));
   
   // Check if base filename exists
-  let filename = `${baseFilename}.html`;
-  let fullPath = path.join(basePath, filename);
-  
-  if (!existsSync(fullPath)) {
-    return fullPath;
+  if (isFree(baseFilename)) {
+    return path.join(basePath, `${baseFilename}.${extensions[0]}`);
   }
   
   // If it exists, try with incremental suffixes
   let counter = 1;
   while (counter < 100) { // Reasonable upper limit
-    filename = `${baseFilename}-${counter}.html`;
-    fullPath = path.join(basePath, filename);
+    const filename = `${baseFilename}-${counter}`;
     
-    if (!existsSync(fullPath)) {
-      return fullPath;
+    if (isFree(filename)) {
+      return path.join(basePath, `${filename}.${extensions[0]}`);
     }
     
     counter++;
@@ -61,8 +62,7 @@ function getUniqueReportFilename(basePath: string): string {
   
   // Fallback: use timestamp if somehow we have 100+ reports
   const timestamp = Date.now();
-  filename = `${baseFilename}-${timestamp}.html`;
-  return path.join(basePath, filename);
+  return path.join(basePath, `${baseFilename}-${timestamp}.${extensions[0]}`);
 }
 
 /**
@@ -74,11 +74,11 @@ export class ReportGenerator {
   private jsonBuffer: string = '';
   private reportFilePath: string = '';
   private executionStats: ExecutionStats | null = null;
-  private templateEngine: ReportTemplateEngine;
-
-  constructor() {
-    this.templateEngine = new ReportTemplateEngine();
-  }
+  private tokenUsage: ReportData['tokenUsage'] = undefined;
+  private gitActivity: ReportData['gitActivity'] = undefined;
+  private formats: ReportFormat[] = ['html'];
+  private reportFilePaths: string[] = [];
+  private baseReport: ReportData | null = null;
 
   /**
    * Start capturing report content
@@ -114,7 +114,7 @@ export class ReportGenerator {
           logger.debug('Captured report data:', parsedData);
           
           // Store the report path for later
-          this.reportFilePath = getUniqueReportFilename(process.cwd());
+          this.reportFilePath = this.getReportFilePath();
           console.log(colors.dim(`[DEBUG] Will save report to: ${this.reportFilePath} after stats are available`));
         } else {
           // Not the expected structure, might be capturing multi-line JSON
@@ -137,7 +137,7 @@ export class ReportGenerator {
                 this.capturingJson = false;
                 this.jsonBuffer = '';
                 console.log(colors.success('✅ JSON data captured (template engine will format)'));
-                this.reportFilePath = getUniqueReportFilename(process.cwd());
+                this.reportFilePath = this.getReportFilePath();
               }
             } catch {
               // Still not complete, continue capturing
@@ -161,6 +161,57 @@ export class ReportGenerator {
     logger.debug('Set execution stats for report:', stats);
   }
 
+  /**
+   * Set token usage of the analyzed sessions for the report
+   */
+  public setTokenUsage(tokenUsage: ReportData['tokenUsage']): void {
+    this.tokenUsage = tokenUsage;
+  }
+
+  /**
+   * Set the commits made during the analyzed sessions for the report
+   */
+  public setGitActivity(gitActivity: ReportData['gitActivity']): void {
+    this.gitActivity = gitActivity;
+  }
+
+  /**
+   * Set the offline report the captured narration is put over, so the
+   * numbers come from the session files instead of Claude
+   */
+  public setBaseReport(baseReport: ReportData | undefined): void {
+    this.baseReport = baseReport || null;
+  }
+
+  /**
+   * Use report data built without Claude (see reports/offline-report.ts)
+   */
+  public setReportData(reportData: ReportData): void {
+    this.reportData = reportData;
+    this.capturingJson = false;
+    this.reportFilePath = this.getReportFilePath();
+  }
+
+  /**
+   * Set the output formats; the first one is opened from the completion message
+   */
+  public setFormats(formats: ReportFormat[]): void {
+    if (formats.length > 0) {
+      this.formats = formats;
+    }
+  }
+
+  private getReportFilePath(): string {
+    return getUniqueReportFilename(process.cwd(), this.formats.map(format => getReportRenderer(format).extension));
+  }
+
+  /**
+   * Report data captured from Claude, before the offline numbers are merged in
+   */
+  public getReportData(): ReportData | null {
+    return this.reportData;
+  }
+
   /**
    * Check if we're currently capturing a report
    */
@@ -200,14 +251,13 @@ export class ReportGenerator {
       };
     }
 
-    console.log(colors.dim('[DEBUG] Processing report with template engine v0.6.0...'));
+    console.log(colors.dim(`[DEBUG] Processing report with template engine v0.6.0 (${this.formats.join(', ')})...`));
     
     try {
-      // Load the template
-      console.log(colors.info('🔧 Loading HTML template...'));
-      await this.templateEngine.loadTemplate();
-      console.log(colors.success('✅ Template loaded, injecting data...'));
-      
+      if (this.baseReport) {
+        this.reportData = overlayNarration(this.baseReport, this.reportData);
+      }
+
       // If we have execution stats, update the report data
       if (this.executionStats) {
         this.reportData.reportGeneration = {
@@ -219,19 +269,37 @@ export class ReportGenerator {
         };
       }
       
-      // Generate HTML from the template and data
-      const htmlContent = this.templateEngine.generateReport(this.reportData);
+      if (this.tokenUsage) {
+        this.reportData.tokenUsage = this.tokenUsage;
+      }
+
+      if (this.gitActivity) {
+        this.reportData.gitActivity = this.gitActivity;
+      }
       
-      // Save the HTML report
-      await fs.writeFile(this.reportFilePath, htmlContent);
-      const reportFile = parseProjectName(this.reportFilePath);
-      console.log(colors.success(`✅ Template-based report saved as: ${reportFile}`));
-      console.log(colors.muted(`   Size: ${(htmlContent.length / 1024).toFixed(2)} KB`));
+      // Render every selected format from the same data, next to each other
+      let reportContent: string | undefined;
+      this.reportFilePaths = [];
+      for (const format of this.formats) {
+        const renderer = getReportRenderer(format);
+        console.log(colors.info(`🔧 Rendering ${renderer.displayName} report...`));
+        const content = await renderer.render(this.reportData);
+        const filePath = this.reportFilePath.replace(/\.[^.]+$/, `.${renderer.extension}`);
+
+        await fs.writeFile(filePath, content);
+        this.reportFilePaths.push(filePath);
+        if (typeof content === 'string' && reportContent === undefined) {
+          reportContent = content;
+        }
+        console.log(colors.success(`✅ ${renderer.displayName} report saved as: ${parseProjectName(filePath)}`));
+        console.log(colors.muted(`   Size: ${(content.length / 1024).toFixed(2)} KB`));
+      }
       
       return {
         success: true,
         reportPath: this.reportFilePath,
-        reportContent: htmlContent,
+        reportPaths: this.reportFilePaths,
+        reportContent,
         executionStats: this.executionStats || undefined
       };
     } catch (error) {
@@ -251,14 +319,19 @@ export class ReportGenerator {
   public displayCompletionMessage(): void {
     if (!this.reportFilePath) return;
 
-    const reportFile = parseProjectName(this.reportFilePath);
+    const filePaths = this.reportFilePaths.length > 0 ? this.reportFilePaths : [this.reportFilePath];
+    const reportFiles = filePaths.map(filePath => parseProjectName(filePath));
+    // Only HTML reports are meant for the browser
+    const htmlFile = filePaths.find(filePath => path.extname(filePath).toLowerCase() === '.html');
     
     console.log(colors.success(`${icons.check} Template-based report generation complete! (v0.6.0)`));
-    console.log(colors.info(`📁 Report saved as: ${reportFile}`));
-    console.log(colors.muted(`📂 Location: ${this.reportFilePath}`));
-    console.log();
-    console.log(colors.highlight(`🌐 Open in browser:`));
-    console.log(colors.accent(`   file://${this.reportFilePath}`));
+    console.log(colors.info(`📁 Report saved as: ${reportFiles.join(', ')}`));
+    console.log(colors.muted(`📂 Location: ${path.dirname(this.reportFilePath)}`));
+    if (htmlFile) {
+      console.log();
+      console.log(colors.highlight(`🌐 Open in browser:`));
+      console.log(colors.accent(`   file://${htmlFile}`));
+    }
     
     // Display execution stats if available
     if (this.executionStats) {
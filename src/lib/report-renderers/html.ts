@@ -0,0 +1,16 @@
+import { ReportTemplateEngine } from '../report-template-engine';
+import { ReportRenderer } from './types';
+
+/**
+ * Self-contained HTML page from report-template.html
+ */
+export const htmlRenderer: ReportRenderer = {
+  format: 'html',
+  displayName: 'HTML',
+  extension: 'html',
+  async render(data) {
+    const engine = new ReportTemplateEngine();
+    await engine.loadTemplate();
+    return engine.generateReport(data);
+  },
+};
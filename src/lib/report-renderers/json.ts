@@ -0,0 +1,13 @@
+import { ReportRenderer } from './types';
+
+/**
+ * The raw report data, for dashboards and scripts
+ */
+export const jsonRenderer: ReportRenderer = {
+  format: 'json',
+  displayName: 'JSON',
+  extension: 'json',
+  async render(data) {
+    return JSON.stringify(data, null, 2) + '\n';
+  },
+};
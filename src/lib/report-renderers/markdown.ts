@@ -0,0 +1,125 @@
+import type { ReportData } from '../../types/report-data';
+import { formatTokenCount } from '../token-usage';
+import { ReportRenderer } from './types';
+
+/**
+ * Texts from Claude may carry inline HTML meant for the HTML template
+ */
+function plain(text: string): string {
+  return text.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '').trim();
+}
+
+/**
+ * Markdown version of the report for wikis and pull requests. Sections
+ * follow the HTML template; optional sections are left out when empty.
+ */
+export function renderReportMarkdown(data: ReportData): string {
+  const lines = [
+    '# DevArk Analytics Report',
+    '',
+    `**${plain(data.metadata.dateRange)}**`,
+    '',
+    `Total Sessions: ${data.metadata.totalSessions} • Data Processed: ${plain(data.metadata.dataProcessed)} • ` +
+    `Active Development: ${plain(data.metadata.activeDevelopment)} • Projects: ${data.metadata.projects}`,
+  ];
+
+  lines.push('', '## Executive Summary', '');
+  data.executiveSummary.forEach(item => lines.push(`- ${plain(item)}`));
+
+  const activities = Object.entries(data.activityDistribution);
+  if (activities.length > 0) {
+    lines.push('', '## Activity Distribution', '');
+    activities.forEach(([activity, percentage]) => lines.push(`- ${plain(activity)}: ${percentage}%`));
+  }
+
+  lines.push('', '## Key Accomplishments', '');
+  data.keyAccomplishments.forEach(item => lines.push(`- ${plain(item)}`));
+
+  if (data.projectBreakdown && data.projectBreakdown.length > 0) {
+    lines.push('', '## Project Breakdown');
+    for (const project of data.projectBreakdown) {
+      lines.push(
+        '',
+        `### ${plain(project.name)}`,
+        '',
+        `${project.sessions} sessions • Largest: ${plain(project.largestSession)}`,
+        '',
+        plain(project.focus)
+      );
+    }
+  }
+
+  const quality = data.promptQuality;
+  lines.push('', '## Prompt Quality', '', `Average score: ${quality?.averageScore || 0}/100`, '');
+  lines.push(
+    `- Excellent: ${quality?.breakdown?.excellent || 0}%`,
+    `- Good: ${quality?.breakdown?.good || 0}%`,
+    `- Fair: ${quality?.breakdown?.fair || 0}%`,
+    `- Poor: ${quality?.breakdown?.poor || 0}%`
+  );
+  if (quality?.methodology) lines.push('', plain(quality.methodology));
+  if (quality?.insights) lines.push('', plain(quality.insights));
+
+  if (data.sessionSources) {
+    lines.push('', '## Tools', '');
+    data.sessionSources.forEach(source => lines.push(
+      `- ${source.name}: ${source.sessions} session${source.sessions === 1 ? '' : 's'}, ${source.activeDevelopment}`
+    ));
+  }
+
+  if (data.tokenUsage) {
+    const usage = data.tokenUsage;
+    lines.push(
+      '',
+      '## Token Usage',
+      '',
+      `${formatTokenCount(usage.inputTokens)} input • ${formatTokenCount(usage.outputTokens)} output • ` +
+      `${formatTokenCount(usage.cacheReadTokens)} cache read • ${formatTokenCount(usage.cacheWriteTokens)} cache write ` +
+      `across ${usage.sessions} sessions - estimated $${usage.estimatedCost.toFixed(2)}`,
+      ''
+    );
+    usage.byModel.forEach(model => lines.push(
+      `- ${model.model}: ${formatTokenCount(model.totalTokens)} tokens in ${model.sessions} sessions, estimated $${model.estimatedCost.toFixed(2)}`
+    ));
+  }
+
+  if (data.gitActivity) {
+    const git = data.gitActivity;
+    lines.push(
+      '',
+      '## Git Activity',
+      '',
+      `${git.commits} commits • ${git.filesChanged} files changed • +${git.insertions} / -${git.deletions} lines`
+    );
+    for (const project of git.byProject) {
+      const details = [
+        `+${project.insertions} / -${project.deletions} lines`,
+        project.hasUpstream ? null : 'not pushed',
+        project.pullRequests.length > 0 ? `PR ${project.pullRequests.map(pr => `#${pr}`).join(', ')}` : null,
+      ].filter(Boolean).join(' • ');
+      lines.push('', `### ${project.project} (${project.commits} commits)`, '', details, '');
+      project.recentCommits.forEach(commit => lines.push(`- \`${commit.hash.slice(0, 7)}\` ${commit.subject}`));
+    }
+  }
+
+  const generation = data.reportGeneration;
+  lines.push(
+    '',
+    '---',
+    '',
+    `Generated by DevArk Analytics | ${data.metadata.generatedAt}`,
+    '',
+    `Report generation: ${generation.duration} (API ${generation.apiTime}), ${generation.turns} turns, $${generation.estimatedCost.toFixed(2)}`
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+export const markdownRenderer: ReportRenderer = {
+  format: 'markdown',
+  displayName: 'Markdown',
+  extension: 'md',
+  async render(data) {
+    return renderReportMarkdown(data);
+  },
+};
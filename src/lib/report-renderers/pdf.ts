@@ -0,0 +1,191 @@
+import { renderReportMarkdown } from './markdown';
+import { ReportRenderer } from './types';
+
+/**
+ * Printable PDF written locally without a browser or PDF library: the
+ * Markdown report laid out as text with the built-in Helvetica fonts on A4
+ * pages. Characters outside Windows-1252 (emoji, CJK) are printed as '?'.
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const LINE_SPACING = 1.4;
+// Average Helvetica glyph width as a share of the font size, for wrapping
+const CHAR_WIDTH = { regular: 0.5, bold: 0.55 };
+
+type FontStyle = 'regular' | 'bold';
+
+interface TextLine {
+  text: string;
+  size: number;
+  font: FontStyle;
+  indent: number;
+  spaceBefore: number;
+}
+
+interface PlacedLine extends TextLine {
+  y: number;
+}
+
+const WIN_ANSI: Record<string, string> = {
+  '•': '\x95',
+  '–': '\x96',
+  '—': '\x97',
+  '‘': '\x91',
+  '’': '\x92',
+  '“': '\x93',
+  '”': '\x94',
+  '…': '\x85',
+  '€': '\x80',
+  '→': '->',
+  '±': '\xb1',
+};
+
+// Joiners and variation selectors belong to the character before them
+const INVISIBLE = /\u200d|\ufe0e|\ufe0f/g;
+const UNSUPPORTED_CHAR = '?';
+
+export function toWinAnsi(text: string): string {
+  return Array.from(text.replace(INVISIBLE, ''))
+    .map(char => WIN_ANSI[char] ?? (char.charCodeAt(0) <= 0xff ? char : UNSUPPORTED_CHAR))
+    .join('')
+    .replace(/ {2,}/g, ' ')
+    .trim();
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function wrap(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Map Markdown lines to styled text lines
+ */
+function layoutMarkdown(markdown: string): TextLine[] {
+  const lines: TextLine[] = [];
+  const contentWidth = PAGE_WIDTH - 2 * MARGIN;
+  let pendingSpace = 0;
+
+  for (const raw of markdown.split('\n')) {
+    if (!raw.trim() || raw.trim() === '---') {
+      pendingSpace = 6;
+      continue;
+    }
+
+    let text = raw.replace(/\*\*|`/g, '');
+    let size = 11;
+    let font: FontStyle = 'regular';
+    let indent = 0;
+    let bullet = false;
+
+    const heading = text.match(/^(#{1,3}) (.*)$/);
+    if (heading) {
+      size = [20, 15, 12][heading[1].length - 1];
+      font = 'bold';
+      text = heading[2];
+      pendingSpace = heading[1].length === 1 ? 0 : 12;
+    } else if (text.startsWith('- ')) {
+      bullet = true;
+      indent = 14;
+      text = text.slice(2);
+    }
+
+    const maxChars = Math.floor((contentWidth - indent) / (size * CHAR_WIDTH[font]));
+    wrap(toWinAnsi(text), maxChars).forEach((part, i) => {
+      lines.push({
+        text: bullet && i === 0 ? `\x95 ${part}` : part,
+        size,
+        font,
+        indent: bullet && i > 0 ? indent + 8 : indent,
+        spaceBefore: i === 0 ? pendingSpace : 0,
+      });
+    });
+    pendingSpace = 0;
+  }
+
+  return lines;
+}
+
+function paginate(lines: TextLine[]): PlacedLine[][] {
+  const pages: PlacedLine[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const height = line.size * LINE_SPACING;
+    let top = y - line.spaceBefore;
+    if (top - height < MARGIN) {
+      pages.push([]);
+      top = PAGE_HEIGHT - MARGIN;
+    }
+    y = top - height;
+    pages[pages.length - 1].push({ ...line, y: y + (height - line.size) / 2 });
+  }
+
+  return pages;
+}
+
+/**
+ * Assemble the PDF objects with a cross-reference table. The file is all
+ * Latin-1 text (uncompressed content streams), so output is reproducible.
+ */
+export function buildPdf(markdown: string): Buffer {
+  const pages = paginate(layoutMarkdown(markdown));
+  const objects: string[] = [];
+  const add = (body: string): number => objects.push(body);
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(''); // Pages, filled in once the page objects exist
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const pageIds: number[] = [];
+  for (const page of pages) {
+    const stream = page
+      .map(line => `BT /${line.font === 'bold' ? 'F2' : 'F1'} ${line.size} Tf 1 0 0 1 ${MARGIN + line.indent} ${line.y.toFixed(2)} Tm (${escapePdfString(line.text)}) Tj ET`)
+      .join('\n');
+    const contentId = add(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+    pageIds.push(add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+    ));
+  }
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+export const pdfRenderer: ReportRenderer = {
+  format: 'pdf',
+  displayName: 'PDF',
+  extension: 'pdf',
+  async render(data) {
+    return buildPdf(renderReportMarkdown(data));
+  },
+};
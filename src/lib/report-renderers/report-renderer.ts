@@ -0,0 +1,23 @@
+import { DevArkError } from '../../utils/errors';
+import { htmlRenderer } from './html';
+import { markdownRenderer } from './markdown';
+import { jsonRenderer } from './json';
+import { pdfRenderer } from './pdf';
+import { ReportFormat, ReportRenderer } from './types';
+
+export const REPORT_FORMATS: ReportFormat[] = ['html', 'markdown', 'json', 'pdf'];
+
+const RENDERERS: Record<ReportFormat, ReportRenderer> = {
+  html: htmlRenderer,
+  markdown: markdownRenderer,
+  json: jsonRenderer,
+  pdf: pdfRenderer,
+};
+
+export function getReportRenderer(format: ReportFormat): ReportRenderer {
+  const renderer = RENDERERS[format];
+  if (!renderer) {
+    throw new DevArkError(`Unknown report format "${format}". Use: ${REPORT_FORMATS.join(', ')}`, 'INVALID_INPUT');
+  }
+  return renderer;
+}
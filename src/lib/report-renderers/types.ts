@@ -0,0 +1,14 @@
+import type { ReportData } from '../../types/report-data';
+
+export type ReportFormat = 'html' | 'markdown' | 'json' | 'pdf';
+
+/**
+ * Turns the report data Claude produced into one output format. Every
+ * renderer reads the same ReportData, so all formats carry the same numbers.
+ */
+export interface ReportRenderer {
+  format: ReportFormat;
+  displayName: string;
+  extension: string;    // Without the dot
+  render(data: ReportData): Promise<string | Buffer>;
+}
@@ -1,6 +1,53 @@
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import type { ReportData } from '../types/report-data';
+import type { RetroData, RetroDelta, RetroMetrics } from '../types/retro-data';
+import { formatTokenCount } from './token-usage';
+
+export const REPORT_TEMPLATE = 'report-template.html';
+export const RETRO_TEMPLATE = 'retro-template.html';
+
+const SPARKLINE_WIDTH = 200;
+const SPARKLINE_HEIGHT = 32;
+
+/**
+ * Commit subjects and project names come straight from git, not from Claude
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Inline SVG line chart of daily values; days without a value are skipped
+ */
+function sparklineSvg(values: Array<number | null>): string {
+  const max = Math.max(0, ...values.map(value => value || 0));
+  const step = values.length > 1 ? SPARKLINE_WIDTH / (values.length - 1) : 0;
+  const points = values
+    .map((value, i) => value === null
+      ? null
+      : `${(i * step).toFixed(1)},${(SPARKLINE_HEIGHT - 2 - (max > 0 ? value / max : 0) * (SPARKLINE_HEIGHT - 4)).toFixed(1)}`)
+    .filter(Boolean)
+    .join(' ');
+  return `<svg class="sparkline" width="${SPARKLINE_WIDTH}" height="${SPARKLINE_HEIGHT}" viewBox="0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}" xmlns="http://www.w3.org/2000/svg"><polyline fill="none" stroke="#8b5cf6" stroke-width="2" points="${points}"/></svg>`;
+}
+
+function retroDailyValues(metrics: RetroMetrics, metric: RetroDelta['metric']): Array<number | null> | null {
+  switch (metric) {
+    case 'sessions':
+      return metrics.daily.map(day => day.sessions);
+    case 'activeHours':
+      return metrics.daily.map(day => day.activeHours);
+    case 'promptScore':
+      return metrics.daily.map(day => day.promptScore);
+    default:
+      return null;
+  }
+}
 
 export class ReportTemplateEngine {
   private template: string = '';
@@ -28,21 +75,21 @@ export class ReportTemplateEngine {
     'default': '#6b7280'
   };
 
-  async loadTemplate(): Promise<void> {
+  async loadTemplate(templateName: string = REPORT_TEMPLATE): Promise<void> {
     // Look for template in multiple locations to support both development and NPX usage
     const possiblePaths = [
       // NPX package - template is directly in dist/ (tsup bundles everything to dist/index.js)
-      join(__dirname, 'report-template.html'),
+      join(__dirname, templateName),
       // NPX package - alternative location
-      join(__dirname, '..', 'report-template.html'),
+      join(__dirname, '..', templateName),
       // NPX package - old location for compatibility
-      join(__dirname, '..', 'templates', 'report-template.html'),
+      join(__dirname, '..', 'templates', templateName),
       // Development - template is in src/templates
-      join(process.cwd(), 'src', 'templates', 'report-template.html'),
-      join(process.cwd(), 'devark-cli', 'src', 'templates', 'report-template.html'),
+      join(process.cwd(), 'src', 'templates', templateName),
+      join(process.cwd(), 'devark-cli', 'src', 'templates', templateName),
       // Fallback paths
-      join(__dirname, '..', '..', 'src', 'templates', 'report-template.html'),
-      join(__dirname, '..', '..', 'dist', 'report-template.html'),
+      join(__dirname, '..', '..', 'src', 'templates', templateName),
+      join(__dirname, '..', '..', 'dist', templateName),
     ];
     
     // Debug logging
@@ -82,18 +129,18 @@ export class ReportTemplateEngine {
     let html = this.template;
 
     // Replace all metadata fields
-    html = html.replace(/{{metadata\.dateRange}}/g, data.metadata.dateRange);
+    html = html.replace(/{{metadata\.dateRange}}/g, () => data.metadata.dateRange);
     html = html.replace(/{{metadata\.totalSessions}}/g, data.metadata.totalSessions.toString());
-    html = html.replace(/{{metadata\.dataProcessed}}/g, data.metadata.dataProcessed);
-    html = html.replace(/{{metadata\.activeDevelopment}}/g, data.metadata.activeDevelopment);
+    html = html.replace(/{{metadata\.dataProcessed}}/g, () => data.metadata.dataProcessed);
+    html = html.replace(/{{metadata\.activeDevelopment}}/g, () => data.metadata.activeDevelopment);
     html = html.replace(/{{metadata\.projects}}/g, data.metadata.projects.toString());
-    html = html.replace(/{{metadata\.generatedAt}}/g, data.metadata.generatedAt);
+    html = html.replace(/{{metadata\.generatedAt}}/g, () => data.metadata.generatedAt);
 
     // Generate executive summary list
     const executiveSummaryHtml = data.executiveSummary
       .map((item: string) => `                <li>${item}</li>`)
       .join('\n');
-    html = html.replace('{{executiveSummary}}', executiveSummaryHtml);
+    html = html.replace('{{executiveSummary}}', () => executiveSummaryHtml);
 
     // Generate activity distribution bars with proper styling
     const activityBarsHtml = Object.entries(data.activityDistribution)
@@ -113,13 +160,13 @@ export class ReportTemplateEngine {
                 </div>`;
       })
       .join('\n');
-    html = html.replace('{{activityBars}}', activityBarsHtml);
+    html = html.replace('{{activityBars}}', () => activityBarsHtml);
 
     // Generate key accomplishments list
     const keyAccomplishmentsHtml = data.keyAccomplishments
       .map((item: string) => `                <li>${item}</li>`)
       .join('\n');
-    html = html.replace('{{keyAccomplishments}}', keyAccomplishmentsHtml);
+    html = html.replace('{{keyAccomplishments}}', () => keyAccomplishmentsHtml);
 
     // Generate project breakdown cards with improved structure
     const projectCardsHtml = data.projectBreakdown && data.projectBreakdown.length > 0
@@ -134,7 +181,7 @@ export class ReportTemplateEngine {
                 </div>`)
           .join('\n')
       : '';
-    html = html.replace('{{projectCards}}', projectCardsHtml);
+    html = html.replace('{{projectCards}}', () => projectCardsHtml);
 
     // Replace prompt quality analysis with all fields
     if (data.promptQuality) {
@@ -151,12 +198,73 @@ export class ReportTemplateEngine {
       html = html.replace(/{{promptQuality\.breakdown\.fair}}/g, '0');
       html = html.replace(/{{promptQuality\.breakdown\.poor}}/g, '0');
     }
-    html = html.replace(/{{promptQuality\.methodology}}/g, data.promptQuality?.methodology || '');
-    html = html.replace(/{{promptQuality\.insights}}/g, data.promptQuality?.insights || '');
+    html = html.replace(/{{promptQuality\.methodology}}/g, () => data.promptQuality?.methodology || '');
+    html = html.replace(/{{promptQuality\.insights}}/g, () => data.promptQuality?.insights || '');
+
+    // Sessions per tool (only when more than one tool was used)
+    const sessionSourcesHtml = data.sessionSources
+      ? `        <section class="section fade-in">
+            <h2>🧰 Tools</h2>
+            <div class="project-grid">
+${data.sessionSources
+  .map(source => `                <div class="project-card">
+                    <div class="project-header">
+                        <span class="project-name">${escapeHtml(source.name)}</span>
+                        <span class="session-count">${source.sessions} session${source.sessions === 1 ? '' : 's'}</span>
+                    </div>
+                    <div class="project-stats">${source.activeDevelopment}</div>
+                </div>`)
+  .join('\n')}
+            </div>
+        </section>`
+      : '';
+    html = html.replace('{{sessionSources}}', () => sessionSourcesHtml);
+
+    // Token usage section (only when usage was calculated from the transcripts)
+    const tokenUsageHtml = data.tokenUsage
+      ? `        <section class="section fade-in">
+            <h2>💰 Token Usage</h2>
+            <p>${formatTokenCount(data.tokenUsage.inputTokens)} input • ${formatTokenCount(data.tokenUsage.outputTokens)} output • ${formatTokenCount(data.tokenUsage.cacheReadTokens)} cache read • ${formatTokenCount(data.tokenUsage.cacheWriteTokens)} cache write across ${data.tokenUsage.sessions} sessions - estimated $${data.tokenUsage.estimatedCost.toFixed(2)}</p>
+            <div class="project-grid">
+${data.tokenUsage.byModel
+  .map(model => `                <div class="project-card">
+                    <div class="project-header">
+                        <span class="project-name">${model.model}</span>
+                        <span class="session-count">${model.sessions} sessions</span>
+                    </div>
+                    <div class="project-stats">${formatTokenCount(model.totalTokens)} tokens</div>
+                    <p class="project-focus">Estimated $${model.estimatedCost.toFixed(2)}</p>
+                </div>`)
+  .join('\n')}
+            </div>
+        </section>`
+      : '';
+    html = html.replace('{{tokenUsage}}', () => tokenUsageHtml);
+
+    // Git activity section (only when commits were found in the local repositories)
+    const gitActivityHtml = data.gitActivity
+      ? `        <section class="section fade-in">
+            <h2>🔀 Git Activity</h2>
+            <p>${data.gitActivity.commits} commits • ${data.gitActivity.filesChanged} files changed • +${data.gitActivity.insertions} / -${data.gitActivity.deletions} lines</p>
+            <div class="project-grid">
+${data.gitActivity.byProject
+  .map(project => `                <div class="project-card">
+                    <div class="project-header">
+                        <span class="project-name">${escapeHtml(project.project)}</span>
+                        <span class="session-count">${project.commits} commits</span>
+                    </div>
+                    <div class="project-stats">+${project.insertions} / -${project.deletions} lines${project.hasUpstream ? '' : ' • not pushed'}${project.pullRequests.length > 0 ? ` • PR ${project.pullRequests.map(pr => `#${pr}`).join(', ')}` : ''}</div>
+                    <p class="project-focus">${project.recentCommits.map(commit => `${commit.hash.slice(0, 7)} ${escapeHtml(commit.subject)}`).join('<br>')}</p>
+                </div>`)
+  .join('\n')}
+            </div>
+        </section>`
+      : '';
+    html = html.replace('{{gitActivity}}', () => gitActivityHtml);
 
     // Replace report generation stats
-    html = html.replace(/{{reportGeneration\.duration}}/g, data.reportGeneration.duration);
-    html = html.replace(/{{reportGeneration\.apiTime}}/g, data.reportGeneration.apiTime);
+    html = html.replace(/{{reportGeneration\.duration}}/g, () => data.reportGeneration.duration);
+    html = html.replace(/{{reportGeneration\.apiTime}}/g, () => data.reportGeneration.apiTime);
     html = html.replace(/{{reportGeneration\.turns}}/g, data.reportGeneration.turns.toString());
     html = html.replace(/{{reportGeneration\.estimatedCost}}/g, data.reportGeneration.estimatedCost.toFixed(2));
 
@@ -167,4 +275,80 @@ export class ReportTemplateEngine {
 
     return html;
   }
-}
\ No newline at end of file
+
+  /**
+   * Render a retrospective; needs the retro template (loadTemplate(RETRO_TEMPLATE))
+   */
+  generateRetroReport(data: RetroData): string {
+    if (!this.template) {
+      throw new Error('Template not loaded. Call loadTemplate() first.');
+    }
+
+    const current = data.current.metrics;
+    const previous = data.previous.metrics;
+    const lastPeriod = data.period === 'week' ? 'last week' : 'last month';
+    const title = `${data.period === 'week' ? 'Weekly' : 'Monthly'} Retro${data.project ? ` - ${escapeHtml(data.project)}` : ''}`;
+
+    const kpiCardsHtml = data.deltas
+      .map(item => {
+        const deltaClass = item.change > 0 ? 'delta-up' : item.change < 0 ? 'delta-down' : 'delta-flat';
+        const sign = item.change > 0 ? '+' : '';
+        const percent = item.percent === null ? '' : ` (${sign}${item.percent}%)`;
+        const values = retroDailyValues(current, item.metric);
+        return `                <div class="kpi-card">
+                    <div class="kpi-label">${item.label}</div>
+                    <div class="kpi-value">${item.current} <span class="${deltaClass}">${item.change === 0 ? '±0' : `${sign}${item.change}${percent}`}</span></div>
+                    <div class="kpi-previous">${item.previous} ${lastPeriod}</div>${values ? `\n                    ${sparklineSvg(values)}` : ''}
+                </div>`;
+      })
+      .join('\n');
+
+    const table = (headers: string[], rows: string[][]): string => rows.length === 0
+      ? '            <p class="muted">Nothing recorded in this period</p>'
+      : `            <table>
+                <tr>${headers.map((header, i) => `<th${i > 0 ? ' class="number"' : ''}>${header}</th>`).join('')}</tr>
+${rows.map(row => `                <tr>${row.map((cell, i) => `<td${i > 0 ? ' class="number"' : ''}>${cell}</td>`).join('')}</tr>`).join('\n')}
+            </table>`;
+
+    const projectsHtml = table(
+      ['Project', 'Sessions', 'Active hours'],
+      current.topProjects.map(item => [escapeHtml(item.name), String(item.sessions), String(item.activeHours)])
+    );
+    const languagesHtml = table(
+      ['Language', 'Sessions', `Sessions ${lastPeriod}`],
+      current.languages.map(item => [
+        escapeHtml(item.name),
+        String(item.sessions),
+        String(previous.languages.find(language => language.name === item.name)?.sessions || 0),
+      ])
+    );
+    const modelsHtml = table(
+      ['Model', 'Share of messages', `Share ${lastPeriod}`],
+      current.models.map(item => [
+        escapeHtml(item.model),
+        `${item.share}%`,
+        `${previous.models.find(model => model.model === item.model)?.share || 0}%`,
+      ])
+    );
+
+    const promptText = current.promptScore
+      ? `Average prompt score ${current.promptScore.average}/100 over ${current.promptScore.prompts} prompts` +
+        (previous.promptScore ? ` (${previous.promptScore.average}/100 ${lastPeriod})` : '')
+      : 'No analyzed prompts in this period';
+    const planningHtml = `            <p>${current.planningSessions} of ${current.sessions} sessions used planning mode (${current.planningCycles} plans), ${previous.planningSessions} of ${previous.sessions} ${lastPeriod}</p>
+            <p>${promptText}</p>`;
+
+    let html = this.template;
+    html = html.replace(/{{retro\.title}}/g, () => title);
+    html = html.replace(/{{retro\.currentLabel}}/g, () => data.current.label);
+    html = html.replace(/{{retro\.previousLabel}}/g, () => data.previous.label);
+    html = html.replace(/{{retro\.generatedAt}}/g, () => data.generatedAt);
+    html = html.replace('{{retro.kpiCards}}', () => kpiCardsHtml);
+    html = html.replace('{{retro.projects}}', () => projectsHtml);
+    html = html.replace('{{retro.languages}}', () => languagesHtml);
+    html = html.replace('{{retro.models}}', () => modelsHtml);
+    html = html.replace('{{retro.planning}}', () => planningHtml);
+
+    return html;
+  }
+}
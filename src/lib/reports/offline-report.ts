@@ -0,0 +1,397 @@
+import { SessionData, SessionTool } from '../readers/types';
+import { readUsageSessions, summarizeTokenUsage, totalTokens } from '../token-usage';
+import { enrichSessionsWithGit, summarizeGitActivity, ProjectGitActivity } from '../git-enrichment';
+import { readPromptHistory, PromptHistoryEntry } from '../prompt-history';
+import { getSessionSource } from '../readers/session-sources';
+import { parseProjectName } from '../ui/project-display';
+import { logger } from '../../utils/logger';
+import type { ReportData } from '../../types/report-data';
+
+/**
+ * Local report built from the parsed sessions only - no Claude CLI, no
+ * sub-agents. Every number comes from the session files, the git history of
+ * the projects and the saved prompt analyses, so the same input always gives
+ * the same report. The LLM flow can still narrate on top of it (see
+ * overlayNarration).
+ */
+
+export interface OfflineReportInput {
+  sessions: SessionData[];              // Enriched with git when commits should be listed
+  prompts: PromptHistoryEntry[];        // Saved prompt analyses of the same period
+  since: Date;
+  now: Date;
+}
+
+export interface OfflineReportOptions {
+  days: number;
+  projectPaths?: string[];              // Selected projects, all projects when omitted
+  project?: string;                     // Project name filter (e.g. --project)
+  since?: Date;                         // Start of the period, `days` before now by default
+  now?: Date;
+}
+
+const REPORT_COMMITS_PER_PROJECT = 5;
+const KEY_ACCOMPLISHMENTS_LIMIT = 6;
+const PROJECT_LANGUAGES_LIMIT = 3;
+const TOP_MISSING_LIMIT = 3;
+
+/**
+ * Activity buckets for Claude Code tools; anything else (MCP tools, ...) is
+ * counted as "Other Tools"
+ */
+const TOOL_ACTIVITIES: Record<string, string> = {
+  Edit: 'Coding',
+  MultiEdit: 'Coding',
+  Write: 'Coding',
+  NotebookEdit: 'Coding',
+  Read: 'Research',
+  Grep: 'Research',
+  Glob: 'Research',
+  LS: 'Research',
+  NotebookRead: 'Research',
+  WebFetch: 'Research',
+  WebSearch: 'Research',
+  Bash: 'Commands',
+  BashOutput: 'Commands',
+  KillShell: 'Commands',
+  KillBash: 'Commands',
+  ExitPlanMode: 'Planning',
+  TodoWrite: 'Planning',
+  Task: 'Delegation',
+  Agent: 'Delegation',
+};
+
+export function classifyToolUse(toolName: string): string {
+  return TOOL_ACTIVITIES[toolName] || 'Other Tools';
+}
+
+/**
+ * Whole percentages that add up to 100 (largest remainder)
+ */
+export function toPercentages(counts: Map<string, number>): Record<string, number> {
+  const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  if (total === 0) return {};
+
+  const shares = Array.from(counts.entries())
+    .map(([key, count]) => ({ key, exact: (count / total) * 100 }))
+    .map(share => ({ ...share, value: Math.floor(share.exact) }));
+  let remaining = 100 - shares.reduce((sum, share) => sum + share.value, 0);
+  [...shares]
+    .sort((a, b) => (b.exact - b.value) - (a.exact - a.value) || a.key.localeCompare(b.key))
+    .forEach(share => {
+      if (remaining > 0) {
+        share.value++;
+        remaining--;
+      }
+    });
+
+  const result: Record<string, number> = {};
+  shares
+    .sort((a, b) => b.value - a.value || a.key.localeCompare(b.key))
+    .forEach(share => { result[share.key] = share.value; });
+  return result;
+}
+
+function round(value: number, decimals = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function formatHours(seconds: number): string {
+  const hours = round(seconds / 3600);
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+}
+
+/**
+ * 2700 -> "45 min", 9000 -> "2.5 hours"
+ */
+function formatSessionLength(seconds: number): string {
+  return seconds < 3600 ? `${Math.round(seconds / 60)} min` : formatHours(seconds);
+}
+
+function formatDay(date: Date, withYear: boolean): string {
+  return date.toLocaleDateString('en-US', withYear
+    ? { month: 'short', day: 'numeric', year: 'numeric' }
+    : { month: 'short', day: 'numeric' });
+}
+
+function plural(count: number, word: string): string {
+  return `${count.toLocaleString('en-US')} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function countActivities(sessions: SessionData[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const session of sessions) {
+    for (const [tool, uses] of Object.entries(session.toolUsage || {})) {
+      const activity = classifyToolUse(tool);
+      counts.set(activity, (counts.get(activity) || 0) + uses);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Token usage and cost of the sessions, calculated locally so the report
+ * shows real numbers instead of asking Claude to estimate them
+ */
+export function getReportTokenUsage(sessions: SessionData[]): ReportData['tokenUsage'] {
+  const summary = summarizeTokenUsage(sessions, 'model');
+  if (summary.total.sessions === 0) return undefined;
+
+  return {
+    sessions: summary.total.sessions,
+    ...summary.total.usage,
+    estimatedCost: summary.total.cost,
+    byModel: summary.rows.map(row => ({
+      model: row.key,
+      sessions: row.sessions,
+      totalTokens: totalTokens(row.usage),
+      estimatedCost: row.cost,
+    })),
+  };
+}
+
+/**
+ * Sessions and hours per tool, so work done in Cursor shows up next to
+ * Claude Code. Undefined when all sessions come from one tool.
+ */
+export function getReportSessionSources(sessions: SessionData[]): ReportData['sessionSources'] {
+  const byTool = new Map<SessionTool, SessionData[]>();
+  for (const session of sessions) {
+    byTool.set(session.tool, [...(byTool.get(session.tool) || []), session]);
+  }
+  if (byTool.size < 2) return undefined;
+
+  return Array.from(byTool.entries())
+    .map(([tool, toolSessions]) => ({
+      tool,
+      name: getSessionSource(tool)?.displayName || tool,
+      sessions: toolSessions.length,
+      seconds: toolSessions.reduce((sum, session) => sum + session.duration, 0),
+    }))
+    .sort((a, b) => b.seconds - a.seconds || a.name.localeCompare(b.name))
+    .map(({ seconds, ...source }) => ({ ...source, activeDevelopment: formatHours(seconds) }));
+}
+
+/**
+ * Commits made during the sessions, so accomplishments can be tied to real
+ * commits instead of guessed from file paths
+ */
+export function getReportGitActivity(activity: ProjectGitActivity[]): ReportData['gitActivity'] {
+  if (activity.length === 0) return undefined;
+
+  return {
+    commits: activity.reduce((sum, project) => sum + project.commits.length, 0),
+    filesChanged: activity.reduce((sum, project) => sum + project.filesChanged, 0),
+    insertions: activity.reduce((sum, project) => sum + project.insertions, 0),
+    deletions: activity.reduce((sum, project) => sum + project.deletions, 0),
+    byProject: activity.map(project => ({
+      project: project.project,
+      commits: project.commits.length,
+      insertions: project.insertions,
+      deletions: project.deletions,
+      hasUpstream: project.hasUpstream,
+      pullRequests: project.pullRequests,
+      recentCommits: project.commits.slice(0, REPORT_COMMITS_PER_PROJECT).map(commit => ({
+        hash: commit.hash,
+        subject: commit.subject,
+      })),
+    })),
+  };
+}
+
+function buildPromptQuality(prompts: PromptHistoryEntry[]): ReportData['promptQuality'] {
+  if (prompts.length === 0) {
+    return {
+      methodology: 'No prompt analyses were saved in this period',
+      breakdown: { excellent: 0, good: 0, fair: 0, poor: 0 },
+      insights: 'Install the status line from the DevArk menu to score your prompts',
+      averageScore: 0,
+    };
+  }
+
+  const qualities = new Map<string, number>([['excellent', 0], ['good', 0], ['fair', 0], ['poor', 0]]);
+  prompts.forEach(entry => qualities.set(entry.quality, (qualities.get(entry.quality) || 0) + 1));
+  const percentages = toPercentages(qualities);
+
+  const missing = new Map<string, number>();
+  prompts.forEach(entry => entry.missing.forEach(item => missing.set(item, (missing.get(item) || 0) + 1)));
+  const topMissing = Array.from(missing.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_MISSING_LIMIT);
+
+  return {
+    methodology: `Average of ${prompts.length} prompt ${prompts.length === 1 ? 'analysis' : 'analyses'} saved by DevArk in this period`,
+    breakdown: {
+      excellent: percentages.excellent || 0,
+      good: percentages.good || 0,
+      fair: percentages.fair || 0,
+      poor: percentages.poor || 0,
+    },
+    insights: topMissing.length > 0
+      ? `Most often missing: ${topMissing.map(([item, count]) => `${item} (${count})`).join(', ')}`
+      : 'No missing items were reported',
+    averageScore: Math.round(prompts.reduce((sum, entry) => sum + entry.score, 0) / prompts.length),
+  };
+}
+
+/**
+ * Build the report from sessions and saved analyses. Pure - the same input
+ * gives the same report.
+ */
+export function buildOfflineReport(input: OfflineReportInput): ReportData {
+  const sessions = [...input.sessions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const totalSeconds = sessions.reduce((sum, session) => sum + session.duration, 0);
+  const messages = sessions.reduce((sum, session) => sum + (session.messageCount ?? session.messages.length), 0);
+
+  const byProject = new Map<string, SessionData[]>();
+  for (const session of sessions) {
+    const name = parseProjectName(session.projectPath);
+    byProject.set(name, [...(byProject.get(name) || []), session]);
+  }
+
+  const projectBreakdown = Array.from(byProject.entries())
+    .map(([name, projectSessions]) => {
+      const seconds = projectSessions.reduce((sum, session) => sum + session.duration, 0);
+      const longest = Math.max(...projectSessions.map(session => session.duration));
+      const languages = new Map<string, number>();
+      projectSessions.forEach(session => (session.metadata?.languages || [])
+        .forEach(language => languages.set(language, (languages.get(language) || 0) + 1)));
+      const filesEdited = projectSessions.reduce((sum, session) => sum + (session.metadata?.files_edited || 0), 0);
+      const topActivity = Object.keys(toPercentages(countActivities(projectSessions)))[0];
+
+      const focus = [
+        Array.from(languages.entries())
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+          .slice(0, PROJECT_LANGUAGES_LIMIT)
+          .map(([language]) => language)
+          .join(', '),
+        filesEdited > 0 ? `${plural(filesEdited, 'file')} edited` : null,
+        topActivity ? `mostly ${topActivity}` : null,
+      ].filter(Boolean).join(' • ');
+
+      return { name, seconds, entry: {
+        name,
+        sessions: projectSessions.length,
+        largestSession: formatSessionLength(longest),
+        focus: focus || `${formatHours(seconds)} of sessions`,
+      } };
+    })
+    .sort((a, b) => b.seconds - a.seconds || a.name.localeCompare(b.name));
+
+  const gitActivity = getReportGitActivity(summarizeGitActivity(sessions));
+  const planningSessions = sessions.filter(session => session.planningModeInfo?.hasPlanningMode).length;
+
+  const executiveSummary = [
+    `${plural(sessions.length, 'session')} across ${plural(byProject.size, 'project')} with ${formatHours(totalSeconds)} of active development`,
+  ];
+  if (projectBreakdown.length > 0 && totalSeconds > 0) {
+    const top = projectBreakdown[0];
+    executiveSummary.push(`Most time went to ${top.name} (${Math.round((top.seconds / totalSeconds) * 100)}% of active hours)`);
+  }
+  if (gitActivity) {
+    executiveSummary.push(
+      `${plural(gitActivity.commits, 'commit')} with +${gitActivity.insertions} / -${gitActivity.deletions} lines in ${plural(gitActivity.filesChanged, 'file')}`
+    );
+  }
+  if (planningSessions > 0) {
+    executiveSummary.push(`Planning mode was used in ${plural(planningSessions, 'session')}`);
+  }
+
+  // Commit subjects are the best record of what got done; without git,
+  // fall back to the focus of the busiest projects
+  const keyAccomplishments = gitActivity
+    ? gitActivity.byProject
+        .flatMap(project => project.recentCommits.map(commit => `${project.project}: ${commit.subject}`))
+        .slice(0, KEY_ACCOMPLISHMENTS_LIMIT)
+    : projectBreakdown
+        .slice(0, KEY_ACCOMPLISHMENTS_LIMIT)
+        .map(project => `${project.name}: ${project.entry.focus}`);
+
+  return {
+    metadata: {
+      totalSessions: sessions.length,
+      dataProcessed: plural(messages, 'message'),
+      activeDevelopment: formatHours(totalSeconds),
+      projects: byProject.size,
+      generatedAt: input.now.toISOString(),
+      dateRange: `${formatDay(input.since, input.since.getFullYear() !== input.now.getFullYear())} - ${formatDay(input.now, true)}`,
+    },
+    executiveSummary,
+    activityDistribution: toPercentages(countActivities(sessions)),
+    keyAccomplishments,
+    promptQuality: buildPromptQuality(input.prompts),
+    projectBreakdown: projectBreakdown.map(project => project.entry),
+    sessionSources: getReportSessionSources(sessions),
+    tokenUsage: getReportTokenUsage(sessions),
+    gitActivity,
+    reportGeneration: {
+      duration: '0s',
+      apiTime: '0s',
+      turns: 0,
+      estimatedCost: 0,
+      sessionId: 'offline',
+    },
+  };
+}
+
+/**
+ * Read the sessions of the period with their commits and the prompt
+ * analyses saved for them
+ */
+export async function collectOfflineReportInput(options: OfflineReportOptions): Promise<OfflineReportInput> {
+  const now = options.now || new Date();
+  const since = options.since ? new Date(options.since) : new Date(now);
+  if (!options.since) since.setDate(since.getDate() - options.days);
+
+  let sessions: SessionData[] = [];
+  try {
+    sessions = await readUsageSessions({ since, projectPaths: options.projectPaths, project: options.project });
+  } catch (error) {
+    logger.debug('Failed to read sessions for the report:', error);
+  }
+  sessions = await enrichSessionsWithGit(sessions);
+
+  const sessionIds = new Set(sessions.map(session => session.id));
+  const projectNames = new Set(sessions.map(session => parseProjectName(session.projectPath).toLowerCase()));
+  const prompts = (await readPromptHistory({ since })).filter(entry =>
+    (entry.sessionId !== undefined && sessionIds.has(entry.sessionId)) ||
+    (entry.project !== undefined && projectNames.has(entry.project.toLowerCase()))
+  );
+
+  return { sessions, prompts, since, now };
+}
+
+export async function generateOfflineReport(options: OfflineReportOptions): Promise<ReportData> {
+  return buildOfflineReport(await collectOfflineReportInput(options));
+}
+
+/**
+ * Put the narration of the LLM flow (summary, accomplishments, project focus,
+ * prompt insights) over the offline report. Numbers stay from the offline
+ * report; prompt scores come from Claude only when none were saved locally.
+ * Without local sessions (e.g. the files are gone) Claude's report is kept.
+ */
+export function overlayNarration(base: ReportData, narrated: Partial<ReportData>): ReportData {
+  if (base.metadata.totalSessions === 0) {
+    return { ...base, ...narrated };
+  }
+
+  const nonEmpty = (items?: string[]) => (items && items.length > 0 ? items : undefined);
+  const narratedProjects = new Map((narrated.projectBreakdown || []).map(project => [project.name.toLowerCase(), project]));
+  const hasLocalScores = base.promptQuality.averageScore > 0;
+
+  return {
+    ...base,
+    executiveSummary: nonEmpty(narrated.executiveSummary) || base.executiveSummary,
+    keyAccomplishments: nonEmpty(narrated.keyAccomplishments) || base.keyAccomplishments,
+    projectBreakdown: base.projectBreakdown.map(project => ({
+      ...project,
+      focus: narratedProjects.get(project.name.toLowerCase())?.focus || project.focus,
+    })),
+    promptQuality: hasLocalScores || !narrated.promptQuality
+      ? { ...base.promptQuality, insights: narrated.promptQuality?.insights || base.promptQuality.insights }
+      : narrated.promptQuality,
+    reportGeneration: narrated.reportGeneration || base.reportGeneration,
+  };
+}
@@ -0,0 +1,275 @@
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { homedir } from 'os';
+import { SUB_AGENT_TEMPLATES } from '../sub-agents/templates';
+import { ReportFormat } from '../report-renderers/types';
+import { logger } from '../../utils/logger';
+import type { ReportData } from '../../types/report-data';
+
+/**
+ * Cache and checkpoint for Claude report runs.
+ *
+ * Each session analysis returned by a batch analyzer is stored in
+ * ~/.devark/report-cache/analyses, keyed by the session file hash and the
+ * analyzer version, so reruns only send new or changed sessions to the
+ * sub-agents. The run itself is checkpointed in
+ * ~/.devark/report-cache/checkpoint.json after every completed phase, so an
+ * interrupted run can be resumed with `devark report --resume`.
+ */
+
+/**
+ * Bump whenever the batch analyzer instructions in prompts/orchestrator.ts
+ * change, so cached analyses in the old format are not reused. Changes to the
+ * installed analyzer template are picked up through its hash.
+ */
+export const SESSION_ANALYSIS_PROMPT_VERSION = 1;
+
+const CHECKPOINT_VERSION = 1;
+const ANALYSIS_MAX_AGE_DAYS = 90;
+
+// prepared: sessions copied for Claude, analyzed: every session has an
+// analysis, reported: report data captured but not saved yet
+export type ReportPhase = 'prepared' | 'analyzed' | 'reported';
+
+export interface ReportPlan {
+  timeframe: string;
+  days: number;
+  since: string;                        // ISO start of the analyzed period
+  projects: Array<{ id: string; name: string; path: string }>;
+  formats: ReportFormat[];
+}
+
+export interface ReportCheckpoint extends ReportPlan {
+  version: number;
+  phase: ReportPhase;
+  startedAt: string;
+  updatedAt: string;
+  reportData?: ReportData;
+}
+
+/**
+ * One entry of a batch analyzer result; the other fields are passed through
+ * to the report generator as they are
+ */
+export interface SessionAnalysis {
+  session_file: string;
+  [field: string]: unknown;
+}
+
+export function getReportCacheDir(): string {
+  return path.join(homedir(), '.devark', 'report-cache');
+}
+
+function getAnalysesDir(): string {
+  return path.join(getReportCacheDir(), 'analyses');
+}
+
+function getCheckpointPath(): string {
+  return path.join(getReportCacheDir(), 'checkpoint.json');
+}
+
+async function writeAtomic(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, content, 'utf-8');
+  await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * Short hash of the analyzer template and prompt version
+ */
+export function getSessionAnalysisVersion(): string {
+  return crypto.createHash('sha256')
+    .update(`${SESSION_ANALYSIS_PROMPT_VERSION}\n${SUB_AGENT_TEMPLATES['devark-session-analyzer.md']}`)
+    .digest('hex')
+    .slice(0, 12);
+}
+
+export async function hashSessionFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex').slice(0, 32);
+}
+
+function analysisPath(fileHash: string): string {
+  return path.join(getAnalysesDir(), `${fileHash}-${getSessionAnalysisVersion()}.json`);
+}
+
+export async function readCachedAnalysis(fileHash: string): Promise<SessionAnalysis | null> {
+  const filePath = analysisPath(fileHash);
+  try {
+    const analysis = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    if (!isSessionAnalysis(analysis)) return null;
+
+    // Pruning goes by mtime, so mark the analysis as used
+    const now = new Date();
+    await fs.utimes(filePath, now, now).catch(error => {
+      logger.debug('Failed to touch the cached analysis:', error);
+    });
+    return analysis;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCachedAnalysis(fileHash: string, analysis: SessionAnalysis): Promise<void> {
+  await writeAtomic(analysisPath(fileHash), JSON.stringify(analysis));
+}
+
+/**
+ * Remove analyses that were not written or read for a while, including those
+ * of older analyzer versions. Never throws.
+ */
+export async function pruneAnalysisCache(now: Date = new Date()): Promise<number> {
+  const cutoff = now.getTime() - ANALYSIS_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+  let removed = 0;
+  try {
+    const dir = getAnalysesDir();
+    for (const file of await fs.readdir(dir)) {
+      const filePath = path.join(dir, file);
+      const stat = await fs.stat(filePath);
+      if (stat.mtimeMs < cutoff) {
+        await fs.rm(filePath, { force: true });
+        removed++;
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.debug('Failed to prune the report analysis cache:', error);
+    }
+  }
+  return removed;
+}
+
+function isSessionAnalysis(value: unknown): value is SessionAnalysis {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    typeof (value as SessionAnalysis).session_file === 'string';
+}
+
+/**
+ * Session analyses in a batch analyzer result. The array may be wrapped in
+ * text or a code block; single quotes are not valid JSON, so such output is
+ * skipped rather than guessed at.
+ */
+export function parseSessionAnalyses(text: string): SessionAnalysis[] {
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start === -1 || end <= start) return [];
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    return Array.isArray(parsed) ? parsed.filter(isSessionAnalysis) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * File name of a session as listed in the manifest ("./.devark-temp/x.jsonl" -> "x.jsonl")
+ */
+export function normalizeSessionFile(sessionFile: string): string {
+  return path.basename(sessionFile.trim());
+}
+
+export async function loadCheckpoint(): Promise<ReportCheckpoint | null> {
+  try {
+    const checkpoint = JSON.parse(await fs.readFile(getCheckpointPath(), 'utf-8')) as ReportCheckpoint;
+    return checkpoint.version === CHECKPOINT_VERSION && Array.isArray(checkpoint.projects) ? checkpoint : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveCheckpoint(checkpoint: ReportCheckpoint): Promise<void> {
+  await writeAtomic(getCheckpointPath(), JSON.stringify(checkpoint, null, 2));
+}
+
+export async function clearCheckpoint(): Promise<void> {
+  await fs.rm(getCheckpointPath(), { force: true });
+}
+
+export function createCheckpoint(plan: ReportPlan, now: Date = new Date()): ReportCheckpoint {
+  return {
+    version: CHECKPOINT_VERSION,
+    ...plan,
+    phase: 'prepared',
+    startedAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Follows one Claude run: caches every session analysis seen in the stream
+ * and moves the checkpoint forward. Writes are chained and never throw, so
+ * the stream handler can call it without awaiting; flush() before relying
+ * on the files.
+ */
+export class ReportRunTracker {
+  private pending: Promise<void> = Promise.resolve();
+  private remaining: Set<string>;
+
+  /**
+   * @param fileHashes Session file name in .devark-temp -> content hash, for
+   *                   the sessions Claude still has to analyze
+   */
+  constructor(
+    private checkpoint: ReportCheckpoint,
+    private readonly fileHashes: Record<string, string>
+  ) {
+    this.remaining = new Set(Object.keys(fileHashes));
+  }
+
+  public getCheckpoint(): ReportCheckpoint {
+    return this.checkpoint;
+  }
+
+  /**
+   * Look for batch analyzer output in a tool result
+   */
+  public recordToolResult(text: string): void {
+    const analyses = parseSessionAnalyses(text);
+    if (analyses.length === 0) return;
+
+    this.enqueue(async () => {
+      for (const analysis of analyses) {
+        const file = normalizeSessionFile(analysis.session_file);
+        const fileHash = this.fileHashes[file];
+        if (!fileHash) continue;
+        await writeCachedAnalysis(fileHash, { ...analysis, session_file: file });
+        this.remaining.delete(file);
+      }
+      if (this.remaining.size === 0 && this.checkpoint.phase === 'prepared') {
+        await this.update({ phase: 'analyzed' });
+      }
+    });
+  }
+
+  public recordReport(reportData: ReportData): void {
+    this.enqueue(() => this.update({ phase: 'reported', reportData }));
+  }
+
+  /**
+   * The report was saved; nothing left to resume
+   */
+  public complete(): void {
+    this.enqueue(() => clearCheckpoint());
+  }
+
+  public flush(): Promise<void> {
+    return this.pending;
+  }
+
+  private async update(changes: Partial<ReportCheckpoint>): Promise<void> {
+    this.checkpoint = { ...this.checkpoint, ...changes, updatedAt: new Date().toISOString() };
+    await saveCheckpoint(this.checkpoint);
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.pending = this.pending.then(task).catch(error => {
+      logger.debug('Failed to update the report cache:', error);
+    });
+  }
+}
@@ -0,0 +1,316 @@
+import { readAllSessions } from './readers/session-sources';
+import { SessionData } from './readers/types';
+import { readPromptHistory, PromptHistoryEntry } from './prompt-history';
+import { filterSessionsByProject } from './standup-utils';
+import { parseProjectName } from './ui/project-display';
+import type { RetroData, RetroDelta, RetroMetrics, RetroPeriod, RetroPeriodData } from '../types/retro-data';
+import { getLocalDateString } from './utils/date-utils';
+
+/**
+ * Weekly and monthly retrospectives computed from local data only: session
+ * files and the prompt score history. The current period (week from Monday,
+ * or calendar month, up to now) is compared with the same days of the
+ * previous one, so a Wednesday retro doesn't set three days against seven.
+ */
+
+export interface RetroRange {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+const TOP_PROJECTS_LIMIT = 5;
+const TOP_LANGUAGES_LIMIT = 8;
+const SPARKLINE_CHARS = '▁▂▃▄▅▆▇█';
+
+function round(value: number, decimals = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function formatDay(date: Date, withYear: boolean): string {
+  return date.toLocaleDateString('en-US', withYear
+    ? { month: 'short', day: 'numeric', year: 'numeric' }
+    : { month: 'short', day: 'numeric' });
+}
+
+function weekRange(start: Date, end: Date): RetroRange {
+  const lastDay = new Date(start);
+  lastDay.setDate(lastDay.getDate() + 6);
+  return { start, end, label: `${formatDay(start, false)} - ${formatDay(lastDay, true)}` };
+}
+
+function monthRange(start: Date, end: Date): RetroRange {
+  return { start, end, label: start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }) };
+}
+
+function spanRange(start: Date, end: Date): RetroRange {
+  return { start, end, label: `${formatDay(start, false)} - ${formatDay(end, true)}` };
+}
+
+/**
+ * The current period up to `now` and the previous period up to the same
+ * weekday (or day of the month) and time
+ */
+export function getRetroRanges(period: RetroPeriod, now: Date = new Date()): { current: RetroRange; previous: RetroRange } {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+
+  if (period === 'week') {
+    // getDay(): 0 = Sunday, so Sunday goes back six days to Monday
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    const previousStart = new Date(start);
+    previousStart.setDate(previousStart.getDate() - 7);
+    const previousEnd = new Date(now);
+    previousEnd.setDate(previousEnd.getDate() - 7);
+    return {
+      current: weekRange(start, new Date(now)),
+      previous: spanRange(previousStart, previousEnd),
+    };
+  }
+
+  start.setDate(1);
+  const previousStart = new Date(start);
+  previousStart.setMonth(previousStart.getMonth() - 1);
+  // On the 31st after a 30-day month the whole previous month counts
+  const previousEnd = new Date(previousStart);
+  previousEnd.setDate(now.getDate());
+  previousEnd.setHours(now.getHours(), now.getMinutes(), now.getSeconds(), now.getMilliseconds());
+  return {
+    current: monthRange(start, new Date(now)),
+    previous: spanRange(previousStart, previousEnd < start ? previousEnd : new Date(start.getTime() - 1)),
+  };
+}
+
+function countBy<T>(items: T[], key: (item: T) => string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const name of key(item)) {
+      counts.set(name, (counts.get(name) || 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Numbers for one period; sessions and prompts are matched to the period by
+ * their start time
+ */
+export function buildRetroMetrics(sessions: SessionData[], prompts: PromptHistoryEntry[], range: RetroRange): RetroMetrics {
+  const inRange = (time: Date) => time >= range.start && time <= range.end;
+  const periodSessions = sessions.filter(session => inRange(session.timestamp));
+  const periodPrompts = prompts.filter(entry => inRange(new Date(entry.timestamp)));
+  const hours = (items: SessionData[]) => round(items.reduce((sum, session) => sum + session.duration, 0) / 3600);
+  const averageScore = (entries: PromptHistoryEntry[]) =>
+    Math.round(entries.reduce((sum, entry) => sum + entry.score, 0) / entries.length);
+
+  const byProject = new Map<string, SessionData[]>();
+  for (const session of periodSessions) {
+    const name = parseProjectName(session.projectPath);
+    byProject.set(name, [...(byProject.get(name) || []), session]);
+  }
+
+  const modelMessages = new Map<string, number>();
+  for (const session of periodSessions) {
+    for (const [model, messages] of Object.entries(session.modelInfo?.modelUsage || {})) {
+      modelMessages.set(model, (modelMessages.get(model) || 0) + messages);
+    }
+  }
+  const totalModelMessages = Array.from(modelMessages.values()).reduce((sum, count) => sum + count, 0);
+
+  const planning = periodSessions.filter(session => session.planningModeInfo?.hasPlanningMode);
+
+  // One entry per day up to the end of the period (today for the current one)
+  const daily: RetroMetrics['daily'] = [];
+  for (const day = new Date(range.start); day <= range.end; day.setDate(day.getDate() + 1)) {
+    const key = getLocalDateString(day);
+    const daySessions = periodSessions.filter(session => getLocalDateString(session.timestamp) === key);
+    const dayPrompts = periodPrompts.filter(entry => getLocalDateString(new Date(entry.timestamp)) === key);
+    daily.push({
+      date: key,
+      sessions: daySessions.length,
+      activeHours: hours(daySessions),
+      promptScore: dayPrompts.length > 0 ? averageScore(dayPrompts) : null,
+    });
+  }
+
+  return {
+    sessions: periodSessions.length,
+    activeHours: hours(periodSessions),
+    projects: byProject.size,
+    topProjects: Array.from(byProject.entries())
+      .map(([name, projectSessions]) => ({ name, sessions: projectSessions.length, activeHours: hours(projectSessions) }))
+      .sort((a, b) => b.activeHours - a.activeHours || b.sessions - a.sessions)
+      .slice(0, TOP_PROJECTS_LIMIT),
+    languages: Array.from(countBy(periodSessions, session => session.metadata?.languages || []).entries())
+      .map(([name, count]) => ({ name, sessions: count }))
+      .sort((a, b) => b.sessions - a.sessions)
+      .slice(0, TOP_LANGUAGES_LIMIT),
+    planningSessions: planning.length,
+    planningCycles: planning.reduce((sum, session) => sum + (session.planningModeInfo?.planningCycles || 0), 0),
+    planningShare: periodSessions.length > 0 ? Math.round((planning.length / periodSessions.length) * 100) : 0,
+    models: Array.from(modelMessages.entries())
+      .map(([model, messages]) => ({ model, messages, share: Math.round((messages / totalModelMessages) * 100) }))
+      .sort((a, b) => b.messages - a.messages),
+    promptScore: periodPrompts.length > 0
+      ? { prompts: periodPrompts.length, average: averageScore(periodPrompts) }
+      : null,
+    daily,
+  };
+}
+
+function delta(metric: RetroDelta['metric'], label: string, current: number, previous: number): RetroDelta {
+  return {
+    metric,
+    label,
+    current,
+    previous,
+    change: round(current - previous),
+    percent: previous === 0 ? null : Math.round(((current - previous) / previous) * 100),
+  };
+}
+
+function toPeriodData(range: RetroRange, metrics: RetroMetrics): RetroPeriodData {
+  return { label: range.label, start: range.start.toISOString(), end: range.end.toISOString(), metrics };
+}
+
+/**
+ * Compare the current period with the previous one
+ */
+export function buildRetroData(
+  period: RetroPeriod,
+  sessions: SessionData[],
+  prompts: PromptHistoryEntry[],
+  now: Date = new Date(),
+  project?: string
+): RetroData {
+  const ranges = getRetroRanges(period, now);
+  const current = buildRetroMetrics(sessions, prompts, ranges.current);
+  const previous = buildRetroMetrics(sessions, prompts, ranges.previous);
+
+  const deltas = [
+    delta('sessions', 'Sessions', current.sessions, previous.sessions),
+    delta('activeHours', 'Active hours', current.activeHours, previous.activeHours),
+    delta('projects', 'Projects', current.projects, previous.projects),
+    delta('planningShare', 'Planning mode (% of sessions)', current.planningShare, previous.planningShare),
+  ];
+  // Scores are only comparable when both periods have analyzed prompts
+  if (current.promptScore && previous.promptScore) {
+    deltas.push(delta('promptScore', 'Prompt score', current.promptScore.average, previous.promptScore.average));
+  }
+
+  return {
+    period,
+    project,
+    generatedAt: now.toISOString(),
+    current: toPeriodData(ranges.current, current),
+    previous: toPeriodData(ranges.previous, previous),
+    deltas,
+  };
+}
+
+/**
+ * Read the sessions and prompt scores of both periods and build the retro
+ */
+export async function generateRetroData(period: RetroPeriod, project?: string, now: Date = new Date()): Promise<RetroData> {
+  const { previous } = getRetroRanges(period, now);
+
+  let sessions = await readAllSessions({ since: previous.start });
+  if (project) {
+    sessions = filterSessionsByProject(sessions, project);
+  }
+  const prompts = await readPromptHistory({ since: previous.start, project });
+
+  return buildRetroData(period, sessions, prompts, now, project);
+}
+
+/**
+ * "▁▃█▅" - one character per value, scaled to the largest value
+ */
+export function sparkline(values: Array<number | null>): string {
+  const max = Math.max(0, ...values.map(value => value || 0));
+  return values.map(value => {
+    if (value === null) return ' ';
+    if (max === 0) return SPARKLINE_CHARS[0];
+    return SPARKLINE_CHARS[Math.round((value / max) * (SPARKLINE_CHARS.length - 1))];
+  }).join('');
+}
+
+/**
+ * "+3 (+33%)", "-1.5", "±0"
+ */
+export function formatRetroChange(item: RetroDelta): string {
+  if (item.change === 0) return '±0';
+  const sign = item.change > 0 ? '+' : '';
+  const percent = item.percent === null ? '' : ` (${sign}${item.percent}%)`;
+  return `${sign}${item.change}${percent}`;
+}
+
+export function formatRetroMarkdown(data: RetroData): string {
+  const current = data.current.metrics;
+  const previous = data.previous.metrics;
+  const thisPeriod = data.period === 'week' ? 'This week' : 'This month';
+  const lastPeriod = data.period === 'week' ? 'Last week' : 'Last month';
+  const scope = data.project ? ` - ${data.project}` : '';
+
+  const lines = [
+    `# ${data.period === 'week' ? 'Weekly' : 'Monthly'} Retro${scope} - ${data.current.label}`,
+    '',
+    `_Compared with ${data.previous.label}_`,
+    '',
+    `| Metric | ${thisPeriod} | ${lastPeriod} | Change |`,
+    '| --- | ---: | ---: | ---: |',
+    ...data.deltas.map(item => `| ${item.label} | ${item.current} | ${item.previous} | ${formatRetroChange(item)} |`),
+  ];
+
+  lines.push(
+    '',
+    '## Daily activity',
+    '',
+    '```',
+    `Sessions      ${sparkline(current.daily.map(day => day.sessions))}  (${lastPeriod.toLowerCase()} ${sparkline(previous.daily.map(day => day.sessions))})`,
+    `Active hours  ${sparkline(current.daily.map(day => day.activeHours))}  (${lastPeriod.toLowerCase()} ${sparkline(previous.daily.map(day => day.activeHours))})`,
+    `Prompt score  ${sparkline(current.daily.map(day => day.promptScore))}  (${lastPeriod.toLowerCase()} ${sparkline(previous.daily.map(day => day.promptScore))})`,
+    '```',
+  );
+
+  lines.push('', '## Projects', '');
+  if (current.topProjects.length === 0) {
+    lines.push('_No sessions yet_');
+  } else {
+    lines.push('| Project | Sessions | Active hours |', '| --- | ---: | ---: |');
+    current.topProjects.forEach(item => lines.push(`| ${item.name} | ${item.sessions} | ${item.activeHours} |`));
+  }
+
+  if (current.languages.length > 0) {
+    lines.push('', '## Languages', '');
+    current.languages.forEach(item => {
+      const before = previous.languages.find(language => language.name === item.name)?.sessions || 0;
+      lines.push(`- ${item.name}: ${item.sessions} sessions (${before} ${lastPeriod.toLowerCase()})`);
+    });
+  }
+
+  if (current.models.length > 0) {
+    lines.push('', '## Model mix', '');
+    current.models.forEach(item => {
+      const before = previous.models.find(model => model.model === item.model)?.share || 0;
+      lines.push(`- ${item.model}: ${item.share}% of messages (${before}% ${lastPeriod.toLowerCase()})`);
+    });
+  }
+
+  lines.push(
+    '',
+    '## Planning mode',
+    '',
+    `${current.planningSessions} of ${current.sessions} sessions used planning mode (${current.planningCycles} plans), ` +
+    `${previous.planningSessions} of ${previous.sessions} ${lastPeriod.toLowerCase()}`,
+  );
+
+  lines.push('', '## Prompt quality', '');
+  lines.push(current.promptScore
+    ? `Average score ${current.promptScore.average}/100 over ${current.promptScore.prompts} prompts` +
+      (previous.promptScore ? ` (${previous.promptScore.average}/100 ${lastPeriod.toLowerCase()})` : '')
+    : '_No analyzed prompts in this period_');
+
+  return lines.join('\n') + '\n';
+}
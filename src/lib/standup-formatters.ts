@@ -0,0 +1,97 @@
+import { StandupData } from './standup-utils';
+
+/**
+ * Text renderings of a standup for pasting into chat or piping into other
+ * tools. The console rendering (with colors) stays in commands/standup.ts.
+ */
+
+export type StandupOutputFormat = 'console' | 'markdown' | 'slack' | 'text' | 'json';
+
+export const STANDUP_OUTPUT_FORMATS: StandupOutputFormat[] = ['console', 'markdown', 'slack', 'text', 'json'];
+
+function formatMarkdown(data: StandupData): string {
+  const lines = [`## Standup - ${data.yesterday.date}`, '', '### What I accomplished'];
+
+  if (data.yesterday.projects.length === 0) {
+    lines.push('', '_No sessions recorded for this period_');
+  }
+  for (const project of data.yesterday.projects) {
+    lines.push('', `**${project.name}** (${project.duration})`);
+    project.accomplishments.forEach(item => lines.push(`- ${item}`));
+  }
+
+  lines.push('', '### Focus for today');
+  data.todayFocus.forEach(item => lines.push(`- ${item}`));
+
+  if (data.blockers && data.blockers.length > 0) {
+    lines.push('', '### Blockers');
+    data.blockers.forEach(item => lines.push(`- ${item}`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Slack mrkdwn: *bold*, _italic_ and bullet characters (Slack has no lists)
+ */
+function formatSlack(data: StandupData): string {
+  const lines = [`*Standup - ${data.yesterday.date}*`, '', '*What I accomplished*'];
+
+  if (data.yesterday.projects.length === 0) {
+    lines.push('_No sessions recorded for this period_');
+  }
+  for (const project of data.yesterday.projects) {
+    lines.push(`*${project.name}* _(${project.duration})_`);
+    project.accomplishments.forEach(item => lines.push(`• ${item}`));
+  }
+
+  lines.push('', '*Focus for today*');
+  data.todayFocus.forEach(item => lines.push(`• ${item}`));
+
+  if (data.blockers && data.blockers.length > 0) {
+    lines.push('', '*Blockers*');
+    data.blockers.forEach(item => lines.push(`• ${item}`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatText(data: StandupData): string {
+  const lines = [`Standup - ${data.yesterday.date}`, '', 'What I accomplished:'];
+
+  if (data.yesterday.projects.length === 0) {
+    lines.push('  No sessions recorded for this period');
+  }
+  for (const project of data.yesterday.projects) {
+    lines.push(`  ${project.name} (${project.duration})`);
+    project.accomplishments.forEach(item => lines.push(`    - ${item}`));
+  }
+
+  lines.push('', 'Focus for today:');
+  data.todayFocus.forEach(item => lines.push(`  - ${item}`));
+
+  if (data.blockers && data.blockers.length > 0) {
+    lines.push('', 'Blockers:');
+    data.blockers.forEach(item => lines.push(`  - ${item}`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a standup in one of the text formats. 'console' has no plain text
+ * rendering and is rejected by the caller before this point.
+ */
+export function formatStandup(data: StandupData, format: Exclude<StandupOutputFormat, 'console'>): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(data, null, 2) + '\n';
+    case 'slack':
+      return formatSlack(data);
+    case 'text':
+      return formatText(data);
+    case 'markdown':
+    default:
+      return formatMarkdown(data);
+  }
+}
@@ -6,25 +6,69 @@
 
 import { SessionData } from './readers/types';
 import { extractProjectName } from './claude-project-parser';
+import { ProjectGitActivity, formatCommitLine } from './git-enrichment';
+import { WorkingCalendar, DEFAULT_WORKING_CALENDAR, getPreviousWorkingDay } from './working-calendar';
+import { DevArkError } from '../utils/errors';
+
+const MAX_STANDUP_COMMITS_PER_PROJECT = 20;
+// Days before the previous working day that are read, so an empty day can
+// roll back to the last day with sessions
+export const STANDUP_LOOKBACK_DAYS = 7;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
 
 /**
- * Get yesterday's working day (accounting for weekends)
- * Monday returns Friday, Sunday returns Friday, others return yesterday
+ * Standup summary as returned by Claude (and by the fallback analysis)
  */
-export function getYesterdayWorkingDay(): Date {
-  const today = new Date();
-  const dayOfWeek = today.getDay();
-  const yesterday = new Date(today);
-
-  if (dayOfWeek === 1) { // Monday
-    yesterday.setDate(today.getDate() - 3); // Get Friday
-  } else if (dayOfWeek === 0) { // Sunday
-    yesterday.setDate(today.getDate() - 2); // Get Friday
-  } else {
-    yesterday.setDate(today.getDate() - 1); // Get yesterday
-  }
+export interface StandupData {
+  yesterday: {
+    date: string;
+    projects: Array<{
+      name: string;
+      accomplishments: string[];
+      duration: string;
+    }>;
+  };
+  todayFocus: string[];
+  blockers?: string[];
+}
+
+/**
+ * Explicit standup period from --date or --since/--until
+ */
+export interface StandupPeriod {
+  start: Date;   // Local midnight of the first day
+  end: Date;     // Last millisecond of the last day (or now)
+  label: string; // "Friday, Oct 10" or "Friday, Oct 10 - Tuesday, Oct 14"
+}
+
+/**
+ * Get the previous working day by the working calendar
+ * (Monday-Friday without holidays by default, so Monday returns Friday)
+ */
+export function getYesterdayWorkingDay(
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR,
+  now: Date = new Date()
+): Date {
+  return getPreviousWorkingDay(calendar, now);
+}
+
+/**
+ * Day to report on: the target day when it has sessions, otherwise the last
+ * earlier day that has any, otherwise the most recent day with sessions.
+ * Returns local midnight, or null without sessions.
+ */
+export function selectStandupDay(sessions: SessionData[], target: Date): Date | null {
+  const targetEnd = new Date(target);
+  targetEnd.setHours(23, 59, 59, 999);
+
+  const sorted = [...sessions].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  const session = sorted.find(s => s.timestamp <= targetEnd) || sorted[0];
+  if (!session) return null;
 
-  return yesterday;
+  const day = new Date(session.timestamp);
+  day.setHours(0, 0, 0, 0);
+  return day;
 }
 
 /**
@@ -35,6 +79,105 @@ export function getDayName(date: Date): string {
   return days[date.getDay()];
 }
 
+/**
+ * "Friday, Oct 10"
+ */
+export function formatStandupDate(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric'
+  });
+}
+
+/**
+ * Parse a standup date: YYYY-MM-DD, "today", "yesterday", or a weekday
+ * ("friday", "last friday") meaning its most recent occurrence before today.
+ * Returns local midnight, or null when the value isn't understood.
+ */
+export function parseStandupDate(value: string, now: Date = new Date()): Date | null {
+  const text = value.trim().toLowerCase().replace(/^last\s+/, '');
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  if (text === 'today') return today;
+  if (text === 'yesterday') {
+    today.setDate(today.getDate() - 1);
+    return today;
+  }
+
+  const weekday = WEEKDAYS.findIndex(day => day === text || day.slice(0, 3) === text);
+  if (weekday !== -1) {
+    const daysBack = (today.getDay() - weekday + 7) % 7 || 7;
+    today.setDate(today.getDate() - daysBack);
+    return today;
+  }
+
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Reject overflow like 2026-02-31
+  return date.getDate() === Number(match[3]) ? date : null;
+}
+
+/**
+ * Resolve --date or --since/--until into a period, or null for the default
+ * "last working day" standup
+ */
+export function resolveStandupPeriod(
+  options: { date?: string; since?: string; until?: string },
+  now: Date = new Date()
+): StandupPeriod | null {
+  const parse = (flag: string, value: string): Date => {
+    const date = parseStandupDate(value, now);
+    if (!date) {
+      throw new DevArkError(
+        `Invalid ${flag} "${value}". Use YYYY-MM-DD, today, yesterday or a weekday like friday`,
+        'INVALID_INPUT'
+      );
+    }
+    return date;
+  };
+  const endOfDay = (date: Date): Date => {
+    const end = new Date(date);
+    end.setHours(23, 59, 59, 999);
+    return end;
+  };
+
+  if (options.date) {
+    if (options.since || options.until) {
+      throw new DevArkError('Use either --date or --since/--until, not both', 'INVALID_INPUT');
+    }
+    const day = parse('--date', options.date);
+    return { start: day, end: endOfDay(day), label: formatStandupDate(day) };
+  }
+
+  if (options.until && !options.since) {
+    throw new DevArkError('--until needs --since', 'INVALID_INPUT');
+  }
+  if (!options.since) return null;
+
+  const start = parse('--since', options.since);
+  const lastDay = options.until ? parse('--until', options.until) : new Date(now);
+  lastDay.setHours(0, 0, 0, 0);
+  if (lastDay < start) {
+    throw new DevArkError('--until must not be before --since', 'INVALID_INPUT');
+  }
+
+  const label = lastDay.getTime() === start.getTime()
+    ? formatStandupDate(start)
+    : `${formatStandupDate(start)} - ${formatStandupDate(lastDay)}`;
+  return { start, end: options.until ? endOfDay(lastDay) : new Date(now), label };
+}
+
+/**
+ * Sessions of one project, matched by name, case-insensitive
+ */
+export function filterSessionsByProject(sessions: SessionData[], project: string): SessionData[] {
+  const wanted = project.trim().toLowerCase();
+  return sessions.filter(session => extractProjectName(session.projectPath).toLowerCase() === wanted);
+}
+
 /**
  * Group sessions by project name
  */
@@ -64,16 +207,45 @@ export function formatDuration(totalSeconds: number): string {
 }
 
 /**
- * Build the standup analysis prompt for Claude
- * This is the exact prompt from the working version
+ * Commits made during the target day's sessions, as a prompt section
  */
-export function buildStandupPrompt(_tempDir: string, targetDate: Date): string {
-  const dateStr = targetDate.toLocaleDateString('en-US', {
-    weekday: 'long',
-    month: 'short',
-    day: 'numeric'
+export function buildGitCommitsSection(gitActivity: ProjectGitActivity[]): string {
+  if (gitActivity.length === 0) return '';
+
+  const projects = gitActivity.map(activity => {
+    const commits = activity.commits.slice(0, MAX_STANDUP_COMMITS_PER_PROJECT).map(commit => `  - ${formatCommitLine(commit)}`);
+    const more = activity.commits.length > MAX_STANDUP_COMMITS_PER_PROJECT
+      ? [`  - ...and ${activity.commits.length - MAX_STANDUP_COMMITS_PER_PROJECT} more`]
+      : [];
+    const upstream = activity.hasUpstream ? 'branch pushed to a remote' : 'branch not pushed yet';
+    return [`${activity.project} (${upstream}):`, ...commits, ...more].join('\n');
   });
 
+  return `
+GIT COMMITS MADE DURING THESE SESSIONS (from the local repositories - real, verified work):
+${projects.join('\n')}
+
+Prefer these commits over guesses from file paths: tie each accomplishment to the commits it comes from.
+Commits on a branch that is not pushed yet may be unfinished - good candidates for "todayFocus".
+`;
+}
+
+/**
+ * Build the standup analysis prompt for Claude
+ * This is the exact prompt from the working version, plus the session commits.
+ * With an explicit period, every session in the temp directory is in scope.
+ */
+export function buildStandupPrompt(
+  _tempDir: string,
+  targetDate: Date,
+  gitActivity: ProjectGitActivity[] = [],
+  period?: StandupPeriod
+): string {
+  const dateStr = period ? period.label : formatStandupDate(targetDate);
+  const scopeRule = period
+    ? `4. CRITICAL: Report on ALL sessions in the manifest - they are all from ${dateStr}`
+    : '4. CRITICAL: Ignore any sessions from today - only report on PAST work';
+
   return `think hard 
 You are analyzing coding sessions to extract ACTUAL DEVELOPER ACCOMPLISHMENTS for a daily standup meeting.
 
@@ -89,7 +261,7 @@ Task:
 1. Read ./standup-manifest.json to see available sessions (in current directory)
 2. IMPORTANT: Analyze ALL projects listed in the manifest, not just a sample
 3. Read the JSONL session files DIRECTLY from current directory (they are here with you)
-4. CRITICAL: Ignore any sessions from today - only report on PAST work
+${scopeRule}
 5. Extract ONLY work that is ACTUALLY DESCRIBED in the messages
 6. Include EVERY project that had work on ${dateStr} in your response
 
@@ -121,7 +293,7 @@ For "todayFocus", base suggestions on:
 - Actual unfinished work visible in the sessions
 - Common patterns (if testing was done, suggest deployment)
 - Logical next steps based on what was actually built
-</think_hard>
+${buildGitCommitsSection(gitActivity)}</think_hard>
 
 Your response must be ONLY this JSON structure (include ALL projects):
 {
@@ -0,0 +1,315 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getEnterpriseManagedSettingsPath } from './claude-fs';
+import { getHookMode, getMergedSettingsForProject, HookMode } from './claude-settings-reader';
+import { getInstalledHookEvents, HOOK_EVENT_TYPES, HookEventType } from './hooks/hooks-controller';
+import { compileRedactionRule, RedactionRule } from './redaction-rules';
+import { compareVersions } from '../utils/version-check';
+import { DevArkError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Team/organization policy.
+ *
+ * A policy can be committed to a repository as `.devark/team.json` (found by
+ * walking up from the project) or pushed by IT under a `devark` key in Claude
+ * Code's managed-settings.json. When both exist the managed policy wins. The
+ * policy takes precedence over the user's own config: its redaction rules
+ * can't be disabled and installs follow its sync mode.
+ */
+
+export interface TeamPolicy {
+  name?: string;
+  minimumVersion?: string;            // Oldest CLI version the team accepts
+  requiredHooks?: HookEventType[];     // Hook events that must be installed
+  allowedSyncModes?: HookMode[];       // Tracking modes members may choose
+  forcedSyncMode?: 'all' | 'selected'; // Tracking mode installs must use
+  redactionRules?: RedactionRule[];    // Always-on sanitizer rules
+}
+
+export interface EffectiveTeamPolicy extends TeamPolicy {
+  sources: string[];  // Files the policy was read from, highest precedence last
+}
+
+export interface PolicyViolation {
+  rule: 'minimumVersion' | 'requiredHooks' | 'syncMode';
+  message: string;
+}
+
+export interface PolicyState {
+  version: string;
+  hookMode: HookMode;
+  installedHooks: HookEventType[];
+}
+
+export const TEAM_POLICY_FILE = path.join('.devark', 'team.json');
+export const MANAGED_POLICY_KEY = 'devark';
+
+const SYNC_MODES: HookMode[] = ['all', 'selected', 'none'];
+const VERSION_PATTERN = /^v?\d+(\.\d+)*$/;
+
+/**
+ * Validate a raw policy object. Throws INVALID_TEAM_POLICY on bad input.
+ */
+export function parseTeamPolicy(raw: unknown, source: string): TeamPolicy {
+  const invalid = (reason: string) =>
+    new DevArkError(`Invalid team policy in ${source}: ${reason}`, 'INVALID_TEAM_POLICY');
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw invalid('expected a JSON object');
+  }
+
+  const policy = raw as Record<string, unknown>;
+
+  if (policy.name !== undefined && typeof policy.name !== 'string') {
+    throw invalid('"name" must be a string');
+  }
+
+  if (policy.minimumVersion !== undefined &&
+      (typeof policy.minimumVersion !== 'string' || !VERSION_PATTERN.test(policy.minimumVersion))) {
+    throw invalid('"minimumVersion" must be a version like 1.4.0');
+  }
+
+  if (policy.requiredHooks !== undefined) {
+    if (!Array.isArray(policy.requiredHooks)) throw invalid('"requiredHooks" must be an array');
+    const unknown = policy.requiredHooks.filter(hook => !HOOK_EVENT_TYPES.includes(hook));
+    if (unknown.length > 0) {
+      throw invalid(`unknown hook ${unknown.join(', ')}. Use ${HOOK_EVENT_TYPES.join(', ')}`);
+    }
+  }
+
+  if (policy.allowedSyncModes !== undefined) {
+    if (!Array.isArray(policy.allowedSyncModes) || policy.allowedSyncModes.length === 0) {
+      throw invalid('"allowedSyncModes" must be a non-empty array');
+    }
+    const unknown = policy.allowedSyncModes.filter(mode => !SYNC_MODES.includes(mode));
+    if (unknown.length > 0) {
+      throw invalid(`unknown sync mode ${unknown.join(', ')}. Use ${SYNC_MODES.join(', ')}`);
+    }
+  }
+
+  if (policy.forcedSyncMode !== undefined && policy.forcedSyncMode !== 'all' && policy.forcedSyncMode !== 'selected') {
+    throw invalid('"forcedSyncMode" must be "all" or "selected"');
+  }
+
+  if (policy.redactionRules !== undefined) {
+    if (!Array.isArray(policy.redactionRules)) throw invalid('"redactionRules" must be an array');
+    if (policy.redactionRules.some(rule => !rule || typeof rule.name !== 'string' || !rule.name)) {
+      throw invalid('every redaction rule needs a name');
+    }
+    // Policy rules can't be switched off, so check them all, not only the enabled ones
+    for (const rule of policy.redactionRules as RedactionRule[]) {
+      try {
+        compileRedactionRule(rule);
+      } catch (error) {
+        throw invalid(`redaction rule "${rule.name}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  return {
+    name: policy.name as string | undefined,
+    minimumVersion: policy.minimumVersion as string | undefined,
+    requiredHooks: policy.requiredHooks as HookEventType[] | undefined,
+    allowedSyncModes: policy.allowedSyncModes as HookMode[] | undefined,
+    forcedSyncMode: policy.forcedSyncMode as TeamPolicy['forcedSyncMode'],
+    redactionRules: policy.redactionRules as RedactionRule[] | undefined,
+  };
+}
+
+/**
+ * Combine two policies. `override` wins on single values; lists are combined
+ * so that neither side can loosen the other. Throws INVALID_TEAM_POLICY when
+ * the two allow no sync mode in common.
+ */
+export function mergeTeamPolicies(base: TeamPolicy, override: TeamPolicy): TeamPolicy {
+  const minimumVersion = base.minimumVersion && override.minimumVersion
+    ? (compareVersions(base.minimumVersion, override.minimumVersion) > 0 ? base.minimumVersion : override.minimumVersion)
+    : base.minimumVersion || override.minimumVersion;
+
+  const requiredHooks = base.requiredHooks || override.requiredHooks
+    ? [...new Set([...(base.requiredHooks || []), ...(override.requiredHooks || [])])]
+    : undefined;
+
+  const allowedSyncModes = base.allowedSyncModes && override.allowedSyncModes
+    ? base.allowedSyncModes.filter(mode => override.allowedSyncModes!.includes(mode))
+    : base.allowedSyncModes || override.allowedSyncModes;
+  if (allowedSyncModes?.length === 0) {
+    throw new DevArkError(
+      `Conflicting team policies: "allowedSyncModes" ${base.allowedSyncModes!.join(', ')} and ${override.allowedSyncModes!.join(', ')} have no mode in common`,
+      'INVALID_TEAM_POLICY'
+    );
+  }
+
+  const rulesByName = new Map<string, RedactionRule>();
+  for (const rule of [...(base.redactionRules || []), ...(override.redactionRules || [])]) {
+    rulesByName.set(rule.name, rule);
+  }
+
+  return {
+    name: override.name || base.name,
+    minimumVersion,
+    requiredHooks,
+    allowedSyncModes,
+    forcedSyncMode: override.forcedSyncMode || base.forcedSyncMode,
+    redactionRules: rulesByName.size > 0 ? [...rulesByName.values()] : undefined,
+  };
+}
+
+/**
+ * Nearest `.devark/team.json` at or above `startDir`. The walk stops below the
+ * home directory, whose `.devark` folder holds the user's own config.
+ */
+export function findTeamPolicyFile(startDir: string): string | null {
+  const home = path.resolve(os.homedir());
+  let dir = path.resolve(startDir);
+
+  while (dir !== home) {
+    const candidate = path.join(dir, TEAM_POLICY_FILE);
+    if (fs.existsSync(candidate)) return candidate;
+
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+
+  return null;
+}
+
+function readPolicyFile(filePath: string, key?: string): TeamPolicy | null {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const raw = key ? parsed?.[key] : parsed;
+    return raw === undefined ? null : parseTeamPolicy(raw, filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn(`Ignoring team policy ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return null;
+  }
+}
+
+// Policies are read synchronously while sanitizing, so cache them per run
+const policyCache = new Map<string, EffectiveTeamPolicy | null>();
+
+/**
+ * Effective policy for a project: its team.json merged with the managed
+ * policy. Without a project only the managed policy applies. Returns null
+ * when neither exists.
+ */
+export function loadTeamPolicy(projectPath?: string): EffectiveTeamPolicy | null {
+  const cacheKey = projectPath ? path.resolve(projectPath) : '';
+  if (policyCache.has(cacheKey)) return policyCache.get(cacheKey)!;
+
+  const sources: string[] = [];
+  let policy: TeamPolicy | null = null;
+
+  const projectFile = projectPath ? findTeamPolicyFile(projectPath) : null;
+  const projectPolicy = projectFile ? readPolicyFile(projectFile) : null;
+  if (projectPolicy) {
+    policy = projectPolicy;
+    sources.push(projectFile!);
+  }
+
+  const managedPath = getEnterpriseManagedSettingsPath();
+  const managedPolicy = managedPath ? readPolicyFile(managedPath, MANAGED_POLICY_KEY) : null;
+  if (managedPolicy) {
+    try {
+      policy = policy ? mergeTeamPolicies(policy, managedPolicy) : managedPolicy;
+    } catch (error) {
+      // The managed policy wins a conflict
+      logger.warn(`Ignoring team policy ${projectFile}: ${error instanceof Error ? error.message : String(error)}`);
+      policy = managedPolicy;
+      sources.length = 0;
+    }
+    sources.push(managedPath!);
+  }
+
+  const effective = policy ? { ...policy, sources } : null;
+  policyCache.set(cacheKey, effective);
+  return effective;
+}
+
+export function clearTeamPolicyCache(): void {
+  policyCache.clear();
+}
+
+/**
+ * Whether members may use this tracking mode
+ */
+export function isSyncModeAllowed(policy: TeamPolicy | null, mode: HookMode): boolean {
+  if (!policy) return true;
+  if (policy.forcedSyncMode) return mode === policy.forcedSyncMode;
+  return !policy.allowedSyncModes || policy.allowedSyncModes.includes(mode);
+}
+
+/**
+ * Tracking mode an install should use when the user asked for `requested`
+ */
+export function resolveSyncMode(policy: TeamPolicy | null, requested: 'all' | 'selected'): 'all' | 'selected' {
+  if (!policy) return requested;
+  if (policy.forcedSyncMode) return policy.forcedSyncMode;
+  if (isSyncModeAllowed(policy, requested)) return requested;
+  return policy.allowedSyncModes?.includes('all') ? 'all' : 'selected';
+}
+
+/**
+ * Compare the current setup against a policy
+ */
+export function checkTeamPolicy(policy: TeamPolicy, state: PolicyState): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+
+  if (policy.minimumVersion && compareVersions(state.version, policy.minimumVersion) < 0) {
+    violations.push({
+      rule: 'minimumVersion',
+      message: `DevArk ${state.version} is older than the required ${policy.minimumVersion}. Run: npx devark-cli@latest`,
+    });
+  }
+
+  const missingHooks = (policy.requiredHooks || []).filter(hook => !state.installedHooks.includes(hook));
+  if (missingHooks.length > 0) {
+    violations.push({
+      rule: 'requiredHooks',
+      message: `Required hooks not installed: ${missingHooks.join(', ')}. Run: devark install-hooks`,
+    });
+  }
+
+  if (!isSyncModeAllowed(policy, state.hookMode)) {
+    const expected = policy.forcedSyncMode
+      ? `"${policy.forcedSyncMode}"`
+      : policy.allowedSyncModes!.map(mode => `"${mode}"`).join(' or ');
+    violations.push({
+      rule: 'syncMode',
+      message: `Tracking mode "${state.hookMode}" is not allowed by team policy (expected ${expected})`,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Version of the running CLI
+ */
+export function getCliVersion(): string {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires -- package.json outside rootDir
+  return require('../../package.json').version;
+}
+
+/**
+ * Check the installed hooks, tracking mode and CLI version against the
+ * effective policy for a project. Returns [] when there is no policy.
+ */
+export async function getTeamPolicyViolations(
+  projectPath: string = process.cwd(),
+  policy: TeamPolicy | null = loadTeamPolicy(projectPath)
+): Promise<PolicyViolation[]> {
+  if (!policy) return [];
+
+  const settings = await getMergedSettingsForProject(projectPath);
+  return checkTeamPolicy(policy, {
+    version: getCliVersion(),
+    hookMode: await getHookMode(),
+    installedHooks: getInstalledHookEvents(settings),
+  });
+}
@@ -0,0 +1,232 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getModelPriceOverrides } from './config';
+import { SessionIndex, isIndexableStat } from './readers/claude-session-index';
+import { readAllSessions } from './readers/session-sources';
+import { SessionData, TokenUsage } from './readers/types';
+import { parseProjectName } from './ui/project-display';
+import { emptyUsage, addUsage } from './utils/token-usage-utils';
+import { logger } from '../utils/logger';
+
+/**
+ * Token and cost accounting from the `usage` blocks Claude Code writes into
+ * its session transcripts. Totals are collected per model by the session
+ * parser (see claude-parser.ts); this module prices and groups them.
+ *
+ * Prices are in USD per million tokens. The built-in table can be extended
+ * or overridden per model with `devark config --set prices.<model>=...`.
+ */
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+export type UsageGroupBy = 'session' | 'project' | 'model';
+
+export interface UsageRow {
+  key: string;
+  sessions: number;
+  usage: TokenUsage;
+  cost: number;
+}
+
+export interface UsageSessionFilter {
+  since?: Date;
+  modifiedSince?: Date;     // Includes sessions that started earlier but were active since
+  project?: string;         // Matches the project name, case-insensitive
+  projectPaths?: string[];  // Exact project directories
+}
+
+export interface UsageSummary {
+  total: UsageRow;
+  rows: UsageRow[];            // Most expensive first
+  unpricedModels: string[];    // Models without a price (counted as $0)
+}
+
+/**
+ * Matched by longest prefix, so dated IDs such as claude-sonnet-4-20250514
+ * and point releases share an entry unless a more specific one exists.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-3-opus': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 },
+};
+
+export function totalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+/**
+ * Built-in prices with the configured overrides applied
+ */
+export function getModelPriceTable(): Record<string, ModelPrice> {
+  return { ...DEFAULT_MODEL_PRICES, ...getModelPriceOverrides() };
+}
+
+/**
+ * Price for a model ID: an exact entry, otherwise the longest matching prefix
+ */
+export function findModelPrice(
+  model: string,
+  table: Record<string, ModelPrice> = getModelPriceTable()
+): ModelPrice | null {
+  if (table[model]) return table[model];
+
+  let best: string | null = null;
+  for (const key of Object.keys(table)) {
+    if (model.startsWith(key) && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best ? table[best] : null;
+}
+
+export function calculateCost(usage: TokenUsage, price: ModelPrice): number {
+  return (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheReadTokens * price.cacheRead +
+    usage.cacheWriteTokens * price.cacheWrite
+  ) / 1_000_000;
+}
+
+/**
+ * Total tokens and cost of one session's per-model usage
+ */
+export function getSessionCost(
+  tokenUsage: Record<string, TokenUsage> | undefined,
+  table: Record<string, ModelPrice> = getModelPriceTable()
+): { usage: TokenUsage; cost: number; unpricedModels: string[] } {
+  const usage = emptyUsage();
+  const unpricedModels: string[] = [];
+  let cost = 0;
+
+  for (const [model, modelUsage] of Object.entries(tokenUsage || {})) {
+    addUsage(usage, modelUsage);
+    const price = findModelPrice(model, table);
+    if (price) {
+      cost += calculateCost(modelUsage, price);
+    } else {
+      unpricedModels.push(model);
+    }
+  }
+
+  return { usage, cost, unpricedModels };
+}
+
+function getRow(rows: Map<string, UsageRow>, key: string): UsageRow {
+  let row = rows.get(key);
+  if (!row) {
+    row = { key, sessions: 0, usage: emptyUsage(), cost: 0 };
+    rows.set(key, row);
+  }
+  return row;
+}
+
+/**
+ * Group the usage of the given sessions by session, project or model.
+ * Sessions without usage data (e.g. other tools) are ignored.
+ */
+export function summarizeTokenUsage(
+  sessions: SessionData[],
+  groupBy: UsageGroupBy,
+  table: Record<string, ModelPrice> = getModelPriceTable()
+): UsageSummary {
+  const rows = new Map<string, UsageRow>();
+  const total: UsageRow = { key: 'total', sessions: 0, usage: emptyUsage(), cost: 0 };
+  const unpriced = new Set<string>();
+
+  for (const session of sessions) {
+    if (!session.tokenUsage || Object.keys(session.tokenUsage).length === 0) continue;
+    total.sessions++;
+
+    const sessionKey = groupBy === 'project' ? parseProjectName(session.projectPath) : session.id;
+    const touched = new Set<UsageRow>();
+
+    for (const [model, usage] of Object.entries(session.tokenUsage)) {
+      const price = findModelPrice(model, table);
+      const cost = price ? calculateCost(usage, price) : 0;
+      if (!price) unpriced.add(model);
+
+      addUsage(total.usage, usage);
+      total.cost += cost;
+
+      const row = getRow(rows, groupBy === 'model' ? model : sessionKey);
+      addUsage(row.usage, usage);
+      row.cost += cost;
+      touched.add(row);
+    }
+
+    // Count each session once per group it touched
+    for (const row of touched) {
+      row.sessions++;
+    }
+  }
+
+  return {
+    total,
+    rows: Array.from(rows.values()).sort((a, b) => b.cost - a.cost || totalTokens(b.usage) - totalTokens(a.usage)),
+    unpricedModels: Array.from(unpriced).sort(),
+  };
+}
+
+/**
+ * Sessions from every enabled source with their token usage, started since
+ * `filter.since`
+ */
+export async function readUsageSessions(filter: UsageSessionFilter = {}): Promise<SessionData[]> {
+  const sessions = await readAllSessions({ since: filter.since, modifiedSince: filter.modifiedSince });
+  const project = filter.project?.toLowerCase().trim();
+  const projectPaths = filter.projectPaths?.map(projectPath => path.resolve(projectPath));
+
+  return sessions.filter(session =>
+    (!project || parseProjectName(session.projectPath).toLowerCase() === project) &&
+    (!projectPaths || projectPaths.includes(path.resolve(session.projectPath)))
+  );
+}
+
+/**
+ * Per-model usage of a single transcript, e.g. the `transcript_path` Claude
+ * Code passes to the status line. Goes through the session index, so only
+ * bytes appended since the last call are parsed. Returns null when the file
+ * can't be read.
+ */
+export async function getTranscriptUsage(transcriptPath: string): Promise<Record<string, TokenUsage> | null> {
+  try {
+    const filePath = path.resolve(transcriptPath);
+    const stat = await fs.stat(filePath);
+    if (!isIndexableStat(stat)) return null;
+
+    const index = await SessionIndex.load();
+    const session = await index.readSession(filePath, stat);
+    await index.save();
+
+    return session?.tokenUsage || {};
+  } catch (error) {
+    logger.debug(`Failed to read token usage from ${transcriptPath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * 950 -> "950", 12345 -> "12.3k", 4200000 -> "4.2M"
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+}
@@ -2,9 +2,12 @@ import inquirer from 'inquirer';
 import { colors } from './styles';
 import { auth } from '../../commands/auth';
 import { sendWithTimeout } from '../../commands/send';
-import { showSessionSelector, SelectedSessionInfo } from './session-selector';
+import { showSessionSelector, SelectedSessionInfo, readSelectedSourceSessions } from './session-selector';
+import { parseProjectName } from './project-display';
 import { showPrivacyPreview } from './privacy-preview';
 import { MessageSanitizer } from '../message-sanitizer';
+import { getRedactionRules } from '../redaction-rules';
+import { CURSOR_UNKNOWN_PROJECT } from '../readers/cursor';
 import { getDashboardUrl } from '../config';
 import { displayError } from '../../utils/errors';
 import { DevArkError } from '../../utils/errors';
@@ -231,8 +234,25 @@ export async function guidedCloudSetup(): Promise<void> {
 async function processSessionsForPreview(selectedInfo: SelectedSessionInfo[]): Promise<any[]> {
   const sanitizer = new MessageSanitizer();
   const apiSessions = [];
+
+  // Sources without session files (Cursor) are re-read by ID
+  for (const session of await readSelectedSourceSessions(selectedInfo.filter(info => !info.sessionFile))) {
+    // Not uploaded, see SendOrchestrator.sanitizeSessions
+    if (session.projectPath === CURSOR_UNKNOWN_PROJECT) continue;
+    const sanitizedMessages = sanitizer.sanitizeMessages(session.messages, getRedactionRules(session.projectPath));
+    apiSessions.push({
+      tool: session.tool,
+      timestamp: session.timestamp.toISOString(),
+      duration: session.duration,
+      data: {
+        projectName: parseProjectName(session.projectPath),
+        messageSummary: JSON.stringify(sanitizedMessages),
+        messageCount: session.messageCount ?? session.messages.length,
+      },
+    });
+  }
   
-  for (const info of selectedInfo) {
+  for (const info of selectedInfo.filter(info => info.sessionFile)) {
     try {
       const filePath = path.join(info.projectPath, info.sessionFile);
       const content = await fs.readFile(filePath, 'utf-8');
@@ -271,7 +291,7 @@ async function processSessionsForPreview(selectedInfo: SelectedSessionInfo[]): P
       }
       
       // Sanitize messages for privacy
-      const sanitizedMessages = sanitizer.sanitizeMessages(messages);
+      const sanitizedMessages = sanitizer.sanitizeMessages(messages, getRedactionRules(metadata?.cwd));
       
       // Create API session format
       apiSessions.push({
@@ -7,7 +7,11 @@ import {
   installSelectedHooks,
   installSelectiveProjectHooks,
   removeProjectHooks,
-  ProjectHookConfig
+  ProjectHookConfig,
+  HookEventType,
+  HookTrigger,
+  HOOK_EVENTS,
+  HOOK_EVENT_TYPES
 } from '../hooks/hooks-controller';
 import { getHookMode, HookMode } from '../claude-settings-reader';
 import { getRecentStats } from '../hooks/hooks-stats';
@@ -17,7 +21,47 @@ import { showProjectSelectorForHooks, getProjectInfo } from './project-selector-
 import { getClaudeProjectsPath } from '../claude-core';
 import path from 'path';
 import { sendWithTimeout } from '../../commands/send';
-import { parseProjectName } from './project-display';
+import { DevArkError } from '../../utils/errors';
+import { loadTeamPolicy, isSyncModeAllowed } from '../team-policy';
+import type { SessionData } from '../readers/types';
+
+type HookChoice = 'sessionStart' | 'preCompact' | 'sessionEnd' | 'userPromptSubmit' | 'stop' | 'subagentStop';
+
+// Hook checkboxes; the last three run on every prompt or response, so they are opt-in
+const HOOK_CHOICES: Array<{ value: HookChoice; event: HookEventType; description: string; checked: boolean }> = [
+  { value: 'sessionStart', event: 'SessionStart', description: 'Sync on startup/resume/clear', checked: true },
+  { value: 'preCompact', event: 'PreCompact', description: 'Sync before compression', checked: true },
+  { value: 'sessionEnd', event: 'SessionEnd', description: 'Sync on session end', checked: true },
+  { value: 'userPromptSubmit', event: 'UserPromptSubmit', description: 'Analyze each prompt', checked: false },
+  { value: 'stop', event: 'Stop', description: 'Sync new messages after each response', checked: false },
+  { value: 'subagentStop', event: 'SubagentStop', description: 'Sync when a sub-agent finishes', checked: false }
+];
+
+// Hooks the team policy requires start checked
+function getHookCheckboxChoices() {
+  const requiredHooks = loadTeamPolicy(process.cwd())?.requiredHooks || [];
+  return HOOK_CHOICES.map(choice => ({
+    name: requiredHooks.includes(choice.event)
+      ? `${choice.event} - ${choice.description} (required by team policy)`
+      : `${choice.event} - ${choice.description}`,
+    value: choice.value,
+    checked: choice.checked || requiredHooks.includes(choice.event)
+  }));
+}
+
+function assertSyncModeAllowed(mode: HookMode): void {
+  const policy = loadTeamPolicy(process.cwd());
+  if (!isSyncModeAllowed(policy, mode)) {
+    throw new DevArkError(
+      `${policy!.name || 'Team policy'} does not allow tracking mode "${mode}"`,
+      'POLICY_VIOLATION'
+    );
+  }
+}
+
+function hasInstalledHooks(status: HooksStatus): boolean {
+  return HOOK_EVENT_TYPES.some(type => status[HOOK_EVENTS[type].key].installed);
+}
 
 /**
  * Main hooks management menu with educational approach
@@ -56,7 +100,7 @@ export async function showHooksManagementMenu(guidedMode: boolean = false): Prom
     ];
     
     // Add test option if hooks are installed
-    if (status.sessionStartHook.installed || status.preCompactHook.installed || status.sessionEndHook.installed) {
+    if (hasInstalledHooks(status)) {
       choices.push({
         name: `[4] Test hooks`,
         value: 'test'
@@ -105,7 +149,7 @@ export async function showHooksManagementMenu(guidedMode: boolean = false): Prom
         try {
           await configureTrackSelected();
           const newStatus = await getHooksStatus();
-          if (newStatus.sessionStartHook.installed || newStatus.preCompactHook.installed) {
+          if (hasInstalledHooks(newStatus)) {
             hooksWereInstalled = true;
           }
         } catch (error) {
@@ -167,7 +211,8 @@ async function displayEducationalHeader(mode: HookMode, status: HooksStatus, sta
   console.log('  📍 ' + colors.accent('SessionStart') + colors.subdued(' - Ensures nothing is lost between sessions'));
   console.log('  📦 ' + colors.accent('PreCompact') + colors.subdued(' - Syncs everything before Claude compresses context'));
   console.log('  🔚 ' + colors.accent('SessionEnd') + colors.subdued(' - Captures final state when ending a session'));
-  console.log(colors.success('  ✓ Together they provide complete coverage without duplicates\n'));
+  console.log(colors.success('  ✓ Together they provide complete coverage without duplicates'));
+  console.log(colors.subdued('  Optional: UserPromptSubmit (prompt analysis), Stop and SubagentStop (sync as you go)\n'));
   
   const docsUrl = "https://github.com/devark/devark-cli/tree/main?tab=readme-ov-file#auto-sync";
   const linkStart = `\u001b]8;;${docsUrl}\u001b\\`;
@@ -196,13 +241,12 @@ async function displayEducationalHeader(mode: HookMode, status: HooksStatus, sta
   console.log('Current Status: ' + statusColor(statusText));
   
   // Show activity stats if tracking
-  if (mode !== 'none' && (stats.sessionStartHook?.total > 0 || stats.preCompactHook?.total > 0)) {
+  const activeHooks = HOOK_EVENT_TYPES.filter(type => stats[HOOK_EVENTS[type].key]?.total > 0);
+  if (mode !== 'none' && activeHooks.length > 0) {
     console.log('');
-    if (stats.sessionStartHook?.total > 0) {
-      console.log(`  SessionStart: ${stats.sessionStartHook.total} syncs, ${stats.sessionStartHook.successRate.toFixed(1)}% success`);
-    }
-    if (stats.preCompactHook?.total > 0) {
-      console.log(`  PreCompact: ${stats.preCompactHook.total} syncs, ${stats.preCompactHook.successRate.toFixed(1)}% success`);
+    for (const type of activeHooks) {
+      const hookStats = stats[HOOK_EVENTS[type].key];
+      console.log(`  ${type}: ${hookStats.total} runs, ${hookStats.successRate.toFixed(1)}% success`);
     }
   }
   
@@ -213,6 +257,7 @@ async function displayEducationalHeader(mode: HookMode, status: HooksStatus, sta
  * Configure to track all projects with checkbox selection
  */
 async function configureTrackAll(): Promise<void> {
+  assertSyncModeAllowed('all');
   console.clear();
   console.log(colors.accent('\n✅ Global Hook Configuration\n'));
   
@@ -222,7 +267,9 @@ async function configureTrackAll(): Promise<void> {
   console.log(colors.info('Select which hooks to install globally:'));
   console.log(colors.subdued('• SessionStart: Syncs when starting/resuming work'));
   console.log(colors.subdued('• PreCompact: Syncs before context compression'));
-  console.log(colors.subdued('\nWe recommend enabling both for complete session tracking.\n'));
+  console.log(colors.subdued('• SessionEnd: Syncs when ending a session'));
+  console.log(colors.subdued('• UserPromptSubmit, Stop, SubagentStop: Optional, run on every prompt or response'));
+  console.log(colors.subdued('\nWe recommend enabling the first three for complete session tracking.\n'));
   
   // Use inquirer checkbox for hook selection
   const { selectedHooks } = await inquirer.prompt([
@@ -230,23 +277,7 @@ async function configureTrackAll(): Promise<void> {
       type: 'checkbox',
       name: 'selectedHooks',
       message: 'Choose hooks to enable:',
-      choices: [
-        {
-          name: 'SessionStart - Sync on startup/resume/clear',
-          value: 'sessionStart',
-          checked: true
-        },
-        {
-          name: 'PreCompact - Sync before compression',
-          value: 'preCompact',
-          checked: true
-        },
-        {
-          name: 'SessionEnd - Sync on session end',
-          value: 'sessionEnd',
-          checked: true
-        }
-      ]
+      choices: getHookCheckboxChoices()
     }
   ]);
   
@@ -260,14 +291,9 @@ async function configureTrackAll(): Promise<void> {
   
   // Confirm installation
   console.log('\n' + colors.info('You selected:'));
-  if (selectedHooks.includes('sessionStart')) {
-    console.log('  ✓ SessionStart hook');
-  }
-  if (selectedHooks.includes('preCompact')) {
-    console.log('  ✓ PreCompact hook');
-  }
-  if (selectedHooks.includes('sessionEnd')) {
-    console.log('  ✓ SessionEnd hook');
+  const selectedChoices = HOOK_CHOICES.filter(choice => selectedHooks.includes(choice.value));
+  for (const choice of selectedChoices) {
+    console.log(`  ✓ ${choice.event} hook`);
   }
   
   const { confirm } = await inquirer.prompt([
@@ -294,21 +320,18 @@ async function configureTrackAll(): Promise<void> {
     const selection = {
       sessionStartHook: selectedHooks.includes('sessionStart'),
       preCompactHook: selectedHooks.includes('preCompact'),
-      sessionEndHook: selectedHooks.includes('sessionEnd')
+      sessionEndHook: selectedHooks.includes('sessionEnd'),
+      userPromptSubmitHook: selectedHooks.includes('userPromptSubmit'),
+      stopHook: selectedHooks.includes('stop'),
+      subagentStopHook: selectedHooks.includes('subagentStop')
     };
 
     await installSelectedHooks(selection);
     spinner.succeed('Global hooks configured successfully!');
     
     console.log('');
-    if (selection.sessionStartHook) {
-      showSuccess('✅ SessionStart hook installed');
-    }
-    if (selection.preCompactHook) {
-      showSuccess('✅ PreCompact hook installed');
-    }
-    if (selection.sessionEndHook) {
-      showSuccess('✅ SessionEnd hook installed');
+    for (const choice of selectedChoices) {
+      showSuccess(`✅ ${choice.event} hook installed`);
     }
     
     console.log('');
@@ -329,6 +352,7 @@ async function configureTrackAll(): Promise<void> {
  * Configure to track selected projects with per-hook granularity
  */
 async function configureTrackSelected(): Promise<void> {
+  assertSyncModeAllowed('selected');
   console.clear();
   console.log(colors.accent('\n📁 Configure Project-Specific Tracking\n'));
   
@@ -381,7 +405,8 @@ async function configureTrackSelected(): Promise<void> {
     console.log(colors.info('Choose which hooks to enable for each project:'));
     console.log(colors.subdued('SessionStart: Syncs when starting/resuming work'));
     console.log(colors.subdued('PreCompact: Syncs before context compression'));
-    console.log(colors.subdued('SessionEnd: Syncs when ending a session\n'));
+    console.log(colors.subdued('SessionEnd: Syncs when ending a session'));
+    console.log(colors.subdued('UserPromptSubmit, Stop, SubagentStop: Optional, run on every prompt or response\n'));
     
     for (const project of selectedProjects) {
       console.log(colors.accent(`\n${project.name}:`));
@@ -391,11 +416,7 @@ async function configureTrackSelected(): Promise<void> {
           type: 'checkbox',
           name: 'hooks',
           message: 'Select hooks to enable:',
-          choices: [
-            { name: 'SessionStart - Sync on startup/resume', value: 'sessionStart', checked: true },
-            { name: 'PreCompact - Sync before compression', value: 'preCompact', checked: true },
-            { name: 'SessionEnd - Sync on session end', value: 'sessionEnd', checked: true }
-          ]
+          choices: getHookCheckboxChoices()
         }
       ]);
       
@@ -406,6 +427,9 @@ async function configureTrackSelected(): Promise<void> {
           sessionStart: hooks.includes('sessionStart'),
           preCompact: hooks.includes('preCompact'),
           sessionEnd: hooks.includes('sessionEnd'),
+          userPromptSubmit: hooks.includes('userPromptSubmit'),
+          stop: hooks.includes('stop'),
+          subagentStop: hooks.includes('subagentStop'),
           actualPath: (project as any).actualPath // Pass through the actual path for local settings
         } as any);
       }
@@ -433,10 +457,9 @@ async function configureTrackSelected(): Promise<void> {
     if (projectConfigs.length > 0) {
       console.log(colors.success('Projects to track:'));
       projectConfigs.forEach(config => {
-        const hooks = [];
-        if (config.sessionStart) hooks.push('SessionStart');
-        if (config.preCompact) hooks.push('PreCompact');
-        if (config.sessionEnd) hooks.push('SessionEnd');
+        const hooks = HOOK_CHOICES
+          .filter(choice => config[choice.value])
+          .map(choice => choice.event);
         console.log(`  • ${config.name}: ${hooks.join(', ')}`);
       });
     }
@@ -512,6 +535,7 @@ async function configureTrackSelected(): Promise<void> {
  * Disable all tracking
  */
 async function disableAllTracking(status: HooksStatus, stats: any): Promise<void> {
+  assertSyncModeAllowed('none');
   console.clear();
   console.log(colors.warning('\n⚠️ Disable Auto-sync\n'));
   
@@ -519,13 +543,13 @@ async function disableAllTracking(status: HooksStatus, stats: any): Promise<void
   console.log('You\'ll need to manually send sessions using main menu.\n');
   
   // Show what will be removed
-  if (status.sessionStartHook.installed || status.preCompactHook.installed) {
+  if (hasInstalledHooks(status)) {
     console.log(colors.subdued('Hooks to be removed:'));
-    if (status.sessionStartHook.installed) {
-      console.log(`  • SessionStart Hook (${stats.sessionStartHook?.total || 0} syncs in last 7 days)`);
-    }
-    if (status.preCompactHook.installed) {
-      console.log(`  • PreCompact Hook (${stats.preCompactHook?.total || 0} syncs in last 7 days)`);
+    for (const type of HOOK_EVENT_TYPES) {
+      const key = HOOK_EVENTS[type].key;
+      if (status[key].installed) {
+        console.log(`  • ${type} Hook (${stats[key]?.total || 0} runs in last 7 days)`);
+      }
     }
     console.log('');
   }
@@ -599,60 +623,32 @@ async function showDetailedStatus(status: HooksStatus, stats: any): Promise<void
   
   // Hook status
   console.log('\n' + colors.info('Hook Installation:'));
-  console.log(`  SessionStart: ${status.sessionStartHook.installed ? colors.success('✅ Installed') : colors.muted('❌ Not Installed')}`);
-  if (status.sessionStartHook.installed) {
-    console.log(`    Version: ${status.sessionStartHook.version}`);
-    console.log(`    Timeout: ${(status.sessionStartHook.timeout || 30000) / 1000}s`);
-  }
-  
-  console.log(`  PreCompact: ${status.preCompactHook.installed ? colors.success('✅ Installed') : colors.muted('❌ Not Installed')}`);
-  if (status.preCompactHook.installed) {
-    console.log(`    Version: ${status.preCompactHook.version}`);
-    console.log(`    Timeout: ${(status.preCompactHook.timeout || 30000) / 1000}s`);
-  }
-
-  console.log(`  SessionEnd: ${status.sessionEndHook.installed ? colors.success('✅ Installed') : colors.muted('❌ Not Installed')}`);
-  if (status.sessionEndHook.installed) {
-    console.log(`    Version: ${status.sessionEndHook.version}`);
-    console.log(`    Timeout: ${(status.sessionEndHook.timeout || 30000) / 1000}s`);
+  for (const type of HOOK_EVENT_TYPES) {
+    const hook = status[HOOK_EVENTS[type].key];
+    console.log(`  ${type}: ${hook.installed ? colors.success('✅ Installed') : colors.muted('❌ Not Installed')}`);
+    if (hook.installed) {
+      console.log(`    Version: ${hook.version}`);
+      console.log(`    Timeout: ${hook.timeout ? `${hook.timeout}s` : 'default (60s)'}`);
+      if (HOOK_EVENTS[type].matcher) {
+        console.log(`    Matcher: ${HOOK_EVENTS[type].matcher}`);
+      }
+    }
   }
   
   // Statistics
-  if (stats.sessionStartHook?.total > 0 || stats.preCompactHook?.total > 0 || stats.sessionEndHook?.total > 0) {
+  const activeHooks = HOOK_EVENT_TYPES.filter(type => stats[HOOK_EVENTS[type].key]?.total > 0);
+  if (activeHooks.length > 0) {
     console.log('\n' + colors.info('Activity (Last 7 Days):'));
     
-    if (stats.sessionStartHook?.total > 0) {
-      console.log('\n  SessionStart Hook:');
-      console.log(`    Total executions: ${stats.sessionStartHook.total}`);
-      console.log(`    Success rate: ${stats.sessionStartHook.successRate.toFixed(1)}%`);
-      console.log(`    Successful: ${stats.sessionStartHook.successful}`);
-      console.log(`    Failed: ${stats.sessionStartHook.failed}`);
-      if (stats.sessionStartHook.lastSuccess) {
-        const lastSuccess = new Date(stats.sessionStartHook.lastSuccess);
-        console.log(`    Last success: ${lastSuccess.toLocaleString()}`);
-      }
-    }
-    
-    if (stats.preCompactHook?.total > 0) {
-      console.log('\n  PreCompact Hook:');
-      console.log(`    Total executions: ${stats.preCompactHook.total}`);
-      console.log(`    Success rate: ${stats.preCompactHook.successRate.toFixed(1)}%`);
-      console.log(`    Successful: ${stats.preCompactHook.successful}`);
-      console.log(`    Failed: ${stats.preCompactHook.failed}`);
-      if (stats.preCompactHook.lastSuccess) {
-        const lastSuccess = new Date(stats.preCompactHook.lastSuccess);
-        console.log(`    Last success: ${lastSuccess.toLocaleString()}`);
-      }
-    }
-
-    if (stats.sessionEndHook?.total > 0) {
-      console.log('\n  SessionEnd Hook:');
-      console.log(`    Total executions: ${stats.sessionEndHook.total}`);
-      console.log(`    Success rate: ${stats.sessionEndHook.successRate.toFixed(1)}%`);
-      console.log(`    Successful: ${stats.sessionEndHook.successful}`);
-      console.log(`    Failed: ${stats.sessionEndHook.failed}`);
-      if (stats.sessionEndHook.lastSuccess) {
-        const lastSuccess = new Date(stats.sessionEndHook.lastSuccess);
+    for (const type of activeHooks) {
+      const hookStats = stats[HOOK_EVENTS[type].key];
+      console.log(`\n  ${type} Hook:`);
+      console.log(`    Total executions: ${hookStats.total}`);
+      console.log(`    Success rate: ${hookStats.successRate.toFixed(1)}%`);
+      console.log(`    Successful: ${hookStats.success}`);
+      console.log(`    Failed: ${hookStats.failure}`);
+      if (hookStats.lastSuccess) {
+        const lastSuccess = new Date(hookStats.lastSuccess);
         console.log(`    Last success: ${lastSuccess.toLocaleString()}`);
       }
     }
@@ -688,6 +684,9 @@ async function testHooksMenu(): Promise<void> {
         { name: '🚀 Test SessionStart Hook', value: 'sessionstart' },
         { name: '📦 Test PreCompact Hook', value: 'precompact' },
         { name: '🔚 Test SessionEnd Hook', value: 'sessionend' },
+        { name: '💬 Test UserPromptSubmit Hook', value: 'userpromptsubmit' },
+        { name: '⏹️  Test Stop Hook', value: 'stop' },
+        { name: '🤖 Test SubagentStop Hook', value: 'subagentstop' },
         { name: '🎯 Test All Hooks', value: 'all' }
       ]
     }
@@ -713,7 +712,7 @@ async function testHooksMenu(): Promise<void> {
       }
     }
   } else {
-    const result = await testHook(testChoice as 'sessionstart' | 'precompact', { verbose: true, record: false });
+    const result = await testHook(testChoice as HookTrigger, { verbose: true, record: false });
     displayTestResult(result);
   }
 }
@@ -811,7 +810,8 @@ async function offerInitialSync(options: {
       await sendWithTimeout({ all: true, fromMenu: true, isInitialSync: true });
     } else if (options.selectedProjects) {
       // For selected projects, directly load their sessions (like manual sync does)
-      const { readClaudeSessions } = await import('../readers/claude');
+      const { readAllSessions } = await import('../readers/session-sources');
+      const { toSelectedSessionInfo } = await import('./session-selector');
       const { discoverProjects } = await import('../claude-core');
       
       // Show which projects we're syncing
@@ -819,14 +819,14 @@ async function offerInitialSync(options: {
       
       // Discover all projects to get actual paths
       const allProjects = await discoverProjects();
-      const projectSessions: any[] = [];
+      const projectSessions: SessionData[] = [];
       
       for (const config of options.selectedProjects) {
         // Find the actual project info
         const project = allProjects.find(p => p.claudePath.endsWith(config.path));
         if (project) {
           try {
-            const sessions = await readClaudeSessions({
+            const sessions = await readAllSessions({
               projectPath: project.actualPath
             });
             projectSessions.push(...sessions);
@@ -841,14 +841,7 @@ async function offerInitialSync(options: {
         console.log(colors.success(`\nTotal: ${projectSessions.length} sessions to sync`));
         
         // Convert to the format expected by sendWithTimeout
-        const selectedSessions = projectSessions.map(s => ({
-          projectPath: s.sourceFile?.claudeProjectPath || s.projectPath,
-          sessionFile: s.sourceFile?.sessionFile || '',
-          displayName: parseProjectName(s.projectPath),
-          timestamp: s.timestamp,
-          duration: s.duration,
-          messageCount: s.messages.length
-        }));
+        const selectedSessions = projectSessions.map(toSelectedSessionInfo);
         
         // Show privacy processing message
         console.log(colors.dim('Preparing sessions for privacy-safe upload...'));
@@ -3,6 +3,9 @@ import { colors, box } from './styles';
 import { getHooksStatus, checkForHookUpdates } from '../hooks/hooks-controller';
 import { loadHookStats, formatDuration, formatRelativeTime, getTopProjects } from '../hooks/hooks-stats';
 import { validateHookCommands } from '../hooks-manager';
+import { describeBudget, formatBudgetAmount } from '../usage-budget';
+
+const BUDGET_BREACH_DAYS = 14;
 
 /**
  * Show detailed hooks status
@@ -161,6 +164,41 @@ export async function showHooksStatus(): Promise<void> {
     });
   }
   
+  // Budget Breaches Section (last two weeks)
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - BUDGET_BREACH_DAYS);
+  const breaches = (stats.budgetBreaches || [])
+    .filter(breach => new Date(breach.recordedAt) >= cutoff)
+    .reverse();
+  if (breaches.length > 0) {
+    console.log(colors.primary(box.doubleVertical) + ' '.repeat(width - 2) + colors.primary(box.doubleVertical));
+    console.log(
+      colors.primary(box.doubleVertical) +
+      colors.accent('  💳 Budget Breaches') +
+      ' '.repeat(width - 22) +
+      colors.primary(box.doubleVertical)
+    );
+    console.log(
+      colors.primary(box.doubleVertical) +
+      colors.dim('  ─────────────────') +
+      ' '.repeat(width - 21) +
+      colors.primary(box.doubleVertical)
+    );
+
+    breaches.forEach(breach => {
+      const day = new Date(breach.recordedAt).toLocaleDateString();
+      const amount = `${formatBudgetAmount(breach.unit, breach.used)}/${formatBudgetAmount(breach.unit, breach.limit)}`;
+      const breachLine = `    ${day} ${describeBudget(breach)}: ${amount}`;
+      const color = breach.level === 'exceeded' ? colors.error : colors.warning;
+      console.log(
+        colors.primary(box.doubleVertical) +
+        color(breachLine) +
+        ' '.repeat(Math.max(0, width - breachLine.length - 2)) +
+        colors.primary(box.doubleVertical)
+      );
+    });
+  }
+  
   // Tip Section
   console.log(colors.primary(box.doubleVertical) + ' '.repeat(width - 2) + colors.primary(box.doubleVertical));
   console.log(
@@ -12,6 +12,25 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
 import { getTempDirectoryPath } from '../temp-directories';
+import { summarizeGitActivity, formatCommitLine, ProjectGitActivity } from '../git-enrichment';
+import { collectOfflineReportInput, buildOfflineReport } from '../reports/offline-report';
+import {
+  ReportPlan,
+  ReportCheckpoint,
+  ReportRunTracker,
+  SessionAnalysis,
+  createCheckpoint,
+  loadCheckpoint,
+  saveCheckpoint,
+  clearCheckpoint,
+  hashSessionFile,
+  readCachedAnalysis,
+  pruneAnalysisCache
+} from '../reports/report-cache';
+import { ReportGenerator } from '../report-generator';
+import { saveOfflineReport } from '../../commands/report';
+import { REPORT_FORMATS, getReportRenderer } from '../report-renderers/report-renderer';
+import { ReportFormat } from '../report-renderers/types';
 
 interface TimeframeOption {
   name: string;
@@ -110,6 +129,34 @@ async function selectTimeframe(): Promise<{ timeframe: string; days: number }> {
   return { timeframe, days: selected?.days || 7 };
 }
 
+/**
+ * Prompt for the output formats; HTML stays the default
+ */
+async function selectReportFormats(): Promise<ReportFormat[]> {
+  const descriptions: Record<ReportFormat, string> = {
+    html: 'interactive page for the browser',
+    markdown: 'for wikis and pull requests',
+    json: 'raw report data for your own dashboards',
+    pdf: 'printable, rendered locally',
+  };
+
+  const { formats } = await inquirer.prompt([
+    {
+      type: 'checkbox',
+      name: 'formats',
+      message: 'Select report formats:',
+      choices: REPORT_FORMATS.map(format => ({
+        name: `${getReportRenderer(format).displayName} - ${descriptions[format]}`,
+        value: format,
+        checked: format === 'html'
+      })),
+      validate: (input) => input.length > 0 || 'Select at least one format'
+    }
+  ]);
+
+  return formats;
+}
+
 /**
  * Convert ClaudeProject to SelectableProject for the UI
  */
@@ -188,6 +235,365 @@ async function showSubAgentsManagement(): Promise<void> {
   }
 }
 
+/**
+ * Copy the session files of the plan to the temp directory for the
+ * sub-agents. Sessions with a cached analysis are left out of the manifest;
+ * their analyses go to cached-analyses.json instead.
+ */
+async function prepareReportSessions(
+  plan: ReportPlan,
+  tempDir: string,
+  gitActivity: ProjectGitActivity[]
+): Promise<{ copiedFiles: number; cachedAnalyses: SessionAnalysis[]; fileHashes: Record<string, string> }> {
+  // Get Claude projects directory
+  const claudeProjectsPath = path.join(os.homedir(), '.claude', 'projects');
+  const since = new Date(plan.since);
+
+  // Copy relevant session files
+  let copiedFiles = 0;
+  let totalSessions = 0;
+  const cachedAnalyses: SessionAnalysis[] = [];
+  const fileHashes: Record<string, string> = {};
+  const manifest: any = {
+    generated: new Date().toISOString(),
+    timeframe: plan.timeframe,
+    timeframeDays: plan.days,
+    projects: [],
+    sessionFiles: []
+  };
+
+  // Process each selected project
+  for (const project of plan.projects) {
+    // Extract Claude folder name from the project ID
+    // On Windows: project.id is like C:\Users\97254\.claude\projects\C--devark-devark-cli
+    // On Mac/Linux: project.id is like ~/.claude/projects/-home-user-projects-devark
+
+    let sourceDir: string;
+    let claudeFolderName: string;
+
+    if (process.platform === 'win32') {
+      // On Windows, project.id is already the full path
+      sourceDir = project.id;
+      // Extract just the folder name for prefixing files
+      claudeFolderName = path.basename(project.id);
+    } else {
+      // On Mac/Linux, extract the folder name and join with base path
+      claudeFolderName = project.id.split('/').pop() || '';
+      sourceDir = path.join(claudeProjectsPath, claudeFolderName);
+    }
+
+    try {
+      // Read all JSONL files from this project
+      const files = await fs.readdir(sourceDir);
+      const jsonlFiles = files.filter(f => f.endsWith('.jsonl'));
+
+      let projectSessionCount = 0;
+
+      // Check each session file
+      for (const file of jsonlFiles) {
+        const sourceFile = path.join(sourceDir, file);
+
+        // Quick check if session is within timeframe
+        const fileStat = await fs.stat(sourceFile);
+
+        if (fileStat.mtime >= since) {
+          const tempName = `${claudeFolderName}_${file}`;
+          projectSessionCount++;
+
+          // Unchanged sessions analyzed in an earlier run are not sent again
+          const fileHash = await hashSessionFile(sourceFile);
+          const cached = await readCachedAnalysis(fileHash);
+          if (cached) {
+            cachedAnalyses.push({ ...cached, session_file: tempName });
+            continue;
+          }
+
+          // Copy file to temp directory with project prefix
+          const destFile = path.join(tempDir, tempName);
+          await fs.copyFile(sourceFile, destFile);
+          fileHashes[tempName] = fileHash;
+
+          copiedFiles++;
+
+          // Add to manifest with size information
+          const sizeKB = parseFloat((fileStat.size / 1024).toFixed(2));
+          manifest.sessionFiles.push({
+            file: tempName,
+            project: project.name,
+            originalPath: sourceFile,
+            modified: fileStat.mtime.toISOString(),
+            sizeKB: sizeKB,
+            isLarge: fileStat.size > 100000, // Files > 100KB are considered large
+            readStrategy: fileStat.size > 100000 ? 'read_partial' : 'read_full'
+          });
+        }
+      }
+
+      // Add project info to manifest
+      manifest.projects.push({
+        name: project.name,
+        path: project.path,
+        claudePath: project.id,
+        sessionCount: projectSessionCount,
+        gitCommits: (gitActivity.find(activity => activity.projectPath === project.path)?.commits || [])
+          .map(formatCommitLine)
+      });
+
+      totalSessions += projectSessionCount;
+    } catch (err) {
+      console.log(colors.warning(`⚠️  Could not access project: ${project.name}`));
+      console.log(colors.muted(`   ${err instanceof Error ? err.message : String(err)}`));
+    }
+  }
+
+  manifest.totalSessions = totalSessions;
+  manifest.cachedSessions = cachedAnalyses.length;
+
+  console.log(colors.success(`✓ Copied ${copiedFiles} session files from selected projects`));
+  if (cachedAnalyses.length > 0) {
+    console.log(colors.success(`✓ Reusing ${cachedAnalyses.length} cached session analyses from earlier runs`));
+    await fs.writeFile(path.join(tempDir, 'cached-analyses.json'), JSON.stringify(cachedAnalyses, null, 2));
+  }
+
+  // Save lightweight manifest
+  const manifestPath = path.join(tempDir, 'manifest.json');
+  await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+
+  // Verify manifest was created
+  try {
+    const stats = await fs.stat(manifestPath);
+    const fileSize = (stats.size / 1024).toFixed(2);
+    console.log(colors.success(`✅ Manifest created successfully (${fileSize} KB)`));
+    console.log(colors.muted(`   Sessions ready for analysis in: ${tempDir}`));
+  } catch (verifyError) {
+    // Manifest doesn't exist - critical error
+    console.log(colors.error(`❌ CRITICAL: Failed to create manifest at ${manifestPath}`));
+    console.log(colors.error(`   Error: ${verifyError instanceof Error ? verifyError.message : String(verifyError)}`));
+    console.log();
+    console.log(colors.warning('Report generation cannot continue without the manifest.'));
+    process.exit(1);
+  }
+
+  return { copiedFiles, cachedAnalyses, fileHashes };
+}
+
+/**
+ * Pre-fetch the sessions and run the orchestrated prompt with Claude. Every
+ * phase is checkpointed, so an interrupted run can continue with
+ * `devark report --resume`.
+ */
+async function runClaudeReport(
+  plan: ReportPlan,
+  options: { claudePath?: string; statusLineInstalled: boolean; checkpoint?: ReportCheckpoint }
+): Promise<void> {
+  const promptContext: PromptContext = {
+    timeframe: plan.timeframe,
+    days: plan.days,
+    projectPaths: plan.projects.map(p => p.id),
+    projectNames: plan.projects.map(p => p.name),
+    statusLineInstalled: options.statusLineInstalled
+  };
+  const executableCommand = getExecutableCommand(buildOrchestratedPrompt(promptContext).prompt);
+
+  // Pre-fetch session files before executing Claude
+  console.log();
+  console.log(colors.accent('Pre-fetching session data...'));
+
+  // Get the temp report directory that will be used as cwd
+  const tempReportDir = getTempDirectoryPath('PRODUCTIVITY_REPORT');
+
+  try {
+    // Create temp directory for session files within the report directory
+    const tempDir = path.join(tempReportDir, '.devark-temp');
+
+    // Remove old temp directory if it exists
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch {
+      // Directory might not exist, that's fine
+    }
+
+    // Create fresh temp directory
+    await fs.mkdir(tempDir, { recursive: true });
+    console.log(colors.info(`📁 Created temp directory: ${tempDir}`));
+
+    // Sessions of the selected projects with the commits made during them;
+    // the offline report built from them holds the numbers, Claude narrates
+    const reportInput = await collectOfflineReportInput({
+      days: plan.days,
+      since: new Date(plan.since),
+      projectPaths: plan.projects.map(p => p.path)
+    });
+    const baseReport = buildOfflineReport(reportInput);
+    const gitActivity = summarizeGitActivity(reportInput.sessions);
+
+    await pruneAnalysisCache();
+    const prepared = await prepareReportSessions(plan, tempDir, gitActivity);
+
+    const checkpoint = options.checkpoint || createCheckpoint(plan);
+    checkpoint.phase = prepared.copiedFiles === 0 && prepared.cachedAnalyses.length > 0 ? 'analyzed' : 'prepared';
+    await saveCheckpoint(checkpoint);
+    const tracker = new ReportRunTracker(checkpoint, prepared.fileHashes);
+
+    console.log();
+
+    // Rebuild the prompt now that the cached sessions are known, and point it to the temp directory
+    const orchestrated = buildOrchestratedPrompt({
+      ...promptContext,
+      cachedSessions: prepared.cachedAnalyses.length,
+      sessionsToAnalyze: prepared.copiedFiles
+    });
+    const updatedPrompt = orchestrated.prompt.replace(
+      'Projects to analyze:',
+      `Session files have been copied to: .devark-temp/\nManifest available at: .devark-temp/manifest.json\n` +
+      `Commits made during the sessions are listed per project in the manifest (gitCommits) - tie accomplishments to them instead of guessing from file paths.\n\nProjects to analyze:`
+    );
+
+    // Execute directly with Claude
+    console.log(colors.muted(`Using orchestrated prompt (${updatedPrompt.length} characters)`));
+    console.log(colors.muted(`System prompt adds behavioral instructions (${orchestrated.systemPrompt.length} characters)`));
+
+    // Ensure temp report directory exists (already defined above)
+    await fs.mkdir(tempReportDir, { recursive: true }).catch(() => {});
+
+    await executeClaudePrompt(updatedPrompt, {
+      systemPrompt: orchestrated.systemPrompt,  // Pass the system prompt
+      cwd: tempReportDir,  // Use temp directory to isolate report generation sessions
+      claudePath: options.claudePath,  // Pass the found Claude path
+      baseReport,
+      formats: plan.formats,
+      tracker,
+      onComplete: async (code) => {
+        console.log(colors.muted(`Claude completed with exit code: ${code}`));
+
+        // Clean up temp directory
+        try {
+          const tempDir = path.join(tempReportDir, '.devark-temp');
+          await fs.rm(tempDir, { recursive: true, force: true });
+          console.log(colors.muted('Cleaned up temporary session files'));
+        } catch (e) {
+          // Ignore cleanup errors
+        }
+      },
+      onError: (error) => {
+        console.log();
+        console.log(colors.error(`${icons.error} Failed to execute Claude: ${error.message}`));
+
+        // Show detailed error for debugging
+        if (process.env.DEVARK_DEBUG || error.stack) {
+          console.log(colors.muted('Error details:'));
+          console.log(colors.muted(error.stack || error.toString()));
+        }
+
+        console.log();
+        console.log(colors.info('Please use the copy command option instead.'));
+        console.log();
+
+        // Show the command for manual execution
+        console.log(colors.info('Command to run manually:'));
+        console.log(colors.highlight(executableCommand));
+        console.log();
+
+        // Clean up temp directory before exiting
+        const tempDir = path.join(tempReportDir, '.devark-temp');
+        fs.rm(tempDir, { recursive: true, force: true }).catch(() => {
+          // Ignore cleanup errors
+        });
+
+        // Exit gracefully without recursive call
+        console.log(colors.muted('Report generation failed. Please try copying the command above.'));
+        console.log(colors.muted('Finished session analyses are cached - run `devark report --resume` to continue.'));
+      }
+    });
+  } catch (error) {
+    // This should only happen if there's an error starting Claude
+    console.log();
+    console.log(colors.error(`Failed to start Claude: ${error instanceof Error ? error.message : String(error)}`));
+
+    // Show detailed error for debugging
+    if (process.env.DEVARK_DEBUG || (error instanceof Error && error.stack)) {
+      console.log(colors.muted('Error details:'));
+      console.log(colors.muted(error instanceof Error ? error.stack : String(error)));
+    }
+
+    console.log();
+    console.log(colors.info('Please use the copy command option instead.'));
+    console.log();
+
+    // Show the command for manual execution
+    console.log(colors.info('Command to run manually:'));
+    console.log(colors.highlight(executableCommand));
+    console.log();
+
+    // Clean up temp directory before exiting
+    const tempDir = path.join(tempReportDir, '.devark-temp');
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {
+      // Ignore cleanup errors
+    });
+
+    // Exit gracefully without recursive call
+    console.log(colors.muted('Report generation failed. Please try copying the command above.'));
+  }
+}
+
+/**
+ * Continue the last interrupted Claude report from its checkpoint: a
+ * captured report is saved right away, otherwise Claude runs again and only
+ * analyzes the sessions without a cached analysis
+ */
+export async function resumeLocalReport(): Promise<void> {
+  const checkpoint = await loadCheckpoint();
+  if (!checkpoint) {
+    console.log(colors.info('No interrupted report to resume.'));
+    return;
+  }
+
+  console.log(colors.accent('\n--- Resuming Report ---'));
+  console.log();
+  console.log(colors.info(`Timeframe: ${checkpoint.timeframe} (started ${new Date(checkpoint.startedAt).toLocaleString()})`));
+  console.log(colors.info(`Projects: ${checkpoint.projects.map(p => p.name).join(', ')}`));
+  console.log(colors.info(`Last completed phase: ${checkpoint.phase}`));
+
+  if (checkpoint.phase === 'reported' && checkpoint.reportData) {
+    const reportInput = await collectOfflineReportInput({
+      days: checkpoint.days,
+      since: new Date(checkpoint.since),
+      projectPaths: checkpoint.projects.map(p => p.path)
+    });
+    const generator = new ReportGenerator();
+    generator.setFormats(checkpoint.formats);
+    generator.setBaseReport(buildOfflineReport(reportInput));
+    generator.setReportData(checkpoint.reportData);
+    const result = await generator.saveReport();
+    if (!result.success) {
+      console.log(colors.warning(`${icons.warning} Report generation failed: ${result.error}`));
+      return;
+    }
+    await clearCheckpoint();
+    console.log();
+    generator.displayCompletionMessage();
+    return;
+  }
+
+  const claudeCheck = await checkClaudeInstalled();
+  if (!claudeCheck.installed) {
+    console.log(colors.warning(`${icons.warning} Claude CLI not available - install it to resume, or run \`devark report --no-llm\``));
+    return;
+  }
+
+  const { checkInstalledSubAgents } = await import('../sub-agents/manager');
+  if ((await checkInstalledSubAgents()).missing.length > 0) {
+    console.log(colors.warning(`${icons.warning} Sub-agents are not installed - install them from the report menu first`));
+    return;
+  }
+
+  await runClaudeReport(checkpoint, {
+    claudePath: claudeCheck.path,
+    statusLineInstalled: (await getStatusLineStatus()) === 'installed',
+    checkpoint
+  });
+}
+
 export async function generateLocalReportInteractive(): Promise<void> {
   // Check if sub-agents are installed
   const { checkInstalledSubAgents } = await import('../sub-agents/manager');
@@ -240,11 +646,18 @@ export async function generateLocalReportInteractive(): Promise<void> {
     console.log('📊 Generate Local Report\n');
     console.log(colors.success('✓ Sub-agents installed\n'));
 
+    // Offer to continue a run that was interrupted
+    const checkpoint = await loadCheckpoint();
+    const resumeChoice = checkpoint
+      ? `Resume interrupted report (${checkpoint.timeframe}, ${checkpoint.projects.length} project${checkpoint.projects.length === 1 ? '' : 's'}, started ${new Date(checkpoint.startedAt).toLocaleString()})`
+      : null;
+
     const { action } = await inquirer.prompt([{
       type: 'list',
       name: 'action',
       message: 'Select an option:',
       choices: [
+        ...(resumeChoice ? [resumeChoice] : []),
         'Continue to report generation',
         new inquirer.Separator('───────────────────'),
         'Manage sub-agents',
@@ -252,6 +665,11 @@ export async function generateLocalReportInteractive(): Promise<void> {
       ]
     }]);
 
+    if (action === resumeChoice) {
+      await resumeLocalReport();
+      return;
+    }
+
     switch(action) {
       case 'Manage sub-agents':
         await showSubAgentsManagement();
@@ -328,12 +746,19 @@ export async function generateLocalReportInteractive(): Promise<void> {
     return;
   }
   
-  // Step 3: Generate report
+  // Step 3: Select output formats
+  console.log();
+  console.log(colors.accent('Step 3: Select Report Formats'));
+  console.log();
+  const formats = await selectReportFormats();
+  
+  // Step 4: Generate report
   console.clear();
   console.log(colors.accent('\n--- Generating Report ---'));
   console.log();
   console.log(colors.info(`Timeframe: ${timeframe}`));
   console.log(colors.info(`Projects: ${selectedProjects.length} selected`));
+  console.log(colors.info(`Formats: ${formats.map(format => getReportRenderer(format).displayName).join(', ')}`));
   selectedProjects.forEach(p => {
     console.log(colors.muted(`  ${icons.folder} ${p.name}`));
   });
@@ -378,7 +803,7 @@ export async function generateLocalReportInteractive(): Promise<void> {
   console.log(colors.accent('This command will orchestrate devark sub-agents to:'));
   console.log(colors.highlight('  1. Fetch and organize your Claude Code sessions into chunks'));
   console.log(colors.highlight(`  2. Run ${days > 1 ? `${Math.min(days, 7)} parallel analyzers` : '1 analyzer'} to extract patterns`));
-  console.log(colors.highlight('  3. Generate a concise HTML report'));
+  console.log(colors.highlight(`  3. Generate a concise report (${formats.map(format => getReportRenderer(format).displayName).join(', ')})`));
   if (days > 1) {
     console.log();
     console.log(colors.success(`  ⚡ Parallel execution: ${Math.min(days, 7)} sub-agents analyzers will run simultaneously!`));
@@ -394,6 +819,7 @@ export async function generateLocalReportInteractive(): Promise<void> {
     choices.push({ name: '🚀 Generate with Claude (Recommended)', value: 'execute' });
   }
   choices.push(
+    { name: '⚡ Generate without Claude (statistics only, a few seconds)', value: 'offline' },
     { name: '📋 Copy command to clipboard', value: 'copy-full' },
     { name: '👁️  View full prompt', value: 'view' },
     { name: '↩️  Return to menu', value: 'return' }
@@ -401,7 +827,7 @@ export async function generateLocalReportInteractive(): Promise<void> {
   
   // Show Claude not installed message if needed  
   if (!claudeCheck.installed) {
-    console.log(colors.muted('Claude CLI not available - using copy-to-clipboard method'));
+    console.log(colors.muted('Claude CLI not available - generate without Claude or copy the command'));
     console.log();
   }
   
@@ -415,229 +841,18 @@ export async function generateLocalReportInteractive(): Promise<void> {
     }
   ]);
   
-  if (action === 'execute') {
-    // Pre-fetch session files before executing Claude
+  if (action === 'offline') {
     console.log();
-    console.log(colors.accent('Pre-fetching session data...'));
-    
-    // Get the temp report directory that will be used as cwd
-    const tempReportDir = getTempDirectoryPath('PRODUCTIVITY_REPORT');
-    
-    try {
-      // Create temp directory for session files within the report directory
-      const tempDir = path.join(tempReportDir, '.devark-temp');
-      
-      // Remove old temp directory if it exists
-      try {
-        await fs.rm(tempDir, { recursive: true, force: true });
-      } catch {
-        // Directory might not exist, that's fine
-      }
-      
-      // Create fresh temp directory
-      await fs.mkdir(tempDir, { recursive: true });
-      console.log(colors.info(`📁 Created temp directory: ${tempDir}`));
-      
-      // Get Claude projects directory
-      const claudeProjectsPath = path.join(os.homedir(), '.claude', 'projects');
-      
-      // Copy relevant session files
-      let copiedFiles = 0;
-      let totalSessions = 0;
-      const manifest: any = {
-        generated: new Date().toISOString(),
-        timeframe: timeframe,
-        timeframeDays: days,
-        projects: [],
-        sessionFiles: []
-      };
-      
-      // Process each selected project
-      for (const project of selectedProjects) {
-        // Extract Claude folder name from the project ID
-        // On Windows: project.id is like C:\Users\97254\.claude\projects\C--devark-devark-cli
-        // On Mac/Linux: project.id is like ~/.claude/projects/-home-user-projects-devark
-        
-        let sourceDir: string;
-        let claudeFolderName: string;
-        
-        if (process.platform === 'win32') {
-          // On Windows, project.id is already the full path
-          sourceDir = project.id;
-          // Extract just the folder name for prefixing files
-          claudeFolderName = path.basename(project.id);
-        } else {
-          // On Mac/Linux, extract the folder name and join with base path
-          claudeFolderName = project.id.split('/').pop() || '';
-          sourceDir = path.join(claudeProjectsPath, claudeFolderName);
-        }
-        
-        try {
-          // Read all JSONL files from this project
-          const files = await fs.readdir(sourceDir);
-          const jsonlFiles = files.filter(f => f.endsWith('.jsonl'));
-          
-          let projectSessionCount = 0;
-          
-          // Check each session file
-          for (const file of jsonlFiles) {
-            const sourceFile = path.join(sourceDir, file);
-            
-            // Quick check if session is within timeframe
-            const fileStat = await fs.stat(sourceFile);
-            const since = new Date();
-            since.setDate(since.getDate() - days);
-            
-            if (fileStat.mtime >= since) {
-              // Copy file to temp directory with project prefix
-              const destFile = path.join(tempDir, `${claudeFolderName}_${file}`);
-              await fs.copyFile(sourceFile, destFile);
-              
-              copiedFiles++;
-              projectSessionCount++;
-              
-              // Add to manifest with size information
-              const sizeKB = parseFloat((fileStat.size / 1024).toFixed(2));
-              manifest.sessionFiles.push({
-                file: `${claudeFolderName}_${file}`,
-                project: project.name,
-                originalPath: sourceFile,
-                modified: fileStat.mtime.toISOString(),
-                sizeKB: sizeKB,
-                isLarge: fileStat.size > 100000, // Files > 100KB are considered large
-                readStrategy: fileStat.size > 100000 ? 'read_partial' : 'read_full'
-              });
-            }
-          }
-          
-          // Add project info to manifest
-          manifest.projects.push({
-            name: project.name,
-            path: project.path,
-            claudePath: project.id,
-            sessionCount: projectSessionCount
-          });
-          
-          totalSessions += projectSessionCount;
-        } catch (err) {
-          console.log(colors.warning(`⚠️  Could not access project: ${project.name}`));
-          console.log(colors.muted(`   ${err instanceof Error ? err.message : String(err)}`));
-        }
-      }
-      
-      manifest.totalSessions = totalSessions;
-      
-      console.log(colors.success(`✓ Copied ${copiedFiles} session files from selected projects`));
-      
-      // Save lightweight manifest
-      const manifestPath = path.join(tempDir, 'manifest.json');
-      await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
-      
-      // Verify manifest was created
-      try {
-        const stats = await fs.stat(manifestPath);
-        const fileSize = (stats.size / 1024).toFixed(2);
-        console.log(colors.success(`✅ Manifest created successfully (${fileSize} KB)`));
-        console.log(colors.muted(`   Sessions ready for analysis in: ${tempDir}`));
-      } catch (verifyError) {
-        // Manifest doesn't exist - critical error
-        console.log(colors.error(`❌ CRITICAL: Failed to create manifest at ${manifestPath}`));
-        console.log(colors.error(`   Error: ${verifyError instanceof Error ? verifyError.message : String(verifyError)}`));
-        console.log();
-        console.log(colors.warning('Report generation cannot continue without the manifest.'));
-        process.exit(1);
-      }
-      
-      console.log();
-      
-      // Update the prompt to reference the temp directory
-      const updatedPrompt = orchestrated.prompt.replace(
-        'Projects to analyze:',
-        `Session files have been copied to: .devark-temp/\nManifest available at: .devark-temp/manifest.json\n\nProjects to analyze:`
-      );
-      
-      // Execute directly with Claude
-      console.log(colors.muted(`Using orchestrated prompt (${updatedPrompt.length} characters)`));
-      console.log(colors.muted(`System prompt adds behavioral instructions (${orchestrated.systemPrompt.length} characters)`));
-      
-      // Ensure temp report directory exists (already defined above)
-      await fs.mkdir(tempReportDir, { recursive: true }).catch(() => {});
-      
-      await executeClaudePrompt(updatedPrompt, {
-        systemPrompt: orchestrated.systemPrompt,  // Pass the system prompt
-        cwd: tempReportDir,  // Use temp directory to isolate report generation sessions
-        claudePath: claudeCheck.path,  // Pass the found Claude path
-        onComplete: async (code) => {
-          console.log(colors.muted(`Claude completed with exit code: ${code}`));
-          
-          // Clean up temp directory
-          try {
-            const tempDir = path.join(tempReportDir, '.devark-temp');
-            await fs.rm(tempDir, { recursive: true, force: true });
-            console.log(colors.muted('Cleaned up temporary session files'));
-          } catch (e) {
-            // Ignore cleanup errors
-          }
-        },
-        onError: (error) => {
-          console.log();
-          console.log(colors.error(`${icons.error} Failed to execute Claude: ${error.message}`));
-          
-          // Show detailed error for debugging
-          if (process.env.DEVARK_DEBUG || error.stack) {
-            console.log(colors.muted('Error details:'));
-            console.log(colors.muted(error.stack || error.toString()));
-          }
-          
-          console.log();
-          console.log(colors.info('Please use the copy command option instead.'));
-          console.log();
-          
-          // Show the command for manual execution
-          console.log(colors.info('Command to run manually:'));
-          console.log(colors.highlight(executableCommand));
-          console.log();
-          
-          // Clean up temp directory before exiting
-          const tempDir = path.join(tempReportDir, '.devark-temp');
-          fs.rm(tempDir, { recursive: true, force: true }).catch(() => {
-            // Ignore cleanup errors
-          });
-          
-          // Exit gracefully without recursive call
-          console.log(colors.muted('Report generation failed. Please try copying the command above.'));
-        }
-      });
-    } catch (error) {
-      // This should only happen if there's an error starting Claude
-      console.log();
-      console.log(colors.error(`Failed to start Claude: ${error instanceof Error ? error.message : String(error)}`));
-      
-      // Show detailed error for debugging
-      if (process.env.DEVARK_DEBUG || (error instanceof Error && error.stack)) {
-        console.log(colors.muted('Error details:'));
-        console.log(colors.muted(error instanceof Error ? error.stack : String(error)));
-      }
-      
-      console.log();
-      console.log(colors.info('Please use the copy command option instead.'));
-      console.log();
-      
-      // Show the command for manual execution
-      console.log(colors.info('Command to run manually:'));
-      console.log(colors.highlight(executableCommand));
-      console.log();
-      
-      // Clean up temp directory before exiting
-      const tempDir = path.join(tempReportDir, '.devark-temp');
-      await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {
-        // Ignore cleanup errors
-      });
-      
-      // Exit gracefully without recursive call
-      console.log(colors.muted('Report generation failed. Please try copying the command above.'));
-      return;
-    }
+    await saveOfflineReport({ days, projectPaths: selectedProjects.map(p => p.path), formats });
+  } else if (action === 'execute') {
+    const plan: ReportPlan = {
+      timeframe,
+      days,
+      since: cutoffDate.toISOString(),
+      projects: selectedProjects.map(p => ({ id: p.id, name: p.name, path: p.path })),
+      formats
+    };
+    await runClaudeReport(plan, { claudePath: claudeCheck.path, statusLineInstalled: isStatusLineInstalled });
   } else if (action === 'copy-full') {
     // Try to copy full command to clipboard
     try {
@@ -1,6 +1,7 @@
 import inquirer from 'inquirer';
 import { StateDetails } from '../detector';
 import { parseProjectName } from './project-display';
+import type { SessionData } from '../readers/types';
 import { colors, icons } from './styles';
 import { createStatusDashboard } from './status-sections';
 import { generateMenuItems, MenuContext } from './menu-builder';
@@ -194,6 +195,12 @@ export async function showMainMenu(
 
   console.log(await createStatusDashboard(cloudStatus, localEngine, serverLastSessionDate));
   console.log('');
+
+  if (state.policyViolations && state.policyViolations.length > 0) {
+    console.log(colors.warning(`  ${state.teamPolicyName}:`));
+    state.policyViolations.forEach(violation => console.log(colors.warning(`  ${icons.warning} ${violation}`)));
+    console.log('');
+  }
   
   // Build context-aware menu
   const context: MenuContext = {
@@ -310,9 +317,10 @@ async function handleMenuAction(
         case 'projects': {
           // Send selected projects
           // Read sessions from selected projects
-          const { readClaudeSessions } = await import('../readers/claude');
+          const { readAllSessions } = await import('../readers/session-sources');
+          const { toSelectedSessionInfo } = await import('./session-selector');
           const { analyzeProject } = await import('../claude-core');
-          const projectSessions: any[] = [];
+          const projectSessions: SessionData[] = [];
           
           for (const claudePath of syncOption.projects) {
             try {
@@ -326,7 +334,7 @@ async function handleMenuAction(
               }
               
               // Read sessions using the actual path for filtering
-              const sessions = await readClaudeSessions({
+              const sessions = await readAllSessions({
                 projectPath: project.actualPath
               });
               projectSessions.push(...sessions);
@@ -341,14 +349,7 @@ async function handleMenuAction(
             console.log(colors.dim('Preparing sessions for privacy-safe upload...'));
             
             await sendWithTimeout({ 
-              selectedSessions: projectSessions.map(s => ({
-                projectPath: s.sourceFile?.claudeProjectPath || s.projectPath,
-                sessionFile: s.sourceFile?.sessionFile || '',
-                displayName: parseProjectName(s.projectPath),
-                timestamp: s.timestamp,
-                duration: s.duration,
-                messageCount: s.messages.length
-              })),
+              selectedSessions: projectSessions.map(toSelectedSessionInfo),
               fromMenu: true
             });
           } else {
@@ -362,6 +363,10 @@ async function handleMenuAction(
           console.log(colors.info('\nSyncing all projects...'));
           await sendWithTimeout({ all: true, fromMenu: true });
           break;
+
+        case 'flush-queue':
+          await sendWithTimeout({ flushQueue: true, fromMenu: true });
+          break;
           
         case 'cancel':
           // User cancelled
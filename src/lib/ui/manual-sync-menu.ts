@@ -1,18 +1,19 @@
 import inquirer from 'inquirer';
 import { colors } from './styles';
 import { discoverProjects } from '../claude-core';
-import { showSessionSelector, SelectedSessionInfo } from './session-selector';
-import { readClaudeSessions } from '../readers/claude';
-import { parseProjectName } from './project-display';
+import { showSessionSelector, SelectedSessionInfo, toSelectedSessionInfo, isReadableSelection } from './session-selector';
+import { readAllSessions } from '../readers/session-sources';
 import { createSpinner } from '../ui';
 import { apiClient } from '../api-client';
 import { isAuthenticated } from '../auth/token';
+import { getQueuedBatchCount } from '../upload-queue';
 
 export type ManualSyncOption =
   | { type: 'selected'; sessions: SelectedSessionInfo[] }
   | { type: 'time-based'; days: number; sessions: SelectedSessionInfo[] }
   | { type: 'projects'; projects: string[] }
   | { type: 'all' }
+  | { type: 'flush-queue' }
   | { type: 'cancel' };
 
 /**
@@ -41,6 +42,12 @@ export async function showManualSyncMenu(): Promise<ManualSyncOption> {
   console.log('');
   console.log(colors.primary('Manual sync to cloud'));
   console.log(colors.subdued('─'.repeat(20)));
+
+  // Batches saved after earlier failed uploads
+  const queuedBatches = await getQueuedBatchCount().catch(() => 0);
+  if (queuedBatches > 0) {
+    console.log(colors.warning(`📮 ${queuedBatches} upload batch${queuedBatches !== 1 ? 'es' : ''} waiting to be retried`));
+  }
   console.log('');
   
   const { action } = await inquirer.prompt([
@@ -49,6 +56,7 @@ export async function showManualSyncMenu(): Promise<ManualSyncOption> {
       name: 'action',
       message: 'What would you like to sync?',
       choices: [
+        ...(queuedBatches > 0 ? [{ name: `📮 Retry queued uploads (${queuedBatches})`, value: 'flush-queue' }] : []),
         { name: `🎯 Select specific sessions`, value: 'select' },
         { name: `📅 Last 7 days`, value: 'last7' },
         { name: `📅 Last 14 days`, value: 'last14' },
@@ -60,6 +68,9 @@ export async function showManualSyncMenu(): Promise<ManualSyncOption> {
   ]);
   
   switch (action) {
+    case 'flush-queue':
+      return { type: 'flush-queue' };
+
     case 'select': {
       // Use existing session selector
       const selectedSessions = await showSessionSelector();
@@ -112,7 +123,7 @@ export async function showManualSyncMenu(): Promise<ManualSyncOption> {
       const spinner = createSpinner(`Loading sessions from the last ${days} days...`).start();
       
       try {
-        const sessions = await readClaudeSessions({ since: sinceDate });
+        const sessions = await readAllSessions({ since: sinceDate });
         
         // Filter out sessions shorter than 4 minutes (240 seconds)
         const validSessions = sessions.filter(s => s.duration >= 240);
@@ -125,14 +136,7 @@ export async function showManualSyncMenu(): Promise<ManualSyncOption> {
         spinner.succeed(colors.success(`Found ${validSessions.length} sessions from the last ${days} days`));
         
         // Convert to SelectedSessionInfo format
-        const selectedSessions: SelectedSessionInfo[] = validSessions.map(session => ({
-          projectPath: session.sourceFile?.claudeProjectPath || '',
-          sessionFile: session.sourceFile?.sessionFile || '',
-          displayName: parseProjectName(session.projectPath),
-          duration: session.duration,
-          timestamp: session.timestamp,
-          messageCount: session.messages.length
-        })).filter(s => s.projectPath && s.sessionFile);
+        const selectedSessions: SelectedSessionInfo[] = validSessions.map(toSelectedSessionInfo).filter(isReadableSelection);
         
         console.log('');
         console.log(colors.info(`This will sync ${selectedSessions.length} sessions from the last ${days} days.`));
@@ -165,7 +169,7 @@ export async function showManualSyncMenu(): Promise<ManualSyncOption> {
       const spinner = createSpinner(`Loading sessions from the last ${days} days...`).start();
       
       try {
-        const sessions = await readClaudeSessions({ since: sinceDate });
+        const sessions = await readAllSessions({ since: sinceDate });
         
         // Filter out sessions shorter than 4 minutes (240 seconds)
         const validSessions = sessions.filter(s => s.duration >= 240);
@@ -178,14 +182,7 @@ export async function showManualSyncMenu(): Promise<ManualSyncOption> {
         spinner.succeed(colors.success(`Found ${validSessions.length} sessions from the last ${days} days`));
         
         // Convert to SelectedSessionInfo format
-        const selectedSessions: SelectedSessionInfo[] = validSessions.map(session => ({
-          projectPath: session.sourceFile?.claudeProjectPath || '',
-          sessionFile: session.sourceFile?.sessionFile || '',
-          displayName: parseProjectName(session.projectPath),
-          duration: session.duration,
-          timestamp: session.timestamp,
-          messageCount: session.messages.length
-        })).filter(s => s.projectPath && s.sessionFile);
+        const selectedSessions: SelectedSessionInfo[] = validSessions.map(toSelectedSessionInfo).filter(isReadableSelection);
         
         console.log('');
         console.log(colors.info(`This will sync ${selectedSessions.length} sessions from the last ${days} days.`));
@@ -216,13 +213,13 @@ export async function showManualSyncMenu(): Promise<ManualSyncOption> {
 
       try {
         const serverSince = await getServerLastSessionDate();
-        const sessions = await readClaudeSessions({ since: serverSince });
+        const sessions = await readAllSessions({ since: serverSince });
 
         // Filter out sessions shorter than 4 minutes (240 seconds)
         const validSessions = sessions.filter(s => s.duration >= 240);
 
         // Get unique projects
-        const projectPaths = new Set(validSessions.map(s => s.sourceFile?.claudeProjectPath).filter(Boolean));
+        const projectPaths = new Set(validSessions.map(s => s.projectPath));
 
         spinner.stop();
         console.log('');
@@ -145,7 +145,8 @@ async function testCustomPrompt(): Promise<void> {
     
     const analysis = await analyzer.analyze(customPrompt, {
       verbose: false,
-      timeout: 15000
+      timeout: 15000,
+      recordHistory: false
     });
     
     const processingTime = Date.now() - startTime;
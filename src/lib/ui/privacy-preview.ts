@@ -13,6 +13,7 @@ interface RedactionCounts {
   paths: number;
   urls: number;
   emails: number;
+  custom: number;
 }
 
 interface ApiSession {
@@ -102,6 +103,7 @@ export async function showPrivacyPreview(
     paths: 0,
     urls: 0,
     emails: 0,
+    custom: 0,
   };
   
   // Calculate total redactions across all sessions
@@ -155,6 +157,9 @@ export async function showPrivacyPreview(
   if (redactionCounts.emails > 0) {
     console.log(`  📧 ${redactionCounts.emails} email addresses`);
   }
+  if (redactionCounts.custom > 0) {
+    console.log(`  🏷️  ${redactionCounts.custom} custom rule matches`);
+  }
   
   // Show sample message if available
   if (sampleMessage) {
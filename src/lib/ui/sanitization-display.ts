@@ -71,6 +71,7 @@ export function getRedactionBreakdown(apiSessions: any[]): {
   paths: number;
   urls: number;
   emails: number;
+  custom: number;
 } {
   const counts = {
     codeBlocks: 0,
@@ -78,6 +79,7 @@ export function getRedactionBreakdown(apiSessions: any[]): {
     paths: 0,
     urls: 0,
     emails: 0,
+    custom: 0,
   };
   
   apiSessions.forEach(session => {
@@ -11,9 +11,10 @@ export class SendProgressUI {
   createSpinner(message: string) {
     if (this.silent) {
       return {
-        start: () => ({ succeed: () => {}, fail: () => {} }),
+        start: () => ({ succeed: () => {}, fail: () => {}, warn: () => {} }),
         succeed: () => {},
-        fail: () => {}
+        fail: () => {},
+        warn: () => {}
       };
     }
     return createSpinner(message);
@@ -1,11 +1,9 @@
 import inquirer from 'inquirer';
-import fs from 'fs/promises';
-import path from 'path';
-import os from 'os';
 import { colors, padRight } from './styles';
 import { formatDuration, createSpinner } from '../ui';
 import { logger } from '../../utils/logger';
-import { readClaudeSessions } from '../readers/claude';
+import { readAllSessions, readSessionsById, getSessionSource } from '../readers/session-sources';
+import { SessionData, SessionTool } from '../readers/types';
 import { formatRelativeTime, parseProjectName } from './project-display';
 
 /**
@@ -14,11 +12,67 @@ import { formatRelativeTime, parseProjectName } from './project-display';
  */
 export interface SelectedSessionInfo {
   projectPath: string;  // Claude folder path (e.g., ~/.claude/projects/-home-user-devark)
-  sessionFile: string;  // JSONL filename
+  sessionFile: string;  // JSONL filename, empty for sources without session files
   displayName: string;  // Project name for UI display
   duration: number;     // Duration in seconds for UI display
   timestamp: Date;      // Session timestamp for UI display
   messageCount: number; // Number of messages for UI display
+  tool?: SessionTool;   // Source of the session (Claude Code when missing)
+  sessionId?: string;   // Re-read by ID when there is no session file (Cursor)
+}
+
+/**
+ * Identifiers for re-reading a session later. Claude sessions point to their
+ * JSONL file; other sources are re-read by session ID.
+ */
+export function toSelectedSessionInfo(session: SessionData): SelectedSessionInfo {
+  const fromFile = session.tool === 'claude_code' && session.sourceFile;
+  return {
+    projectPath: fromFile ? session.sourceFile!.claudeProjectPath : session.projectPath,
+    sessionFile: fromFile ? session.sourceFile!.sessionFile : '',
+    displayName: parseProjectName(session.projectPath),
+    duration: session.duration,
+    timestamp: session.timestamp,
+    messageCount: session.messageCount ?? session.messages.length,
+    tool: session.tool,
+    sessionId: fromFile ? undefined : session.id
+  };
+}
+
+/**
+ * Selected sessions of sources without session files (Cursor), re-read by ID.
+ * Sessions that can't be found are logged and left out.
+ */
+export async function readSelectedSourceSessions(selectedInfo: SelectedSessionInfo[]): Promise<SessionData[]> {
+  const byTool = new Map<SessionTool, SelectedSessionInfo[]>();
+  for (const info of selectedInfo) {
+    if (info.tool && info.sessionId) {
+      byTool.set(info.tool, [...(byTool.get(info.tool) || []), info]);
+    }
+  }
+
+  const sessions: SessionData[] = [];
+  for (const [tool, infos] of byTool) {
+    const ids = infos.flatMap(info => info.sessionId ? [info.sessionId] : []);
+    const since = new Date(Math.min(...infos.map(info => info.timestamp.getTime())));
+    try {
+      const found = await readSessionsById(tool, ids, since);
+      if (found.length < ids.length) {
+        logger.warn(`${ids.length - found.length} selected ${tool} session(s) could not be found`);
+      }
+      sessions.push(...found);
+    } catch (error) {
+      logger.warn(`Failed to read selected ${tool} sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  return sessions;
+}
+
+/**
+ * Whether the session can be found again (file or ID)
+ */
+export function isReadableSelection(info: SelectedSessionInfo): boolean {
+  return info.sessionFile ? !!info.projectPath : !!info.sessionId;
 }
 
 interface SessionGroup {
@@ -26,40 +80,23 @@ interface SessionGroup {
   sessions: SessionInfo[];
 }
 
-interface SessionInfo {
-  projectPath: string;
-  sessionFile: string;
-  displayName: string;
+interface SessionInfo extends SelectedSessionInfo {
   summary?: string;     // Session title/summary if available
-  duration: number;
-  timestamp: Date;
-  messageCount: number;
   timeRange: string;
 }
 
 /**
  * Show interactive session selector without requiring authentication
- * Reads sessions directly from ~/.claude/projects/
+ * Reads sessions from every enabled source (Claude Code, Cursor, ...)
  * Returns session identifiers for memory-efficient processing
  */
 export async function showSessionSelector(): Promise<SelectedSessionInfo[]> {
-  const claudePath = path.join(os.homedir(), '.claude', 'projects');
-  
-  // Check if Claude directory exists
-  try {
-    await fs.access(claudePath);
-  } catch {
-    console.log(colors.warning('\nNo Claude Code sessions found.'));
-    console.log(colors.subdued('Make sure you have used Claude Code at least once.'));
-    return [];
-  }
-  
   // Show spinner while loading sessions
-  const spinner = createSpinner('Looking for Claude Code sessions...').start();
+  const spinner = createSpinner('Looking for sessions...').start();
   
   try {
     // Read all available sessions
-    const allSessions = await readAvailableSessions(claudePath);
+    const allSessions = await readAvailableSessions();
     
     if (allSessions.length === 0) {
       spinner.fail(colors.warning('No sessions longer than 4 minutes found in the last 7 days.'));
@@ -67,7 +104,7 @@ export async function showSessionSelector(): Promise<SelectedSessionInfo[]> {
       return [];
     }
     
-    spinner.succeed(colors.success(`Found Claude Code sessions`));
+    spinner.succeed(colors.success(`Found ${allSessions.length} sessions`));
     console.log('');
     
     // Group sessions by time period
@@ -120,18 +157,10 @@ export async function showSessionSelector(): Promise<SelectedSessionInfo[]> {
  * Quick helper to select today's sessions only
  */
 export async function selectTodaysSessions(): Promise<SelectedSessionInfo[]> {
-  const claudePath = path.join(os.homedir(), '.claude', 'projects');
-  
-  try {
-    await fs.access(claudePath);
-  } catch {
-    return [];
-  }
-  
   const spinner = createSpinner('Loading today\'s sessions...').start();
   
   try {
-    const allSessions = await readAvailableSessions(claudePath);
+    const allSessions = await readAvailableSessions();
     const grouped = groupSessionsByTime(allSessions);
     const todayGroup = grouped.find(g => g.label === 'Today');
     
@@ -150,58 +179,46 @@ export async function selectTodaysSessions(): Promise<SelectedSessionInfo[]> {
 }
 
 /**
- * Read all available sessions from Claude projects directory
+ * Read the sessions of the last 7 days from every enabled source
  */
-async function readAvailableSessions(_claudePath: string): Promise<SessionInfo[]> {
+async function readAvailableSessions(): Promise<SessionInfo[]> {
   const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
   const MIN_DURATION_SECONDS = 240; // 4 minutes minimum
   
   try {
     // Use the optimized reader with date filtering
-    const claudeSessions = await readClaudeSessions({ since: sevenDaysAgo });
+    const allSessions = await readAllSessions({ since: sevenDaysAgo });
     
     // Filter out sessions shorter than 4 minutes
-    const validSessions = claudeSessions.filter(session => session.duration >= MIN_DURATION_SECONDS);
+    const validSessions = allSessions.filter(session => session.duration >= MIN_DURATION_SECONDS);
     
     // Log if sessions were filtered
-    const filteredCount = claudeSessions.length - validSessions.length;
+    const filteredCount = allSessions.length - validSessions.length;
     if (filteredCount > 0) {
       logger.debug(`Filtered out ${filteredCount} session(s) shorter than 4 minutes`);
     }
     
     // Convert SessionData to SessionInfo format
     const sessions: SessionInfo[] = validSessions.map(session => {
-      // Extract display name from project path
-      const displayName = parseProjectName(session.projectPath);
-      
-      // Calculate time range from messages
+      // Calculate time range from the session start and its last message
+      // (indexed and long sessions don't hold every message)
       let timeRange = '';
-      if (session.messages.length > 0) {
-        const firstMsg = session.messages[0];
-        const lastMsg = session.messages[session.messages.length - 1];
-        timeRange = `${firstMsg.timestamp.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}-${lastMsg.timestamp.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`;
+      const end = session.lastTimestamp || session.messages[session.messages.length - 1]?.timestamp;
+      if (end) {
+        timeRange = `${session.timestamp.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}-${end.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`;
       }
       
       // Extract summary if available (would need to be added to SessionData if needed)
       // For now, we'll leave it undefined
       const summary = undefined;
       
-      return {
-        projectPath: session.sourceFile?.claudeProjectPath || '',
-        sessionFile: session.sourceFile?.sessionFile || '',
-        displayName,
-        summary,
-        duration: session.duration,
-        timestamp: session.timestamp,
-        messageCount: session.messages.length,
-        timeRange
-      };
-    }).filter(s => s.projectPath && s.sessionFile); // Filter out any sessions without source info
+      return { ...toSelectedSessionInfo(session), summary, timeRange };
+    }).filter(isReadableSelection); // Filter out any sessions without source info
     
     // Sort by timestamp, newest first
     return sessions.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   } catch (error) {
-    logger.error('Error reading Claude sessions:', error);
+    logger.error('Error reading sessions:', error);
     return [];
   }
 }
@@ -294,7 +311,8 @@ async function selectSessionsManually(groups: SessionGroup[]): Promise<SelectedS
         colors.subdued(padRight(formatRelativeTime(session.timestamp), 12)) +
         colors.accent(padRight(formatDuration(session.duration), 10)) +
         colors.dim(padRight(`${session.messageCount}`, 10)) +
-        colors.primary(session.displayName);
+        colors.primary(session.displayName) +
+        (session.tool && session.tool !== 'claude_code' ? colors.dim(` (${getSessionSource(session.tool)?.displayName || session.tool})`) : '');
       
       choices.push({
         name: label,
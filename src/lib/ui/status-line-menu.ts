@@ -91,10 +91,10 @@ async function displayEducationalHeader(config: StatusLineConfig): Promise<void>
     const personalityName = getPersonalityDisplayName(personality.personality);
     console.log(`${personalityIcon} Personality: ${colors.accent(personalityName)}`);
     
-    // Check and display ccusage status
+    // Check and display usage metrics status
     const ccusageConfig = await getCCUsageConfig();
     if (ccusageConfig.enabled) {
-      console.log(`💰 Usage Metrics: ${colors.success('Enabled (powered by ccusage)')}`);
+      console.log(`💰 Usage Metrics: ${colors.success('Enabled')}`);
     }
   }
   
@@ -560,17 +560,17 @@ export async function showStatusLineMenu(): Promise<void> {
         value: 'reinstall'
       });
       
-      // Add ccusage toggle option
+      // Add usage metrics toggle option
       const ccusageConfig = await getCCUsageConfig();
       
       if (ccusageConfig.enabled) {
         choices.push({
-          name: `💰 Disable token usage metrics (ccusage)`,
+          name: `💰 Disable token usage metrics`,
           value: 'disable-ccusage'
         });
       } else {
         choices.push({
-          name: `💰 Enable token usage metrics (ccusage)`,
+          name: `💰 Enable token usage metrics`,
           value: 'enable-ccusage'
         });
       }
@@ -626,16 +626,15 @@ export async function showStatusLineMenu(): Promise<void> {
       case 'enable-ccusage':
         try {
           console.log('');
-          console.log(colors.muted('Enabling ccusage integration...'));
+          console.log(colors.muted('Enabling token usage metrics...'));
           await enableCCUsage();
           console.log('');
-          showSuccess('ccusage metrics enabled!');
+          showSuccess('Token usage metrics enabled!');
           console.log(colors.dim('\n  Token usage will now appear in your status line'));
-          console.log(colors.dim('  Powered by ccusage 🙌 - npmjs.com/package/ccusage'));
-          console.log(colors.dim('  Note: ccusage may take a moment to calculate on first use'));
+          console.log(colors.dim('  Calculated from your local session transcripts - see all sessions with: devark usage'));
         } catch (error) {
           console.log('');
-          showError('Failed to enable ccusage');
+          showError('Failed to enable token usage metrics');
           if (error instanceof Error) {
             console.log(colors.dim(`  ${error.message}`));
           }
@@ -646,14 +645,14 @@ export async function showStatusLineMenu(): Promise<void> {
       case 'disable-ccusage':
         try {
           console.log('');
-          console.log(colors.muted('Disabling ccusage integration...'));
+          console.log(colors.muted('Disabling token usage metrics...'));
           await disableCCUsage();
           console.log('');
-          showInfo('ccusage metrics disabled');
+          showInfo('Token usage metrics disabled');
           console.log(colors.dim('\n  Token usage will no longer appear in status line'));
         } catch (error) {
           console.log('');
-          showError('Failed to disable ccusage');
+          showError('Failed to disable token usage metrics');
           if (error instanceof Error) {
             console.log(colors.dim(`  ${error.message}`));
           }
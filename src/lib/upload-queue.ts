@@ -0,0 +1,186 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { homedir } from 'os';
+import { AxiosError } from 'axios';
+import { apiClient, Session, isRetryableUploadError } from './api-client';
+import { logger } from '../utils/logger';
+
+/**
+ * Durable outbox for sanitized upload batches.
+ *
+ * When a batch can't be uploaded (network drop, 5xx, laptop asleep during a
+ * SessionEnd hook) it is written to ~/.devark/upload-queue/<checksum>.json and
+ * replayed later with exponential backoff. Batches are keyed by checksum, so
+ * queueing the same batch twice is a no-op, and replaying a batch the server
+ * already stored only shows up in its `duplicates` count.
+ */
+
+const BASE_BACKOFF_MS = 60 * 1000;         // 1 minute
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000; // 6 hours
+const MAX_ATTEMPTS = 20;
+// Client errors that say nothing about the payload itself (auth, rate limits)
+const TRANSIENT_CLIENT_STATUSES = [401, 403, 408, 429];
+
+export interface QueuedBatch {
+  checksum: string;
+  sessions: Session[];
+  queuedAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export interface FlushResult {
+  uploaded: number;    // Batches accepted by the server
+  created: number;     // New sessions created
+  duplicates: number;  // Sessions the server already had
+  failed: number;      // Batches that failed again and stay queued
+  dropped: number;     // Batches the server rejected or that ran out of attempts
+  remaining: number;   // Batches still waiting
+}
+
+export function getUploadQueueDir(): string {
+  return path.join(homedir(), '.devark', 'upload-queue');
+}
+
+function batchPath(checksum: string): string {
+  return path.join(getUploadQueueDir(), `${checksum}.json`);
+}
+
+function getBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_BACKOFF_MS);
+}
+
+function shouldKeepBatch(error: unknown): boolean {
+  if (isRetryableUploadError(error)) return true;
+  const status = error instanceof AxiosError ? error.response?.status : undefined;
+  return status === undefined || TRANSIENT_CLIENT_STATUSES.includes(status);
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function writeBatch(batch: QueuedBatch): Promise<void> {
+  const filePath = batchPath(batch.checksum);
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(batch), { mode: 0o600 });
+  await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * Save batches to the queue. Batches that are already queued are left as they are.
+ * @returns number of newly queued batches
+ */
+export async function enqueueBatches(batches: Session[][], error?: unknown): Promise<number> {
+  await fs.mkdir(getUploadQueueDir(), { recursive: true, mode: 0o700 });
+
+  const now = Date.now();
+  let added = 0;
+
+  for (const sessions of batches) {
+    const checksum = apiClient.getBatchChecksum(sessions);
+    try {
+      await fs.access(batchPath(checksum));
+      continue; // Already queued
+    } catch {
+      // Not queued yet
+    }
+
+    await writeBatch({
+      checksum,
+      sessions,
+      queuedAt: new Date(now).toISOString(),
+      attempts: 1,
+      nextAttemptAt: new Date(now + getBackoffMs(1)).toISOString(),
+      lastError: error ? describeError(error) : undefined,
+    });
+    added++;
+  }
+
+  logger.debug(`Queued ${added} upload batch(es) for retry`);
+  return added;
+}
+
+/**
+ * All queued batches, oldest first. Unreadable files are skipped.
+ */
+export async function getQueuedBatches(): Promise<QueuedBatch[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getUploadQueueDir());
+  } catch {
+    return [];
+  }
+
+  const batches: QueuedBatch[] = [];
+  for (const file of files.filter(f => f.endsWith('.json'))) {
+    try {
+      const content = await fs.readFile(path.join(getUploadQueueDir(), file), 'utf-8');
+      batches.push(JSON.parse(content));
+    } catch (error) {
+      logger.debug(`Skipping unreadable queued batch ${file}:`, error);
+    }
+  }
+
+  return batches.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+export async function getQueuedBatchCount(): Promise<number> {
+  return (await getQueuedBatches()).length;
+}
+
+/**
+ * Replay queued batches.
+ * @param force - ignore backoff and try every batch now (`send --flush-queue`)
+ */
+export async function flushUploadQueue(options: { force?: boolean } = {}): Promise<FlushResult> {
+  const batches = await getQueuedBatches();
+  const result: FlushResult = { uploaded: 0, created: 0, duplicates: 0, failed: 0, dropped: 0, remaining: 0 };
+  const now = Date.now();
+
+  for (const [index, batch] of batches.entries()) {
+    if (!options.force && new Date(batch.nextAttemptAt).getTime() > now) {
+      result.remaining++;
+      continue;
+    }
+
+    try {
+      const response = await apiClient.uploadQueuedBatch(batch.sessions, batch.checksum);
+      result.uploaded++;
+      result.created += response.created || 0;
+      result.duplicates += response.duplicates || 0;
+      await fs.rm(batchPath(batch.checksum), { force: true });
+    } catch (error) {
+      const attempts = batch.attempts + 1;
+
+      if (!shouldKeepBatch(error) || attempts >= MAX_ATTEMPTS) {
+        // The server rejected the payload itself; replaying it won't help
+        logger.error(`Dropping queued upload batch ${batch.checksum.slice(0, 8)}: ${describeError(error)}`);
+        await fs.rm(batchPath(batch.checksum), { force: true });
+        result.dropped++;
+        continue;
+      }
+
+      await writeBatch({
+        ...batch,
+        attempts,
+        nextAttemptAt: new Date(Date.now() + getBackoffMs(attempts)).toISOString(),
+        lastError: describeError(error),
+      });
+      result.failed++;
+      result.remaining++;
+
+      // Still offline: leave the rest for the next run instead of timing out on each
+      if (error instanceof AxiosError && !error.response) {
+        result.remaining += batches.length - index - 1;
+        break;
+      }
+    }
+  }
+
+  if (batches.length > 0) {
+    logger.debug('Upload queue flushed', result);
+  }
+  return result;
+}
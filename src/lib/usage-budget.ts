@@ -0,0 +1,307 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { homedir } from 'os';
+import { getUsageBudgets } from './config';
+import {
+  readUsageSessions,
+  findModelPrice,
+  calculateCost,
+  totalTokens,
+  getModelPriceTable,
+  formatCost,
+  formatTokenCount,
+  ModelPrice,
+} from './token-usage';
+import { SessionData } from './readers/types';
+import { parseProjectName } from './ui/project-display';
+import { logger } from '../utils/logger';
+import { getLocalDateString } from './utils/date-utils';
+
+/**
+ * Daily and weekly spending guardrails, in dollars or tokens, for all
+ * projects together and per project. Usage is taken from the per-day token
+ * totals of the Claude sessions (see claude-parser.ts), so a long session
+ * that spans midnight counts towards both days.
+ *
+ * Weeks start on Monday, days at local midnight.
+ */
+
+export type BudgetPeriod = 'daily' | 'weekly';
+export type BudgetUnit = 'usd' | 'tokens';
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetLimits {
+  usd?: number;
+  tokens?: number;
+}
+
+export interface BudgetSettings {
+  daily?: BudgetLimits;
+  weekly?: BudgetLimits;
+}
+
+/**
+ * Stored in the config as `usageBudgets`; project keys are project folder names
+ */
+export interface UsageBudgets {
+  global?: BudgetSettings;
+  projects?: Record<string, BudgetSettings>;
+}
+
+export interface BudgetCheck {
+  scope: 'global' | 'project';
+  project?: string;
+  period: BudgetPeriod;
+  periodKey: string;     // Day (YYYY-MM-DD), or the Monday of the week
+  unit: BudgetUnit;
+  limit: number;
+  used: number;
+  remaining: number;     // Never negative
+  percent: number;       // Of the limit, may exceed 100
+  level: BudgetLevel;
+}
+
+export interface BudgetStatus {
+  project?: string;
+  computedAt: string;
+  level: BudgetLevel;    // Worst level of all checks
+  checks: BudgetCheck[];
+}
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'weekly'];
+export const BUDGET_WARNING_PERCENT = 80;
+
+const BUDGET_STATUS_CACHE_MS = 60000;
+const LEVEL_ORDER: BudgetLevel[] = ['ok', 'warning', 'exceeded'];
+
+/**
+ * Local midnight that starts the period containing `now`
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  if (period === 'weekly') {
+    // getDay(): 0 = Sunday, so Sunday goes back six days to Monday
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+  return start;
+}
+
+export function hasBudgets(budgets: UsageBudgets): boolean {
+  const hasLimits = (settings?: BudgetSettings) =>
+    BUDGET_PERIODS.some(period => settings?.[period]?.usd !== undefined || settings?.[period]?.tokens !== undefined);
+  return hasLimits(budgets.global) || Object.values(budgets.projects || {}).some(hasLimits);
+}
+
+/**
+ * Budgets for a project, matched by folder name, case-insensitive
+ */
+function findProjectBudget(budgets: UsageBudgets, project: string): [string, BudgetSettings] | null {
+  const wanted = project.toLowerCase();
+  const entry = Object.entries(budgets.projects || {}).find(([name]) => name.toLowerCase() === wanted);
+  return entry || null;
+}
+
+/**
+ * Dollars and tokens used from `sinceDay` (inclusive) on
+ */
+function sumUsage(
+  sessions: SessionData[],
+  sinceDay: string,
+  table: Record<string, ModelPrice>
+): { usd: number; tokens: number } {
+  let usd = 0;
+  let tokens = 0;
+
+  for (const session of sessions) {
+    for (const [day, models] of Object.entries(session.dailyTokenUsage || {})) {
+      if (day < sinceDay) continue;
+      for (const [model, usage] of Object.entries(models)) {
+        tokens += totalTokens(usage);
+        const price = findModelPrice(model, table);
+        if (price) usd += calculateCost(usage, price);
+      }
+    }
+  }
+
+  return { usd, tokens };
+}
+
+function toLevel(percent: number): BudgetLevel {
+  if (percent >= 100) return 'exceeded';
+  if (percent >= BUDGET_WARNING_PERCENT) return 'warning';
+  return 'ok';
+}
+
+function worstLevel(checks: BudgetCheck[]): BudgetLevel {
+  return checks.reduce<BudgetLevel>(
+    (worst, check) => LEVEL_ORDER.indexOf(check.level) > LEVEL_ORDER.indexOf(worst) ? check.level : worst,
+    'ok'
+  );
+}
+
+/**
+ * Compare the usage of the given sessions with the global budgets and, when
+ * a project is given, with that project's budgets
+ */
+export function evaluateBudgets(
+  sessions: SessionData[],
+  budgets: UsageBudgets,
+  project?: string,
+  now: Date = new Date(),
+  table: Record<string, ModelPrice> = getModelPriceTable()
+): BudgetStatus {
+  const scopes: Array<{ scope: BudgetCheck['scope']; project?: string; settings: BudgetSettings; sessions: SessionData[] }> = [];
+
+  if (budgets.global) {
+    scopes.push({ scope: 'global', settings: budgets.global, sessions });
+  }
+
+  const projectBudget = project ? findProjectBudget(budgets, project) : null;
+  if (projectBudget) {
+    const [name, settings] = projectBudget;
+    scopes.push({
+      scope: 'project',
+      project: name,
+      settings,
+      sessions: sessions.filter(session => parseProjectName(session.projectPath).toLowerCase() === name.toLowerCase()),
+    });
+  }
+
+  const checks: BudgetCheck[] = [];
+  for (const { scope, project: scopeProject, settings, sessions: scopeSessions } of scopes) {
+    for (const period of BUDGET_PERIODS) {
+      const limits = settings[period];
+      if (!limits) continue;
+
+      const periodKey = getLocalDateString(getPeriodStart(period, now));
+      const used = sumUsage(scopeSessions, periodKey, table);
+
+      for (const unit of ['usd', 'tokens'] as BudgetUnit[]) {
+        const limit = limits[unit];
+        if (limit === undefined || limit <= 0) continue;
+
+        const percent = (used[unit] / limit) * 100;
+        checks.push({
+          scope,
+          project: scopeProject,
+          period,
+          periodKey,
+          unit,
+          limit,
+          used: used[unit],
+          remaining: Math.max(0, limit - used[unit]),
+          percent,
+          level: toLevel(percent),
+        });
+      }
+    }
+  }
+
+  return {
+    project,
+    computedAt: now.toISOString(),
+    level: worstLevel(checks),
+    checks,
+  };
+}
+
+/**
+ * The check closest to (or furthest over) its limit
+ */
+export function getTightestCheck(status: BudgetStatus): BudgetCheck | null {
+  return status.checks.reduce<BudgetCheck | null>(
+    (tightest, check) => !tightest || check.percent > tightest.percent ? check : tightest,
+    null
+  );
+}
+
+/**
+ * Read this week's sessions and evaluate the configured budgets.
+ * Returns null when no budgets are configured.
+ */
+export async function getBudgetStatus(projectPath?: string, now: Date = new Date()): Promise<BudgetStatus | null> {
+  const budgets = getUsageBudgets();
+  if (!hasBudgets(budgets)) return null;
+
+  // The week always contains today, so one read covers both periods
+  const sessions = await readUsageSessions({ modifiedSince: getPeriodStart('weekly', now) });
+  return evaluateBudgets(sessions, budgets, projectPath ? parseProjectName(projectPath) : undefined, now);
+}
+
+function getBudgetCachePath(): string {
+  return path.join(homedir(), '.devark', 'budget-status.json');
+}
+
+/**
+ * Budget status for the status line, recomputed at most once a minute per
+ * project. `onRefresh` runs only when the status was recomputed.
+ */
+export async function getCachedBudgetStatus(
+  projectPath: string | undefined,
+  onRefresh?: (status: BudgetStatus) => Promise<void>
+): Promise<BudgetStatus | null> {
+  if (!hasBudgets(getUsageBudgets())) return null;
+
+  const key = projectPath ? parseProjectName(projectPath).toLowerCase() : '*';
+  const cachePath = getBudgetCachePath();
+  let cache: Record<string, BudgetStatus> = {};
+
+  try {
+    cache = JSON.parse(await fs.readFile(cachePath, 'utf8'));
+    const cached = cache[key];
+    if (cached && Date.now() - new Date(cached.computedAt).getTime() < BUDGET_STATUS_CACHE_MS) {
+      return cached;
+    }
+  } catch {
+    // No cache yet or unreadable - recompute
+  }
+
+  const status = await getBudgetStatus(projectPath);
+  if (!status) return null;
+
+  try {
+    cache[key] = status;
+    await fs.mkdir(path.dirname(cachePath), { recursive: true });
+    await fs.writeFile(cachePath, JSON.stringify(cache), 'utf8');
+    await onRefresh?.(status);
+  } catch (error) {
+    logger.debug('Failed to cache budget status:', error);
+  }
+
+  return status;
+}
+
+export function formatBudgetAmount(unit: BudgetUnit, value: number): string {
+  return unit === 'usd' ? formatCost(value) : `${formatTokenCount(Math.round(value))} tokens`;
+}
+
+/**
+ * "Daily budget", "Weekly budget for devark" ...
+ */
+export function describeBudget(check: Pick<BudgetCheck, 'scope' | 'project' | 'period'>): string {
+  const period = check.period === 'daily' ? 'Daily' : 'Weekly';
+  return check.scope === 'project' ? `${period} budget for ${check.project}` : `${period} budget`;
+}
+
+/**
+ * "$3.75 of $5.00 used (75%)"
+ */
+export function formatBudgetUsage(check: BudgetCheck): string {
+  return `${formatBudgetAmount(check.unit, check.used)} of ${formatBudgetAmount(check.unit, check.limit)} used (${Math.round(check.percent)}%)`;
+}
+
+export function formatBudgetRemaining(check: BudgetCheck): string {
+  return `${formatBudgetAmount(check.unit, check.remaining)} left`;
+}
+
+/**
+ * Message for the SessionStart hook when a budget is already used up, or null
+ */
+export function getBudgetExceededMessage(status: BudgetStatus): string | null {
+  const exceeded = status.checks.filter(check => check.level === 'exceeded');
+  if (exceeded.length === 0) return null;
+
+  const details = exceeded.map(check => `${describeBudget(check)}: ${formatBudgetUsage(check)}`);
+  return `devark: over budget - ${details.join('; ')}`;
+}
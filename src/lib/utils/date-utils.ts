@@ -0,0 +1,10 @@
+/**
+ * Local date (YYYY-MM-DD). Uses the local timezone, unlike toISOString(), so
+ * late-night activity lands on the day the user saw it.
+ */
+export function getLocalDateString(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,13 @@
+import { TokenUsage } from '../readers/types';
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+}
+
+export function addUsage(target: TokenUsage, usage: TokenUsage): TokenUsage {
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.cacheReadTokens += usage.cacheReadTokens;
+  target.cacheWriteTokens += usage.cacheWriteTokens;
+  return target;
+}
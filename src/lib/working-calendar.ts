@@ -0,0 +1,243 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DevArkError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { getLocalDateString } from './utils/date-utils';
+
+/**
+ * Working calendar for standups: which weekdays are worked, public holidays
+ * (from an ICS or JSON file) and personal days off. "Yesterday" in a standup
+ * is the previous day that is a working day by this calendar.
+ *
+ * Days are local calendar days written as YYYY-MM-DD.
+ */
+
+/**
+ * Stored in the config as `workingCalendar`
+ */
+export interface WorkingCalendarSettings {
+  workweek?: number[];      // Date.getDay() numbers, 0 = Sunday; default Monday-Friday
+  holidaysFile?: string;    // .ics or .json holiday list
+  pto?: string[];           // YYYY-MM-DD or YYYY-MM-DD..YYYY-MM-DD
+}
+
+export interface WorkingCalendar {
+  workweek: number[];
+  holidays: Set<string>;
+  pto: Set<string>;
+}
+
+export const DEFAULT_WORKWEEK = [1, 2, 3, 4, 5];
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  workweek: DEFAULT_WORKWEEK,
+  holidays: new Set(),
+  pto: new Set(),
+};
+
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+// Long enough for any real vacation, short enough to stop on a broken calendar
+const MAX_DAYS_BACK = 366;
+
+function parseDay(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Reject overflow like 2026-02-31
+  return date.getDate() === Number(match[3]) && date.getMonth() === Number(match[2]) - 1 ? date : null;
+}
+
+/**
+ * Every day from `start` up to and including `end`
+ */
+function expandDays(start: Date, end: Date): string[] {
+  const days: string[] = [];
+  const day = new Date(start);
+  while (day <= end && days.length <= MAX_DAYS_BACK) {
+    days.push(getLocalDateString(day));
+    day.setDate(day.getDate() + 1);
+  }
+  return days;
+}
+
+/**
+ * Parse a workweek like "mon-fri", "sun-thu" or "mon,tue,thu,fri"
+ */
+export function parseWorkweek(value: string): number[] {
+  const days = new Set<number>();
+  const dayIndex = (name: string) => WEEKDAY_NAMES.indexOf(name.trim().toLowerCase().slice(0, 3));
+
+  for (const part of value.split(',')) {
+    const [from, to] = part.split('-');
+    const start = dayIndex(from);
+    const end = to === undefined ? start : dayIndex(to);
+    if (!from.trim() || start === -1 || end === -1) {
+      throw new DevArkError(
+        `Invalid workweek "${value}". Use day names like mon-fri, sun-thu or mon,tue,thu`,
+        'INVALID_VALUE'
+      );
+    }
+    // Ranges may wrap around the weekend: fri-mon
+    for (let day = start; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === end) break;
+    }
+  }
+
+  return Array.from(days).sort((a, b) => a - b);
+}
+
+/**
+ * "mon,tue,wed,thu,fri"
+ */
+export function formatWorkweek(workweek: number[]): string {
+  return workweek.map(day => WEEKDAY_NAMES[day]).join(',');
+}
+
+/**
+ * Parse days off: "2026-12-24", "2026-12-24..2026-12-31", comma-separated.
+ * Returns the entries as given (ranges stay ranges).
+ */
+export function parseDateList(value: string): string[] {
+  const entries = value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+  for (const entry of entries) {
+    const [from, to] = entry.split('..');
+    const start = parseDay(from);
+    const end = to === undefined ? start : parseDay(to);
+    if (!start || !end || end < start) {
+      throw new DevArkError(
+        `Invalid date "${entry}". Use YYYY-MM-DD or a range like 2026-12-24..2026-12-31`,
+        'INVALID_VALUE'
+      );
+    }
+  }
+
+  return entries;
+}
+
+function expandDateList(entries: string[]): string[] {
+  return entries.flatMap(entry => {
+    const [from, to = from] = entry.split('..');
+    const start = parseDay(from);
+    const end = parseDay(to);
+    return start && end ? expandDays(start, end) : [];
+  });
+}
+
+/**
+ * All-day events of an iCalendar file. DTEND of an all-day event is
+ * exclusive, so a one-day holiday ends on the next day.
+ */
+export function parseIcsHolidays(content: string): string[] {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const days: string[] = [];
+  let start: Date | null = null;
+  let end: Date | null = null;
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    // Parameters follow the name: DTSTART;VALUE=DATE:20261225
+    const property = line.slice(0, colon).split(';')[0].toUpperCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (property === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+      start = null;
+      end = null;
+    } else if (property === 'DTSTART') {
+      start = parseDay(value.slice(0, 8));
+    } else if (property === 'DTEND') {
+      end = parseDay(value.slice(0, 8));
+    } else if (property === 'END' && value.toUpperCase() === 'VEVENT' && start) {
+      const last = new Date(end && end > start ? end : start);
+      if (end && end > start) last.setDate(last.getDate() - 1);
+      days.push(...expandDays(start, last));
+      start = null;
+    }
+  }
+
+  return days;
+}
+
+/**
+ * JSON holiday lists: ["2026-12-25", ...], [{ "date": "2026-12-25", "name": ... }, ...]
+ * or either of those under a "holidays" key
+ */
+export function parseJsonHolidays(content: string): string[] {
+  const data = JSON.parse(content);
+  const list: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.holidays) ? data.holidays : [];
+
+  return list.flatMap(item => {
+    const value = typeof item === 'string' ? item : (item as { date?: unknown })?.date;
+    const day = typeof value === 'string' ? parseDay(value.slice(0, 10)) : null;
+    return day ? [getLocalDateString(day)] : [];
+  });
+}
+
+/**
+ * Read a holiday file; .ics or .json by extension, otherwise by content
+ */
+export async function readHolidayFile(filePath: string): Promise<string[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch {
+    throw new DevArkError(`Cannot read holiday file: ${filePath}`, 'FILE_NOT_FOUND');
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  const isIcs = extension === '.ics' || (extension !== '.json' && content.trimStart().startsWith('BEGIN:VCALENDAR'));
+
+  try {
+    return isIcs ? parseIcsHolidays(content) : parseJsonHolidays(content);
+  } catch {
+    throw new DevArkError(`Holiday file is neither iCalendar nor a JSON list: ${filePath}`, 'INVALID_VALUE');
+  }
+}
+
+/**
+ * Build the calendar from the configured settings. A missing or broken
+ * holiday file is reported and skipped, so standups still work.
+ */
+export async function loadWorkingCalendar(settings: WorkingCalendarSettings = {}): Promise<WorkingCalendar> {
+  let holidays: string[] = [];
+  if (settings.holidaysFile) {
+    try {
+      holidays = await readHolidayFile(settings.holidaysFile);
+    } catch (error) {
+      logger.warn(`Ignoring holidays: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return {
+    workweek: settings.workweek && settings.workweek.length > 0 ? settings.workweek : DEFAULT_WORKWEEK,
+    holidays: new Set(holidays),
+    pto: new Set(expandDateList(settings.pto || [])),
+  };
+}
+
+export function isWorkingDay(date: Date, calendar: WorkingCalendar): boolean {
+  const day = getLocalDateString(date);
+  return calendar.workweek.includes(date.getDay()) && !calendar.holidays.has(day) && !calendar.pto.has(day);
+}
+
+/**
+ * The last working day before `now` (local midnight). Falls back to the
+ * plain previous day when nothing in the last year is a working day.
+ */
+export function getPreviousWorkingDay(calendar: WorkingCalendar, now: Date = new Date()): Date {
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+
+  for (let i = 1; i <= MAX_DAYS_BACK; i++) {
+    day.setDate(day.getDate() - 1);
+    if (isWorkingDay(day, calendar)) return day;
+  }
+
+  const yesterday = new Date(now);
+  yesterday.setHours(0, 0, 0, 0);
+  yesterday.setDate(yesterday.getDate() - 1);
+  return yesterday;
+}
@@ -8,6 +8,8 @@ export interface PromptContext {
   projectPaths: string[];
   projectNames: string[];
   statusLineInstalled?: boolean;
+  cachedSessions?: number;      // Sessions with an analysis from an earlier run (.devark-temp/cached-analyses.json)
+  sessionsToAnalyze?: number;   // Sessions listed in the manifest for the batch analyzers
 }
 
 export interface OrchestratedPrompt {
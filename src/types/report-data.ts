@@ -29,6 +29,47 @@ export interface ReportData {
     largestSession: string;
     focus: string;
   }>;
+  // Sessions per tool (Claude Code, Cursor, ...), only when more than one was used
+  sessionSources?: Array<{
+    tool: string;
+    name: string;
+    sessions: number;
+    activeDevelopment: string;
+  }>;
+  // Added locally from the session transcripts, not generated by Claude
+  tokenUsage?: {
+    sessions: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheWriteTokens: number;
+    estimatedCost: number;
+    byModel: Array<{
+      model: string;
+      sessions: number;
+      totalTokens: number;
+      estimatedCost: number;
+    }>;
+  };
+  // Commits made during the analyzed sessions, read from the local repositories
+  gitActivity?: {
+    commits: number;
+    filesChanged: number;
+    insertions: number;
+    deletions: number;
+    byProject: Array<{
+      project: string;
+      commits: number;
+      insertions: number;
+      deletions: number;
+      hasUpstream: boolean;
+      pullRequests: number[];
+      recentCommits: Array<{
+        hash: string;
+        subject: string;
+      }>;
+    }>;
+  };
   reportGeneration: {
     duration: string;
     apiTime: string;
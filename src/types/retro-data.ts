@@ -0,0 +1,59 @@
+export type RetroPeriod = 'week' | 'month';
+
+export interface RetroMetrics {
+  sessions: number;
+  activeHours: number;
+  projects: number;
+  topProjects: Array<{
+    name: string;
+    sessions: number;
+    activeHours: number;
+  }>;
+  languages: Array<{
+    name: string;
+    sessions: number;
+  }>;
+  planningSessions: number;   // Sessions that used planning mode
+  planningCycles: number;
+  planningShare: number;      // Percent of sessions that used planning mode
+  models: Array<{
+    model: string;
+    messages: number;
+    share: number;            // Percent of all assistant messages
+  }>;
+  promptScore: {
+    prompts: number;
+    average: number;
+  } | null;                   // Null when no prompts were analyzed
+  daily: Array<{
+    date: string;             // YYYY-MM-DD
+    sessions: number;
+    activeHours: number;
+    promptScore: number | null;
+  }>;
+}
+
+export interface RetroPeriodData {
+  label: string;              // "Oct 12 - Oct 18, 2026" or "October 2026"
+  start: string;              // ISO timestamps
+  end: string;
+  metrics: RetroMetrics;
+}
+
+export interface RetroDelta {
+  metric: 'sessions' | 'activeHours' | 'projects' | 'planningShare' | 'promptScore';
+  label: string;
+  current: number;
+  previous: number;
+  change: number;
+  percent: number | null;     // Null when the previous value is 0
+}
+
+export interface RetroData {
+  period: RetroPeriod;
+  project?: string;
+  generatedAt: string;
+  current: RetroPeriodData;
+  previous: RetroPeriodData;
+  deltas: RetroDelta[];
+}
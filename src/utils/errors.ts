@@ -8,6 +8,50 @@ export class DevArkError extends Error {
   }
 }
 
+/**
+ * Process exit codes, documented for scripts (see README "Scripted setup")
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  ERROR: 1,                  // Anything not listed below
+  INVALID_INPUT: 2,          // Bad flags or arguments
+  AUTH_REQUIRED: 3,          // Not signed in, or the token expired
+  NOT_FOUND: 4,              // Project, file or tool not found
+  POLICY_VIOLATION: 5,       // Blocked by the team policy
+  CONFIRMATION_REQUIRED: 6,  // Needs --yes, or the user declined
+  NETWORK_ERROR: 7,          // Server unreachable
+} as const;
+
+/**
+ * Exit code for an error thrown by a command
+ */
+export function getExitCode(error: unknown): number {
+  if (!(error instanceof DevArkError)) return EXIT_CODES.ERROR;
+
+  switch (error.code) {
+    case 'INVALID_INPUT':
+      return EXIT_CODES.INVALID_INPUT;
+    case 'AUTH_REQUIRED':
+    case 'AUTH_EXPIRED':
+    case 'AUTH_FAILED':
+    case 'INVALID_TOKEN':
+      return EXIT_CODES.AUTH_REQUIRED;
+    case 'POLICY_VIOLATION':
+      return EXIT_CODES.POLICY_VIOLATION;
+    case 'CONFIRMATION_REQUIRED':
+    case 'CANCELLED':
+      return EXIT_CODES.CONFIRMATION_REQUIRED;
+    case 'NETWORK_ERROR':
+    case 'CONNECTION_REFUSED':
+    case 'CONNECTION_RESET':
+    case 'TIMEOUT':
+    case 'SERVICE_UNAVAILABLE':
+      return EXIT_CODES.NETWORK_ERROR;
+    default:
+      return error.code.endsWith('NOT_FOUND') ? EXIT_CODES.NOT_FOUND : EXIT_CODES.ERROR;
+  }
+}
+
 /**
  * Display error without exiting the process - for interactive mode
  */
@@ -143,7 +187,7 @@ export function handleError(error: unknown): void {
   
   console.log(chalk.gray('\n💬 Need help? Visit: https://devark.ai/help'));
   
-  process.exit(1);
+  process.exit(getExitCode(error));
 }
 
 export function logDebug(message: string, data?: any): void {
@@ -60,12 +60,57 @@ export async function spawnDetached(
   logger.debug(`Spawned background process with PID: ${child.pid}`);
 }
 
+// Upload locks older than this are left over from a crashed upload
+const UPLOAD_LOCK_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Get the upload lock file path
+ */
+export function getUploadLockPath(): string {
+  return path.join(os.homedir(), '.devark', 'upload.lock');
+}
+
+/**
+ * Check whether a process with this PID exists
+ */
+export function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);  // Signal 0 only checks the process
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Owner and age of the upload lock, for diagnostics. The lock is stale when
+ * it is too old or the upload that created it is gone.
+ * @returns null when there is no lock
+ */
+export async function getUploadLockInfo(): Promise<{ pid?: number; age: number; stale: boolean } | null> {
+  const lockFile = getUploadLockPath();
+
+  try {
+    const [stats, content] = await Promise.all([fs.stat(lockFile), fs.readFile(lockFile, 'utf-8')]);
+    const age = Date.now() - stats.mtimeMs;
+    const pid = parseInt(content, 10) || undefined;
+    return {
+      pid,
+      age,
+      stale: age > UPLOAD_LOCK_TIMEOUT || (pid !== undefined && !isProcessRunning(pid))
+    };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Check if a background upload process is already running
  * This prevents duplicate uploads
  */
 export async function isUploadRunning(): Promise<boolean> {
-  const lockFile = path.join(os.homedir(), '.devark', 'upload.lock');
+  const lockFile = getUploadLockPath();
   
   try {
     const stats = await fs.stat(lockFile);
@@ -73,7 +118,7 @@ export async function isUploadRunning(): Promise<boolean> {
     const lockAge = now - stats.mtimeMs;
     
     // If lock is older than 5 minutes, consider it stale
-    if (lockAge > 5 * 60 * 1000) {
+    if (lockAge > UPLOAD_LOCK_TIMEOUT) {
       await fs.unlink(lockFile).catch(() => {});
       return false;
     }
@@ -89,14 +134,12 @@ export async function isUploadRunning(): Promise<boolean> {
  */
 export async function createUploadLock(): Promise<void> {
   await ensureDevArkDir();
-  const lockFile = path.join(os.homedir(), '.devark', 'upload.lock');
-  await fs.writeFile(lockFile, process.pid.toString());
+  await fs.writeFile(getUploadLockPath(), process.pid.toString());
 }
 
 /**
  * Remove the upload lock file
  */
 export async function removeUploadLock(): Promise<void> {
-  const lockFile = path.join(os.homedir(), '.devark', 'upload.lock');
-  await fs.unlink(lockFile).catch(() => {});
+  await fs.unlink(getUploadLockPath()).catch(() => {});
 }
\ No newline at end of file
@@ -150,7 +150,7 @@ async function fetchLatestVersion(): Promise<string | null> {
  * Compare two semantic versions
  * Returns: -1 if a < b, 0 if a === b, 1 if a > b
  */
-function compareVersions(a: string, b: string): number {
+export function compareVersions(a: string, b: string): number {
   const cleanA = a.replace(/^v/, '');
   const cleanB = b.replace(/^v/, '');
 
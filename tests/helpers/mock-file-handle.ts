@@ -0,0 +1,39 @@
+import { vi } from 'vitest';
+import fs from 'fs/promises';
+
+/**
+ * Create an in-memory stand-in for a fs/promises FileHandle
+ */
+export function createMockFileHandle(content: string) {
+  const data = Buffer.from(content, 'utf-8');
+
+  return {
+    read: vi.fn(async (buffer: Buffer, offset: number, length: number, position: number) => {
+      const bytesRead = Math.max(0, Math.min(length, data.length - position));
+      data.copy(buffer, offset, position, position + bytesRead);
+      return { bytesRead, buffer };
+    }),
+    close: vi.fn(async () => undefined),
+  };
+}
+
+/**
+ * Serve fs.open() from the fs.readFile() mock so tests can keep mocking file
+ * contents with readFile while the readers stream through file handles.
+ * Each path is read once; later opens of the same path reuse its content.
+ * Requires vi.mock('fs/promises') in the calling test file.
+ */
+export function mockFileHandlesFromReadFile(): void {
+  const contents = new Map<string, Promise<string>>();
+
+  vi.mocked(fs.open).mockImplementation((async (filePath: string) => {
+    if (!contents.has(filePath)) {
+      contents.set(filePath, Promise.resolve(fs.readFile(filePath, 'utf-8') as Promise<string>));
+    }
+    const content = await contents.get(filePath);
+    if (typeof content !== 'string') {
+      throw Object.assign(new Error(`ENOENT: no such file ${filePath}`), { code: 'ENOENT' });
+    }
+    return createMockFileHandle(content);
+  }) as any);
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { REPORT_FORMATS, getReportRenderer } from '../src/lib/report-renderers/report-renderer';
+import { ReportFormat } from '../src/lib/report-renderers/types';
+import { toWinAnsi } from '../src/lib/report-renderers/pdf';
+import type { ReportData } from '../src/types/report-data';
+
+// Golden files live in tests/fixtures/reports; refresh them with `vitest -u`
+// after an intended change to a renderer. The PDF is stored as base64:
+// file snapshots are written as UTF-8, which would corrupt the binary.
+const sampleData: ReportData = {
+  metadata: {
+    dateRange: 'Dec 1 - Dec 31, 2024',
+    totalSessions: 25,
+    dataProcessed: '45 coding sessions',
+    activeDevelopment: '112.5 hours',
+    projects: 2,
+    generatedAt: '2025-01-01T09:00:00.000Z'
+  },
+  executiveSummary: [
+    'Completed 25 sessions across <strong>2 projects</strong>',
+    'Shipped the login flow (#12)'
+  ],
+  activityDistribution: {
+    'Feature Development': 60,
+    'Debugging': 25,
+    'Planning': 15
+  },
+  keyAccomplishments: [
+    'Shipped the login form with validation',
+    'Fixed the session timeout bug — users stay signed in'
+  ],
+  promptQuality: {
+    methodology: 'Scored against context, clarity and acceptance criteria',
+    breakdown: { excellent: 40, good: 35, fair: 20, poor: 5 },
+    insights: 'Prompts with file references scored 20 points higher',
+    averageScore: 78
+  },
+  projectBreakdown: [
+    { name: 'devark-cli', sessions: 18, largestSession: '3.5h', focus: 'Authentication and session handling' },
+    { name: 'website', sessions: 7, largestSession: '1.2h', focus: 'Landing page copy 🚀' }
+  ],
+  tokenUsage: {
+    sessions: 25,
+    inputTokens: 1_200_000,
+    outputTokens: 340_000,
+    cacheReadTokens: 8_500_000,
+    cacheWriteTokens: 900_000,
+    estimatedCost: 14.37,
+    byModel: [
+      { model: 'claude-sonnet-4', sessions: 25, totalTokens: 10_940_000, estimatedCost: 14.37 }
+    ]
+  },
+  gitActivity: {
+    commits: 2,
+    filesChanged: 5,
+    insertions: 120,
+    deletions: 14,
+    byProject: [{
+      project: 'devark-cli',
+      commits: 2,
+      insertions: 120,
+      deletions: 14,
+      hasUpstream: false,
+      pullRequests: [12],
+      recentCommits: [
+        { hash: 'abc1234def', subject: 'Add login form (#12)' },
+        { hash: 'fed4321cba', subject: 'Fix session timeout' }
+      ]
+    }]
+  },
+  reportGeneration: {
+    duration: '4m 10s',
+    apiTime: '3m 2s',
+    turns: 12,
+    estimatedCost: 0.42,
+    sessionId: 'test-session'
+  }
+};
+
+describe('Report export renderers', () => {
+  it('should offer a renderer for every format', () => {
+    expect(REPORT_FORMATS.map(format => getReportRenderer(format).extension)).toEqual(['html', 'md', 'json', 'pdf']);
+    expect(() => getReportRenderer('docx' as ReportFormat)).toThrow('Unknown report format');
+  });
+
+  it('should render HTML through the template engine', async () => {
+    const html = await getReportRenderer('html').render(sampleData) as string;
+
+    expect(html).toContain('<!DOCTYPE html>');
+    expect(html).toContain('Dec 1 - Dec 31, 2024');
+    expect(html).toContain('Shipped the login form with validation');
+    expect(html).not.toContain('{{');
+  });
+
+  it('should match the Markdown golden file', async () => {
+    const markdown = await getReportRenderer('markdown').render(sampleData);
+    await expect(markdown).toMatchFileSnapshot('./fixtures/reports/report.md');
+  });
+
+  it('should match the JSON golden file', async () => {
+    const json = await getReportRenderer('json').render(sampleData) as string;
+
+    expect(JSON.parse(json)).toEqual(sampleData);
+    await expect(json).toMatchFileSnapshot('./fixtures/reports/report.json');
+  });
+
+  it('should match the PDF golden file', async () => {
+    const pdf = await getReportRenderer('pdf').render(sampleData) as Buffer;
+    const text = pdf.toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    // startxref points at the cross-reference table
+    expect(Number(text.match(/startxref\n(\d+)/)?.[1])).toBe(text.lastIndexOf('xref\n0 '));
+    // Emoji print as '?', dashes map to WinAnsi
+    expect(text).toContain('(Landing page copy ?) Tj');
+    expect(text).toContain('Fixed the session timeout bug \x97 users stay signed in');
+    await expect(pdf.toString('base64')).toMatchFileSnapshot('./fixtures/reports/report.pdf.base64');
+  });
+
+  it('should print characters outside WinAnsi as a visible placeholder', () => {
+    expect(toWinAnsi('Deploy 🚀 to 東京 — done')).toBe('Deploy ? to ?? \x97 done');
+    expect(toWinAnsi('Ship it ✔️')).toBe('Ship it ?');
+    expect(toWinAnsi('café → 50 €')).toBe('café -> 50 \x80');
+  });
+
+  it('should break long reports onto more pages', async () => {
+    const long = { ...sampleData, keyAccomplishments: Array.from({ length: 80 }, (_, i) => `Accomplishment ${i + 1}`) };
+    const text = (await getReportRenderer('pdf').render(long) as Buffer).toString('latin1');
+
+    const pageCount = Number(text.match(/\/Count (\d+)/)?.[1]);
+    expect(pageCount).toBeGreaterThan(1);
+    expect(text.match(/\/Type \/Page /g)).toHaveLength(pageCount);
+  });
+});
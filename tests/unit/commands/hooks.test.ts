@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseHookList, installHooksCommand, uninstallHooksCommand } from '../../../src/commands/hooks';
+import * as authModule from '../../../src/lib/auth/token';
+import * as claudeCore from '../../../src/lib/claude-core';
+import * as hooksController from '../../../src/lib/hooks/hooks-controller';
+import * as teamPolicy from '../../../src/lib/team-policy';
+
+vi.mock('../../../src/lib/auth/token');
+vi.mock('../../../src/lib/claude-core');
+vi.mock('../../../src/lib/hooks/hooks-controller', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/lib/hooks/hooks-controller')>()),
+  installSelectedHooks: vi.fn(),
+  installSelectiveProjectHooks: vi.fn(),
+  removeProjectHooks: vi.fn(),
+}));
+vi.mock('../../../src/lib/team-policy', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/lib/team-policy')>()),
+  loadTeamPolicy: vi.fn(),
+}));
+vi.mock('../../../src/utils/logger');
+
+describe('hooks command', () => {
+  const mockRequireAuth = vi.mocked(authModule.requireAuth);
+  const mockDiscoverProjects = vi.mocked(claudeCore.discoverProjects);
+  const mockInstallSelectedHooks = vi.mocked(hooksController.installSelectedHooks);
+  const mockInstallProjectHooks = vi.mocked(hooksController.installSelectiveProjectHooks);
+  const mockRemoveProjectHooks = vi.mocked(hooksController.removeProjectHooks);
+  const mockLoadTeamPolicy = vi.mocked(teamPolicy.loadTeamPolicy);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRequireAuth.mockResolvedValue('token');
+    mockLoadTeamPolicy.mockReturnValue(null);
+    mockInstallProjectHooks.mockResolvedValue({ installedCount: 1, failedCount: 0 });
+    mockRemoveProjectHooks.mockResolvedValue({ removedCount: 1, failedCount: 0 });
+    vi.mocked(claudeCore.getGlobalSettingsPath).mockReturnValue('/home/user/.claude/settings.json');
+    vi.mocked(claudeCore.getProjectLocalSettingsPath).mockImplementation(p => `${p}/.claude/settings.local.json`);
+    mockDiscoverProjects.mockResolvedValue([
+      {
+        name: 'api',
+        claudePath: '/home/user/.claude/projects/-work-api',
+        actualPath: '/work/api',
+        sessions: 3,
+        lastActivity: null,
+        isActive: false,
+        size: 0,
+      },
+    ]);
+  });
+
+  describe('parseHookList', () => {
+    it('should default to the session hooks', () => {
+      expect(parseHookList()).toEqual(['SessionStart', 'PreCompact', 'SessionEnd']);
+    });
+
+    it('should accept event names and triggers', () => {
+      expect(parseHookList('PreCompact, userpromptsubmit,stop')).toEqual(['PreCompact', 'UserPromptSubmit', 'Stop']);
+      expect(parseHookList('sessionstart,sessionstart')).toEqual(['SessionStart']);
+    });
+
+    it('should reject unknown hooks', () => {
+      expect(() => parseHookList('PostToolUse')).toThrow('Unknown hook');
+      expect(() => parseHookList(' , ')).toThrow('at least one hook');
+    });
+  });
+
+  describe('installHooksCommand', () => {
+    it('should validate mode and projects before touching settings', async () => {
+      await expect(installHooksCommand({ mode: 'some', yes: true })).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+      await expect(installHooksCommand({ mode: 'selected', yes: true })).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+      await expect(installHooksCommand({ mode: 'all', project: ['api'], yes: true })).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+      expect(mockRequireAuth).not.toHaveBeenCalled();
+    });
+
+    it('should install global hooks with --mode all', async () => {
+      const result = await installHooksCommand({ mode: 'all', yes: true });
+
+      expect(result).toEqual({
+        mode: 'all',
+        hooks: ['SessionStart', 'PreCompact', 'SessionEnd'],
+        projects: [],
+        settingsPaths: ['/home/user/.claude/settings.json'],
+      });
+      expect(mockInstallSelectedHooks).toHaveBeenCalledWith(expect.objectContaining({
+        sessionStartHook: true,
+        preCompactHook: true,
+        sessionEndHook: true,
+        userPromptSubmitHook: false,
+      }));
+    });
+
+    it('should install per-project hooks for --project', async () => {
+      const result = await installHooksCommand({ project: ['api'], hooks: 'precompact', yes: true });
+
+      expect(result.mode).toBe('selected');
+      expect(result.projects).toEqual(['/work/api']);
+      expect(mockInstallProjectHooks).toHaveBeenCalledWith([
+        expect.objectContaining({ name: 'api', actualPath: '/work/api', preCompact: true, sessionStart: false }),
+      ]);
+    });
+
+    it('should fail when a project could not be updated', async () => {
+      mockInstallProjectHooks.mockResolvedValue({ installedCount: 0, failedCount: 1 });
+
+      await expect(installHooksCommand({ project: ['api'], yes: true, json: true }))
+        .rejects.toMatchObject({ code: 'HOOKS_UPDATE_FAILED', message: 'Could not install hooks in 1 of 1 project' });
+    });
+
+    it('should fail for unknown projects', async () => {
+      await expect(installHooksCommand({ project: ['web'], yes: true })).rejects.toMatchObject({ code: 'PROJECT_NOT_FOUND' });
+      expect(mockInstallProjectHooks).not.toHaveBeenCalled();
+    });
+
+    it('should add hooks required by the team policy', async () => {
+      mockLoadTeamPolicy.mockReturnValue({ sources: ['team.json'], requiredHooks: ['Stop'] });
+
+      const result = await installHooksCommand({ mode: 'all', hooks: 'sessionend', yes: true });
+
+      expect(result.hooks).toEqual(['SessionEnd', 'Stop']);
+    });
+
+    it('should refuse modes the team policy does not allow', async () => {
+      mockLoadTeamPolicy.mockReturnValue({ sources: ['team.json'], allowedSyncModes: ['selected'] });
+
+      await expect(installHooksCommand({ mode: 'all', yes: true })).rejects.toMatchObject({ code: 'POLICY_VIOLATION' });
+      expect(mockInstallSelectedHooks).not.toHaveBeenCalled();
+    });
+
+    it('should require --yes when there is no terminal', async () => {
+      const isTTY = process.stdin.isTTY;
+      process.stdin.isTTY = false;
+      try {
+        await expect(installHooksCommand({ mode: 'all' })).rejects.toMatchObject({ code: 'CONFIRMATION_REQUIRED' });
+        expect(mockInstallSelectedHooks).not.toHaveBeenCalled();
+      } finally {
+        process.stdin.isTTY = isTTY;
+      }
+    });
+  });
+
+  describe('uninstallHooksCommand', () => {
+    it('should remove the hooks of the given projects', async () => {
+      expect(await uninstallHooksCommand({ project: ['api'], yes: true })).toEqual({ projects: ['/work/api'] });
+      expect(mockRemoveProjectHooks).toHaveBeenCalledWith([expect.objectContaining({ name: 'api', actualPath: '/work/api' })]);
+    });
+
+    it('should fail when a project could not be updated', async () => {
+      mockRemoveProjectHooks.mockResolvedValue({ removedCount: 0, failedCount: 1 });
+
+      await expect(uninstallHooksCommand({ project: ['api'], yes: true }))
+        .rejects.toMatchObject({ code: 'HOOKS_UPDATE_FAILED', message: 'Could not remove hooks from 1 of 1 project' });
+    });
+  });
+});
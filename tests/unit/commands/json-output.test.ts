@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runScripted, JSON_SCHEMA_VERSION } from '../../../src/commands/shared/scripted';
+import { getStatusData } from '../../../src/commands/status';
+import { getHooksLogData } from '../../../src/commands/hooks-log';
+import { getHookVerification } from '../../../src/commands/verify-hooks';
+import { getCursorStatsData } from '../../../src/commands/cursor-stats';
+import { DevArkError } from '../../../src/utils/errors';
+import * as detector from '../../../src/lib/detector';
+import * as hooksController from '../../../src/lib/hooks/hooks-controller';
+import * as hooksStats from '../../../src/lib/hooks/hooks-stats';
+import * as configModule from '../../../src/lib/config';
+import * as hookUtils from '../../../src/lib/hook-utils';
+import * as cursorReader from '../../../src/lib/readers/cursor';
+import * as settingsReader from '../../../src/lib/claude-settings-reader';
+import * as hooksManager from '../../../src/lib/hooks-manager';
+import * as authModule from '../../../src/lib/auth/token';
+
+vi.mock('../../../src/lib/detector');
+vi.mock('../../../src/lib/hooks/hooks-controller', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/lib/hooks/hooks-controller')>()),
+  getHooksStatus: vi.fn(),
+}));
+vi.mock('../../../src/lib/hooks/hooks-stats');
+vi.mock('../../../src/lib/config', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/lib/config')>()),
+  getAllProjectSyncData: vi.fn(),
+  getLastSyncSummary: vi.fn(),
+  getCliPath: vi.fn(),
+}));
+vi.mock('../../../src/lib/hook-utils');
+vi.mock('../../../src/lib/readers/cursor', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/lib/readers/cursor')>()),
+  countCursorMessages: vi.fn(),
+}));
+vi.mock('../../../src/lib/claude-settings-reader');
+vi.mock('../../../src/lib/hooks-manager');
+vi.mock('../../../src/lib/auth/token');
+vi.mock('../../../src/utils/logger');
+vi.mock('child_process', () => ({
+  exec: vi.fn((_command: string, _options: unknown, callback: (error: Error | null, result: unknown) => void) =>
+    callback(null, { stdout: '', stderr: '' })),
+}));
+
+const installedHook = (command: string, matcher?: string) => ({
+  installed: true,
+  enabled: true,
+  version: '1.0.0',
+  command,
+  timeout: 30,
+  matcher,
+});
+const missingHook = { installed: false, enabled: false, version: '0.0.0' };
+
+const hooksStatus: hooksController.HooksStatus = {
+  sessionStartHook: installedHook('npx devark-cli send --silent --background --hook-trigger=sessionstart', 'startup|clear'),
+  preCompactHook: installedHook('npx devark-cli send --silent --background --hook-trigger=precompact', 'manual'),
+  sessionEndHook: missingHook,
+  userPromptSubmitHook: missingHook,
+  stopHook: missingHook,
+  subagentStopHook: missingHook,
+  settingsPath: '/home/dev/.claude/settings.json',
+  cliPath: 'npx devark-cli',
+  trackedProjects: ['/work/api'],
+};
+
+const emptyStats = { totalExecutions: 0, successCount: 0, failureCount: 0, durations: [], projects: new Map<string, number>() };
+
+/**
+ * Print a command's --json envelope and parse it back
+ */
+async function captureJson<T>(command: string, action: () => Promise<T>): Promise<any> {
+  const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+  try {
+    await runScripted(command, { json: true }, action, () => undefined).catch(() => undefined);
+    return JSON.parse(log.mock.calls.map(call => call[0]).join('\n'));
+  } finally {
+    log.mockRestore();
+  }
+}
+
+describe('--json output schema', () => {
+  let mockExit: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('Process exited');
+    });
+
+    vi.mocked(detector.detectSetupState).mockResolvedValue({
+      state: 'CLOUD_AUTO',
+      hasConfig: true,
+      hasAuth: true,
+      hasAgents: true,
+      agentCount: 2,
+      totalAgents: 2,
+      hasHooks: true,
+      hasStatusLine: false,
+      statusLineStatus: 'not-installed',
+      cloudUrl: 'https://app.devark.ai/dashboard',
+      lastSync: new Date('2026-10-01T09:30:00.000Z'),
+      lastSyncProject: 'api',
+      projectCount: 3,
+      trackingMode: 'selected',
+      trackedProjectCount: 1,
+      trackedProjectNames: ['/work/api'],
+      teamPolicyName: 'Platform team',
+      policyViolations: [],
+      errors: [],
+    });
+    vi.mocked(hooksController.getHooksStatus).mockResolvedValue(hooksStatus);
+    vi.mocked(hooksStats.loadHookStats).mockResolvedValue({
+      version: '2.1.0',
+      sessionStartHook: {
+        totalExecutions: 3,
+        successCount: 2,
+        failureCount: 1,
+        lastExecution: new Date('2026-10-01T09:30:00.000Z'),
+        lastSuccess: new Date('2026-10-01T09:30:00.000Z'),
+        lastFailure: new Date('2026-09-30T17:00:00.000Z'),
+        averageDuration: 1200,
+        durations: [1000, 1400],
+        projects: new Map([['api', 3]]),
+      },
+      preCompactHook: emptyStats,
+      sessionEndHook: emptyStats,
+      userPromptSubmitHook: emptyStats,
+      stopHook: emptyStats,
+      subagentStopHook: emptyStats,
+      lastUpdated: new Date('2026-10-01T09:30:00.000Z'),
+    });
+    vi.mocked(configModule.getAllProjectSyncData).mockReturnValue({
+      '-work-api': {
+        projectName: 'api',
+        oldestSyncedTimestamp: '2026-09-01T08:00:00.000Z',
+        newestSyncedTimestamp: '2026-10-01T09:00:00.000Z',
+        lastSyncTime: '2026-10-01T09:30:00.000Z',
+        sessionCount: 42,
+      },
+    });
+    vi.mocked(configModule.getLastSyncSummary).mockReturnValue({ timestamp: '2026-10-01T09:30:00.000Z', description: 'api' });
+    vi.mocked(configModule.getCliPath).mockReturnValue('npx devark-cli');
+    vi.mocked(hookUtils.getHooksLogPath).mockReturnValue('/nonexistent/.devark/hooks.log');
+  });
+
+  afterEach(() => {
+    mockExit.mockRestore();
+  });
+
+  it('should version the envelope', async () => {
+    const output = await captureJson('status', getStatusData);
+
+    expect(output.schemaVersion).toBe(JSON_SCHEMA_VERSION);
+    expect(output.ok).toBe(true);
+    expect(output.command).toBe('status');
+  });
+
+  it('should print status with setup, hooks, hook stats, projects and last sync', async () => {
+    expect(await captureJson('status', getStatusData)).toMatchSnapshot();
+  });
+
+  it('should print hook log lines', async () => {
+    vi.mocked(hookUtils.readHooksLogLines).mockResolvedValue([
+      '[2026-10-01T09:30:00.000Z] sessionstart failed: Network error',
+    ]);
+
+    expect(await captureJson('hooks-log', () => getHooksLogData({ lines: '10' }))).toMatchSnapshot();
+    expect(hookUtils.readHooksLogLines).toHaveBeenCalledWith(10);
+  });
+
+  it('should print hook verification checks', async () => {
+    vi.mocked(authModule.getToken).mockResolvedValue('token');
+    vi.mocked(hooksManager.readClaudeSettings).mockResolvedValue({ global: null, local: null, merged: {} });
+    vi.mocked(hooksManager.validateHookCommands).mockResolvedValue({ valid: true, errors: [] });
+    vi.mocked(settingsReader.getHookMode).mockResolvedValue('selected');
+    vi.mocked(settingsReader.getTrackedProjects).mockResolvedValue(['/work/api']);
+
+    expect(await captureJson('verify-hooks', getHookVerification)).toMatchSnapshot();
+  });
+
+  it('should print Cursor counts, or installed: false without Cursor', async () => {
+    vi.mocked(cursorReader.countCursorMessages).mockResolvedValueOnce({
+      conversationCount: 4,
+      totalMessages: 30,
+      userMessages: 14,
+      assistantMessages: 16,
+    });
+    expect(await captureJson('cursor-stats', getCursorStatsData)).toMatchSnapshot();
+
+    vi.mocked(cursorReader.countCursorMessages).mockRejectedValueOnce(new DevArkError('Cursor IDE data not found.', 'CURSOR_NOT_FOUND'));
+    expect((await captureJson('cursor-stats', getCursorStatsData)).result).toEqual({
+      installed: false,
+      conversationCount: 0,
+      totalMessages: 0,
+      userMessages: 0,
+      assistantMessages: 0,
+    });
+  });
+
+  it('should print errors with their code and exit code', async () => {
+    const output = await captureJson('hooks-log', () => getHooksLogData({ lines: 'all' }));
+
+    expect(output).toMatchSnapshot();
+    expect(mockExit).toHaveBeenCalledWith(2);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { writeReportFile, saveOfflineReport } from '../../../src/commands/report';
+import { createSpinner } from '../../../src/lib/ui';
+import { readClaudeSessions } from '../../../src/lib/readers/claude';
+import { readCursorSessions } from '../../../src/lib/readers/cursor';
+import { readPromptHistory } from '../../../src/lib/prompt-history';
+import { getSessionSourceSettings } from '../../../src/lib/config';
+import { SessionData, SessionTool } from '../../../src/lib/readers/types';
+import type { ReportData } from '../../../src/types/report-data';
+
+vi.mock('../../../src/lib/readers/claude');
+vi.mock('../../../src/lib/readers/cursor');
+vi.mock('../../../src/lib/config');
+vi.mock('../../../src/lib/prompt-history');
+vi.mock('../../../src/lib/git-enrichment', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/lib/git-enrichment')>()),
+  enrichSessionsWithGit: vi.fn(async (sessions: SessionData[]) => sessions),
+}));
+vi.mock('../../../src/lib/ui', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/lib/ui')>()),
+  createSpinner: vi.fn(),
+}));
+vi.mock('../../../src/utils/logger');
+
+function session(id: string, tool: SessionTool, projectPath: string, hours: number): SessionData {
+  const timestamp = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  return {
+    id,
+    tool,
+    projectPath,
+    timestamp,
+    messages: [{ role: 'user', content: 'hi', timestamp }],
+    duration: hours * 3600,
+  };
+}
+
+describe('report --out', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-report-'));
+    vi.mocked(readPromptHistory).mockResolvedValue([]);
+    vi.mocked(getSessionSourceSettings).mockReturnValue({});
+    vi.mocked(readClaudeSessions).mockResolvedValue([session('claude-1', 'claude_code', '/work/api', 2)]);
+    vi.mocked(readCursorSessions).mockResolvedValue([
+      session('composer-1', 'cursor', '/work/api', 1),
+      session('composer-2', 'cursor', '/work/site', 0.5),
+    ]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should include Cursor sessions in the saved report', async () => {
+    const out = path.join(tempDir, 'report.json');
+
+    const result = await writeReportFile({ out, days: '7', json: true });
+    const data: ReportData = JSON.parse(await fs.readFile(out, 'utf-8'));
+
+    expect(result.sessions).toBe(3);
+    expect(data.metadata).toMatchObject({ totalSessions: 3, projects: 2, activeDevelopment: '3.5 hours' });
+    expect(data.projectBreakdown.map(project => [project.name, project.sessions])).toEqual([['api', 2], ['site', 1]]);
+    expect(data.sessionSources).toEqual([
+      { tool: 'claude_code', name: 'Claude Code', sessions: 1, activeDevelopment: '2 hours' },
+      { tool: 'cursor', name: 'Cursor', sessions: 2, activeDevelopment: '1.5 hours' },
+    ]);
+  });
+
+  it('should list the tools in the markdown report', async () => {
+    const out = path.join(tempDir, 'report.md');
+
+    await writeReportFile({ out, days: '7', json: true });
+
+    expect(await fs.readFile(out, 'utf-8')).toContain('## Tools\n\n- Claude Code: 1 session, 2 hours\n- Cursor: 2 sessions, 1.5 hours');
+  });
+
+  it('should leave the tools out when one tool was used', async () => {
+    vi.mocked(readCursorSessions).mockResolvedValue([]);
+    const out = path.join(tempDir, 'report.json');
+
+    await writeReportFile({ out, days: '7', json: true });
+
+    expect(JSON.parse(await fs.readFile(out, 'utf-8')).sessionSources).toBeUndefined();
+  });
+
+  it('should leave out sources switched off in config', async () => {
+    vi.mocked(getSessionSourceSettings).mockReturnValue({ cursor: false });
+    const out = path.join(tempDir, 'report.json');
+
+    const result = await writeReportFile({ out, days: '7', json: true });
+
+    expect(result.sessions).toBe(1);
+    expect(readCursorSessions).not.toHaveBeenCalled();
+  });
+
+  it('should not name a tool when no enabled source has sessions', async () => {
+    const spinner = { start: vi.fn(), warn: vi.fn(), fail: vi.fn(), succeed: vi.fn() };
+    spinner.start.mockReturnValue(spinner);
+    vi.mocked(createSpinner).mockReturnValue(spinner as unknown as ReturnType<typeof createSpinner>);
+    vi.mocked(getSessionSourceSettings).mockReturnValue({ claude_code: false });
+    vi.mocked(readCursorSessions).mockResolvedValue([]);
+
+    await saveOfflineReport({ days: 7, formats: ['json'] });
+
+    expect(readClaudeSessions).not.toHaveBeenCalled();
+    expect(spinner.warn).toHaveBeenCalledWith('No sessions from your enabled tools in the last 7 days');
+  });
+});
@@ -91,6 +91,7 @@ describe('Send Command - Directory Filtering', () => {
       expect(mockReadClaudeSessions).toHaveBeenCalledWith({
         since: undefined,
         projectPath: undefined,
+        useIndex: false,
       });
       
       // Verify success message mentions current directory
@@ -154,6 +155,7 @@ describe('Send Command - Directory Filtering', () => {
       expect(mockReadClaudeSessions).toHaveBeenCalledWith({
         since: undefined,
         projectPath: undefined,
+        useIndex: false,
       });
       
       // Verify success message mentions all projects with --all flag
@@ -177,7 +179,8 @@ describe('Send Command - Directory Filtering', () => {
             })
           })
         ]),
-        expect.any(Function) // Progress callback
+        expect.any(Function), // Progress callback
+        expect.any(Function)  // Failed batch handler (upload queue)
       );
     });
     
@@ -229,6 +232,7 @@ describe('Send Command - Directory Filtering', () => {
       expect(mockReadClaudeSessions).toHaveBeenCalledWith({
         since: undefined,
         projectPath: undefined,
+        useIndex: false,
       });
       
       // Should still successfully process the session
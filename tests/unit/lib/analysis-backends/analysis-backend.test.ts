@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import { completeAnalysis, getAnalysisBackend } from '../../../../src/lib/analysis-backends/analysis-backend';
+import { claudeSdkBackend } from '../../../../src/lib/analysis-backends/claude-sdk';
+import { DevArkError } from '../../../../src/utils/errors';
+
+vi.mock('axios', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('axios')>();
+  return { ...actual, default: { ...actual.default, post: vi.fn() } };
+});
+
+vi.mock('../../../../src/lib/config', () => ({
+  getAnalysisBackendSettings: vi.fn(() => ({})),
+}));
+
+vi.mock('../../../../src/lib/analysis-backends/claude-sdk', () => ({
+  claudeSdkBackend: {
+    type: 'claude-sdk',
+    displayName: 'Claude SDK',
+    complete: vi.fn(),
+  },
+}));
+
+vi.mock('../../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const ollama = { backend: 'openai-compatible' as const, endpoint: 'http://localhost:11434/v1/', model: 'llama3.1' };
+const analysisJson = '{"quality":"good","missing":[],"suggestion":"Looks clear","score":75}';
+
+function connectionRefused(): AxiosError {
+  return new AxiosError('connect ECONNREFUSED 127.0.0.1:11434', 'ECONNREFUSED');
+}
+
+describe('Analysis Backends', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.DEVARK_ANALYSIS_API_KEY;
+  });
+
+  afterEach(() => {
+    delete process.env.DEVARK_ANALYSIS_API_KEY;
+  });
+
+  describe('getAnalysisBackend', () => {
+    it('should default to the Claude SDK', () => {
+      expect(getAnalysisBackend({})).toBe(claudeSdkBackend);
+    });
+
+    it('should require an endpoint for OpenAI-compatible servers', () => {
+      expect(() => getAnalysisBackend({ backend: 'openai-compatible' })).toThrow(DevArkError);
+    });
+
+    it('should reject unknown backends', () => {
+      expect(() => getAnalysisBackend({ backend: 'carrier-pigeon' as any })).toThrow(/Unknown analysis backend/);
+    });
+  });
+
+  describe('OpenAI-compatible backend', () => {
+    it('should post a chat completion and return the message text', async () => {
+      process.env.DEVARK_ANALYSIS_API_KEY = 'local-key';
+      vi.mocked(axios.post).mockResolvedValue({ data: { choices: [{ message: { content: analysisJson } }] } });
+
+      const result = await completeAnalysis({ prompt: 'Analyze this', model: 'haiku' }, { ...ollama, timeoutMs: 5000 });
+
+      expect(result.text).toBe(analysisJson);
+      expect(result.backend.type).toBe('openai-compatible');
+      expect(axios.post).toHaveBeenCalledWith(
+        'http://localhost:11434/v1/chat/completions',
+        expect.objectContaining({ model: 'llama3.1', messages: [{ role: 'user', content: 'Analyze this' }] }),
+        expect.objectContaining({
+          timeout: 5000,
+          headers: expect.objectContaining({ Authorization: 'Bearer local-key' }),
+        })
+      );
+      expect(claudeSdkBackend.complete).not.toHaveBeenCalled();
+    });
+
+    it('should report an unreachable server with ANALYSIS_BACKEND_UNAVAILABLE', async () => {
+      vi.mocked(axios.post).mockRejectedValue(connectionRefused());
+
+      await expect(completeAnalysis({ prompt: 'x' }, ollama)).rejects.toMatchObject({
+        code: 'ANALYSIS_BACKEND_UNAVAILABLE',
+      });
+      expect(claudeSdkBackend.complete).not.toHaveBeenCalled();
+    });
+
+    it('should not treat server errors as unreachable', async () => {
+      const error = new AxiosError('Request failed with status code 404', 'ERR_BAD_REQUEST', undefined, undefined, {
+        status: 404, statusText: 'Not Found', data: {}, headers: {}, config: { headers: new AxiosHeaders() },
+      });
+      vi.mocked(axios.post).mockRejectedValue(error);
+
+      await expect(completeAnalysis({ prompt: 'x' }, { ...ollama, fallbackToClaude: true })).rejects.toMatchObject({
+        code: 'ANALYSIS_BACKEND_ERROR',
+      });
+      expect(claudeSdkBackend.complete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fallback', () => {
+    it('should fall back to the Claude SDK when enabled and the server is unreachable', async () => {
+      vi.mocked(axios.post).mockRejectedValue(connectionRefused());
+      vi.mocked(claudeSdkBackend.complete).mockResolvedValue(analysisJson);
+
+      const result = await completeAnalysis({ prompt: 'x', model: 'haiku' }, { ...ollama, fallbackToClaude: true });
+
+      expect(result).toEqual({ text: analysisJson, backend: claudeSdkBackend });
+      expect(claudeSdkBackend.complete).toHaveBeenCalledWith(expect.objectContaining({ prompt: 'x', model: 'haiku' }));
+    });
+
+    it('should pass the configured model and timeout to the Claude SDK backend', async () => {
+      vi.mocked(claudeSdkBackend.complete).mockResolvedValue(analysisJson);
+
+      await completeAnalysis({ prompt: 'x', model: 'haiku' }, { model: 'sonnet', timeoutMs: 20000 });
+
+      expect(claudeSdkBackend.complete).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'sonnet', timeoutMs: 20000 })
+      );
+    });
+  });
+});
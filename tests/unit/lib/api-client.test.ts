@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import axios from 'axios';
+import axios, { AxiosError } from 'axios';
 import { DevArkError } from '../../../src/utils/errors';
 import * as config from '../../../src/lib/config';
 import { setupTestEnv, cleanupTestEnv, testData } from '../../test-utils';
@@ -404,6 +404,29 @@ describe('API Client Module', () => {
 
       await expect(apiClient.uploadSessions(sessions)).rejects.toThrow('Invalid session data');
     });
+
+    it('should hand unsent batches to the failed batch handler on network errors', async () => {
+      const sessions = [testData.createSession()];
+      const networkError = new AxiosError('socket hang up');
+      const onBatchFailed = vi.fn().mockResolvedValue(undefined);
+
+      mockAxiosInstance.post.mockRejectedValue(networkError);
+
+      const result = await apiClient.uploadSessions(sessions, undefined, onBatchFailed);
+
+      expect(onBatchFailed).toHaveBeenCalledWith([expect.any(Array)], networkError);
+      expect(result.queuedBatches).toBe(1);
+    });
+
+    it('should not queue batches the server rejects', async () => {
+      const sessions = [testData.createSession()];
+      const onBatchFailed = vi.fn();
+
+      mockAxiosInstance.post.mockRejectedValue(new Error('Invalid session data'));
+
+      await expect(apiClient.uploadSessions(sessions, undefined, onBatchFailed)).rejects.toThrow('Invalid session data');
+      expect(onBatchFailed).not.toHaveBeenCalled();
+    });
   });
 
   describe('Batch Upload', () => {
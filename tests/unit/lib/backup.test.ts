@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createBackupPayload, encryptBackup, decryptBackup, restoreBackup, BackupPayload } from '../../../src/lib/backup';
+import * as configModule from '../../../src/lib/config';
+import * as hooksStats from '../../../src/lib/hooks/hooks-stats';
+import * as promptHistory from '../../../src/lib/prompt-history';
+import * as settingsReader from '../../../src/lib/claude-settings-reader';
+import * as hooksController from '../../../src/lib/hooks/hooks-controller';
+import * as statusLineManager from '../../../src/lib/status-line-manager';
+import * as teamPolicy from '../../../src/lib/team-policy';
+
+vi.mock('../../../src/lib/config');
+vi.mock('../../../src/lib/hooks/hooks-stats');
+vi.mock('../../../src/lib/prompt-history');
+vi.mock('../../../src/lib/claude-settings-reader');
+vi.mock('../../../src/lib/hooks/hooks-controller', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/lib/hooks/hooks-controller')>()),
+  getInstalledHookEvents: vi.fn(),
+  installSelectedHooks: vi.fn(),
+  installSelectiveProjectHooks: vi.fn(),
+}));
+vi.mock('../../../src/lib/status-line-manager');
+vi.mock('../../../src/lib/team-policy');
+vi.mock('../../../src/utils/logger');
+
+const PASSPHRASE = 'correct horse battery';
+
+describe('Backup', () => {
+  let tempDir: string;
+
+  const payload = (claude: Partial<BackupPayload['claude']> = {}): BackupPayload => ({
+    version: 1,
+    createdAt: '2026-10-01T09:30:00.000Z',
+    cliVersion: '0.7.2',
+    config: {
+      apiUrl: 'https://app.devark.ai',
+      projectSyncData: {
+        '-work-api': { projectName: 'api', newestSyncedTimestamp: '2026-10-01T09:00:00.000Z', sessionCount: 42 },
+      },
+    },
+    token: 'session-token',
+    hookStats: '{"version":"2.1.0"}',
+    promptHistory: '{"score":80}\n',
+    claude: { hookMode: 'all', globalHooks: ['SessionStart', 'PreCompact'], projects: [], statusLine: false, ...claude },
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-backup-'));
+
+    vi.mocked(hooksStats.getHookStatsPath).mockReturnValue(path.join(tempDir, 'hooks-stats.json'));
+    vi.mocked(promptHistory.getPromptHistoryPath).mockReturnValue(path.join(tempDir, 'prompt-history.jsonl'));
+    vi.mocked(teamPolicy.loadTeamPolicy).mockReturnValue(null);
+    vi.mocked(teamPolicy.isSyncModeAllowed).mockReturnValue(true);
+    vi.mocked(teamPolicy.getCliVersion).mockReturnValue('0.7.2');
+    vi.mocked(hooksController.installSelectiveProjectHooks).mockResolvedValue({ installedCount: 1, failedCount: 0 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip a payload through encryption', async () => {
+    const archive = await encryptBackup(payload(), PASSPHRASE);
+
+    expect(archive).not.toContain('session-token');
+    expect(JSON.parse(archive)).toMatchObject({ format: 'devark-backup', version: 1, kdf: { name: 'scrypt' } });
+    expect(await decryptBackup(archive, PASSPHRASE)).toEqual(payload());
+  });
+
+  it('should reject a wrong passphrase, a damaged file and a short passphrase', async () => {
+    const archive = await encryptBackup(payload(), PASSPHRASE);
+    const damaged = JSON.parse(archive);
+    damaged.data = Buffer.from('tampered').toString('base64');
+
+    await expect(decryptBackup(archive, 'wrong passphrase')).rejects.toMatchObject({ code: 'INVALID_BACKUP' });
+    await expect(decryptBackup(JSON.stringify(damaged), PASSPHRASE)).rejects.toMatchObject({ code: 'INVALID_BACKUP' });
+    await expect(decryptBackup('not json', PASSPHRASE)).rejects.toMatchObject({ code: 'INVALID_BACKUP' });
+    await expect(encryptBackup(payload(), 'short')).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+  });
+
+  it('should reject a payload with the wrong shape before restoring anything', async () => {
+    const broken = { ...payload(), claude: { ...payload().claude, hookMode: 'everything' } };
+    const archive = await encryptBackup(broken as unknown as BackupPayload, PASSPHRASE);
+
+    await expect(decryptBackup(archive, PASSPHRASE)).rejects.toMatchObject({ code: 'INVALID_BACKUP' });
+    await expect(restoreBackup({ ...payload(), token: 42 } as unknown as BackupPayload))
+      .rejects.toMatchObject({ code: 'INVALID_BACKUP' });
+    await expect(restoreBackup({ ...payload(), config: null } as unknown as BackupPayload))
+      .rejects.toMatchObject({ code: 'INVALID_BACKUP' });
+
+    expect(configModule.setPortableConfig).not.toHaveBeenCalled();
+    expect(configModule.storeToken).not.toHaveBeenCalled();
+    await expect(fs.access(path.join(tempDir, 'hooks-stats.json'))).rejects.toThrow();
+  });
+
+  it('should collect config, token, stats files and the hooks of selected projects', async () => {
+    await fs.writeFile(path.join(tempDir, 'hooks-stats.json'), '{"version":"2.1.0"}');
+    vi.mocked(configModule.getPortableConfig).mockReturnValue({ apiUrl: 'https://app.devark.ai' });
+    vi.mocked(configModule.getToken).mockResolvedValue('session-token');
+    vi.mocked(settingsReader.getHookMode).mockResolvedValue('selected');
+    vi.mocked(settingsReader.getTrackedProjects).mockResolvedValue(['/work/api']);
+    vi.mocked(settingsReader.readProjectLocalSettings).mockResolvedValue({});
+    vi.mocked(hooksController.getInstalledHookEvents).mockReturnValue(['SessionEnd']);
+    vi.mocked(statusLineManager.getStatusLineStatus).mockResolvedValue('installed');
+
+    const collected = await createBackupPayload();
+
+    expect(collected).toMatchObject({
+      config: { apiUrl: 'https://app.devark.ai' },
+      token: 'session-token',
+      hookStats: '{"version":"2.1.0"}',
+      claude: { hookMode: 'selected', globalHooks: [], projects: [{ path: '/work/api', hooks: ['SessionEnd'] }], statusLine: true },
+    });
+    expect(collected.promptHistory).toBeUndefined();
+  });
+
+  it('should restore config, re-store the token and reinstall global hooks', async () => {
+    const result = await restoreBackup(payload({ statusLine: true }));
+
+    expect(configModule.setPortableConfig).toHaveBeenCalledWith(payload().config);
+    expect(configModule.storeToken).toHaveBeenCalledWith('session-token');
+    expect(await fs.readFile(path.join(tempDir, 'hooks-stats.json'), 'utf-8')).toBe('{"version":"2.1.0"}');
+    expect(await fs.readFile(path.join(tempDir, 'prompt-history.jsonl'), 'utf-8')).toBe('{"score":80}\n');
+    expect(hooksController.installSelectedHooks).toHaveBeenCalledWith(expect.objectContaining({
+      sessionStartHook: true,
+      preCompactHook: true,
+      sessionEndHook: false,
+    }));
+    expect(statusLineManager.installStatusLine).toHaveBeenCalled();
+    expect(result).toMatchObject({ hookMode: 'all', statusLine: true });
+    expect(result.restored).toContain('sync data for 1 project');
+  });
+
+  it('should skip projects that are not on this machine', async () => {
+    const result = await restoreBackup(payload({
+      hookMode: 'selected',
+      globalHooks: [],
+      projects: [{ path: tempDir, hooks: ['SessionStart'] }, { path: '/nonexistent/old-laptop/api', hooks: ['SessionStart'] }],
+    }));
+
+    expect(hooksController.installSelectiveProjectHooks).toHaveBeenCalledWith([
+      expect.objectContaining({ path: tempDir, sessionStart: true, sessionEnd: false }),
+    ]);
+    expect(result.projects).toEqual([tempDir]);
+    expect(result.skippedProjects).toEqual(['/nonexistent/old-laptop/api']);
+  });
+
+  it('should warn about projects whose hooks could not be installed', async () => {
+    vi.mocked(hooksController.installSelectiveProjectHooks).mockResolvedValue({ installedCount: 0, failedCount: 1 });
+
+    const result = await restoreBackup(payload({ hookMode: 'selected', globalHooks: [], projects: [{ path: tempDir, hooks: ['SessionStart'] }] }));
+
+    expect(result.warnings).toEqual(['Hooks could not be installed in 1 of 1 projects']);
+  });
+
+  it('should leave hooks alone with hooks: false or when the team policy blocks the mode', async () => {
+    await restoreBackup(payload(), { hooks: false });
+    expect(hooksController.installSelectedHooks).not.toHaveBeenCalled();
+
+    vi.mocked(teamPolicy.loadTeamPolicy).mockReturnValue({ name: 'Platform team', sources: ['/work/.devark/team.json'] });
+    vi.mocked(teamPolicy.isSyncModeAllowed).mockReturnValue(false);
+    const result = await restoreBackup(payload());
+
+    expect(hooksController.installSelectedHooks).not.toHaveBeenCalled();
+    expect(result.warnings[0]).toContain('Platform team');
+    expect(configModule.setPortableConfig).toHaveBeenCalledTimes(2);
+  });
+});
@@ -4,7 +4,12 @@ import * as settingsReader from '../../../src/lib/claude-settings-reader';
 import * as config from '../../../src/lib/config';
 
 // Mock dependencies
-vi.mock('../../../src/lib/claude-settings-reader');
+vi.mock('../../../src/lib/claude-settings-reader', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/lib/claude-settings-reader')>()),
+  readGlobalSettings: vi.fn(),
+  writeGlobalSettings: vi.fn(),
+  readProjectLocalSettings: vi.fn(),
+}));
 vi.mock('../../../src/lib/config');
 vi.mock('../../../src/utils/logger');
 
@@ -83,6 +88,24 @@ describe('ClaudeSettingsManager', () => {
       );
     });
 
+    it('should not add a second analyze-prompt hook when the UserPromptSubmit hook is installed', async () => {
+      const promptHook = {
+        type: 'command' as const,
+        command: 'npx devark-cli analyze-prompt --silent --stdin --hook-trigger=userpromptsubmit --hook-version=1.0.0'
+      };
+      const mockSettings = { hooks: { UserPromptSubmit: [{ hooks: [promptHook] }] } };
+      mockSettingsReader.readGlobalSettings.mockResolvedValue(mockSettings);
+
+      await manager.installStatusLineFeature();
+
+      const written = mockSettingsReader.writeGlobalSettings.mock.calls[0][0];
+      expect(written.hooks?.UserPromptSubmit).toEqual([{ hooks: [promptHook] }]);
+      expect(written.statusLine).toMatchObject({ command: 'npx devark-cli statusline' });
+
+      mockSettingsReader.readGlobalSettings.mockResolvedValue(written);
+      expect((await manager.getFeatureStatus()).statusLine.hookInstalled).toBe(true);
+    });
+
     it('should backup existing non-devark status line', async () => {
       const mockSettings = {
         hooks: {},
@@ -153,6 +176,23 @@ describe('ClaudeSettingsManager', () => {
       expect(savedSettings.statusLine).toBeUndefined();
     });
 
+    it('should keep the UserPromptSubmit hook that took over prompt analysis', async () => {
+      const userPromptSubmitHook = {
+        type: 'command' as const,
+        command: 'npx devark-cli analyze-prompt --silent --stdin --hook-trigger=userpromptsubmit --hook-version=1.0.0'
+      };
+      mockSettingsReader.readGlobalSettings.mockResolvedValue({
+        hooks: { UserPromptSubmit: [{ hooks: [userPromptSubmitHook] }] },
+        statusLine: { type: 'command' as const, command: 'npx devark-cli statusline', padding: 0 }
+      });
+
+      await manager.removeStatusLineFeature();
+
+      const savedSettings = mockSettingsReader.writeGlobalSettings.mock.calls[0][0];
+      expect(savedSettings.hooks?.UserPromptSubmit).toEqual([{ hooks: [userPromptSubmitHook] }]);
+      expect(savedSettings.statusLine).toBeUndefined();
+    });
+
     it('should restore backup when requested', async () => {
       const mockSettings = {
         hooks: {
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
 import { setupTestEnv, cleanupTestEnv } from '../../test-utils';
 
 // Create mock store and config object
@@ -63,6 +64,9 @@ const {
   clearAllConfig,
 } = configModule;
 
+// The store config.ts was created with (beforeEach swaps mockConfigInstance)
+const moduleConfig = mockConfigInstance;
+
 describe('Configuration Module', () => {
   beforeEach(() => {
     setupTestEnv();
@@ -301,4 +305,39 @@ describe('Configuration Module', () => {
       expect(mockConfigInstance.config.set).toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+
+  describe('getTokenHealth', () => {
+    const key = crypto.randomBytes(32);
+
+    function encryptWith(text: string): string {
+      const iv = crypto.randomBytes(16);
+      const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+      const encrypted = cipher.update(text, 'utf8', 'hex') + cipher.final('hex');
+      return `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted}`;
+    }
+
+    afterEach(() => {
+      moduleConfig.store.delete('token');
+    });
+
+    it('should read a token with the existing key', async () => {
+      const fs = (await import('fs/promises')).default;
+      vi.mocked(fs.readFile).mockResolvedValue(key.toString('hex'));
+      moduleConfig.store.set('token', encryptWith('session-token-1234567890'));
+
+      expect(await configModule.getTokenHealth()).toBe('valid');
+    });
+
+    it('should not create a key file when there is none', async () => {
+      const fs = (await import('fs/promises')).default;
+      vi.mocked(fs.readFile).mockRejectedValue(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }));
+
+      expect(await configModule.getTokenHealth()).toBe('missing');
+      moduleConfig.store.set('token', encryptWith('session-token-1234567890'));
+      expect(await configModule.getTokenHealth()).toBe('undecryptable');
+
+      expect(fs.writeFile).not.toHaveBeenCalled();
+      expect(fs.mkdir).not.toHaveBeenCalled();
+    });
+  });
+});
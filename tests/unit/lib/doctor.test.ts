@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runDoctor } from '../../../src/lib/doctor';
+import * as detector from '../../../src/lib/detector';
+import * as configModule from '../../../src/lib/config';
+import * as hooksManager from '../../../src/lib/hooks-manager';
+import * as hooksController from '../../../src/lib/hooks/hooks-controller';
+import * as settingsReader from '../../../src/lib/claude-settings-reader';
+import * as spawnModule from '../../../src/utils/spawn';
+import * as statusLineManager from '../../../src/lib/status-line-manager';
+import * as claudeExecutor from '../../../src/utils/claude-executor';
+import { HookLock } from '../../../src/lib/hook-lock';
+
+vi.mock('../../../src/lib/detector');
+vi.mock('../../../src/lib/config');
+vi.mock('../../../src/lib/hooks-manager');
+vi.mock('../../../src/lib/hooks/hooks-controller');
+vi.mock('../../../src/lib/claude-settings-reader');
+vi.mock('../../../src/utils/spawn');
+vi.mock('../../../src/lib/status-line-manager');
+vi.mock('../../../src/utils/claude-executor');
+vi.mock('../../../src/lib/hook-lock');
+vi.mock('../../../src/utils/logger');
+
+describe('Doctor', () => {
+  const mockInspect = vi.fn();
+  const mockForceClear = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(detector.detectSetupState).mockResolvedValue({
+      state: 'CLOUD_AUTO',
+      hasConfig: true,
+      hasAuth: true,
+      hasAgents: true,
+      agentCount: 2,
+      totalAgents: 2,
+      hasHooks: true,
+      hasStatusLine: true,
+      statusLineStatus: 'installed',
+      trackingMode: 'all',
+      trackedProjectCount: 3,
+      errors: [],
+    });
+    vi.mocked(configModule.getCliPath).mockReturnValue('npx devark-cli');
+    vi.mocked(configModule.getTokenHealth).mockResolvedValue('valid');
+    vi.mocked(settingsReader.readGlobalSettings).mockResolvedValue({});
+    vi.mocked(settingsReader.getHookMode).mockResolvedValue('all');
+    vi.mocked(hooksController.getStaleHookEvents).mockReturnValue([]);
+    vi.mocked(hooksManager.validateHookCommands).mockResolvedValue({ valid: true, errors: [] });
+    vi.mocked(spawnModule.getUploadLockInfo).mockResolvedValue(null);
+    vi.mocked(statusLineManager.getStatusLineStatus).mockResolvedValue('installed');
+    vi.mocked(claudeExecutor.checkClaudeInstalled).mockResolvedValue({ installed: true, path: '/usr/local/bin/claude' });
+    mockInspect.mockResolvedValue(null);
+    vi.mocked(HookLock).mockImplementation(() => ({ inspect: mockInspect, forceClear: mockForceClear }) as unknown as HookLock);
+  });
+
+  it('should pass every check on a healthy setup', async () => {
+    const report = await runDoctor();
+
+    expect(report.checks.map(check => check.id)).toEqual([
+      'setup', 'hook-commands', 'hook-lock', 'upload-lock', 'token', 'claude', 'status-line',
+    ]);
+    expect(report.checks.every(check => check.status === 'pass')).toBe(true);
+    expect(report).toMatchObject({ passed: 7, warnings: 0, failures: 0 });
+  });
+
+  it('should report hooks that run an old CLI path and rewrite them with fix', async () => {
+    vi.mocked(hooksController.getStaleHookEvents).mockReturnValue(['SessionStart', 'PreCompact']);
+    vi.mocked(hooksController.updateHooksCliPath).mockResolvedValue(2);
+
+    const report = await runDoctor();
+    const check = report.checks.find(c => c.id === 'hook-commands')!;
+    expect(check).toMatchObject({ status: 'fail', fixable: true });
+    expect(check.message).toContain('SessionStart, PreCompact');
+    expect(hooksController.updateHooksCliPath).not.toHaveBeenCalled();
+
+    const fixed = await runDoctor({ fix: true });
+    expect(fixed.checks.find(c => c.id === 'hook-commands')).toMatchObject({
+      status: 'pass',
+      fixed: 'Updated 2 hook commands to npx devark-cli',
+    });
+  });
+
+  it('should check project hooks in selected mode without rewriting them', async () => {
+    vi.mocked(settingsReader.getHookMode).mockResolvedValue('selected');
+    vi.mocked(settingsReader.getTrackedProjects).mockResolvedValue(['/work/api', '/work/web']);
+    vi.mocked(settingsReader.readProjectLocalSettings).mockImplementation(async projectPath => ({ env: { projectPath } }));
+    vi.mocked(hooksController.getStaleHookEvents).mockImplementation(settings =>
+      settings?.env?.projectPath === '/work/web' ? ['SessionEnd'] : []);
+
+    const report = await runDoctor({ fix: true });
+    const check = report.checks.find(c => c.id === 'hook-commands')!;
+
+    expect(check).toMatchObject({ status: 'fail', fixable: false });
+    expect(check.message).toContain('/work/web');
+    expect(check.message).not.toContain('/work/api');
+    expect(hooksController.updateHooksCliPath).not.toHaveBeenCalled();
+  });
+
+  it('should clear stale locks with fix', async () => {
+    mockInspect.mockResolvedValue({ pid: 4242, age: 10 * 60 * 1000, stale: true });
+    vi.mocked(spawnModule.getUploadLockInfo).mockResolvedValue({ pid: 4343, age: 60 * 1000, stale: true });
+
+    const report = await runDoctor({ fix: true });
+
+    expect(mockForceClear).toHaveBeenCalled();
+    expect(spawnModule.removeUploadLock).toHaveBeenCalled();
+    expect(report.checks.find(c => c.id === 'hook-lock')).toMatchObject({ status: 'pass', fixed: 'Removed hook.lock' });
+    expect(report.checks.find(c => c.id === 'upload-lock')).toMatchObject({ status: 'pass', fixed: 'Removed upload.lock' });
+  });
+
+  it('should leave a running upload alone', async () => {
+    vi.mocked(spawnModule.getUploadLockInfo).mockResolvedValue({ pid: 4343, age: 1000, stale: false });
+
+    const report = await runDoctor({ fix: true });
+
+    expect(report.checks.find(c => c.id === 'upload-lock')!.status).toBe('pass');
+    expect(spawnModule.removeUploadLock).not.toHaveBeenCalled();
+  });
+
+  it('should reset an undecryptable token only with fix', async () => {
+    vi.mocked(configModule.getTokenHealth).mockResolvedValue('undecryptable');
+
+    const report = await runDoctor();
+    expect(report.checks.find(c => c.id === 'token')).toMatchObject({ status: 'fail', fixable: true });
+    expect(configModule.resetTokenEncryption).not.toHaveBeenCalled();
+
+    await runDoctor({ fix: true });
+    expect(configModule.resetTokenEncryption).toHaveBeenCalled();
+  });
+
+  it('should not replace a status line that another tool installed', async () => {
+    vi.mocked(statusLineManager.getStatusLineStatus).mockResolvedValue('partial');
+    vi.mocked(statusLineManager.detectExistingStatusLine).mockResolvedValue({ command: 'ccusage statusline', type: 'command' });
+
+    const report = await runDoctor({ fix: true });
+
+    expect(report.checks.find(c => c.id === 'status-line')).toMatchObject({ status: 'warn', fixable: false });
+    expect(statusLineManager.installStatusLine).not.toHaveBeenCalled();
+  });
+
+  it('should report a missing claude binary and a failing check without stopping', async () => {
+    vi.mocked(claudeExecutor.checkClaudeInstalled).mockResolvedValue({ installed: false });
+    vi.mocked(detector.detectSetupState).mockRejectedValue(new Error('config unreadable'));
+
+    const report = await runDoctor({ fix: true });
+
+    expect(report.checks.find(c => c.id === 'claude')!.status).toBe('warn');
+    expect(report.checks.find(c => c.id === 'setup')).toMatchObject({ status: 'fail', message: 'config unreadable' });
+    expect(report.checks).toHaveLength(7);
+  });
+});
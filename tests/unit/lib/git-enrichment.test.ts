@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  parseGitLog,
+  extractPullRequests,
+  getSessionWindow,
+  enrichSessionsWithGit,
+  getGitUploadSummary,
+  summarizeGitActivity,
+} from '../../../src/lib/git-enrichment';
+import { SessionData } from '../../../src/lib/readers/types';
+
+vi.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function session(id: string, projectPath: string, start: string, end: string): SessionData {
+  return {
+    id,
+    projectPath,
+    timestamp: new Date(start),
+    messages: [
+      { role: 'user', content: 'Start', timestamp: new Date(start) },
+      { role: 'assistant', content: 'Done', timestamp: new Date(end) },
+    ],
+    duration: (new Date(end).getTime() - new Date(start).getTime()) / 1000,
+    tool: 'claude_code',
+    metadata: { files_edited: 1, languages: ['TypeScript'] },
+  };
+}
+
+describe('git enrichment', () => {
+  it('should parse commits with line counts and binary files', () => {
+    const output =
+      '\x1eaaa111\x1f2026-10-14T10:00:00+02:00\x1fAdd login form (#12)\n\n' +
+      '10\t2\tsrc/login.ts\n-\t-\tassets/logo.png\n' +
+      '\x1ebbb222\x1f2026-10-14T11:00:00+02:00\x1fEmpty commit\n';
+
+    const commits = parseGitLog(output);
+
+    expect(commits).toHaveLength(2);
+    expect(commits[0]).toMatchObject({
+      hash: 'aaa111',
+      subject: 'Add login form (#12)',
+      filesChanged: 2,
+      insertions: 10,
+      deletions: 2,
+      files: ['src/login.ts', 'assets/logo.png'],
+    });
+    expect(commits[0].authoredAt.toISOString()).toBe('2026-10-14T08:00:00.000Z');
+    expect(commits[1].filesChanged).toBe(0);
+  });
+
+  it('should find pull request numbers in commit subjects', () => {
+    const commits = parseGitLog(
+      '\x1ea\x1f2026-10-14T10:00:00Z\x1fMerge pull request #45 from team/feature\n' +
+      '\x1eb\x1f2026-10-14T10:00:00Z\x1fFix redirect (#7)\n' +
+      '\x1ec\x1f2026-10-14T10:00:00Z\x1fRefs issue #3\n'
+    );
+    expect(extractPullRequests(commits)).toEqual([7, 45]);
+  });
+
+  it('should start the window at the session timestamp when only recent messages are kept', () => {
+    const windowed = {
+      ...session('long', '/tmp/project', '2026-10-14T12:00:00Z', '2026-10-14T12:30:00Z'),
+      timestamp: new Date('2026-10-14T09:00:00Z'),
+      lastTimestamp: new Date('2026-10-14T12:45:00Z'),
+    };
+
+    const { start, end } = getSessionWindow(windowed);
+
+    expect(start.toISOString()).toBe('2026-10-14T09:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-10-14T12:45:00.000Z');
+  });
+
+  it('should find the window of a session with very many messages', () => {
+    const long = session('long', '/tmp/project', '2026-10-14T10:00:00Z', '2026-10-14T11:00:00Z');
+    long.messages = Array.from({ length: 200_000 }, (_, i) => ({
+      role: 'user' as const,
+      content: 'Hi',
+      timestamp: new Date(Date.parse('2026-10-14T10:00:00Z') + i * 1000),
+    }));
+
+    const { start, end } = getSessionWindow(long);
+
+    expect(start.toISOString()).toBe('2026-10-14T10:00:00.000Z');
+    expect(end.getTime()).toBe(Date.parse('2026-10-14T10:00:00Z') + 199_999 * 1000);
+  });
+
+  describe('with a repository', () => {
+    let repoDir: string;
+
+    function git(args: string[], date?: string): void {
+      execFileSync('git', args, {
+        cwd: repoDir,
+        stdio: 'ignore',
+        env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+      });
+    }
+
+    async function commit(file: string, lines: number, message: string, date: string): Promise<void> {
+      await fs.writeFile(path.join(repoDir, file), 'line\n'.repeat(lines));
+      git(['add', file]);
+      git(['commit', '-q', '-m', message], date);
+    }
+
+    beforeEach(async () => {
+      repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-git-'));
+      git(['init', '-q']);
+      git(['config', 'user.email', 'dev@example.com']);
+      git(['config', 'user.name', 'Dev']);
+      git(['config', 'commit.gpgsign', 'false']);
+
+      await commit('before.ts', 1, 'Before the session', '2026-10-14T08:00:00Z');
+      await commit('a.ts', 3, 'Add feature a (#5)', '2026-10-14T10:15:00Z');
+      await commit('b.ts', 2, 'Add feature b', '2026-10-14T10:45:00Z');
+      await commit('c.ts', 4, 'Later work', '2026-10-14T14:30:00Z');
+    });
+
+    afterEach(async () => {
+      await fs.rm(repoDir, { recursive: true, force: true });
+    });
+
+    it('should attach the commits authored during each session', async () => {
+      const sessions = [
+        session('morning', repoDir, '2026-10-14T10:00:00Z', '2026-10-14T11:00:00Z'),
+        session('afternoon', repoDir, '2026-10-14T14:00:00Z', '2026-10-14T15:00:00Z'),
+      ];
+
+      const [morning, afternoon] = await enrichSessionsWithGit(sessions);
+
+      expect(morning.metadata?.git?.commits.map(c => c.subject)).toEqual(['Add feature b', 'Add feature a (#5)']);
+      expect(morning.metadata?.git).toMatchObject({
+        filesChanged: 2,
+        insertions: 5,
+        deletions: 0,
+        hasUpstream: false,
+        pullRequests: [5],
+      });
+      expect(morning.metadata?.languages).toEqual(['TypeScript']);
+      expect(afternoon.metadata?.git?.commits.map(c => c.subject)).toEqual(['Later work']);
+      // The input sessions are left untouched
+      expect(sessions[0].metadata?.git).toBeUndefined();
+    });
+
+    it('should upload hashes and counts but no commit messages or file names', async () => {
+      const [enriched] = await enrichSessionsWithGit([
+        session('morning', repoDir, '2026-10-14T10:00:00Z', '2026-10-14T11:00:00Z'),
+      ]);
+
+      const summary = getGitUploadSummary(enriched.metadata?.git);
+
+      expect(summary).toMatchObject({ commits: 2, filesChanged: 2, linesAdded: 5, linesRemoved: 0, hasUpstream: false });
+      expect(summary?.commitHashes).toHaveLength(2);
+      expect(JSON.stringify(summary)).not.toMatch(/feature|a\.ts/);
+    });
+
+    it('should summarize each commit once per project', async () => {
+      const enriched = await enrichSessionsWithGit([
+        session('one', repoDir, '2026-10-14T10:00:00Z', '2026-10-14T11:00:00Z'),
+        session('overlapping', repoDir, '2026-10-14T10:30:00Z', '2026-10-14T15:00:00Z'),
+      ]);
+
+      const [activity] = summarizeGitActivity(enriched);
+
+      expect(activity.projectPath).toBe(repoDir);
+      expect(activity.commits.map(c => c.subject)).toEqual(['Later work', 'Add feature b', 'Add feature a (#5)']);
+      expect(activity.insertions).toBe(9);
+    });
+  });
+
+  it('should leave sessions outside a repository unchanged', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-nogit-'));
+    try {
+      const input = session('s', dir, '2026-10-14T10:00:00Z', '2026-10-14T11:00:00Z');
+      const [result] = await enrichSessionsWithGit([input]);
+      expect(result).toBe(input);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { scorePromptHeuristically } from '../../../src/lib/heuristic-scorer';
+
+describe('Heuristic Prompt Scorer', () => {
+  it('should score slash commands as complete workflows', () => {
+    const result = scorePromptHeuristically('/review-pr 123');
+
+    expect(result.score).toBe(90);
+    expect(result.quality).toBe('excellent');
+    expect(result.missing).toEqual([]);
+    expect(result.source).toBe('heuristic');
+  });
+
+  it('should treat a short reply to an assistant question as a good answer', () => {
+    const result = scorePromptHeuristically('Yes, use the second option', { lastAssistantEndsWithQuestion: true });
+
+    expect(result.score).toBe(90);
+    expect(result.missing).toEqual([]);
+  });
+
+  it('should not treat the same short text as an answer without a question', () => {
+    expect(scorePromptHeuristically('Yes, use the second option').score).toBeLessThan(60);
+  });
+
+  it.each(['fix it', 'make this better', 'help', 'continue'])('should score vague prompt "%s" as poor', (prompt) => {
+    const result = scorePromptHeuristically(prompt);
+
+    expect(result.quality).toBe('poor');
+    expect(result.missing.length).toBeGreaterThan(0);
+  });
+
+  it('should ask for error output when a bug report has none', () => {
+    const result = scorePromptHeuristically('The login page is broken after the last deploy, please fix');
+
+    expect(result.missing[0]).toBe('error output or current behavior');
+  });
+
+  it('should reward file references, acceptance criteria, error output and constraints', () => {
+    const vague = scorePromptHeuristically('Fix the login bug please');
+    const detailed = scorePromptHeuristically(
+      'Fix the login bug in src/auth/session.ts. It fails with "TypeError: token is undefined". ' +
+      'It should redirect to /dashboard after sign-in, and do not add new dependencies.'
+    );
+
+    expect(detailed.score).toBeGreaterThan(vague.score);
+    expect(detailed.quality).toBe('excellent');
+    expect(detailed.missing).toEqual([]);
+    expect(detailed.contextualEmoji).toBe('✅');
+  });
+
+  it('should return a full PromptAnalysis with at most two missing items', () => {
+    const result = scorePromptHeuristically('Refactor the whole thing', undefined, 'session-1');
+
+    expect(result).toMatchObject({
+      sessionId: 'session-1',
+      originalPrompt: 'Refactor the whole thing',
+      suggestion: expect.any(String),
+      actionableSteps: expect.any(String),
+      timestamp: expect.any(String),
+    });
+    expect(result.missing.length).toBeLessThanOrEqual(2);
+  });
+
+  it('should be deterministic', () => {
+    const prompt = 'Add pagination to the users endpoint in api/users.py, 20 per page';
+    const { timestamp: _a, ...first } = scorePromptHeuristically(prompt);
+    const { timestamp: _b, ...second } = scorePromptHeuristically(prompt);
+
+    expect(first).toEqual(second);
+  });
+});
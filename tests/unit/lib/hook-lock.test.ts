@@ -267,4 +267,26 @@ describe('HookLock', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('inspect()', () => {
+    it('should return null when there is no lock', async () => {
+      expect(await lock.inspect()).toBeNull();
+    });
+
+    it('should report the holder of a valid lock', async () => {
+      await lock.acquire();
+
+      const info = await lock.inspect();
+      expect(info).toMatchObject({ pid: process.pid, stale: false });
+    });
+
+    it('should report old and unreadable locks as stale', async () => {
+      await fs.mkdir(path.dirname(lockPath), { recursive: true });
+      await fs.writeFile(lockPath, JSON.stringify({ pid: 99999, timestamp: Date.now() - 120000 }));
+      expect(await lock.inspect()).toMatchObject({ pid: 99999, stale: true });
+
+      await fs.writeFile(lockPath, 'not json');
+      expect(await lock.inspect()).toMatchObject({ stale: true });
+    });
+  });
 });
@@ -1,5 +1,5 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { buildHookCommand, uninstallAllHooks } from '../../../../src/lib/hooks/hooks-controller';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildHookCommand, uninstallAllHooks, getStaleHookEvents, updateHooksCliPath } from '../../../../src/lib/hooks/hooks-controller';
 import type { ClaudeSettings } from '../../../../src/lib/claude-settings-reader';
 
 // Mock the readSettings function to test getHookStatusInfo
@@ -272,4 +272,64 @@ describe('Hooks Controller', () => {
       expect(allCommands.every(cmd => !cmd.includes('devark'))).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('updateHooksCliPath', () => {
+    const settingsWithOldPath = (): ClaudeSettings => ({
+      hooks: {
+        SessionStart: [{
+          matcher: 'startup|clear',
+          hooks: [
+            { type: 'command', command: 'afplay /System/Library/Sounds/Glass.aiff' },
+            { type: 'command', command: 'node /old/devark/dist/index.js send --silent --background --hook-trigger=sessionstart --hook-version=1.0.0 --all', timeout: 30 }
+          ]
+        }],
+        PreCompact: [{
+          matcher: 'auto',
+          hooks: [
+            { type: 'command', command: 'npx devark-cli send --silent --background --hook-trigger=precompact --hook-version=1.0.0 --claude-project-dir="$CLAUDE_PROJECT_DIR"' }
+          ]
+        }]
+      }
+    });
+
+    beforeEach(() => {
+      process.env.DEVARK_CLI_PATH = 'npx devark-cli';
+    });
+
+    afterEach(() => {
+      delete process.env.DEVARK_CLI_PATH;
+    });
+
+    it('should find hooks that run another CLI path', () => {
+      expect(getStaleHookEvents(settingsWithOldPath())).toEqual(['SessionStart']);
+      expect(getStaleHookEvents(null)).toEqual([]);
+    });
+
+    it('should rewrite stale hooks and keep their mode, matcher and timeout', async () => {
+      const { readGlobalSettings, writeGlobalSettings } = await import('../../../../src/lib/claude-settings-reader');
+      const settings = settingsWithOldPath();
+      vi.mocked(readGlobalSettings).mockResolvedValue(settings);
+      vi.mocked(writeGlobalSettings).mockClear();
+
+      expect(await updateHooksCliPath()).toBe(1);
+
+      const written = vi.mocked(writeGlobalSettings).mock.calls[0][0];
+      expect(written.hooks!.SessionStart[0].matcher).toBe('startup|clear');
+      expect(written.hooks!.SessionStart[0].hooks[0].command).toBe('afplay /System/Library/Sounds/Glass.aiff');
+      expect(written.hooks!.SessionStart[0].hooks[1]).toEqual({
+        type: 'command',
+        command: 'npx devark-cli send --silent --background --hook-trigger=sessionstart --hook-version=1.0.0 --all',
+        timeout: 30
+      });
+    });
+
+    it('should not write settings when every hook is current', async () => {
+      const { readGlobalSettings, writeGlobalSettings } = await import('../../../../src/lib/claude-settings-reader');
+      vi.mocked(readGlobalSettings).mockResolvedValue({ hooks: { PreCompact: settingsWithOldPath().hooks!.PreCompact } });
+      vi.mocked(writeGlobalSettings).mockClear();
+
+      expect(await updateHooksCliPath()).toBe(0);
+      expect(writeGlobalSettings).not.toHaveBeenCalled();
+    });
+  });
+});
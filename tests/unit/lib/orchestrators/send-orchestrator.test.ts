@@ -2,8 +2,10 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { SendOrchestrator } from '../../../../src/lib/orchestrators/send-orchestrator';
 import * as authModule from '../../../../src/lib/auth/token';
 import * as claudeModule from '../../../../src/lib/readers/claude';
+import * as cursorModule from '../../../../src/lib/readers/cursor';
 import * as configModule from '../../../../src/lib/config';
 import * as apiClientModule from '../../../../src/lib/api-client';
+import * as uploadQueueModule from '../../../../src/lib/upload-queue';
 import * as claudeCoreModule from '../../../../src/lib/claude-core';
 import * as fs from 'fs/promises';
 import path from 'path';
@@ -11,9 +13,11 @@ import path from 'path';
 // Mock all dependencies
 vi.mock('../../../../src/lib/auth/token');
 vi.mock('../../../../src/lib/readers/claude');
+vi.mock('../../../../src/lib/readers/cursor');
 vi.mock('../../../../src/lib/config');
 vi.mock('../../../../src/lib/api-client');
 vi.mock('../../../../src/lib/claude-core');
+vi.mock('../../../../src/lib/upload-queue');
 vi.mock('../../../../src/utils/logger');
 vi.mock('fs/promises');
 
@@ -112,7 +116,8 @@ describe('SendOrchestrator', () => {
       
       // Should have called readClaudeSessions without projectPath filter
       expect(mockReadClaudeSessions).toHaveBeenCalledWith({
-        since: undefined
+        since: undefined,
+        useIndex: false
       });
     });
 
@@ -145,7 +150,8 @@ describe('SendOrchestrator', () => {
       // Should have called readClaudeSessions with project filter
       expect(mockReadClaudeSessions).toHaveBeenCalledWith({
         since: undefined,
-        projectPath: '/home/user/projects/my-app'
+        projectPath: '/home/user/projects/my-app',
+        useIndex: false
       });
     });
 
@@ -189,7 +195,8 @@ describe('SendOrchestrator', () => {
       
       // Should have called readClaudeSessions without filters
       expect(mockReadClaudeSessions).toHaveBeenCalledWith({
-        since: undefined
+        since: undefined,
+        useIndex: false
       });
     });
 
@@ -223,7 +230,8 @@ describe('SendOrchestrator', () => {
       // Should have called readClaudeSessions with since date
       expect(mockReadClaudeSessions).toHaveBeenCalledWith({
         since: recentDate,
-        projectPath: '/home/user/projects/my-app'
+        projectPath: '/home/user/projects/my-app',
+        useIndex: false
       });
     });
 
@@ -244,7 +252,8 @@ describe('SendOrchestrator', () => {
       
       // Should not filter by project
       expect(mockReadClaudeSessions).toHaveBeenCalledWith({
-        since: undefined
+        since: undefined,
+        useIndex: false
       });
     });
   });
@@ -337,6 +346,38 @@ describe('SendOrchestrator', () => {
       expect(result[0].duration).toBe(300);
     });
 
+    it('should leave out Cursor sessions without a workspace folder', async () => {
+      const sessions = [
+        {
+          id: 'cursor1',
+          tool: 'cursor' as const,
+          projectPath: cursorModule.CURSOR_UNKNOWN_PROJECT,
+          timestamp: new Date(),
+          duration: 300,
+          messages: [
+            { role: 'user' as const, content: 'Hello', timestamp: new Date() }
+          ],
+          metadata: {}
+        },
+        {
+          id: 'cursor2',
+          tool: 'cursor' as const,
+          projectPath: '/home/user/projects/my-app',
+          timestamp: new Date(),
+          duration: 300,
+          messages: [
+            { role: 'user' as const, content: 'Hello', timestamp: new Date() }
+          ],
+          metadata: {}
+        }
+      ];
+
+      const result = await orchestrator.sanitizeSessions(sessions);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].data.projectName).toBe('my-app');
+    });
+
     it('should throw error when all sessions are too short (non-initial sync)', async () => {
       const shortSessions = [
         {
@@ -401,7 +442,7 @@ describe('SendOrchestrator', () => {
       ).rejects.toThrow('Network failure');
 
       // Error should have been logged
-      expect(mockApiClient.uploadSessions).toHaveBeenCalledWith(apiSessions, undefined);
+      expect(mockApiClient.uploadSessions).toHaveBeenCalledWith(apiSessions, undefined, expect.any(Function));
     });
 
     it('should propagate upload errors in non-silent mode', async () => {
@@ -447,7 +488,32 @@ describe('SendOrchestrator', () => {
       const result = await orchestrator.uploadSessions(apiSessions, {}, progressCallback);
 
       expect(result.success).toBe(true);
-      expect(mockApiClient.uploadSessions).toHaveBeenCalledWith(apiSessions, progressCallback);
+      expect(mockApiClient.uploadSessions).toHaveBeenCalledWith(apiSessions, progressCallback, expect.any(Function));
+    });
+
+    it('should queue batches that fail to upload', async () => {
+      const apiSessions = [{
+        tool: 'claude_code' as const,
+        timestamp: new Date().toISOString(),
+        duration: 300,
+        data: {
+          projectName: 'my-app',
+          messageSummary: '[]',
+          messageCount: 1,
+          metadata: {}
+        }
+      }];
+      const networkError = new Error('socket hang up');
+
+      mockApiClient.uploadSessions = vi.fn().mockImplementation(async (sessions, _onProgress, onBatchFailed) => {
+        await onBatchFailed([sessions], networkError);
+        return { success: true, sessionsProcessed: 0, queuedBatches: 1 };
+      });
+
+      const result = await orchestrator.uploadSessions(apiSessions, { silent: true });
+
+      expect(result.queuedBatches).toBe(1);
+      expect(uploadQueueModule.enqueueBatches).toHaveBeenCalledWith([apiSessions], networkError);
     });
   });
 
@@ -498,6 +564,16 @@ describe('SendOrchestrator', () => {
       expect(mockApiClient.uploadSessions).not.toHaveBeenCalled();
     });
 
+    it('should leave the upload queue alone in dry run mode', async () => {
+      mockReadClaudeSessions.mockResolvedValue([]);
+
+      await orchestrator.execute({ dry: true, silent: true, hookTrigger: 'sessionend' });
+      expect(uploadQueueModule.flushUploadQueue).not.toHaveBeenCalled();
+
+      await orchestrator.execute({ silent: true, hookTrigger: 'sessionend' });
+      expect(uploadQueueModule.flushUploadQueue).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle dry run mode (non-silent)', async () => {
       const mockSessions = [{
         id: 'session1',
@@ -810,6 +886,22 @@ describe('SendOrchestrator', () => {
   });
 
   describe('readSelectedSessions', () => {
+    it('should re-read picked Cursor sessions through their source by ID', async () => {
+      const timestamp = new Date('2024-01-15T10:00:00Z');
+      vi.mocked(cursorModule.readCursorSessions).mockResolvedValue([
+        { id: 'composer-1', tool: 'cursor', projectPath: '/Users/test/app', timestamp, messages: [], duration: 600 },
+        { id: 'composer-2', tool: 'cursor', projectPath: '/Users/test/app', timestamp, messages: [], duration: 300 },
+      ]);
+
+      const sessions = await orchestrator.readSelectedSessions([
+        { projectPath: '/Users/test/app', sessionFile: '', displayName: 'app', timestamp, duration: 300, messageCount: 0, tool: 'cursor', sessionId: 'composer-2' },
+      ]);
+
+      expect(sessions.map(s => s.id)).toEqual(['composer-2']);
+      expect(cursorModule.readCursorSessions).toHaveBeenCalledWith(expect.objectContaining({ since: timestamp }));
+      expect(mockFs.readFile).not.toHaveBeenCalled();
+    });
+
     it('should read and parse valid JSONL session files', async () => {
       const selectedInfo = [
         {
@@ -1289,7 +1381,8 @@ describe('SendOrchestrator', () => {
 
       // Should have called readClaudeSessions with the server date
       expect(mockReadClaudeSessions).toHaveBeenCalledWith({
-        since: serverDate
+        since: serverDate,
+        useIndex: false
       });
     });
 
@@ -1314,7 +1407,8 @@ describe('SendOrchestrator', () => {
 
       // Should have called readClaudeSessions with the server date
       expect(mockReadClaudeSessions).toHaveBeenCalledWith({
-        since: serverDate
+        since: serverDate,
+        useIndex: false
       });
     });
 
@@ -1332,7 +1426,8 @@ describe('SendOrchestrator', () => {
 
       // Should have called readClaudeSessions without since date (upload all)
       expect(mockReadClaudeSessions).toHaveBeenCalledWith({
-        since: undefined
+        since: undefined,
+        useIndex: false
       });
     });
 
@@ -1347,7 +1442,8 @@ describe('SendOrchestrator', () => {
 
       // Should have called readClaudeSessions without since date (fallback)
       expect(mockReadClaudeSessions).toHaveBeenCalledWith({
-        since: undefined
+        since: undefined,
+        useIndex: false
       });
     });
 
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { PromptAnalyzer } from '../../../src/lib/prompt-analyzer';
+import { completeAnalysis } from '../../../src/lib/analysis-backends/analysis-backend';
+import { appendPromptHistory } from '../../../src/lib/prompt-history';
+import * as config from '../../../src/lib/config';
+
+const testHome = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('os', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('os')>();
+  return { ...actual, default: { ...actual, homedir: () => testHome.dir }, homedir: () => testHome.dir };
+});
+
+vi.mock('../../../src/lib/config', () => ({
+  getToken: vi.fn().mockResolvedValue(null),
+  getAnalysisBackendSettings: vi.fn(() => ({})),
+}));
+vi.mock('../../../src/lib/analysis-backends/analysis-backend', () => ({
+  completeAnalysis: vi.fn(),
+}));
+vi.mock('../../../src/lib/prompt-history', () => ({
+  appendPromptHistory: vi.fn(),
+}));
+vi.mock('../../../src/lib/promotional-tips', () => ({
+  generatePromotionalTip: vi.fn(() => ''),
+}));
+vi.mock('../../../src/lib/personality-manager', () => ({
+  getStatusLinePersonality: vi.fn(() => ({ personality: 'gordon' })),
+}));
+vi.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+async function readSessionFile(sessionId: string): Promise<any> {
+  return JSON.parse(await fs.readFile(path.join(testHome.dir, '.devark', 'analyzed-prompts', `${sessionId}.json`), 'utf8'));
+}
+
+describe('PromptAnalyzer analysis modes', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.mocked(config.getAnalysisBackendSettings).mockReturnValue({});
+    testHome.dir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-analyzer-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testHome.dir, { recursive: true, force: true });
+  });
+
+  it('should answer from the heuristic scorer without calling the backend', async () => {
+    vi.mocked(config.getAnalysisBackendSettings).mockReturnValue({ mode: 'heuristic' });
+
+    const result = await new PromptAnalyzer().analyze('/review-pr 42', { sessionId: 'h-1', projectPath: '/p/api' });
+
+    expect(result).toMatchObject({ score: 90, source: 'heuristic' });
+    expect(completeAnalysis).not.toHaveBeenCalled();
+    expect(await readSessionFile('h-1')).toMatchObject({ score: 90, source: 'heuristic' });
+    expect(appendPromptHistory).toHaveBeenCalledWith(result, { sessionId: 'h-1', projectPath: '/p/api' });
+  });
+
+  it('should use the LLM result in hybrid mode when it arrives', async () => {
+    vi.mocked(config.getAnalysisBackendSettings).mockReturnValue({ mode: 'hybrid' });
+    vi.mocked(completeAnalysis).mockResolvedValue({
+      text: '{"quality":"good","missing":[],"suggestion":"Clear enough","score":72}',
+      backend: { type: 'claude-sdk', displayName: 'Claude SDK', complete: vi.fn() },
+    });
+
+    const result = await new PromptAnalyzer().analyze('fix it', { sessionId: 'y-1' });
+
+    expect(result).toMatchObject({ score: 72, source: 'llm' });
+    expect(await readSessionFile('y-1')).toMatchObject({ score: 72, source: 'llm' });
+  });
+
+  it('should keep the heuristic score in hybrid mode when the LLM fails', async () => {
+    vi.mocked(config.getAnalysisBackendSettings).mockReturnValue({ mode: 'hybrid' });
+    vi.mocked(completeAnalysis).mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    const result = await new PromptAnalyzer().analyze('fix it', { sessionId: 'y-2' });
+
+    expect(result).toMatchObject({ quality: 'poor', source: 'heuristic' });
+    expect(await readSessionFile('y-2')).toMatchObject({ source: 'heuristic' });
+    expect(appendPromptHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should still fail in llm mode when the backend fails', async () => {
+    vi.mocked(completeAnalysis).mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await expect(new PromptAnalyzer().analyze('fix it', { sessionId: 'l-1' })).rejects.toThrow('ECONNREFUSED');
+    expect(appendPromptHistory).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  appendPromptHistory,
+  readPromptHistory,
+  computePromptTrend,
+  getPromptHistoryPath,
+  PromptHistoryEntry,
+} from '../../../src/lib/prompt-history';
+import { PromptAnalysis } from '../../../src/lib/prompt-analyzer';
+
+const testHome = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('os', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('os')>();
+  return { ...actual, default: { ...actual, homedir: () => testHome.dir }, homedir: () => testHome.dir };
+});
+
+vi.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function analysis(score: number, timestamp: string, missing: string[] = []): PromptAnalysis {
+  return {
+    quality: score >= 80 ? 'excellent' : score >= 60 ? 'good' : score >= 40 ? 'fair' : 'poor',
+    missing,
+    suggestion: 'Add more context',
+    score,
+    timestamp,
+    originalPrompt: 'fix it',
+  };
+}
+
+function entry(score: number, timestamp: string, project?: string, missing: string[] = []): PromptHistoryEntry {
+  return { timestamp, score, quality: 'good', missing, project };
+}
+
+describe('Prompt History', () => {
+  beforeEach(async () => {
+    testHome.dir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-history-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testHome.dir, { recursive: true, force: true });
+  });
+
+  describe('appendPromptHistory', () => {
+    it('should append one line per analysis without the prompt text', async () => {
+      await appendPromptHistory(analysis(45, '2025-01-10T10:00:00Z', ['context']), {
+        sessionId: 'session-1',
+        projectPath: '/home/user/projects/api',
+      });
+      await appendPromptHistory(analysis(80, '2025-01-11T10:00:00Z'));
+
+      const lines = (await fs.readFile(getPromptHistoryPath(), 'utf8')).trim().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0])).toEqual({
+        timestamp: '2025-01-10T10:00:00Z',
+        score: 45,
+        quality: 'fair',
+        missing: ['context'],
+        sessionId: 'session-1',
+        project: 'api',
+        projectPath: '/home/user/projects/api',
+      });
+      expect(lines.join('\n')).not.toContain('fix it');
+    });
+  });
+
+  describe('readPromptHistory', () => {
+    it('should return [] when there is no history yet', async () => {
+      expect(await readPromptHistory()).toEqual([]);
+    });
+
+    it('should filter by date and project and skip corrupt lines', async () => {
+      await appendPromptHistory(analysis(50, '2025-01-01T10:00:00Z'), { projectPath: '/p/api' });
+      await fs.appendFile(getPromptHistoryPath(), '{ not json\n{"foo":1}\n');
+      await appendPromptHistory(analysis(70, '2025-01-05T10:00:00Z'), { projectPath: '/p/API' });
+      await appendPromptHistory(analysis(90, '2025-01-06T10:00:00Z'), { projectPath: '/p/web' });
+
+      const entries = await readPromptHistory({ since: new Date('2025-01-02T00:00:00Z'), project: 'api' });
+
+      expect(entries.map(e => e.score)).toEqual([70]);
+      expect(await readPromptHistory()).toHaveLength(3);
+    });
+  });
+
+  describe('computePromptTrend', () => {
+    it('should average per day and project and rank missing categories', () => {
+      const trend = computePromptTrend([
+        entry(40, '2025-01-01T10:00:00', 'api', ['Context', 'expected output']),
+        entry(60, '2025-01-01T15:00:00', 'api', ['context']),
+        entry(70, '2025-01-02T10:00:00', 'web', ['context ', 'constraints']),
+        entry(90, '2025-01-03T10:00:00', 'api', []),
+      ]);
+
+      expect(trend.total).toBe(4);
+      expect(trend.averageScore).toBe(65);
+      expect(trend.days).toEqual([
+        { key: '2025-01-01', count: 2, averageScore: 50 },
+        { key: '2025-01-02', count: 1, averageScore: 70 },
+        { key: '2025-01-03', count: 1, averageScore: 90 },
+      ]);
+      expect(trend.projects).toEqual([
+        { key: 'api', count: 3, averageScore: 63 },
+        { key: 'web', count: 1, averageScore: 70 },
+      ]);
+      expect(trend.topMissing[0]).toEqual({ category: 'context', count: 3 });
+      expect(trend.improvement).toEqual({ firstHalfAverage: 50, secondHalfAverage: 80, change: 30 });
+    });
+
+    it('should not report improvement with too few entries', () => {
+      const trend = computePromptTrend([entry(40, '2025-01-01T10:00:00'), entry(80, '2025-01-02T10:00:00')]);
+
+      expect(trend.improvement).toBeNull();
+      expect(trend.projects[0].key).toBe('unknown');
+    });
+  });
+});
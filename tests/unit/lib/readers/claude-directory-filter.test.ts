@@ -3,6 +3,7 @@ import { readClaudeSessions } from '../../../../src/lib/readers/claude';
 import fs from 'fs/promises';
 import os from 'os';
 import path from 'path';
+import { mockFileHandlesFromReadFile } from '../../../helpers/mock-file-handle';
 
 vi.mock('fs/promises');
 vi.mock('os');
@@ -14,6 +15,7 @@ describe('Claude Reader - Directory Filtering', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.mocked(os.homedir).mockReturnValue(mockHomedir);
+    mockFileHandlesFromReadFile();
   });
   
   describe('projectPath filtering', () => {
@@ -6,6 +6,7 @@ import { readClaudeSessions } from '../../../../src/lib/readers/claude';
 import { filterImageContent, containsImages, countImages } from '../../../../src/lib/readers/image-filter';
 import { setupTestEnv, cleanupTestEnv } from '../../../test-utils';
 import { claudeSessionFixtures } from '../../../fixtures/claude-sessions';
+import { mockFileHandlesFromReadFile } from '../../../helpers/mock-file-handle';
 
 // Mock modules
 vi.mock('fs/promises');
@@ -18,6 +19,7 @@ describe('Claude Image Filter', () => {
   beforeEach(() => {
     setupTestEnv();
     vi.mocked(os.homedir).mockReturnValue(mockHomedir);
+    mockFileHandlesFromReadFile();
   });
 
   afterEach(() => {
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { SessionIndex } from '../../../../src/lib/readers/claude-session-index';
+
+vi.mock('../../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function entry(minute: number, content: string, extra: Record<string, unknown> = {}): string {
+  const timestamp = `2024-01-15T10:${String(minute).padStart(2, '0')}:00Z`;
+  return JSON.stringify({
+    sessionId: 'session-1',
+    cwd: '/home/user/project',
+    timestamp,
+    message: { role: minute % 2 === 0 ? 'user' : 'assistant', content, timestamp },
+    ...extra,
+  }) + '\n';
+}
+
+describe('SessionIndex', () => {
+  let tmpDir: string;
+  let indexDir: string;
+  let sessionFile: string;
+
+  async function read(index: SessionIndex) {
+    const stat = await fs.stat(sessionFile);
+    return index.readSession(sessionFile, stat);
+  }
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-index-'));
+    indexDir = path.join(tmpDir, 'index');
+    sessionFile = path.join(tmpDir, 'session-1.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should index a new file and record offset and summary', async () => {
+    await fs.writeFile(sessionFile, entry(0, 'Hello') + entry(1, 'Hi there'));
+
+    const index = await SessionIndex.load(indexDir);
+    const session = await read(index);
+
+    expect(session?.messages).toHaveLength(2);
+    const indexed = index.getEntry(sessionFile)!;
+    expect(indexed.offset).toBe((await fs.stat(sessionFile)).size);
+    expect(indexed.summary).toMatchObject({
+      sessionId: 'session-1',
+      projectPath: '/home/user/project',
+      messageCount: 2,
+    });
+  });
+
+  it('should serve unchanged files from the stored state after reload', async () => {
+    await fs.writeFile(sessionFile, entry(0, 'Hello') + entry(1, 'Hi there'));
+
+    const first = await SessionIndex.load(indexDir);
+    await read(first);
+    await first.save();
+
+    const second = await SessionIndex.load(indexDir);
+    const stat = await fs.stat(sessionFile);
+    expect(second.isUnchanged(sessionFile, stat)).toBe(true);
+
+    const session = await second.readSession(sessionFile, stat);
+    expect(session?.messages).toEqual([]);
+    expect(session?.messageCount).toBe(2);
+    expect(session?.duration).toBe(60);
+    expect(session?.lastTimestamp).toEqual(new Date('2024-01-15T10:01:00Z'));
+    expect(session?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should store counters but no message content', async () => {
+    await fs.writeFile(sessionFile, entry(0, 'Secret prompt') + entry(1, 'Secret answer'));
+
+    const index = await SessionIndex.load(indexDir);
+    await read(index);
+    await index.save();
+
+    for (const file of await fs.readdir(indexDir)) {
+      const content = await fs.readFile(path.join(indexDir, file), 'utf-8');
+      expect(content).not.toContain('Secret');
+    }
+  });
+
+  it('should parse only appended lines', async () => {
+    await fs.writeFile(sessionFile, entry(0, 'Hello'));
+    const index = await SessionIndex.load(indexDir);
+    await read(index);
+    const firstOffset = index.getEntry(sessionFile)!.offset;
+
+    await fs.appendFile(sessionFile, entry(1, 'Appended', {
+      toolUseResult: { type: 'create', filePath: '/home/user/project/app.ts' },
+    }));
+    const session = await read(index);
+
+    expect(session?.messages.map(m => m.content)).toEqual(['Appended']);
+    expect(session?.messageCount).toBe(2);
+    expect(session?.duration).toBe(60);
+    expect(session?.metadata?.files_edited).toBe(1);
+    expect(index.getEntry(sessionFile)!.offset).toBeGreaterThan(firstOffset);
+  });
+
+  it('should keep token usage across appends without double counting responses', async () => {
+    const response = (minute: number, id: string) => entry(minute, 'Answer', {
+      requestId: `req-${id}`,
+      message: {
+        role: 'assistant',
+        model: 'claude-sonnet-4-20250514',
+        id,
+        content: 'Answer',
+        usage: { input_tokens: 10, output_tokens: 20, cache_read_input_tokens: 100, cache_creation_input_tokens: 5 },
+      },
+    });
+
+    // One response split over two entries, as Claude Code writes it
+    await fs.writeFile(sessionFile, entry(0, 'Hello') + response(1, 'msg-1') + response(1, 'msg-1'));
+    const index = await SessionIndex.load(indexDir);
+    await read(index);
+    await index.save();
+
+    await fs.appendFile(sessionFile, response(3, 'msg-1') + response(3, 'msg-2'));
+    const reloaded = await SessionIndex.load(indexDir);
+    const session = await read(reloaded);
+
+    expect(session?.tokenUsage).toEqual({
+      'claude-sonnet-4-20250514': { inputTokens: 20, outputTokens: 40, cacheReadTokens: 200, cacheWriteTokens: 10 },
+    });
+    expect(session?.dailyTokenUsage).toEqual({ '2024-01-15': session?.tokenUsage });
+  });
+
+  it('should leave an incomplete trailing line for the next run', async () => {
+    const partial = entry(1, 'Half written').slice(0, 20);
+    await fs.writeFile(sessionFile, entry(0, 'Hello') + partial);
+
+    const index = await SessionIndex.load(indexDir);
+    const session = await read(index);
+
+    expect(session?.messages).toHaveLength(1);
+    expect(index.getEntry(sessionFile)!.offset).toBe(Buffer.byteLength(entry(0, 'Hello')));
+  });
+
+  it('should re-index a truncated file', async () => {
+    await fs.writeFile(sessionFile, entry(0, 'Hello') + entry(1, 'Hi') + entry(2, 'More'));
+    const index = await SessionIndex.load(indexDir);
+    await read(index);
+
+    await fs.writeFile(sessionFile, entry(0, 'Fresh'));
+    const session = await read(index);
+
+    expect(session?.messages.map(m => m.content)).toEqual(['Fresh']);
+  });
+
+  it('should re-index a rewritten file that grew', async () => {
+    await fs.writeFile(sessionFile, entry(0, 'Original'));
+    const index = await SessionIndex.load(indexDir);
+    await read(index);
+
+    await fs.writeFile(sessionFile, entry(0, 'Replaced') + entry(1, 'Content'));
+    const session = await read(index);
+
+    expect(session?.messages.map(m => m.content)).toEqual(['Replaced', 'Content']);
+  });
+
+  it('should re-index a file parsed with a different line size cap', async () => {
+    await fs.writeFile(sessionFile, entry(0, 'Hello') + entry(1, 'x'.repeat(200)));
+    const stat = await fs.stat(sessionFile);
+    const cap = Buffer.byteLength(entry(0, 'Hello')) + 10;
+
+    const index = await SessionIndex.load(indexDir);
+    const capped = await index.readSession(sessionFile, stat, { maxLineBytes: cap });
+    expect(capped?.messageCount).toBe(1);
+    expect(index.getEntry(sessionFile)!.maxLineBytes).toBe(cap);
+
+    const uncapped = await index.readSession(sessionFile, stat, { maxLineBytes: cap * 4 });
+    expect(uncapped?.messages).toHaveLength(2);
+    expect(uncapped?.messageCount).toBe(2);
+    expect(index.getEntry(sessionFile)!.maxLineBytes).toBe(cap * 4);
+  });
+
+  it('should prune entries for files not seen during the scan', async () => {
+    await fs.writeFile(sessionFile, entry(0, 'Hello'));
+    const index = await SessionIndex.load(indexDir);
+    await read(index);
+    await index.save();
+
+    const next = await SessionIndex.load(indexDir);
+    await next.prune();
+    await next.save();
+
+    const reloaded = await SessionIndex.load(indexDir);
+    expect(reloaded.getEntry(sessionFile)).toBeUndefined();
+  });
+
+  it('should start empty when the manifest is corrupt', async () => {
+    await fs.mkdir(indexDir, { recursive: true });
+    await fs.writeFile(path.join(indexDir, 'index.json'), '{not json');
+
+    const index = await SessionIndex.load(indexDir);
+    expect(index.getEntry(sessionFile)).toBeUndefined();
+  });
+});
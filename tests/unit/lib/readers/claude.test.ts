@@ -3,9 +3,11 @@ import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 import { readClaudeSessions } from '../../../../src/lib/readers/claude';
+import { MAX_WINDOW_MESSAGES } from '../../../../src/lib/readers/claude-parser';
 import { DevArkError } from '../../../../src/utils/errors';
 import { setupTestEnv, cleanupTestEnv } from '../../../test-utils';
 import { claudeSessionFixtures, claudeProjectStructure } from '../../../fixtures/claude-sessions';
+import { mockFileHandlesFromReadFile } from '../../../helpers/mock-file-handle';
 
 // Mock modules
 vi.mock('fs/promises');
@@ -18,6 +20,7 @@ describe('Claude Reader Module', () => {
   beforeEach(() => {
     setupTestEnv();
     vi.mocked(os.homedir).mockReturnValue(mockHomedir);
+    mockFileHandlesFromReadFile();
   });
 
   afterEach(() => {
@@ -201,7 +204,37 @@ describe('Claude Reader Module', () => {
       expect(sessions[0].messages.length).toBeGreaterThan(10);
     });
 
-    it('should handle negative duration by returning 0', async () => {
+    it('should keep only the most recent messages but count all of them', async () => {
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.readdir)
+        .mockResolvedValueOnce(['project1'] as any)
+        .mockResolvedValueOnce(['huge.jsonl'] as any);
+      
+      vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as any);
+      
+      const start = new Date('2024-01-15T10:00:00Z').getTime();
+      const total = MAX_WINDOW_MESSAGES + 5;
+      const lines = [JSON.stringify({ sessionId: 'huge', cwd: '/test', timestamp: new Date(start).toISOString() })];
+      for (let i = 0; i < total; i++) {
+        lines.push(JSON.stringify({
+          message: { role: i % 2 ? 'assistant' : 'user', content: `message ${i}` },
+          timestamp: new Date(start + i * 10_000).toISOString()
+        }));
+      }
+      vi.mocked(fs.readFile).mockResolvedValue(lines.join('\n'));
+      
+      const sessions = await readClaudeSessions();
+      
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].messageCount).toBe(total);
+      expect(sessions[0].messages).toHaveLength(MAX_WINDOW_MESSAGES);
+      expect(sessions[0].messages[0].content).toBe('message 5');
+      expect(sessions[0].messages[MAX_WINDOW_MESSAGES - 1].content).toBe(`message ${total - 1}`);
+      // Duration still covers the messages that left the window
+      expect(sessions[0].duration).toBe((total - 1) * 10);
+    });
+
+        it('should handle negative duration by returning 0', async () => {
       vi.mocked(fs.access).mockResolvedValue(undefined);
       vi.mocked(fs.readdir)
         .mockResolvedValueOnce(['project1'] as any)
@@ -782,6 +815,7 @@ describe('Claude Reader Module', () => {
       
       expect(sessions).toHaveLength(1);
       expect(sessions[0].planningModeInfo).toBeUndefined();
+      expect(sessions[0].toolUsage).toEqual({ Edit: 1 });
     });
 
     it('should handle mixed content types with planning mode', async () => {
@@ -816,6 +850,7 @@ describe('Claude Reader Module', () => {
       expect(sessions[0].planningModeInfo).toBeDefined();
       expect(sessions[0].planningModeInfo?.hasPlanningMode).toBe(true);
       expect(sessions[0].planningModeInfo?.planningCycles).toBe(1);
+      expect(sessions[0].toolUsage).toEqual({ Read: 1, ExitPlanMode: 1 });
     });
   });
 });
\ No newline at end of file
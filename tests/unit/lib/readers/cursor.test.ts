@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import Database from 'better-sqlite3';
+import {
+  buildCursorSession,
+  readCursorSessions,
+  CursorConversation,
+  CursorBubble,
+  CURSOR_UNKNOWN_PROJECT,
+} from '../../../../src/lib/readers/cursor';
+import { DevArkError } from '../../../../src/utils/errors';
+
+vi.mock('../../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const T0 = Date.parse('2024-01-15T10:00:00Z');
+const minutes = (n: number) => T0 + n * 60 * 1000;
+
+describe('Cursor Reader', () => {
+  describe('buildCursorSession', () => {
+    it('should rebuild a legacy conversation with user and assistant turns', () => {
+      const conversation: CursorConversation = {
+        composerId: 'legacy-1',
+        createdAt: T0,
+        conversation: [
+          { type: 1, text: 'Add a login form', timingInfo: { clientStartTime: minutes(0) } },
+          {
+            type: 2,
+            text: 'Here is the form',
+            timingInfo: { clientStartTime: minutes(2) },
+            codeBlocks: [{ uri: { fsPath: '/home/user/app/src/Login.tsx' } }],
+          },
+          { type: 1, text: 'Thanks', timingInfo: { clientStartTime: minutes(5) } },
+        ],
+      };
+
+      const session = buildCursorSession(conversation, () => undefined, '/home/user/app');
+
+      expect(session).toMatchObject({
+        id: 'legacy-1',
+        tool: 'cursor',
+        projectPath: '/home/user/app',
+        duration: 300,
+        metadata: { files_edited: 1, languages: ['TypeScript'] },
+      });
+      expect(session!.messages.map(m => m.role)).toEqual(['user', 'assistant', 'user']);
+      expect(session!.timestamp.getTime()).toBe(minutes(0));
+    });
+
+    it('should rebuild a modern conversation from bubbles with real timestamps', () => {
+      const bubbles: Record<string, CursorBubble> = {
+        b1: { type: 1, text: 'Fix the failing test', createdAt: new Date(minutes(0)).toISOString() },
+        b2: {
+          type: 2,
+          text: '',
+          createdAt: new Date(minutes(1)).toISOString(),
+          toolFormerData: { name: 'edit_file', params: JSON.stringify({ target_file: 'src/utils.py' }) },
+        },
+        b3: {
+          type: 2,
+          text: 'Fixed the off-by-one error',
+          createdAt: new Date(minutes(3)).toISOString(),
+          modelInfo: { modelName: 'claude-4-sonnet' },
+        },
+      };
+      const conversation: CursorConversation = {
+        _v: 3,
+        composerId: 'modern-1',
+        createdAt: T0,
+        fullConversationHeadersOnly: [
+          { bubbleId: 'b1', type: 1 },
+          { bubbleId: 'b2', type: 2 },
+          { bubbleId: 'b3', type: 2 },
+        ],
+        codeBlockData: { 'file:///home/user/app/README.md': [] },
+      };
+
+      const session = buildCursorSession(conversation, id => bubbles[id]);
+
+      expect(session!.messages).toHaveLength(2);
+      expect(session!.messages[1].timestamp.getTime()).toBe(minutes(3));
+      expect(session!.duration).toBe(180);
+      expect(session!.projectPath).toBe(CURSOR_UNKNOWN_PROJECT);
+      expect(session!.metadata).toEqual({ files_edited: 2, languages: ['Markdown', 'Python'] });
+      expect(session!.modelInfo?.primaryModel).toBe('claude-4-sonnet');
+    });
+
+    it('should inherit the previous timestamp when a bubble has none', () => {
+      const conversation: CursorConversation = {
+        composerId: 'legacy-2',
+        createdAt: minutes(10),
+        conversation: [
+          { type: 1, text: 'First' },
+          { type: 2, text: 'Second', timestamp: new Date(minutes(12)).toISOString() },
+          { type: 1, text: 'Third' },
+        ],
+      };
+
+      const session = buildCursorSession(conversation, () => undefined);
+
+      expect(session!.messages.map(m => m.timestamp.getTime())).toEqual([minutes(10), minutes(12), minutes(12)]);
+    });
+
+    it('should return null for conversations without text', () => {
+      const conversation: CursorConversation = {
+        _v: 3,
+        composerId: 'empty',
+        fullConversationHeadersOnly: [{ bubbleId: 'missing', type: 1 }],
+      };
+
+      expect(buildCursorSession(conversation, () => undefined)).toBeNull();
+    });
+  });
+
+  describe('readCursorSessions', () => {
+    let tmpHome: string;
+    let userDir: string;
+
+    function createGlobalDb(entries: Record<string, unknown>) {
+      const db = new Database(path.join(userDir, 'globalStorage', 'state.vscdb'));
+      db.exec('CREATE TABLE cursorDiskKV (key TEXT PRIMARY KEY, value TEXT)');
+      const insert = db.prepare('INSERT INTO cursorDiskKV (key, value) VALUES (?, ?)');
+      for (const [key, value] of Object.entries(entries)) {
+        insert.run(key, JSON.stringify(value));
+      }
+      db.close();
+    }
+
+    async function createWorkspace(name: string, folder: string, composerIds: string[]) {
+      const workspaceDir = path.join(userDir, 'workspaceStorage', name);
+      await fs.mkdir(workspaceDir, { recursive: true });
+      await fs.writeFile(path.join(workspaceDir, 'workspace.json'), JSON.stringify({ folder }));
+      const db = new Database(path.join(workspaceDir, 'state.vscdb'));
+      db.exec('CREATE TABLE ItemTable (key TEXT PRIMARY KEY, value TEXT)');
+      db.prepare('INSERT INTO ItemTable (key, value) VALUES (?, ?)').run(
+        'composer.composerData',
+        JSON.stringify({ allComposers: composerIds.map(composerId => ({ composerId })) })
+      );
+      db.close();
+    }
+
+    beforeEach(async () => {
+      tmpHome = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-cursor-'));
+      userDir = path.join(tmpHome, '.config', 'Cursor', 'User');
+      await fs.mkdir(path.join(userDir, 'globalStorage'), { recursive: true });
+      vi.spyOn(os, 'homedir').mockReturnValue(tmpHome);
+      vi.spyOn(os, 'platform').mockReturnValue('linux');
+    });
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      await fs.rm(tmpHome, { recursive: true, force: true });
+    });
+
+    it('should read modern conversations and resolve their workspace folder', async () => {
+      createGlobalDb({
+        'composerData:c1': {
+          _v: 3,
+          composerId: 'c1',
+          createdAt: T0,
+          lastUpdatedAt: minutes(5),
+          fullConversationHeadersOnly: [{ bubbleId: 'b1', type: 1 }, { bubbleId: 'b2', type: 2 }],
+        },
+        'bubbleId:c1:b1': { type: 1, text: 'Hello', createdAt: new Date(minutes(0)).toISOString() },
+        'bubbleId:c1:b2': { type: 2, text: 'Hi!', createdAt: new Date(minutes(5)).toISOString() },
+      });
+      await createWorkspace('ws1', 'file:///home/user/my%20app', ['c1']);
+
+      const sessions = await readCursorSessions();
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]).toMatchObject({ id: 'c1', tool: 'cursor', projectPath: '/home/user/my app', duration: 300 });
+    });
+
+    it('should apply since and projectPath filters', async () => {
+      createGlobalDb({
+        'composerData:old': {
+          composerId: 'old',
+          lastUpdatedAt: minutes(1),
+          conversation: [{ type: 1, text: 'Old', timestamp: new Date(minutes(0)).toISOString() }],
+        },
+        'composerData:new': {
+          composerId: 'new',
+          lastUpdatedAt: minutes(120),
+          conversation: [{ type: 1, text: 'New', timestamp: new Date(minutes(100)).toISOString() }],
+        },
+      });
+      await createWorkspace('ws1', 'file:///home/user/app', ['old', 'new']);
+
+      expect((await readCursorSessions({ since: new Date(minutes(60)) })).map(s => s.id)).toEqual(['new']);
+      expect(await readCursorSessions({ projectPath: '/home/user/other' })).toEqual([]);
+    });
+
+    it('should throw CURSOR_NOT_FOUND when Cursor data is missing', async () => {
+      await expect(readCursorSessions()).rejects.toThrow(DevArkError);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { readJsonlLines, JsonlLine } from '../../../../src/lib/readers/jsonl-line-reader';
+
+describe('readJsonlLines', () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  async function collect(options: Parameters<typeof readJsonlLines>[1] = {}): Promise<JsonlLine[]> {
+    const lines: JsonlLine[] = [];
+    for await (const line of readJsonlLines(filePath, options)) {
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-jsonl-'));
+    filePath = path.join(tmpDir, 'session.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should yield each line with its end offset', async () => {
+    await fs.writeFile(filePath, '{"a":1}\n{"b":2}\n');
+
+    const lines = await collect();
+
+    expect(lines).toEqual([
+      { line: '{"a":1}', end: 8, complete: true },
+      { line: '{"b":2}', end: 16, complete: true },
+    ]);
+  });
+
+  it('should flag a trailing line without newline as incomplete', async () => {
+    await fs.writeFile(filePath, '{"a":1}\n{"b":');
+
+    const lines = await collect();
+
+    expect(lines[1]).toEqual({ line: '{"b":', end: 13, complete: false });
+  });
+
+  it('should start reading from a byte offset', async () => {
+    await fs.writeFile(filePath, '{"a":1}\n{"b":2}\n');
+
+    const lines = await collect({ start: 8 });
+
+    expect(lines.map(l => l.line)).toEqual(['{"b":2}']);
+  });
+
+  it('should join lines that span several read chunks', async () => {
+    const long = JSON.stringify({ text: 'x'.repeat(200 * 1024) });
+    await fs.writeFile(filePath, `${long}\n{"next":true}\n`);
+
+    const lines = await collect();
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0].line).toBe(long);
+    expect(lines[1].line).toBe('{"next":true}');
+  });
+
+  it('should decode multi-byte characters split across chunks', async () => {
+    const text = 'é'.repeat(100 * 1024);
+    await fs.writeFile(filePath, JSON.stringify({ text }) + '\n');
+
+    const lines = await collect();
+
+    expect(JSON.parse(lines[0].line).text).toBe(text);
+  });
+
+  it('should skip lines above the size cap and report them', async () => {
+    const big = JSON.stringify({ text: 'x'.repeat(5000) });
+    await fs.writeFile(filePath, `{"a":1}\n${big}\n{"b":2}\n`);
+    const oversized: Array<{ bytes: number; complete: boolean }> = [];
+
+    const lines = await collect({
+      maxLineBytes: 1000,
+      onOversizedLine: (bytes, _end, complete) => oversized.push({ bytes, complete }),
+    });
+
+    expect(lines.map(l => l.line)).toEqual(['{"a":1}', '{"b":2}']);
+    expect(oversized).toEqual([{ bytes: big.length, complete: true }]);
+    expect(lines[1].end).toBe(8 + big.length + 1 + 8);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  readAllSessions,
+  registerSessionSource,
+  getSessionSource,
+  getSessionSourceStatuses,
+  isSessionSourceEnabled,
+  readSessionsById,
+} from '../../../../src/lib/readers/session-sources';
+import { readClaudeSessions } from '../../../../src/lib/readers/claude';
+import { readCursorSessions } from '../../../../src/lib/readers/cursor';
+import { getSessionSourceSettings, getMaxLineBytes } from '../../../../src/lib/config';
+import { SessionData, SessionTool } from '../../../../src/lib/readers/types';
+import { DevArkError } from '../../../../src/utils/errors';
+
+vi.mock('../../../../src/lib/readers/claude');
+vi.mock('../../../../src/lib/readers/cursor');
+vi.mock('../../../../src/lib/config');
+vi.mock('../../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function session(id: string, tool: SessionTool, minute: number): SessionData {
+  return {
+    id,
+    tool,
+    projectPath: '/home/user/app',
+    timestamp: new Date(Date.UTC(2024, 0, 15, 10, minute)),
+    messages: [],
+    duration: 60,
+  };
+}
+
+describe('Session Sources', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getSessionSourceSettings).mockReturnValue({});
+    vi.mocked(readClaudeSessions).mockResolvedValue([session('claude-1', 'claude_code', 10)]);
+    vi.mocked(readCursorSessions).mockResolvedValue([session('cursor-1', 'cursor', 5)]);
+  });
+
+  it('should register Claude Code and Cursor as built-in sources', () => {
+    expect(getSessionSource('claude_code')?.displayName).toBe('Claude Code');
+    expect(getSessionSource('cursor')?.displayName).toBe('Cursor');
+  });
+
+  it('should merge sessions from all enabled sources sorted by timestamp', async () => {
+    const since = new Date('2024-01-01');
+
+    const sessions = await readAllSessions({ since });
+
+    expect(sessions.map(s => s.id)).toEqual(['cursor-1', 'claude-1']);
+    expect(readClaudeSessions).toHaveBeenCalledWith({ since });
+    expect(readCursorSessions).toHaveBeenCalledWith({ since });
+  });
+
+  it('should pass the configured line cap to the Claude reader unless the caller sets one', async () => {
+    vi.mocked(getMaxLineBytes).mockReturnValue(1024 * 1024);
+
+    await readAllSessions({ tools: ['claude_code'] });
+    expect(readClaudeSessions).toHaveBeenLastCalledWith({ maxLineBytes: 1024 * 1024 });
+
+    await readAllSessions({ tools: ['claude_code'], maxLineBytes: 4096 });
+    expect(readClaudeSessions).toHaveBeenLastCalledWith({ maxLineBytes: 4096 });
+  });
+
+  it('should skip sources switched off in config', async () => {
+    vi.mocked(getSessionSourceSettings).mockReturnValue({ cursor: false });
+
+    const sessions = await readAllSessions();
+
+    expect(isSessionSourceEnabled('cursor')).toBe(false);
+    expect(sessions.map(s => s.id)).toEqual(['claude-1']);
+    expect(readCursorSessions).not.toHaveBeenCalled();
+  });
+
+  it('should only read the requested tools', async () => {
+    const sessions = await readAllSessions({ tools: ['cursor'] });
+
+    expect(sessions.map(s => s.id)).toEqual(['cursor-1']);
+    expect(readClaudeSessions).not.toHaveBeenCalled();
+  });
+
+  it('should keep sessions from other sources when one source fails', async () => {
+    vi.mocked(readCursorSessions).mockRejectedValue(new DevArkError('Cursor not found', 'CURSOR_NOT_FOUND'));
+
+    const sessions = await readAllSessions();
+
+    expect(sessions.map(s => s.id)).toEqual(['claude-1']);
+  });
+
+  it('should rethrow the first error when every source fails', async () => {
+    vi.mocked(readClaudeSessions).mockRejectedValue(new DevArkError('Claude not found', 'CLAUDE_NOT_FOUND'));
+    vi.mocked(readCursorSessions).mockRejectedValue(new DevArkError('Cursor not found', 'CURSOR_NOT_FOUND'));
+
+    await expect(readAllSessions()).rejects.toMatchObject({ code: 'CLAUDE_NOT_FOUND' });
+  });
+
+  it('should apply the limit after merging', async () => {
+    const sessions = await readAllSessions({ limit: 1 });
+
+    expect(sessions.map(s => s.id)).toEqual(['cursor-1']);
+  });
+
+  it('should re-read picked sessions of one source by ID', async () => {
+    const since = new Date('2024-01-15T10:00:00Z');
+    vi.mocked(readCursorSessions).mockResolvedValue([
+      session('cursor-1', 'cursor', 5),
+      session('cursor-2', 'cursor', 20),
+    ]);
+
+    const sessions = await readSessionsById('cursor', ['cursor-2', 'cursor-gone'], since);
+
+    expect(sessions.map(s => s.id)).toEqual(['cursor-2']);
+    expect(readCursorSessions).toHaveBeenCalledWith({ since });
+    expect(readClaudeSessions).not.toHaveBeenCalled();
+  });
+
+  it('should report availability and config state for new sources', () => {
+    registerSessionSource({
+      tool: 'vscode',
+      displayName: 'VS Code',
+      isAvailable: () => { throw new Error('probe failed'); },
+      readSessions: async () => [],
+    });
+    vi.mocked(getSessionSourceSettings).mockReturnValue({ vscode: false });
+
+    const status = getSessionSourceStatuses().find(s => s.tool === 'vscode');
+
+    expect(status).toEqual({ tool: 'vscode', displayName: 'VS Code', available: false, enabled: false });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  compileRedactionRule,
+  getRedactionRules,
+  saveProjectRedactionRule,
+  testRedactionRule,
+  clearRedactionRuleCache,
+  RedactionRule,
+} from '../../../src/lib/redaction-rules';
+import * as config from '../../../src/lib/config';
+import { clearTeamPolicyCache } from '../../../src/lib/team-policy';
+import { DevArkError } from '../../../src/utils/errors';
+
+vi.mock('../../../src/lib/config');
+vi.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const tokenRule: RedactionRule = {
+  name: 'internal-token',
+  pattern: 'itk_[a-z0-9]{8}',
+  entity: 'internal_token',
+  allowlist: ['itk_00000000'],
+};
+
+describe('Redaction Rules', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-redact-'));
+    clearRedactionRuleCache();
+    clearTeamPolicyCache();
+    vi.mocked(config.getRedactionRules).mockReturnValue([]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  describe('compileRedactionRule', () => {
+    it('should normalise the entity type to upper case', () => {
+      expect(compileRedactionRule(tokenRule).entity).toBe('INTERNAL_TOKEN');
+    });
+
+    it.each([
+      [{ ...tokenRule, pattern: '' }],
+      [{ ...tokenRule, pattern: '(unclosed' }],
+      [{ ...tokenRule, pattern: 'a*' }],
+      [{ ...tokenRule, entity: 'not valid!' }],
+      [{ ...tokenRule, flags: 'y' }],
+    ])('should reject invalid rules (%#)', (rule) => {
+      expect(() => compileRedactionRule(rule)).toThrow(DevArkError);
+    });
+  });
+
+  describe('getRedactionRules', () => {
+    it('should combine global rules with the project redact.json', async () => {
+      const projectRule = { name: 'hosts', pattern: '[a-z]+\\.corp', entity: 'HOST' };
+      vi.mocked(config.getRedactionRules).mockReturnValue([tokenRule]);
+      await fs.mkdir(path.join(projectDir, '.devark'));
+      await fs.writeFile(path.join(projectDir, '.devark', 'redact.json'), JSON.stringify({ rules: [projectRule] }));
+
+      expect(getRedactionRules(projectDir)).toEqual([tokenRule, projectRule]);
+      expect(getRedactionRules()).toEqual([tokenRule]);
+    });
+
+    it('should ignore a missing or malformed project file', async () => {
+      expect(getRedactionRules(projectDir)).toEqual([]);
+
+      clearRedactionRuleCache();
+      await fs.mkdir(path.join(projectDir, '.devark'));
+      await fs.writeFile(path.join(projectDir, '.devark', 'redact.json'), '{ not json');
+
+      expect(getRedactionRules(projectDir)).toEqual([]);
+    });
+
+    it('should enforce team policy rules over user rules of the same name', async () => {
+      const policyRule = { ...tokenRule, entity: 'TEAM_TOKEN' };
+      vi.mocked(config.getRedactionRules).mockReturnValue([{ ...tokenRule, enabled: false }]);
+      await fs.mkdir(path.join(projectDir, '.devark'));
+      await fs.writeFile(path.join(projectDir, '.devark', 'team.json'), JSON.stringify({ redactionRules: [policyRule] }));
+
+      expect(getRedactionRules(projectDir)).toEqual([{ ...policyRule, enabled: true }]);
+    });
+  });
+
+  describe('saveProjectRedactionRule', () => {
+    it('should write the rule and replace one with the same name', async () => {
+      await saveProjectRedactionRule(projectDir, tokenRule);
+      const filePath = await saveProjectRedactionRule(projectDir, { ...tokenRule, entity: 'TOKEN' });
+
+      const saved = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      expect(saved.rules).toEqual([{ ...tokenRule, entity: 'TOKEN' }]);
+      expect(getRedactionRules(projectDir)).toEqual(saved.rules);
+    });
+  });
+
+  describe('testRedactionRule', () => {
+    it('should count matches, allowlisted values and matching sessions', () => {
+      const sessions = [
+        { messages: [{ content: 'token itk_abcd1234 and itk_00000000' }, { content: 'nothing here' }] },
+        { messages: [{ content: [{ type: 'text', text: 'itk_zzzz9999' }] }] },
+        { messages: [{ content: 'clean' }] },
+      ];
+
+      const result = testRedactionRule(tokenRule, sessions);
+
+      expect(result).toMatchObject({
+        sessionsScanned: 3,
+        sessionsMatched: 2,
+        messagesMatched: 2,
+        matches: 2,
+        allowlisted: 1,
+      });
+      expect(result.samples[0]).toEqual({
+        match: 'itk_abcd1234',
+        before: 'token itk_abcd1234 and itk_00000000',
+        after: 'token [INTERNAL_TOKEN_1] and itk_00000000',
+      });
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildOfflineReport,
+  classifyToolUse,
+  toPercentages,
+  overlayNarration,
+  generateOfflineReport,
+} from '../../../../src/lib/reports/offline-report';
+import { readUsageSessions } from '../../../../src/lib/token-usage';
+import { readPromptHistory, PromptHistoryEntry } from '../../../../src/lib/prompt-history';
+import { SessionData, GitCommitInfo } from '../../../../src/lib/readers/types';
+
+vi.mock('../../../../src/lib/token-usage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../../src/lib/token-usage')>()),
+  readUsageSessions: vi.fn(),
+}));
+
+vi.mock('../../../../src/lib/git-enrichment', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../../src/lib/git-enrichment')>()),
+  enrichSessionsWithGit: vi.fn(async (sessions: SessionData[]) => sessions),
+}));
+
+vi.mock('../../../../src/lib/prompt-history', () => ({
+  readPromptHistory: vi.fn(),
+}));
+
+const now = new Date(2026, 9, 14, 15, 30);
+const since = new Date(2026, 9, 7, 15, 30);
+
+function session(projectPath: string, start: Date, hours: number, extra: Partial<SessionData> = {}): SessionData {
+  return {
+    id: `${projectPath}-${start.getTime()}`,
+    projectPath,
+    timestamp: start,
+    messages: [{ role: 'user', content: 'hi', timestamp: start }, { role: 'assistant', content: 'hello', timestamp: start }],
+    duration: hours * 3600,
+    tool: 'claude_code',
+    metadata: { files_edited: 2, languages: ['TypeScript'] },
+    ...extra,
+  };
+}
+
+function commit(hash: string, subject: string, authoredAt: Date): GitCommitInfo {
+  return { hash, subject, authoredAt, filesChanged: 1, insertions: 10, deletions: 2, files: ['src/a.ts'] };
+}
+
+function prompt(score: number, quality: PromptHistoryEntry['quality'], missing: string[] = []): PromptHistoryEntry {
+  return { timestamp: new Date(2026, 9, 12).toISOString(), score, quality, missing, project: 'devark' };
+}
+
+const sessions = [
+  session('/work/devark', new Date(2026, 9, 12, 9), 3, {
+    toolUsage: { Edit: 6, Read: 3, Bash: 1 },
+    planningModeInfo: { hasPlanningMode: true, planningCycles: 1, exitPlanTimestamps: [] },
+    metadata: {
+      files_edited: 4,
+      languages: ['TypeScript', 'JSON'],
+      git: {
+        commits: [commit('abc1234def', 'Add offline report', new Date(2026, 9, 12, 11))],
+        filesChanged: 1,
+        insertions: 10,
+        deletions: 2,
+        hasUpstream: true,
+        pullRequests: [],
+      },
+    },
+  }),
+  session('/work/site', new Date(2026, 9, 13, 14), 0.75, {
+    toolUsage: { Read: 2, mcp__browser__click: 1 },
+    metadata: { files_edited: 0, languages: ['CSS'] },
+  }),
+];
+
+const prompts = [prompt(80, 'good', ['context']), prompt(90, 'excellent'), prompt(40, 'poor', ['context', 'constraints'])];
+
+describe('offline report', () => {
+  it('should classify tools into activities', () => {
+    expect(classifyToolUse('MultiEdit')).toBe('Coding');
+    expect(classifyToolUse('Grep')).toBe('Research');
+    expect(classifyToolUse('Bash')).toBe('Commands');
+    expect(classifyToolUse('Task')).toBe('Delegation');
+    expect(classifyToolUse('mcp__browser__click')).toBe('Other Tools');
+  });
+
+  it('should round percentages to a total of 100', () => {
+    const percentages = toPercentages(new Map([['a', 1], ['b', 1], ['c', 1]]));
+    expect(percentages).toEqual({ a: 34, b: 33, c: 33 });
+    expect(toPercentages(new Map())).toEqual({});
+  });
+
+  it('should fill every statistical field from the sessions', () => {
+    const report = buildOfflineReport({ sessions, prompts, since, now });
+
+    expect(report.metadata).toEqual({
+      totalSessions: 2,
+      dataProcessed: '4 messages',
+      activeDevelopment: '3.8 hours',
+      projects: 2,
+      generatedAt: now.toISOString(),
+      dateRange: 'Oct 7 - Oct 14, 2026',
+    });
+    expect(report.activityDistribution).toEqual({ Coding: 46, Research: 38, Commands: 8, 'Other Tools': 8 });
+    expect(report.projectBreakdown).toEqual([
+      { name: 'devark', sessions: 1, largestSession: '3 hours', focus: 'JSON, TypeScript • 4 files edited • mostly Coding' },
+      { name: 'site', sessions: 1, largestSession: '45 min', focus: 'CSS • mostly Research' },
+    ]);
+    expect(report.executiveSummary).toEqual([
+      '2 sessions across 2 projects with 3.8 hours of active development',
+      'Most time went to devark (80% of active hours)',
+      '1 commit with +10 / -2 lines in 1 file',
+      'Planning mode was used in 1 session',
+    ]);
+    expect(report.keyAccomplishments).toEqual(['devark: Add offline report']);
+    expect(report.gitActivity?.commits).toBe(1);
+    expect(report.reportGeneration.turns).toBe(0);
+  });
+
+  it('should take the prompt quality from the saved analyses', () => {
+    const { promptQuality } = buildOfflineReport({ sessions, prompts, since, now });
+
+    expect(promptQuality.averageScore).toBe(70);
+    expect(promptQuality.breakdown).toEqual({ excellent: 34, good: 33, fair: 0, poor: 33 });
+    expect(promptQuality.insights).toBe('Most often missing: context (2), constraints (1)');
+    expect(promptQuality.methodology).toContain('3 prompt analyses');
+
+    const empty = buildOfflineReport({ sessions, prompts: [], since, now }).promptQuality;
+    expect(empty.averageScore).toBe(0);
+    expect(empty.breakdown).toEqual({ excellent: 0, good: 0, fair: 0, poor: 0 });
+  });
+
+  it('should build the same report from the same input', () => {
+    const reversed = [...sessions].reverse();
+    expect(buildOfflineReport({ sessions: reversed, prompts, since, now }))
+      .toEqual(buildOfflineReport({ sessions, prompts, since, now }));
+  });
+
+  it('should only count saved analyses of the reported sessions', async () => {
+    vi.mocked(readUsageSessions).mockResolvedValue(sessions);
+    vi.mocked(readPromptHistory).mockResolvedValue([
+      ...prompts,
+      { ...prompt(10, 'poor'), project: 'other' },
+      { ...prompt(20, 'poor'), project: undefined, sessionId: sessions[1].id },
+    ]);
+
+    const report = await generateOfflineReport({ days: 7, now });
+
+    expect(readUsageSessions).toHaveBeenCalledWith({ since, projectPaths: undefined, project: undefined });
+    expect(report.promptQuality.averageScore).toBe(58);
+  });
+
+  it('should put the LLM narration over the offline numbers', () => {
+    const base = buildOfflineReport({ sessions, prompts, since, now });
+    const merged = overlayNarration(base, {
+      metadata: { ...base.metadata, totalSessions: 99 },
+      executiveSummary: ['A focused week on the report pipeline'],
+      keyAccomplishments: [],
+      projectBreakdown: [{ name: 'DevArk', sessions: 5, largestSession: '9h', focus: 'Offline reports' }],
+      promptQuality: { ...base.promptQuality, averageScore: 12, insights: 'Add acceptance criteria' },
+    });
+
+    expect(merged.metadata.totalSessions).toBe(2);
+    expect(merged.executiveSummary).toEqual(['A focused week on the report pipeline']);
+    expect(merged.keyAccomplishments).toEqual(base.keyAccomplishments);
+    expect(merged.projectBreakdown[0]).toEqual({ ...base.projectBreakdown[0], focus: 'Offline reports' });
+    expect(merged.promptQuality.averageScore).toBe(70);
+    expect(merged.promptQuality.insights).toBe('Add acceptance criteria');
+
+    const withoutSessions = buildOfflineReport({ sessions: [], prompts: [], since, now });
+    expect(overlayNarration(withoutSessions, { metadata: base.metadata }).metadata).toEqual(base.metadata);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  ReportRunTracker,
+  createCheckpoint,
+  loadCheckpoint,
+  saveCheckpoint,
+  hashSessionFile,
+  readCachedAnalysis,
+  writeCachedAnalysis,
+  parseSessionAnalyses,
+  pruneAnalysisCache,
+  getReportCacheDir,
+  getSessionAnalysisVersion,
+  ReportPlan,
+} from '../../../../src/lib/reports/report-cache';
+import type { ReportData } from '../../../../src/types/report-data';
+
+const testHome = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('os', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('os')>();
+  return { ...actual, default: { ...actual, homedir: () => testHome.dir }, homedir: () => testHome.dir };
+});
+
+const plan: ReportPlan = {
+  timeframe: '7d',
+  days: 7,
+  since: '2026-10-12T00:00:00.000Z',
+  projects: [{ id: '/home/me/.claude/projects/-work-devark', name: 'devark', path: '/work/devark' }],
+  formats: ['html'],
+};
+
+describe('report cache', () => {
+  beforeEach(async () => {
+    testHome.dir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-report-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testHome.dir, { recursive: true, force: true });
+  });
+
+  it('should find the analyses in a batch analyzer result', () => {
+    const text = 'Here are the results:\n```json\n[{"session_file": "a.jsonl", "prompt_score": 80}, {"note": "no file"}]\n```';
+    expect(parseSessionAnalyses(text)).toEqual([{ session_file: 'a.jsonl', prompt_score: 80 }]);
+    expect(parseSessionAnalyses("[{'session_file': 'a.jsonl'}]")).toEqual([]);
+    expect(parseSessionAnalyses('Report generated')).toEqual([]);
+  });
+
+  it('should key analyses by file content and analyzer version', async () => {
+    const file = path.join(testHome.dir, 'session.jsonl');
+    await fs.writeFile(file, '{"a":1}\n');
+    const hash = await hashSessionFile(file);
+
+    await writeCachedAnalysis(hash, { session_file: 'x_session.jsonl', activity_type: 'Debugging' });
+    expect(await readCachedAnalysis(hash)).toEqual({ session_file: 'x_session.jsonl', activity_type: 'Debugging' });
+
+    await fs.appendFile(file, '{"b":2}\n');
+    expect(await readCachedAnalysis(await hashSessionFile(file))).toBeNull();
+    expect(await fs.readdir(path.join(getReportCacheDir(), 'analyses')))
+      .toEqual([`${hash}-${getSessionAnalysisVersion()}.json`]);
+  });
+
+  it('should cache analyses from the stream and checkpoint each phase', async () => {
+    const tracker = new ReportRunTracker(createCheckpoint(plan), { 'p_a.jsonl': 'hash-a', 'p_b.jsonl': 'hash-b' });
+
+    tracker.recordToolResult('[{"session_file": ".devark-temp/p_a.jsonl", "prompt_score": 70}]');
+    await tracker.flush();
+    expect(await readCachedAnalysis('hash-a')).toEqual({ session_file: 'p_a.jsonl', prompt_score: 70 });
+    expect(tracker.getCheckpoint().phase).toBe('prepared');
+
+    tracker.recordToolResult('[{"session_file": "./p_b.jsonl"}, {"session_file": "unknown.jsonl"}]');
+    await tracker.flush();
+    expect((await loadCheckpoint())?.phase).toBe('analyzed');
+
+    const report = { executiveSummary: ['Done'] } as ReportData;
+    tracker.recordReport(report);
+    await tracker.flush();
+    expect(await loadCheckpoint()).toMatchObject({ phase: 'reported', reportData: report, projects: plan.projects });
+
+    tracker.complete();
+    await tracker.flush();
+    expect(await loadCheckpoint()).toBeNull();
+  });
+
+  it('should ignore checkpoints of another version', async () => {
+    await saveCheckpoint({ ...createCheckpoint(plan), version: 99 });
+    expect(await loadCheckpoint()).toBeNull();
+  });
+
+  it('should prune analyses that were not refreshed for 90 days', async () => {
+    await writeCachedAnalysis('old', { session_file: 'old.jsonl' });
+    await writeCachedAnalysis('new', { session_file: 'new.jsonl' });
+    const oldFile = path.join(getReportCacheDir(), 'analyses', `old-${getSessionAnalysisVersion()}.json`);
+    const longAgo = new Date(Date.now() - 100 * 24 * 60 * 60 * 1000);
+    await fs.utimes(oldFile, longAgo, longAgo);
+
+    expect(await pruneAnalysisCache()).toBe(1);
+    expect(await readCachedAnalysis('old')).toBeNull();
+    expect(await readCachedAnalysis('new')).not.toBeNull();
+  });
+
+  it('should keep analyses that are still being read', async () => {
+    await writeCachedAnalysis('reused', { session_file: 'reused.jsonl' });
+    const file = path.join(getReportCacheDir(), 'analyses', `reused-${getSessionAnalysisVersion()}.json`);
+    const longAgo = new Date(Date.now() - 100 * 24 * 60 * 60 * 1000);
+    await fs.utimes(file, longAgo, longAgo);
+
+    expect(await readCachedAnalysis('reused')).not.toBeNull();
+    expect(await pruneAnalysisCache()).toBe(0);
+  });
+});
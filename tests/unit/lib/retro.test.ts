@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getRetroRanges,
+  buildRetroData,
+  generateRetroData,
+  sparkline,
+  formatRetroMarkdown,
+} from '../../../src/lib/retro';
+import { ReportTemplateEngine, RETRO_TEMPLATE } from '../../../src/lib/report-template-engine';
+import { readAllSessions } from '../../../src/lib/readers/session-sources';
+import { readPromptHistory, PromptHistoryEntry } from '../../../src/lib/prompt-history';
+import { SessionData } from '../../../src/lib/readers/types';
+
+vi.mock('../../../src/lib/readers/session-sources', () => ({
+  readAllSessions: vi.fn(),
+}));
+
+vi.mock('../../../src/lib/prompt-history', () => ({
+  readPromptHistory: vi.fn(),
+}));
+
+// Wednesday, Oct 14 2026, afternoon
+const now = new Date(2026, 9, 14, 15, 30);
+
+function session(projectPath: string, start: Date, hours: number, extra: Partial<SessionData> = {}): SessionData {
+  return {
+    id: `${projectPath}-${start.getTime()}`,
+    projectPath,
+    timestamp: start,
+    messages: [],
+    duration: hours * 3600,
+    tool: 'claude_code',
+    metadata: { files_edited: 0, languages: ['TypeScript'] },
+    ...extra,
+  };
+}
+
+function prompt(timestamp: Date, score: number): PromptHistoryEntry {
+  return { timestamp: timestamp.toISOString(), score, quality: 'good', missing: [] };
+}
+
+const sessions = [
+  // Last week
+  session('/work/devark', new Date(2026, 9, 6, 10), 2, {
+    modelInfo: { models: ['sonnet'], primaryModel: 'sonnet', modelUsage: { sonnet: 10 }, modelSwitches: 0 },
+  }),
+  session('/work/devark', new Date(2026, 9, 8, 10), 1),
+  // This week
+  session('/work/devark', new Date(2026, 9, 12, 9), 3, {
+    planningModeInfo: { hasPlanningMode: true, planningCycles: 2, exitPlanTimestamps: [] },
+    modelInfo: { models: ['opus', 'sonnet'], primaryModel: 'opus', modelUsage: { opus: 30, sonnet: 10 }, modelSwitches: 1 },
+  }),
+  session('/work/site', new Date(2026, 9, 13, 14), 1.5, { metadata: { files_edited: 0, languages: ['CSS'] } }),
+  session('/work/site', new Date(2026, 9, 14, 11), 0.5),
+];
+
+const prompts = [
+  prompt(new Date(2026, 9, 7, 12), 60),
+  prompt(new Date(2026, 9, 12, 10), 70),
+  prompt(new Date(2026, 9, 13, 10), 90),
+];
+
+describe('retro', () => {
+  it('should compare the week so far with the same days of the previous week', () => {
+    const { current, previous } = getRetroRanges('week', now);
+    expect(current.start).toEqual(new Date(2026, 9, 12));
+    expect(current.end).toEqual(now);
+    expect(previous.start).toEqual(new Date(2026, 9, 5));
+    expect(previous.end).toEqual(new Date(2026, 9, 7, 15, 30));
+    expect(previous.label).toBe('Oct 5 - Oct 7, 2026');
+  });
+
+  it('should compare the month so far with the same days of the previous month', () => {
+    const { current, previous } = getRetroRanges('month', now);
+    expect(current.start).toEqual(new Date(2026, 9, 1));
+    expect(current.label).toBe('October 2026');
+    expect(previous.start).toEqual(new Date(2026, 8, 1));
+    expect(previous.end).toEqual(new Date(2026, 8, 14, 15, 30));
+  });
+
+  it('should take the whole previous month when it is shorter than the days so far', () => {
+    const { previous } = getRetroRanges('month', new Date(2026, 2, 31, 9));
+    expect(previous.start).toEqual(new Date(2026, 1, 1));
+    expect(previous.end).toEqual(new Date(2026, 1, 28, 23, 59, 59, 999));
+  });
+
+  it('should compute metrics and deltas for both periods', () => {
+    const data = buildRetroData('week', sessions, prompts, now);
+    const current = data.current.metrics;
+
+    expect(current).toMatchObject({
+      sessions: 3,
+      activeHours: 5,
+      projects: 2,
+      planningSessions: 1,
+      planningCycles: 2,
+      planningShare: 33,
+      promptScore: { prompts: 2, average: 80 },
+    });
+    expect(current.topProjects[0]).toEqual({ name: 'devark', sessions: 1, activeHours: 3 });
+    expect(current.languages).toEqual([{ name: 'TypeScript', sessions: 2 }, { name: 'CSS', sessions: 1 }]);
+    expect(current.models).toEqual([{ model: 'opus', messages: 30, share: 75 }, { model: 'sonnet', messages: 10, share: 25 }]);
+    // Monday to today
+    expect(current.daily.map(day => day.sessions)).toEqual([1, 1, 1]);
+    expect(data.previous.metrics.daily).toHaveLength(3);
+
+    expect(data.deltas.map(item => [item.metric, item.current, item.previous, item.change, item.percent])).toEqual([
+      ['sessions', 3, 1, 2, 200],
+      ['activeHours', 5, 2, 3, 150],
+      ['projects', 2, 1, 1, 100],
+      ['planningShare', 33, 0, 33, null],
+      ['promptScore', 80, 60, 20, 33],
+    ]);
+  });
+
+  it('should draw sparklines scaled to the largest value', () => {
+    expect(sparkline([0, 2, 4, null, 8])).toBe('▁▃▅ █');
+    expect(sparkline([0, 0])).toBe('▁▁');
+  });
+
+  it('should render Markdown with deltas and sparklines', () => {
+    const markdown = formatRetroMarkdown(buildRetroData('week', sessions, prompts, now));
+
+    expect(markdown).toContain('# Weekly Retro - Oct 12 - Oct 18, 2026');
+    expect(markdown).toContain('| Sessions | 3 | 1 | +2 (+200%) |');
+    expect(markdown).toContain('| Planning mode (% of sessions) | 33 | 0 | +33 |');
+    expect(markdown).toContain('Sessions      ███  (last week ▁█▁)');
+    expect(markdown).toContain('- opus: 75% of messages (0% last week)');
+    expect(markdown).toContain('Average score 80/100 over 2 prompts (60/100 last week)');
+  });
+
+  it('should render HTML through the template engine', async () => {
+    const engine = new ReportTemplateEngine();
+    await engine.loadTemplate(RETRO_TEMPLATE);
+
+    const html = engine.generateRetroReport(buildRetroData('week', sessions, prompts, now, 'Dev<Ark>'));
+
+    expect(html).toContain('Weekly Retro - Dev&lt;Ark&gt;');
+    expect(html).toContain('Oct 12 - Oct 18, 2026 compared with Oct 5 - Oct 7, 2026');
+    expect(html).toContain('<span class="delta-up">+2 (+200%)</span>');
+    expect(html).toContain('<polyline');
+    expect(html).not.toMatch(/{{retro\./);
+  });
+
+  it('should insert data with $ replacement patterns literally', async () => {
+    const engine = new ReportTemplateEngine();
+    await engine.loadTemplate(RETRO_TEMPLATE);
+
+    const html = engine.generateRetroReport(buildRetroData('week', sessions, prompts, now, "cost-$&-$'-$`"));
+
+    expect(html).toContain("Weekly Retro - cost-$&amp;-$'-$`");
+    expect(html).not.toMatch(/{{retro\./);
+  });
+
+  it('should read both periods and filter by project', async () => {
+    vi.mocked(readAllSessions).mockResolvedValue(sessions);
+    vi.mocked(readPromptHistory).mockResolvedValue([]);
+
+    const data = await generateRetroData('week', 'site', now);
+
+    expect(readAllSessions).toHaveBeenCalledWith({ since: new Date(2026, 9, 5) });
+    expect(readPromptHistory).toHaveBeenCalledWith({ since: new Date(2026, 9, 5), project: 'site' });
+    expect(data.current.metrics.sessions).toBe(2);
+    expect(data.deltas.map(item => item.metric)).not.toContain('promptScore');
+  });
+});
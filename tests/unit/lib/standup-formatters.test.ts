@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { formatStandup } from '../../../src/lib/standup-formatters';
+import { StandupData } from '../../../src/lib/standup-utils';
+
+const data: StandupData = {
+  yesterday: {
+    date: 'Tuesday, Oct 13',
+    projects: [
+      { name: 'devark', accomplishments: ['Added usage budgets', 'Fixed status line'], duration: '2.5 hours' },
+    ],
+  },
+  todayFocus: ['Ship the budgets release'],
+  blockers: ['Waiting on API review'],
+};
+
+describe('standup formatters', () => {
+  it('should render Markdown', () => {
+    expect(formatStandup(data, 'markdown')).toBe([
+      '## Standup - Tuesday, Oct 13',
+      '',
+      '### What I accomplished',
+      '',
+      '**devark** (2.5 hours)',
+      '- Added usage budgets',
+      '- Fixed status line',
+      '',
+      '### Focus for today',
+      '- Ship the budgets release',
+      '',
+      '### Blockers',
+      '- Waiting on API review',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render Slack mrkdwn', () => {
+    const slack = formatStandup(data, 'slack');
+    expect(slack).toContain('*Standup - Tuesday, Oct 13*');
+    expect(slack).toContain('*devark* _(2.5 hours)_\n• Added usage budgets');
+    expect(slack).not.toContain('**');
+  });
+
+  it('should render plain text without blockers when there are none', () => {
+    const text = formatStandup({ ...data, blockers: [] }, 'text');
+    expect(text).toContain('  devark (2.5 hours)\n    - Added usage budgets');
+    expect(text).not.toContain('Blockers');
+  });
+
+  it('should render JSON in the StandupData shape', () => {
+    expect(JSON.parse(formatStandup(data, 'json'))).toEqual(data);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseStandupDate,
+  resolveStandupPeriod,
+  filterSessionsByProject,
+  buildStandupPrompt,
+  getYesterdayWorkingDay,
+  selectStandupDay,
+} from '../../../src/lib/standup-utils';
+import { DEFAULT_WORKING_CALENDAR } from '../../../src/lib/working-calendar';
+import { SessionData } from '../../../src/lib/readers/types';
+
+// Wednesday, Oct 14 2026, afternoon
+const now = new Date(2026, 9, 14, 15, 30);
+
+describe('standup utils', () => {
+  describe('parseStandupDate', () => {
+    it('should parse ISO dates as local days', () => {
+      expect(parseStandupDate('2026-10-09', now)).toEqual(new Date(2026, 9, 9));
+      expect(parseStandupDate('2026-02-31', now)).toBeNull();
+      expect(parseStandupDate('10/09/2026', now)).toBeNull();
+    });
+
+    it('should parse relative days and weekdays before today', () => {
+      expect(parseStandupDate('today', now)).toEqual(new Date(2026, 9, 14));
+      expect(parseStandupDate('yesterday', now)).toEqual(new Date(2026, 9, 13));
+      expect(parseStandupDate('friday', now)).toEqual(new Date(2026, 9, 9));
+      expect(parseStandupDate('Last Fri', now)).toEqual(new Date(2026, 9, 9));
+      // The same weekday as today means a week ago
+      expect(parseStandupDate('wednesday', now)).toEqual(new Date(2026, 9, 7));
+    });
+  });
+
+  describe('resolveStandupPeriod', () => {
+    it('should return null without date flags', () => {
+      expect(resolveStandupPeriod({}, now)).toBeNull();
+    });
+
+    it('should cover a whole day for --date', () => {
+      const period = resolveStandupPeriod({ date: '2026-10-12' }, now)!;
+      expect(period.start).toEqual(new Date(2026, 9, 12));
+      expect(period.end).toEqual(new Date(2026, 9, 12, 23, 59, 59, 999));
+      expect(period.label).toBe('Monday, Oct 12');
+    });
+
+    it('should run --since up to now unless --until is given', () => {
+      const open = resolveStandupPeriod({ since: 'friday' }, now)!;
+      expect(open.start).toEqual(new Date(2026, 9, 9));
+      expect(open.end).toEqual(now);
+      expect(open.label).toBe('Friday, Oct 9 - Wednesday, Oct 14');
+
+      const closed = resolveStandupPeriod({ since: 'friday', until: 'monday' }, now)!;
+      expect(closed.end).toEqual(new Date(2026, 9, 12, 23, 59, 59, 999));
+    });
+
+    it('should reject invalid combinations', () => {
+      expect(() => resolveStandupPeriod({ date: 'someday' }, now)).toThrow('Invalid --date');
+      expect(() => resolveStandupPeriod({ date: 'today', since: 'friday' }, now)).toThrow('not both');
+      expect(() => resolveStandupPeriod({ until: 'today' }, now)).toThrow('--until needs --since');
+      expect(() => resolveStandupPeriod({ since: 'today', until: 'yesterday' }, now)).toThrow('before --since');
+    });
+  });
+
+  describe('standup day', () => {
+    const sessionOn = (day: number, hour = 10) => ({ timestamp: new Date(2026, 9, day, hour) } as SessionData);
+
+    it('should report the previous working day of the calendar', () => {
+      const monday = new Date(2026, 9, 12, 9);
+      expect(getYesterdayWorkingDay(DEFAULT_WORKING_CALENDAR, monday)).toEqual(new Date(2026, 9, 9));
+      const withDayOff = { ...DEFAULT_WORKING_CALENDAR, pto: new Set(['2026-10-09']) };
+      expect(getYesterdayWorkingDay(withDayOff, monday)).toEqual(new Date(2026, 9, 8));
+    });
+
+    it('should roll an empty day back to the last day with sessions', () => {
+      const friday = new Date(2026, 9, 9);
+      expect(selectStandupDay([sessionOn(7), sessionOn(9, 16)], friday)).toEqual(friday);
+      expect(selectStandupDay([sessionOn(6), sessionOn(7), sessionOn(11)], friday)).toEqual(new Date(2026, 9, 7));
+      // Only weekend work after the target day
+      expect(selectStandupDay([sessionOn(11)], friday)).toEqual(new Date(2026, 9, 11));
+      expect(selectStandupDay([], friday)).toBeNull();
+    });
+  });
+
+  it('should filter sessions by project name, case-insensitive', () => {
+    const sessions = ['/work/devark', '/work/site'].map(projectPath => ({ projectPath } as SessionData));
+    expect(filterSessionsByProject(sessions, 'DevArk').map(s => s.projectPath)).toEqual(['/work/devark']);
+  });
+
+  it('should scope the prompt to an explicit period and list commits', () => {
+    const period = resolveStandupPeriod({ since: 'friday' }, now)!;
+    const prompt = buildStandupPrompt('/tmp', period.start, [{
+      project: 'devark',
+      projectPath: '/work/devark',
+      commits: [{
+        hash: 'abcdef1234567',
+        subject: 'Add login form',
+        authoredAt: new Date(2026, 9, 12),
+        filesChanged: 2,
+        insertions: 12,
+        deletions: 3,
+        files: ['a.ts', 'b.ts'],
+      }],
+      filesChanged: 2,
+      insertions: 12,
+      deletions: 3,
+      hasUpstream: false,
+      pullRequests: [],
+    }], period);
+
+    expect(prompt).toContain('Report on ALL sessions in the manifest - they are all from Friday, Oct 9 - Wednesday, Oct 14');
+    expect(prompt).not.toContain('Ignore any sessions from today');
+    expect(prompt).toContain('devark (branch not pushed yet):\n  - abcdef1 Add login form (+12/-3, 2 files)');
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  parseTeamPolicy,
+  mergeTeamPolicies,
+  loadTeamPolicy,
+  clearTeamPolicyCache,
+  isSyncModeAllowed,
+  resolveSyncMode,
+  checkTeamPolicy,
+  getTeamPolicyViolations,
+  getCliVersion,
+} from '../../../src/lib/team-policy';
+import { getEnterpriseManagedSettingsPath } from '../../../src/lib/claude-fs';
+import { getHookMode, getMergedSettingsForProject } from '../../../src/lib/claude-settings-reader';
+import { DevArkError } from '../../../src/utils/errors';
+
+vi.mock('../../../src/lib/claude-fs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/lib/claude-fs')>()),
+  getEnterpriseManagedSettingsPath: vi.fn(() => null),
+}));
+
+vi.mock('../../../src/lib/claude-settings-reader', () => ({
+  getHookMode: vi.fn(async () => 'none'),
+  getMergedSettingsForProject: vi.fn(async () => ({})),
+}));
+
+vi.mock('../../../src/lib/telemetry', () => ({
+  sendTelemetryUpdate: vi.fn(),
+}));
+
+vi.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('Team Policy', () => {
+  let tempDir: string;
+  let projectDir: string;
+
+  async function writeTeamFile(dir: string, policy: unknown): Promise<void> {
+    await fs.mkdir(path.join(dir, '.devark'), { recursive: true });
+    await fs.writeFile(path.join(dir, '.devark', 'team.json'), JSON.stringify(policy));
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-team-'));
+    projectDir = path.join(tempDir, 'repo', 'packages', 'app');
+    await fs.mkdir(projectDir, { recursive: true });
+    clearTeamPolicyCache();
+    vi.mocked(getEnterpriseManagedSettingsPath).mockReturnValue(null);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseTeamPolicy', () => {
+    it('should accept a complete policy', () => {
+      const policy = {
+        name: 'Acme',
+        minimumVersion: '1.2.0',
+        requiredHooks: ['SessionStart', 'Stop'],
+        allowedSyncModes: ['all', 'selected'],
+        forcedSyncMode: 'selected',
+        redactionRules: [{ name: 'customer', pattern: 'ACME-\\d+', entity: 'CUSTOMER' }],
+      };
+
+      expect(parseTeamPolicy(policy, 'team.json')).toEqual(policy);
+    });
+
+    it.each([
+      [[]],
+      [{ minimumVersion: 'latest' }],
+      [{ requiredHooks: ['OnSave'] }],
+      [{ allowedSyncModes: [] }],
+      [{ allowedSyncModes: ['sometimes'] }],
+      [{ forcedSyncMode: 'none' }],
+      [{ redactionRules: [{ pattern: 'x+' }] }],
+      [{ redactionRules: [{ name: 'customer', pattern: '(broken', entity: 'CUSTOMER' }] }],
+      [{ redactionRules: [{ name: 'customer', pattern: 'x*', entity: 'CUSTOMER' }] }],
+      [{ redactionRules: [{ name: 'customer', pattern: 'x+', entity: 'not an entity' }] }],
+    ])('should reject invalid policies (%#)', (raw) => {
+      expect(() => parseTeamPolicy(raw, 'team.json')).toThrow(DevArkError);
+    });
+
+    it('should reject disabled redaction rules that do not compile', () => {
+      const raw = { redactionRules: [{ name: 'customer', pattern: '(broken', entity: 'CUSTOMER', enabled: false }] };
+
+      expect(() => parseTeamPolicy(raw, 'team.json')).toThrow(expect.objectContaining({
+        code: 'INVALID_TEAM_POLICY',
+        message: expect.stringContaining('redaction rule "customer"'),
+      }));
+    });
+  });
+
+  describe('mergeTeamPolicies', () => {
+    it('should let the override win without loosening the base', () => {
+      const merged = mergeTeamPolicies(
+        {
+          name: 'Repo',
+          minimumVersion: '1.5.0',
+          requiredHooks: ['PreCompact'],
+          allowedSyncModes: ['all', 'selected'],
+          redactionRules: [{ name: 'customer', pattern: 'A\\d+', entity: 'CUSTOMER' }],
+        },
+        {
+          name: 'Org',
+          minimumVersion: '1.2.0',
+          requiredHooks: ['SessionEnd', 'PreCompact'],
+          allowedSyncModes: ['selected', 'none'],
+          forcedSyncMode: 'selected',
+          redactionRules: [{ name: 'customer', pattern: 'B\\d+', entity: 'CUSTOMER' }],
+        }
+      );
+
+      expect(merged).toEqual({
+        name: 'Org',
+        minimumVersion: '1.5.0',
+        requiredHooks: ['PreCompact', 'SessionEnd'],
+        allowedSyncModes: ['selected'],
+        forcedSyncMode: 'selected',
+        redactionRules: [{ name: 'customer', pattern: 'B\\d+', entity: 'CUSTOMER' }],
+      });
+    });
+
+    it('should reject policies that allow no sync mode in common', () => {
+      expect(() => mergeTeamPolicies({ allowedSyncModes: ['all'] }, { allowedSyncModes: ['selected', 'none'] }))
+        .toThrow(expect.objectContaining({ code: 'INVALID_TEAM_POLICY' }));
+    });
+  });
+
+  describe('loadTeamPolicy', () => {
+    it('should find team.json in a parent directory', async () => {
+      await writeTeamFile(path.join(tempDir, 'repo'), { name: 'Acme', requiredHooks: ['SessionStart'] });
+
+      const policy = loadTeamPolicy(projectDir);
+
+      expect(policy?.name).toBe('Acme');
+      expect(policy?.sources).toEqual([path.join(tempDir, 'repo', '.devark', 'team.json')]);
+    });
+
+    it('should return null when there is no policy', () => {
+      expect(loadTeamPolicy(projectDir)).toBeNull();
+      expect(loadTeamPolicy()).toBeNull();
+    });
+
+    it('should ignore an invalid policy file', async () => {
+      await writeTeamFile(projectDir, { requiredHooks: 'all of them' });
+
+      expect(loadTeamPolicy(projectDir)).toBeNull();
+    });
+
+    it('should merge the managed policy over the project policy', async () => {
+      const managedPath = path.join(tempDir, 'managed-settings.json');
+      await fs.writeFile(managedPath, JSON.stringify({ permissions: {}, devark: { name: 'IT', forcedSyncMode: 'all' } }));
+      vi.mocked(getEnterpriseManagedSettingsPath).mockReturnValue(managedPath);
+      await writeTeamFile(projectDir, { name: 'Repo', forcedSyncMode: 'selected' });
+
+      const policy = loadTeamPolicy(projectDir);
+
+      expect(policy?.name).toBe('IT');
+      expect(policy?.forcedSyncMode).toBe('all');
+      expect(policy?.sources).toHaveLength(2);
+      expect(loadTeamPolicy()?.name).toBe('IT');
+    });
+
+    it('should keep the managed policy when the project policy conflicts with it', async () => {
+      const managedPath = path.join(tempDir, 'managed-settings.json');
+      await fs.writeFile(managedPath, JSON.stringify({ devark: { name: 'IT', allowedSyncModes: ['selected'] } }));
+      vi.mocked(getEnterpriseManagedSettingsPath).mockReturnValue(managedPath);
+      await writeTeamFile(projectDir, { name: 'Repo', allowedSyncModes: ['all'] });
+
+      const policy = loadTeamPolicy(projectDir);
+
+      expect(policy).toMatchObject({ name: 'IT', allowedSyncModes: ['selected'], sources: [managedPath] });
+    });
+  });
+
+  describe('sync modes', () => {
+    it('should follow the forced mode', () => {
+      const policy = { forcedSyncMode: 'selected' as const };
+
+      expect(isSyncModeAllowed(policy, 'all')).toBe(false);
+      expect(isSyncModeAllowed(policy, 'selected')).toBe(true);
+      expect(resolveSyncMode(policy, 'all')).toBe('selected');
+    });
+
+    it('should fall back to an allowed mode', () => {
+      expect(resolveSyncMode({ allowedSyncModes: ['selected', 'none'] }, 'all')).toBe('selected');
+      expect(resolveSyncMode({ allowedSyncModes: ['all'] }, 'all')).toBe('all');
+      expect(resolveSyncMode(null, 'all')).toBe('all');
+      expect(isSyncModeAllowed(null, 'none')).toBe(true);
+    });
+  });
+
+  describe('checkTeamPolicy', () => {
+    it('should report every violation', () => {
+      const violations = checkTeamPolicy(
+        { minimumVersion: '2.0.0', requiredHooks: ['SessionStart', 'PreCompact'], allowedSyncModes: ['selected'] },
+        { version: '1.9.3', hookMode: 'all', installedHooks: ['PreCompact'] }
+      );
+
+      expect(violations.map(violation => violation.rule)).toEqual(['minimumVersion', 'requiredHooks', 'syncMode']);
+      expect(violations[1].message).toContain('SessionStart');
+    });
+
+    it('should pass a compliant setup', () => {
+      expect(checkTeamPolicy(
+        { minimumVersion: '1.0.0', requiredHooks: ['PreCompact'], forcedSyncMode: 'all' },
+        { version: '1.0.0', hookMode: 'all', installedHooks: ['PreCompact', 'SessionEnd'] }
+      )).toEqual([]);
+    });
+  });
+
+  describe('getTeamPolicyViolations', () => {
+    it('should check the installed hooks of the project', async () => {
+      vi.mocked(getHookMode).mockResolvedValue('all');
+      vi.mocked(getMergedSettingsForProject).mockResolvedValue({
+        hooks: {
+          PreCompact: [{ matcher: 'auto', hooks: [{ type: 'command', command: 'npx devark-cli send --silent --hook-trigger=precompact' }] }],
+        },
+      });
+      await writeTeamFile(projectDir, { minimumVersion: getCliVersion(), requiredHooks: ['PreCompact', 'SessionEnd'] });
+
+      const violations = await getTeamPolicyViolations(projectDir);
+
+      expect(getMergedSettingsForProject).toHaveBeenCalledWith(projectDir);
+      expect(violations).toEqual([
+        { rule: 'requiredHooks', message: expect.stringContaining('SessionEnd') },
+      ]);
+    });
+
+    it('should return nothing without a policy', async () => {
+      expect(await getTeamPolicyViolations(projectDir)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  findModelPrice,
+  calculateCost,
+  getSessionCost,
+  summarizeTokenUsage,
+  getTranscriptUsage,
+  readUsageSessions,
+  formatTokenCount,
+  formatCost,
+  DEFAULT_MODEL_PRICES,
+} from '../../../src/lib/token-usage';
+import { getModelPriceOverrides } from '../../../src/lib/config';
+import { SessionData, TokenUsage } from '../../../src/lib/readers/types';
+
+const testHome = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('os', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('os')>();
+  return { ...actual, default: { ...actual, homedir: () => testHome.dir }, homedir: () => testHome.dir };
+});
+
+vi.mock('../../../src/lib/config', () => ({
+  getModelPriceOverrides: vi.fn(() => ({})),
+  getSessionSourceSettings: vi.fn(() => ({ cursor: false })),
+  getMaxLineBytes: vi.fn(),
+}));
+
+vi.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function usage(input: number, output: number, cacheRead = 0, cacheWrite = 0): TokenUsage {
+  return { inputTokens: input, outputTokens: output, cacheReadTokens: cacheRead, cacheWriteTokens: cacheWrite };
+}
+
+function session(id: string, projectPath: string, tokenUsage?: Record<string, TokenUsage>): SessionData {
+  return {
+    id,
+    projectPath,
+    timestamp: new Date('2024-01-15T10:00:00Z'),
+    messages: [],
+    duration: 0,
+    tool: 'claude_code',
+    tokenUsage,
+  };
+}
+
+function transcriptLine(id: string, model: string, tokens: Record<string, number>, role = 'assistant'): string {
+  return JSON.stringify({
+    sessionId: 'session-1',
+    cwd: '/home/user/devark',
+    timestamp: new Date().toISOString(),
+    requestId: `req-${id}`,
+    message: { role, id, model, content: 'text', usage: tokens },
+  }) + '\n';
+}
+
+describe('token usage', () => {
+  beforeEach(async () => {
+    testHome.dir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-usage-'));
+    vi.mocked(getModelPriceOverrides).mockReturnValue({});
+  });
+
+  afterEach(async () => {
+    await fs.rm(testHome.dir, { recursive: true, force: true });
+  });
+
+  describe('findModelPrice', () => {
+    it('should match dated model IDs by the longest prefix', () => {
+      expect(findModelPrice('claude-opus-4-1-20250805')).toEqual(DEFAULT_MODEL_PRICES['claude-opus-4']);
+      expect(findModelPrice('claude-opus-4-5-20251101')).toEqual(DEFAULT_MODEL_PRICES['claude-opus-4-5']);
+      expect(findModelPrice('claude-sonnet-4-5-20250929')).toEqual(DEFAULT_MODEL_PRICES['claude-sonnet-4']);
+    });
+
+    it('should prefer configured prices and return null for unknown models', () => {
+      const custom = { input: 1, output: 2, cacheRead: 0, cacheWrite: 0 };
+      vi.mocked(getModelPriceOverrides).mockReturnValue({ 'claude-sonnet-4-5': custom, 'llama3.1': custom });
+
+      expect(findModelPrice('claude-sonnet-4-5-20250929')).toEqual(custom);
+      expect(findModelPrice('claude-sonnet-4-20250514')).toEqual(DEFAULT_MODEL_PRICES['claude-sonnet-4']);
+      expect(findModelPrice('llama3.1')).toEqual(custom);
+      expect(findModelPrice('gpt-unknown')).toBeNull();
+    });
+  });
+
+  it('should price every token kind per million tokens', () => {
+    const cost = calculateCost(usage(1_000_000, 100_000, 2_000_000, 400_000), DEFAULT_MODEL_PRICES['claude-sonnet-4']);
+    // 3 + 1.5 + 0.6 + 1.5
+    expect(cost).toBeCloseTo(6.6);
+  });
+
+  it('should total a session and list unpriced models', () => {
+    const result = getSessionCost({
+      'claude-3-5-haiku-20241022': usage(1_000_000, 0),
+      'mystery-model': usage(500, 500),
+    });
+
+    expect(result.usage).toEqual(usage(1_000_500, 500));
+    expect(result.cost).toBeCloseTo(0.8);
+    expect(result.unpricedModels).toEqual(['mystery-model']);
+  });
+
+  describe('summarizeTokenUsage', () => {
+    const sessions = [
+      session('a', '/work/devark', { 'claude-opus-4-20250514': usage(1_000_000, 0), 'claude-sonnet-4-20250514': usage(1_000_000, 0) }),
+      session('b', '/work/devark', { 'claude-sonnet-4-20250514': usage(1_000_000, 0) }),
+      session('c', '/work/site', { 'claude-sonnet-4-20250514': usage(0, 1_000_000) }),
+      session('d', '/work/cursor-only'),
+    ];
+
+    it('should group by project, most expensive first', () => {
+      const summary = summarizeTokenUsage(sessions, 'project');
+
+      expect(summary.rows.map(row => [row.key, row.sessions, row.cost])).toEqual([
+        ['devark', 2, 21],
+        ['site', 1, 15],
+      ]);
+      expect(summary.total.sessions).toBe(3);
+      expect(summary.total.cost).toBe(36);
+    });
+
+    it('should group by model and count each session once per model', () => {
+      const summary = summarizeTokenUsage(sessions, 'model');
+
+      expect(summary.rows.map(row => [row.key, row.sessions])).toEqual([
+        ['claude-sonnet-4-20250514', 3],
+        ['claude-opus-4-20250514', 1],
+      ]);
+      expect(summary.rows[0].usage).toEqual(usage(2_000_000, 1_000_000));
+    });
+
+    it('should group by session', () => {
+      const summary = summarizeTokenUsage(sessions, 'session');
+      expect(summary.rows.map(row => row.key)).toEqual(['a', 'c', 'b']);
+    });
+  });
+
+  describe('getTranscriptUsage', () => {
+    it('should read usage incrementally and skip synthetic and user entries', async () => {
+      const transcript = path.join(testHome.dir, 'transcript.jsonl');
+      const tokens = { input_tokens: 5, output_tokens: 7, cache_read_input_tokens: 11, cache_creation_input_tokens: 13 };
+      await fs.writeFile(transcript,
+        transcriptLine('msg-1', 'claude-sonnet-4-20250514', tokens) +
+        transcriptLine('msg-1', 'claude-sonnet-4-20250514', tokens) +
+        transcriptLine('msg-2', '<synthetic>', tokens) +
+        transcriptLine('msg-3', 'claude-sonnet-4-20250514', tokens, 'user')
+      );
+
+      expect(await getTranscriptUsage(transcript)).toEqual({
+        'claude-sonnet-4-20250514': usage(5, 7, 11, 13),
+      });
+
+      await fs.appendFile(transcript, transcriptLine('msg-4', 'claude-opus-4-20250514', tokens));
+      expect(await getTranscriptUsage(transcript)).toEqual({
+        'claude-sonnet-4-20250514': usage(5, 7, 11, 13),
+        'claude-opus-4-20250514': usage(5, 7, 11, 13),
+      });
+    });
+
+    it('should return null for a missing transcript', async () => {
+      expect(await getTranscriptUsage(path.join(testHome.dir, 'missing.jsonl'))).toBeNull();
+    });
+  });
+
+  it('should filter usage sessions by project name', async () => {
+    const projectDir = path.join(testHome.dir, '.claude', 'projects', '-home-user-devark');
+    await fs.mkdir(projectDir, { recursive: true });
+    await fs.writeFile(path.join(projectDir, 'session-1.jsonl'),
+      transcriptLine('msg-1', 'claude-sonnet-4-20250514', { input_tokens: 1, output_tokens: 2 }));
+
+    expect(await readUsageSessions({ project: 'DevArk' })).toHaveLength(1);
+    expect(await readUsageSessions({ project: 'other' })).toHaveLength(0);
+    expect(await readUsageSessions({ projectPaths: ['/home/user/devark'] })).toHaveLength(1);
+  });
+
+  it('should format token counts and costs', () => {
+    expect(formatTokenCount(950)).toBe('950');
+    expect(formatTokenCount(12_345)).toBe('12.3k');
+    expect(formatTokenCount(4_200_000)).toBe('4.2M');
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.004)).toBe('<$0.01');
+    expect(formatCost(12.345)).toBe('$12.35');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { AxiosError } from 'axios';
+import {
+  enqueueBatches,
+  getQueuedBatches,
+  getQueuedBatchCount,
+  flushUploadQueue,
+  getUploadQueueDir,
+} from '../../../src/lib/upload-queue';
+import { apiClient, Session } from '../../../src/lib/api-client';
+
+const testHome = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('os', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('os')>();
+  return { ...actual, default: { ...actual, homedir: () => testHome.dir }, homedir: () => testHome.dir };
+});
+
+vi.mock('../../../src/lib/api-client', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/lib/api-client')>();
+  return {
+    ...actual,
+    apiClient: {
+      uploadQueuedBatch: vi.fn(),
+      getBatchChecksum: (sessions: unknown[]) => `checksum-${JSON.stringify(sessions).length}`,
+    },
+  };
+});
+
+vi.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function session(projectName: string): Session {
+  return {
+    tool: 'claude_code',
+    timestamp: '2024-01-15T10:00:00.000Z',
+    duration: 600,
+    data: { projectName, messageSummary: '[]', messageCount: 2, metadata: {} as any },
+  };
+}
+
+function axiosError(status?: number): AxiosError {
+  const error = new AxiosError('Request failed');
+  if (status) {
+    error.response = { status } as any;
+  }
+  return error;
+}
+
+describe('Upload Queue', () => {
+  const mockUpload = vi.mocked(apiClient.uploadQueuedBatch);
+
+  beforeEach(async () => {
+    testHome.dir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-queue-'));
+    mockUpload.mockReset();
+  });
+
+  afterEach(async () => {
+    await fs.rm(testHome.dir, { recursive: true, force: true });
+  });
+
+  it('should store batches under ~/.devark/upload-queue', async () => {
+    const added = await enqueueBatches([[session('a')], [session('bb')]], new Error('socket hang up'));
+
+    expect(added).toBe(2);
+    expect(getUploadQueueDir()).toBe(path.join(testHome.dir, '.devark', 'upload-queue'));
+    const batches = await getQueuedBatches();
+    expect(batches).toHaveLength(2);
+    expect(batches[0]).toMatchObject({ attempts: 1, lastError: 'socket hang up' });
+  });
+
+  it('should not queue the same batch twice', async () => {
+    await enqueueBatches([[session('a')]]);
+    const added = await enqueueBatches([[session('a')]]);
+
+    expect(added).toBe(0);
+    expect(await getQueuedBatchCount()).toBe(1);
+  });
+
+  it('should wait for the backoff unless forced', async () => {
+    await enqueueBatches([[session('a')]]);
+
+    const result = await flushUploadQueue();
+
+    expect(result).toMatchObject({ uploaded: 0, remaining: 1 });
+    expect(mockUpload).not.toHaveBeenCalled();
+  });
+
+  it('should upload and remove batches, counting server duplicates', async () => {
+    await enqueueBatches([[session('a')], [session('bb')]]);
+    mockUpload
+      .mockResolvedValueOnce({ success: true, sessionsProcessed: 1, created: 1, duplicates: 0 })
+      .mockResolvedValueOnce({ success: true, sessionsProcessed: 1, created: 0, duplicates: 1 });
+
+    const result = await flushUploadQueue({ force: true });
+
+    expect(result).toEqual({ uploaded: 2, created: 1, duplicates: 1, failed: 0, dropped: 0, remaining: 0 });
+    expect(await getQueuedBatchCount()).toBe(0);
+    expect(mockUpload).toHaveBeenCalledWith([session('a')], 'checksum-' + JSON.stringify([session('a')]).length);
+  });
+
+  it('should back off further after another server error', async () => {
+    await enqueueBatches([[session('a')]]);
+    mockUpload.mockRejectedValue(axiosError(503));
+
+    const result = await flushUploadQueue({ force: true });
+
+    expect(result).toMatchObject({ failed: 1, remaining: 1 });
+    const [batch] = await getQueuedBatches();
+    expect(batch.attempts).toBe(2);
+    expect(new Date(batch.nextAttemptAt).getTime()).toBeGreaterThan(Date.now() + 60 * 1000);
+  });
+
+  it('should stop after the first network error while offline', async () => {
+    await enqueueBatches([[session('a')], [session('bb')]]);
+    mockUpload.mockRejectedValue(axiosError());
+
+    const result = await flushUploadQueue({ force: true });
+
+    expect(mockUpload).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ failed: 1, remaining: 2 });
+  });
+
+  it('should keep batches on auth errors and drop batches the server rejects', async () => {
+    await enqueueBatches([[session('a')], [session('bb')]]);
+    mockUpload
+      .mockRejectedValueOnce(axiosError(401))
+      .mockRejectedValueOnce(axiosError(400));
+
+    const result = await flushUploadQueue({ force: true });
+
+    expect(result).toMatchObject({ failed: 1, dropped: 1, remaining: 1 });
+    expect(await getQueuedBatchCount()).toBe(1);
+  });
+});
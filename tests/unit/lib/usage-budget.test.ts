@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  evaluateBudgets,
+  getPeriodStart,
+  getTightestCheck,
+  getBudgetExceededMessage,
+  hasBudgets,
+  formatBudgetUsage,
+  formatBudgetRemaining,
+  UsageBudgets,
+} from '../../../src/lib/usage-budget';
+import { DEFAULT_MODEL_PRICES } from '../../../src/lib/token-usage';
+import { SessionData, TokenUsage } from '../../../src/lib/readers/types';
+
+vi.mock('../../../src/lib/config', () => ({
+  getUsageBudgets: vi.fn(() => ({})),
+  getModelPriceOverrides: vi.fn(() => ({})),
+}));
+
+const SONNET = 'claude-sonnet-4-20250514';
+
+function usage(input: number, output = 0): TokenUsage {
+  return { inputTokens: input, outputTokens: output, cacheReadTokens: 0, cacheWriteTokens: 0 };
+}
+
+function session(projectPath: string, days: Record<string, TokenUsage>): SessionData {
+  return {
+    id: projectPath,
+    projectPath,
+    timestamp: new Date(2026, 9, 12, 10),
+    messages: [],
+    duration: 0,
+    tool: 'claude_code',
+    dailyTokenUsage: Object.fromEntries(Object.entries(days).map(([day, tokens]) => [day, { [SONNET]: tokens }])),
+  };
+}
+
+// Wednesday
+const now = new Date(2026, 9, 14, 15, 30);
+
+const sessions = [
+  // $3 on Monday, $1.50 today
+  session('/work/devark', { '2026-10-12': usage(1_000_000), '2026-10-14': usage(500_000) }),
+  // Last week only
+  session('/work/devark', { '2026-10-11': usage(10_000_000) }),
+  // $3 today
+  session('/work/site', { '2026-10-14': usage(1_000_000) }),
+];
+
+describe('usage budgets', () => {
+  it('should start days at local midnight and weeks on Monday', () => {
+    expect(getPeriodStart('daily', now)).toEqual(new Date(2026, 9, 14));
+    expect(getPeriodStart('weekly', now)).toEqual(new Date(2026, 9, 12));
+    // Sunday belongs to the week that started six days earlier
+    expect(getPeriodStart('weekly', new Date(2026, 9, 18, 23))).toEqual(new Date(2026, 9, 12));
+  });
+
+  it('should detect configured budgets', () => {
+    expect(hasBudgets({})).toBe(false);
+    expect(hasBudgets({ global: {}, projects: { devark: {} } })).toBe(false);
+    expect(hasBudgets({ projects: { devark: { weekly: { tokens: 1000 } } } })).toBe(true);
+  });
+
+  it('should check global budgets against all projects', () => {
+    const status = evaluateBudgets(sessions, { global: { daily: { usd: 5 }, weekly: { usd: 10 } } }, undefined, now, DEFAULT_MODEL_PRICES);
+
+    expect(status.checks.map(check => [check.period, check.periodKey, check.used, check.level])).toEqual([
+      ['daily', '2026-10-14', 4.5, 'warning'],
+      ['weekly', '2026-10-12', 7.5, 'ok'],
+    ]);
+    expect(status.level).toBe('warning');
+    expect(getTightestCheck(status)?.period).toBe('daily');
+  });
+
+  it('should check project budgets against that project only', () => {
+    const budgets: UsageBudgets = { projects: { DevArk: { daily: { usd: 1, tokens: 1_000_000 } } } };
+    const status = evaluateBudgets(sessions, budgets, 'devark', now, DEFAULT_MODEL_PRICES);
+
+    expect(status.checks.map(check => [check.scope, check.project, check.unit, check.used, check.level])).toEqual([
+      ['project', 'DevArk', 'usd', 1.5, 'exceeded'],
+      ['project', 'DevArk', 'tokens', 500_000, 'ok'],
+    ]);
+    expect(status.checks[0].remaining).toBe(0);
+    expect(evaluateBudgets(sessions, budgets, 'site', now, DEFAULT_MODEL_PRICES).checks).toEqual([]);
+  });
+
+  it('should describe usage and exceeded budgets', () => {
+    const status = evaluateBudgets(sessions, {
+      global: { daily: { usd: 10 } },
+      projects: { devark: { daily: { usd: 1 } } },
+    }, 'devark', now, DEFAULT_MODEL_PRICES);
+
+    expect(formatBudgetUsage(status.checks[0])).toBe('$4.50 of $10.00 used (45%)');
+    expect(formatBudgetRemaining(status.checks[0])).toBe('$5.50 left');
+    expect(getBudgetExceededMessage(status)).toBe('devark: over budget - Daily budget for devark: $1.50 of $1.00 used (150%)');
+    expect(getBudgetExceededMessage({ ...status, checks: [status.checks[0]] })).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  parseWorkweek,
+  parseDateList,
+  parseIcsHolidays,
+  parseJsonHolidays,
+  loadWorkingCalendar,
+  isWorkingDay,
+  getPreviousWorkingDay,
+  DEFAULT_WORKING_CALENDAR,
+} from '../../../src/lib/working-calendar';
+
+vi.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('working calendar', () => {
+  it('should parse workweeks with ranges, lists and wrap-around', () => {
+    expect(parseWorkweek('mon-fri')).toEqual([1, 2, 3, 4, 5]);
+    expect(parseWorkweek('Sun-Thu')).toEqual([0, 1, 2, 3, 4]);
+    expect(parseWorkweek('monday,tue,thu')).toEqual([1, 2, 4]);
+    expect(parseWorkweek('fri-mon')).toEqual([0, 1, 5, 6]);
+    expect(() => parseWorkweek('weekdays')).toThrow('Invalid workweek');
+  });
+
+  it('should validate days off and ranges', () => {
+    expect(parseDateList('2026-12-24, 2026-12-28..2026-12-31')).toEqual(['2026-12-24', '2026-12-28..2026-12-31']);
+    expect(() => parseDateList('2026-02-30')).toThrow('Invalid date');
+    expect(() => parseDateList('2026-12-31..2026-12-24')).toThrow('Invalid date');
+  });
+
+  it('should read all-day events from iCalendar files', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261225',
+      'DTEND;VALUE=DATE:20261227',
+      'SUMMARY:Christmas',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261003',
+      'SUMMARY:German Unity Day',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseIcsHolidays(ics)).toEqual(['2026-12-25', '2026-12-26', '2026-10-03']);
+  });
+
+  it('should read JSON holiday lists', () => {
+    expect(parseJsonHolidays('["2026-12-25", "not a date"]')).toEqual(['2026-12-25']);
+    expect(parseJsonHolidays('{"holidays": [{"date": "2026-10-03", "name": "Unity Day"}]}')).toEqual(['2026-10-03']);
+  });
+
+  it('should skip weekends, holidays and days off', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'devark-calendar-'));
+    try {
+      const holidaysFile = path.join(dir, 'holidays.json');
+      await fs.writeFile(holidaysFile, JSON.stringify(['2026-10-09']));
+      const calendar = await loadWorkingCalendar({ holidaysFile, pto: ['2026-10-07..2026-10-08'] });
+
+      expect(isWorkingDay(new Date(2026, 9, 9), calendar)).toBe(false);
+      // Monday after a holiday Friday and two days off
+      expect(getPreviousWorkingDay(calendar, new Date(2026, 9, 12, 9))).toEqual(new Date(2026, 9, 6));
+      expect(getPreviousWorkingDay(DEFAULT_WORKING_CALENDAR, new Date(2026, 9, 12, 9))).toEqual(new Date(2026, 9, 9));
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should follow a Sunday-Thursday workweek', () => {
+    const calendar = { ...DEFAULT_WORKING_CALENDAR, workweek: parseWorkweek('sun-thu') };
+    // Sunday reports Thursday, Monday reports Sunday
+    expect(getPreviousWorkingDay(calendar, new Date(2026, 9, 11, 9))).toEqual(new Date(2026, 9, 8));
+    expect(getPreviousWorkingDay(calendar, new Date(2026, 9, 12, 9))).toEqual(new Date(2026, 9, 11));
+  });
+
+  it('should ignore a missing holiday file', async () => {
+    const calendar = await loadWorkingCalendar({ holidaysFile: path.join(os.tmpdir(), 'devark-missing-holidays.ics') });
+    expect(calendar.holidays.size).toBe(0);
+    expect(calendar.workweek).toEqual([1, 2, 3, 4, 5]);
+  });
+});
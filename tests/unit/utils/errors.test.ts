@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import chalk from 'chalk';
-import { DevArkError, handleError, logDebug } from '../../../src/utils/errors';
+import { DevArkError, handleError, logDebug, getExitCode, EXIT_CODES } from '../../../src/utils/errors';
 import { setupTestEnv, cleanupTestEnv } from '../../test-utils';
 
 // Force chalk to use colors in tests
@@ -251,6 +251,30 @@ describe('Error Handling', () => {
     });
   });
 
+  describe('getExitCode', () => {
+    it('should map error codes to documented exit codes', () => {
+      expect(getExitCode(new DevArkError('bad', 'INVALID_INPUT'))).toBe(EXIT_CODES.INVALID_INPUT);
+      expect(getExitCode(new DevArkError('login', 'AUTH_REQUIRED'))).toBe(EXIT_CODES.AUTH_REQUIRED);
+      expect(getExitCode(new DevArkError('token', 'INVALID_TOKEN'))).toBe(EXIT_CODES.AUTH_REQUIRED);
+      expect(getExitCode(new DevArkError('missing', 'PROJECT_NOT_FOUND'))).toBe(EXIT_CODES.NOT_FOUND);
+      expect(getExitCode(new DevArkError('policy', 'POLICY_VIOLATION'))).toBe(EXIT_CODES.POLICY_VIOLATION);
+      expect(getExitCode(new DevArkError('confirm', 'CONFIRMATION_REQUIRED'))).toBe(EXIT_CODES.CONFIRMATION_REQUIRED);
+      expect(getExitCode(new DevArkError('cancel', 'CANCELLED'))).toBe(EXIT_CODES.CONFIRMATION_REQUIRED);
+      expect(getExitCode(new DevArkError('offline', 'NETWORK_ERROR'))).toBe(EXIT_CODES.NETWORK_ERROR);
+    });
+
+    it('should use the generic code for other errors', () => {
+      expect(getExitCode(new DevArkError('other', 'UNKNOWN_CODE'))).toBe(EXIT_CODES.ERROR);
+      expect(getExitCode(new Error('plain'))).toBe(EXIT_CODES.ERROR);
+      expect(getExitCode('string error')).toBe(EXIT_CODES.ERROR);
+    });
+
+    it('should exit handleError with the mapped code', () => {
+      expect(() => handleError(new DevArkError('Policy', 'POLICY_VIOLATION'))).toThrow('Process exited');
+      expect(mockExit).toHaveBeenCalledWith(EXIT_CODES.POLICY_VIOLATION);
+    });
+  });
+
   describe('Color Output', () => {
     it('should use red color for errors', () => {
       const error = new Error('Test error');